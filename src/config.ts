@@ -6,6 +6,17 @@ export const LOAN_DATA_PATH = path.join(DATA_DIR, 'loans.json');
 export const BACKUP_DIR = path.join(DATA_DIR, 'backups');
 export const EXPORT_DIR = path.join(DATA_DIR, 'exports');
 export const LOG_DIR = path.join(DATA_DIR, 'logs');
+export const DOCUMENT_DIR = path.join(DATA_DIR, 'documents');
+export const TEMPLATE_DATA_PATH = path.join(DATA_DIR, 'templates.json');
+export const RECURRING_DATA_PATH = path.join(DATA_DIR, 'recurring.json');
+export const CONTACT_DATA_PATH = path.join(DATA_DIR, 'contacts.json');
+export const HISTORY_DATA_PATH = path.join(DATA_DIR, 'history.json');
+export const DEBT_PLAN_DATA_PATH = path.join(DATA_DIR, 'debt-plans.json');
+export const BUDGET_DATA_PATH = path.join(DATA_DIR, 'budget.json');
+export const HOLIDAY_DATA_PATH = path.join(DATA_DIR, 'holidays.json');
+
+// Number of loan operations that can be undone
+export const UNDO_HISTORY_LIMIT = 20;
 
 // Application configuration
 export const APP_CONFIG = {
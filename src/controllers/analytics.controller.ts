@@ -5,19 +5,31 @@ import Table from 'cli-table3';
 import { createSpinner } from 'nanospinner';
 import { Logger } from '../core/logger';
 import { LoanService } from '../services/loan.service';
-import { AnalyticsService } from '../services/analytics.service';
-import { formatCurrency } from '../utils/format.utils';
+import { BudgetService } from '../services/budget.service';
+import {
+  AnalyticsService,
+  SegmentBreakdown,
+} from '../services/analytics.service';
+import {
+  formatCurrency,
+  formatDate,
+  formatDirection,
+} from '../utils/format.utils';
 import { LoanModel } from '../models/loan.model';
+import { LoanGroupBy } from '../types/loan.types';
 
 export class AnalyticsController {
   private logger: Logger;
   private loanService: LoanService;
   private analyticsService: AnalyticsService;
+  private budgetService: BudgetService;
+  private reportingCurrency?: string;
 
   constructor() {
     this.logger = new Logger();
     this.loanService = new LoanService();
     this.analyticsService = new AnalyticsService();
+    this.budgetService = new BudgetService();
   }
 
   async showAnalyticsDashboard(): Promise<void> {
@@ -25,7 +37,14 @@ export class AnalyticsController {
       console.clear();
       this.displayAnalyticsHeader();
 
-      const loans = await this.loanService.getLoans();
+      // Analytics run on loans restated in the reporting currency
+      const includeTrashed = await this.askIncludeTrashed();
+      const converter = await this.loanService.getCurrencyConverter();
+      this.reportingCurrency = converter.reportingCurrency;
+      const loans = this.loanService.toReportingCurrency(
+        await this.loanService.getLoans(includeTrashed),
+        converter
+      );
 
       if (loans.length === 0) {
         console.log(
@@ -45,6 +64,14 @@ export class AnalyticsController {
         return;
       }
 
+      if (converter.missingRates.size > 0) {
+        console.log(
+          chalk.yellow(
+            `⚠️ No exchange rate for ${Array.from(converter.missingRates).join(', ')}; those amounts are counted unconverted.`
+          )
+        );
+      }
+
       await this.displayStatusDistributionOnly(loans);
       await this.showAnalyticsMenu(loans);
     } catch (error) {
@@ -53,6 +80,22 @@ export class AnalyticsController {
     }
   }
 
+  // Loans in the trash are left out unless asked for, as in exports
+  private async askIncludeTrashed(): Promise<boolean> {
+    const trash = await this.loanService.getTrash();
+    if (trash.length === 0) return false;
+
+    const { includeTrashed } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'includeTrashed',
+        message: `Include the ${trash.length} loan${trash.length === 1 ? '' : 's'} in the trash?`,
+        default: false,
+      },
+    ]);
+    return includeTrashed;
+  }
+
   private displayAnalyticsHeader(): void {
     const header = boxen(
       chalk.blue.bold('📊 ANALYTICS DASHBOARD') +
@@ -79,6 +122,7 @@ export class AnalyticsController {
 
       // Only show Status Distribution
       this.displayStatusDistribution(analytics);
+      this.displayNetPosition(analytics);
     } catch (error) {
       spinner.error({ text: 'Failed to load analytics' });
       throw error;
@@ -106,27 +150,84 @@ export class AnalyticsController {
       [
         chalk.green('✅ Paid'),
         analytics.paidLoans.toString(),
-        formatCurrency(analytics.paidAmount),
+        formatCurrency(analytics.paidAmount, this.reportingCurrency),
         `${((analytics.paidLoans / total) * 100).toFixed(1)}%`,
       ],
       [
         chalk.red('⚠️  Overdue'),
         analytics.overdueLoans.toString(),
-        formatCurrency(analytics.overdueAmount),
+        formatCurrency(analytics.overdueAmount, this.reportingCurrency),
         `${((analytics.overdueLoans / total) * 100).toFixed(1)}%`,
       ],
       [
         chalk.yellow('⏳ Pending'),
         analytics.pendingLoans.toString(),
-        formatCurrency(analytics.pendingAmount),
+        formatCurrency(analytics.pendingAmount, this.reportingCurrency),
         `${((analytics.pendingLoans / total) * 100).toFixed(1)}%`,
       ]
     );
 
+    if (analytics.writtenOffLoans > 0) {
+      statusTable.push([
+        chalk.gray('🚫 Written Off'),
+        analytics.writtenOffLoans.toString(),
+        formatCurrency(analytics.writtenOffAmount, this.reportingCurrency),
+        `${((analytics.writtenOffLoans / total) * 100).toFixed(1)}%`,
+      ]);
+    }
+
+    // Their balances are counted on the loans that replaced them
+    if (analytics.rolledOverLoans > 0) {
+      statusTable.push([
+        chalk.blue('🔗 Rolled Over'),
+        analytics.rolledOverLoans.toString(),
+        chalk.gray('carried'),
+        `${((analytics.rolledOverLoans / total) * 100).toFixed(1)}%`,
+      ]);
+    }
+
     console.log('\n' + chalk.bold('📈 Loan Status Distribution:'));
     console.log(statusTable.toString());
   }
 
+  private displayNetPosition(analytics: any): void {
+    const positionTable = new Table({
+      head: [
+        chalk.green('Direction'),
+        chalk.green('Loans'),
+        chalk.green('Outstanding'),
+      ],
+      style: {
+        head: ['green'],
+        border: ['gray'],
+      },
+      colWidths: [20, 10, 18],
+    });
+
+    positionTable.push(
+      [
+        chalk.red('📤 I Owe'),
+        analytics.payableLoans.toString(),
+        formatCurrency(analytics.payableOutstanding, this.reportingCurrency),
+      ],
+      [
+        chalk.green('📥 Owed to Me'),
+        analytics.receivableLoans.toString(),
+        formatCurrency(analytics.receivableOutstanding, this.reportingCurrency),
+      ],
+      [
+        chalk.bold('⚖️  Net Position'),
+        '',
+        (analytics.netPosition < 0 ? chalk.red : chalk.green)(
+          formatCurrency(analytics.netPosition, this.reportingCurrency)
+        ),
+      ]
+    );
+
+    console.log('\n' + chalk.bold('💱 Net Position:'));
+    console.log(positionTable.toString());
+  }
+
   private async showAnalyticsMenu(loans: LoanModel[]): Promise<void> {
     const { choice } = await inquirer.prompt([
       {
@@ -142,6 +243,10 @@ export class AnalyticsController {
             name: `${chalk.green('👥')} Lender Analysis`,
             value: 'lenders',
           },
+          {
+            name: `${chalk.blue('🏷️')} Categories & Priorities`,
+            value: 'segments',
+          },
           {
             name: `${chalk.magenta('💰')} Interest Analysis`,
             value: 'interest',
@@ -154,6 +259,14 @@ export class AnalyticsController {
             name: `${chalk.cyan('🎯')} Risk Assessment`,
             value: 'risk',
           },
+          {
+            name: `${chalk.red('📉')} Losses & Write-offs`,
+            value: 'losses',
+          },
+          {
+            name: `${chalk.green('💵')} Cash Flow Projection`,
+            value: 'cashflow',
+          },
           new inquirer.Separator(),
           {
             name: `${chalk.gray('🔙')} Back to Main Menu`,
@@ -188,6 +301,9 @@ export class AnalyticsController {
         case 'lenders':
           await this.showLenderAnalysis(loans);
           break;
+        case 'segments':
+          await this.showSegmentBreakdown(loans);
+          break;
         case 'interest':
           await this.showInterestAnalysis(loans);
           break;
@@ -197,6 +313,12 @@ export class AnalyticsController {
         case 'risk':
           await this.showRiskAssessment(loans);
           break;
+        case 'losses':
+          await this.showLossAnalysis(loans);
+          break;
+        case 'cashflow':
+          await this.showCashFlowProjection(loans);
+          break;
       }
 
       spinner.stop();
@@ -255,7 +377,7 @@ export class AnalyticsController {
       monthlyTable.push([
         month.month,
         month.newLoans.toString(),
-        formatCurrency(month.totalAmount),
+        formatCurrency(month.totalAmount, this.reportingCurrency),
         month.paidLoans.toString(),
         month.overdueLoans.toString(),
       ]);
@@ -286,13 +408,15 @@ export class AnalyticsController {
         chalk.green('Loans'),
         chalk.green('Amount'),
         chalk.green('Paid Rate'),
+        chalk.green('Resched.'),
+        chalk.green('Reliability'),
         chalk.green('Risk'),
       ],
       style: {
         head: ['green'],
         border: ['gray'],
       },
-      colWidths: [20, 8, 18, 12, 10],
+      colWidths: [20, 8, 18, 12, 10, 13, 10],
     });
 
     lenderData.forEach(lender => {
@@ -306,8 +430,10 @@ export class AnalyticsController {
       lenderTable.push([
         lender.name,
         lender.totalLoans.toString(),
-        formatCurrency(lender.totalAmount),
+        formatCurrency(lender.totalAmount, this.reportingCurrency),
         `${lender.paymentRate.toFixed(1)}%`,
+        lender.reschedules.toString(),
+        `${lender.reliability.toFixed(1)}%`,
         chalk[riskColor](lender.riskLevel),
       ]);
     });
@@ -315,6 +441,76 @@ export class AnalyticsController {
     console.log(lenderTable.toString());
   }
 
+  private async showSegmentBreakdown(loans: LoanModel[]): Promise<void> {
+    console.log(
+      boxen(
+        chalk.blue.bold('🏷️ CATEGORIES & PRIORITIES'),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'double',
+          borderColor: 'blue',
+          textAlignment: 'center',
+        }
+      )
+    );
+
+    const [categories, priorities] = await Promise.all([
+      this.analyticsService.generateSegmentBreakdown(
+        loans,
+        LoanGroupBy.CATEGORY
+      ),
+      this.analyticsService.generateSegmentBreakdown(
+        loans,
+        LoanGroupBy.PRIORITY
+      ),
+    ]);
+
+    console.log('\n' + chalk.bold('📂 By Category:'));
+    console.log(this.buildSegmentTable('Category', categories).toString());
+
+    console.log('\n' + chalk.bold('🚩 By Priority:'));
+    console.log(this.buildSegmentTable('Priority', priorities).toString());
+  }
+
+  private buildSegmentTable(
+    title: string,
+    segments: SegmentBreakdown[]
+  ): Table.Table {
+    const table = new Table({
+      head: [
+        chalk.blue(title),
+        chalk.blue('Loans'),
+        chalk.blue('Open'),
+        chalk.blue('Overdue'),
+        chalk.blue('Amount'),
+        chalk.blue('Outstanding'),
+        chalk.blue('Share'),
+      ],
+      style: {
+        head: ['blue'],
+        border: ['gray'],
+      },
+      colWidths: [14, 8, 8, 10, 18, 18, 9],
+    });
+
+    segments.forEach(segment => {
+      table.push([
+        segment.label,
+        segment.totalLoans.toString(),
+        segment.openLoans.toString(),
+        segment.overdueLoans > 0
+          ? chalk.red(segment.overdueLoans.toString())
+          : '0',
+        formatCurrency(segment.totalAmount, this.reportingCurrency),
+        formatCurrency(segment.outstanding, this.reportingCurrency),
+        `${segment.amountShare.toFixed(1)}%`,
+      ]);
+    });
+
+    return table;
+  }
+
   private async showInterestAnalysis(loans: LoanModel[]): Promise<void> {
     console.log(
       boxen(
@@ -347,7 +543,7 @@ export class AnalyticsController {
     interestTable.push(
       [
         'Total Interest Earned',
-        formatCurrency(interestData.totalInterest),
+        formatCurrency(interestData.totalInterest, this.reportingCurrency),
         `${interestData.interestPercentage.toFixed(1)}%`,
       ],
       ['Average Interest Rate', `${interestData.averageRate.toFixed(2)}%`, '-'],
@@ -357,14 +553,49 @@ export class AnalyticsController {
         `${interestData.interestLoanPercentage.toFixed(1)}%`,
       ],
       ['Highest Interest Rate', `${interestData.highestRate.toFixed(2)}%`, '-'],
+      [
+        'Interest Accrued to Date',
+        formatCurrency(interestData.accruedInterest, this.reportingCurrency),
+        interestData.totalInterest > 0
+          ? `${((interestData.accruedInterest / interestData.totalInterest) * 100).toFixed(1)}%`
+          : '-',
+      ],
       [
         'Interest Revenue Potential',
-        formatCurrency(interestData.potentialRevenue),
+        formatCurrency(interestData.potentialRevenue, this.reportingCurrency),
         '100%',
       ]
     );
 
     console.log(interestTable.toString());
+
+    const models = Object.entries(interestData.interestByModel);
+    if (models.length === 0) return;
+
+    const modelTable = new Table({
+      head: [
+        chalk.magenta('Interest Model'),
+        chalk.magenta('Loans'),
+        chalk.magenta('Total Interest'),
+        chalk.magenta('Accrued'),
+      ],
+      style: {
+        head: ['magenta'],
+        border: ['gray'],
+      },
+      colWidths: [20, 8, 18, 18],
+    });
+
+    models.forEach(([model, data]) => {
+      modelTable.push([
+        model.replace('_', ' '),
+        data.loans.toString(),
+        formatCurrency(data.interest, this.reportingCurrency),
+        formatCurrency(data.accrued, this.reportingCurrency),
+      ]);
+    });
+
+    console.log(modelTable.toString());
   }
 
   private async showPaymentTrends(loans: LoanModel[]): Promise<void> {
@@ -404,7 +635,7 @@ export class AnalyticsController {
       trendTable.push([
         trend.period,
         trend.payments.toString(),
-        formatCurrency(trend.amount),
+        formatCurrency(trend.amount, this.reportingCurrency),
         `${trendIcon} ${trend.changePercentage.toFixed(1)}%`,
       ]);
     });
@@ -412,6 +643,76 @@ export class AnalyticsController {
     console.log(trendTable.toString());
   }
 
+  private async showCashFlowProjection(loans: LoanModel[]): Promise<void> {
+    console.log(
+      boxen(
+        chalk.green.bold('💵 CASH FLOW PROJECTION'),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'double',
+          borderColor: 'green',
+          textAlignment: 'center',
+        }
+      )
+    );
+
+    const converter = await this.loanService.getCurrencyConverter();
+    const budget = await this.budgetService.getMonthlyBudget(converter);
+    const projection = await this.analyticsService.generateCashFlowProjection(
+      loans,
+      12,
+      budget
+    );
+    const money = (amount: number) =>
+      formatCurrency(amount, this.reportingCurrency);
+
+    const cashFlowTable = new Table({
+      head: [
+        chalk.green('Month'),
+        chalk.green('Free Cash'),
+        chalk.green('Repayments'),
+        chalk.green('DTI'),
+        chalk.green('Collections'),
+        chalk.green('Net'),
+      ],
+      style: {
+        head: ['green'],
+        border: ['gray'],
+      },
+      colWidths: [11, 16, 16, 8, 16, 16],
+    });
+
+    projection.forEach(month => {
+      cashFlowTable.push([
+        month.month,
+        month.freeCash >= 0
+          ? money(month.freeCash)
+          : chalk.red(money(month.freeCash)),
+        money(month.obligations),
+        month.debtToIncome === undefined ? '-' : `${month.debtToIncome}%`,
+        money(month.expectedInflow),
+        month.netCashFlow >= 0
+          ? chalk.green(money(month.netCashFlow))
+          : chalk.red(money(month.netCashFlow)),
+      ]);
+    });
+
+    console.log(
+      chalk.gray(
+        `Income ${money(budget.income)} and expenses ${money(budget.expenses)} a month, from the budget register`
+      )
+    );
+    console.log(cashFlowTable.toString());
+    if (budget.income === 0) {
+      console.log(
+        chalk.yellow(
+          '⚠️ No income recorded; add it under Income & Budget for a full picture.'
+        )
+      );
+    }
+  }
+
   private async showRiskAssessment(loans: LoanModel[]): Promise<void> {
     console.log(
       boxen(
@@ -426,7 +727,11 @@ export class AnalyticsController {
       )
     );
 
-    const riskData = await this.analyticsService.generateRiskAssessment(loans);
+    const defaultPenaltyRule = await this.loanService.getDefaultPenaltyRule();
+    const riskData = await this.analyticsService.generateRiskAssessment(
+      loans,
+      defaultPenaltyRule
+    );
 
     const riskTable = new Table({
       head: [
@@ -481,4 +786,82 @@ export class AnalyticsController {
         )
     );
   }
-}
\ No newline at end of file
+
+  private async showLossAnalysis(loans: LoanModel[]): Promise<void> {
+    console.log(
+      boxen(
+        chalk.red.bold('📉 LOSSES & WRITE-OFFS'),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'double',
+          borderColor: 'red',
+          textAlignment: 'center',
+        }
+      )
+    );
+
+    const lossData = await this.analyticsService.generateLossAnalysis(loans);
+
+    const summaryTable = new Table({
+      head: [chalk.red('Metric'), chalk.red('Value')],
+      style: {
+        head: ['red'],
+        border: ['gray'],
+      },
+      colWidths: [30, 20],
+    });
+
+    summaryTable.push(
+      ['Written-off Loans', lossData.writtenOffLoans.toString()],
+      [
+        'Lost (money I lent)',
+        formatCurrency(lossData.lostAmount, this.reportingCurrency),
+      ],
+      [
+        'Forgiven (money I owed)',
+        formatCurrency(lossData.forgivenAmount, this.reportingCurrency),
+      ],
+      [
+        'Recovered on Closed Loans',
+        formatCurrency(lossData.recoveredAmount, this.reportingCurrency),
+      ],
+      ['Recovery Rate', `${lossData.recoveryRate.toFixed(1)}%`]
+    );
+
+    console.log(summaryTable.toString());
+
+    if (lossData.writeOffs.length === 0) {
+      console.log(chalk.green('\n✅ No loans have been written off.'));
+      return;
+    }
+
+    const writeOffTable = new Table({
+      head: [
+        chalk.red('Name'),
+        chalk.red('Direction'),
+        chalk.red('Amount'),
+        chalk.red('Date'),
+        chalk.red('Reason'),
+      ],
+      style: {
+        head: ['red'],
+        border: ['gray'],
+      },
+      colWidths: [20, 12, 18, 12, 30],
+    });
+
+    lossData.writeOffs.forEach(writeOff => {
+      writeOffTable.push([
+        writeOff.name,
+        formatDirection(writeOff.direction),
+        formatCurrency(writeOff.amount, this.reportingCurrency),
+        formatDate(writeOff.date),
+        writeOff.reason,
+      ]);
+    });
+
+    console.log('\n' + chalk.bold('🚫 Written-off Loans:'));
+    console.log(writeOffTable.toString());
+  }
+}
@@ -5,6 +5,9 @@ import { ConfigManager } from '../core/config-manager';
 import { WelcomeService } from '../services/welcome.service';
 import { MainMenuController } from './main-menu.controller';
 import { StorageService } from '../services/storage.service';
+import { LoanService } from '../services/loan.service';
+import { MigrationService } from '../services/migration.service';
+import { HolidayService } from '../services/holiday.service';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -15,6 +18,9 @@ export class AppController {
   private welcomeService: WelcomeService;
   private mainMenuController: MainMenuController;
   private storageService: StorageService;
+  private loanService: LoanService;
+  private migrationService: MigrationService;
+  private holidayService: HolidayService;
 
   constructor() {
     this.logger = new Logger();
@@ -23,6 +29,9 @@ export class AppController {
     this.welcomeService = new WelcomeService();
     this.mainMenuController = new MainMenuController();
     this.storageService = new StorageService();
+    this.loanService = new LoanService();
+    this.migrationService = new MigrationService();
+    this.holidayService = new HolidayService();
   }
 
   async initialize(): Promise<void> {
@@ -48,9 +57,21 @@ export class AppController {
       // Ensure data directories exist
       await this.ensureDataDirectories();
 
+      // Bring loans.json up to the current schema before anything reads it
+      await this.migrateLoanData();
+
+      // Save the starting holiday calendar so it can be edited
+      await this.seedHolidayCalendar();
+
       // Initialize configuration manager
       await this.configManager.initialize();
 
+      // Drop loans that have outlived the trash retention period
+      await this.purgeExpiredTrash();
+
+      // Add recurring loans due today before the welcome screen shows reminders
+      await this.mainMenuController.generateRecurringLoans();
+
       // Initialize welcome service
       await this.welcomeService.initialize();
 
@@ -61,6 +82,44 @@ export class AppController {
     }
   }
 
+  private async migrateLoanData(): Promise<void> {
+    const report = await this.migrationService.migrate();
+    if (report.steps.length === 0) return;
+
+    console.log(
+      chalk.cyan(
+        `🧬 Loan data upgraded from schema v${report.fromVersion} to v${report.toVersion} (${report.loanCount} loans).`
+      )
+    );
+    console.log(chalk.gray(`   Previous file saved to ${report.backupPath}`));
+  }
+
+  private async seedHolidayCalendar(): Promise<void> {
+    try {
+      const added = await this.holidayService.seedHolidays();
+      if (added > 0) {
+        this.logger.info(`Seeded holiday calendar with ${added} holidays`);
+      }
+    } catch (error) {
+      this.logger.warn('Failed to seed holiday calendar', error as Error);
+    }
+  }
+
+  private async purgeExpiredTrash(): Promise<void> {
+    try {
+      const purged = await this.loanService.purgeExpiredTrash();
+      if (purged > 0) {
+        console.log(
+          chalk.gray(
+            `🧹 Purged ${purged} loan${purged === 1 ? '' : 's'} from the trash after the retention period.`
+          )
+        );
+      }
+    } catch (error) {
+      this.logger.warn('Failed to purge expired trash', error as Error);
+    }
+  }
+
   private async ensureDataDirectories(): Promise<void> {
     const directories = [
       path.join(process.cwd(), 'data'),
@@ -0,0 +1,358 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import boxen from 'boxen';
+import Table from 'cli-table3';
+import { createSpinner } from 'nanospinner';
+import { Logger } from '../core/logger';
+import { AuditService, LoanOperation } from '../services/audit.service';
+import { LoanService } from '../services/loan.service';
+import { AuditAction, LoanAuditLog } from '../types/loan.types';
+import {
+  AuditFilter,
+  formatAuditAction,
+  formatAuditValue,
+} from '../utils/audit.utils';
+import { UNDO_HISTORY_LIMIT } from '../config';
+
+export class AuditController {
+  private logger: Logger;
+  private auditService: AuditService;
+  private loanService: LoanService;
+
+  constructor() {
+    this.logger = new Logger();
+    this.auditService = new AuditService();
+    this.loanService = new LoanService();
+  }
+
+  async showAuditMenu(): Promise<void> {
+    try {
+      console.clear();
+      await this.displayAuditHeader();
+
+      const choice = await this.getAuditMenuChoice();
+
+      if (choice === 'back') {
+        return;
+      }
+
+      await this.handleAuditChoice(choice);
+    } catch (error) {
+      this.logger.error('Error in audit menu', error as Error);
+      console.error(chalk.red('❌ Failed to load history menu'));
+    }
+  }
+
+  private async displayAuditHeader(): Promise<void> {
+    const [enabled, history] = await Promise.all([
+      this.auditService.isEnabled(),
+      this.loanService.getHistory(),
+    ]);
+
+    const header = boxen(
+      chalk.cyan.bold('🕘 HISTORY & UNDO') +
+        '\n' +
+        chalk.gray('Audit Log, Undo & Redo') +
+        '\n\n' +
+        chalk.white('Audit logging: ') +
+        (enabled ? chalk.green('On') : chalk.yellow('Off')) +
+        '\n' +
+        chalk.white('Can undo: ') +
+        chalk.cyan(history.undo.length.toString()) +
+        chalk.white('  Can redo: ') +
+        chalk.cyan(history.redo.length.toString()),
+      {
+        padding: 1,
+        margin: 1,
+        borderStyle: 'double',
+        borderColor: 'cyan',
+        textAlignment: 'center',
+      }
+    );
+
+    console.log(header);
+  }
+
+  private async getAuditMenuChoice(): Promise<string> {
+    const { choice } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'choice',
+        message: chalk.yellow('🕘 Select an option:'),
+        choices: [
+          {
+            name: `${chalk.cyan('📜')} View Audit Log`,
+            value: 'log',
+          },
+          {
+            name: `${chalk.yellow('↩️')} Undo`,
+            value: 'undo',
+          },
+          {
+            name: `${chalk.green('↪️')} Redo`,
+            value: 'redo',
+          },
+          new inquirer.Separator(),
+          {
+            name: `${chalk.gray('🔙')} Back to Main Menu`,
+            value: 'back',
+          },
+        ],
+        pageSize: 8,
+      },
+    ]);
+
+    return choice;
+  }
+
+  private async handleAuditChoice(choice: string): Promise<void> {
+    try {
+      switch (choice) {
+        case 'log':
+          await this.viewAuditLog();
+          break;
+        case 'undo':
+        case 'redo':
+          await this.replayOperations(choice);
+          break;
+      }
+
+      const { continueHistory } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'continueHistory',
+          message: 'Would you like to perform another history operation?',
+          default: false,
+        },
+      ]);
+
+      if (continueHistory) {
+        await this.showAuditMenu();
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error handling history choice: ${choice}`,
+        error as Error
+      );
+      console.error(chalk.red(`❌ Failed to execute ${choice} operation`));
+    }
+  }
+
+  private async viewAuditLog(): Promise<void> {
+    if (!(await this.auditService.isEnabled())) {
+      console.log(
+        chalk.yellow(
+          '⚠️ Audit logging is off, so new changes are not being logged. Turn it on under Settings > Security.'
+        )
+      );
+    }
+
+    const loans = await this.loanService.getLoans();
+    const filter = await this.promptAuditFilter(
+      loans.map(loan => ({
+        name: `${loan.lenderName} - ${loan.repaymentDate} (${loan.id.slice(0, 8)})`,
+        value: loan.id,
+      }))
+    );
+
+    const entries = (await this.auditService.getEntries(filter)).reverse();
+    if (entries.length === 0) {
+      console.log(chalk.yellow('No audit entries match those filters.'));
+      return;
+    }
+
+    const names = new Map(loans.map(loan => [loan.id, loan.lenderName]));
+    const table = new Table({
+      head: [
+        chalk.cyan('When'),
+        chalk.cyan('Loan'),
+        chalk.cyan('Action'),
+        chalk.cyan('Changes'),
+        chalk.cyan('Notes'),
+      ],
+      colWidths: [18, 16, 13, 34, 24],
+      wordWrap: true,
+    });
+
+    entries.slice(0, 50).forEach(entry => {
+      table.push([
+        entry.timestamp.replace('T', ' ').slice(0, 16),
+        names.get(entry.loanId) ||
+          String(
+            entry.oldValues?.lenderName ||
+              entry.newValues?.lenderName ||
+              entry.loanId.slice(0, 8)
+          ),
+        formatAuditAction(entry.action),
+        this.describeChanges(entry),
+        entry.notes || chalk.gray('-'),
+      ]);
+    });
+
+    console.log('\n' + chalk.bold(`📜 Audit Log (${entries.length})`));
+    console.log(table.toString());
+    if (entries.length > 50) {
+      console.log(chalk.gray(`Showing the latest 50 of ${entries.length}`));
+    }
+  }
+
+  private async promptAuditFilter(
+    loanChoices: { name: string; value: string }[]
+  ): Promise<AuditFilter> {
+    const dateFilter = (input: string) =>
+      input.trim() === '' ||
+      /^\d{4}-\d{2}-\d{2}$/.test(input.trim()) ||
+      'Enter a date as YYYY-MM-DD or leave blank';
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Which loan?',
+        choices: [
+          { name: 'All loans', value: '' },
+          new inquirer.Separator(),
+          ...loanChoices,
+        ],
+        pageSize: 12,
+      },
+      {
+        type: 'list',
+        name: 'action',
+        message: 'Which action?',
+        choices: [
+          { name: 'All actions', value: '' },
+          new inquirer.Separator(),
+          ...Object.values(AuditAction).map(action => ({
+            name: formatAuditAction(action),
+            value: action,
+          })),
+        ],
+        pageSize: 12,
+      },
+      {
+        type: 'input',
+        name: 'from',
+        message: 'From date (YYYY-MM-DD, blank for any):',
+        validate: dateFilter,
+      },
+      {
+        type: 'input',
+        name: 'to',
+        message: 'To date (YYYY-MM-DD, blank for any):',
+        validate: dateFilter,
+      },
+    ]);
+
+    return {
+      loanId: answers.loanId || undefined,
+      action: answers.action || undefined,
+      from: answers.from.trim() || undefined,
+      to: answers.to.trim() || undefined,
+    };
+  }
+
+  private describeChanges(entry: LoanAuditLog): string {
+    const fields = Array.from(
+      new Set([
+        ...Object.keys(entry.oldValues || {}),
+        ...Object.keys(entry.newValues || {}),
+      ])
+    );
+    if (fields.length === 0) return chalk.gray('-');
+    if (!entry.oldValues) return `Created with ${fields.length} fields`;
+    if (!entry.newValues && entry.action !== AuditAction.UPDATE) {
+      return `Removed (${fields.length} fields)`;
+    }
+
+    const lines = fields
+      .slice(0, 4)
+      .map(
+        field =>
+          `${field}: ${formatAuditValue(entry.oldValues?.[field])} → ${formatAuditValue(entry.newValues?.[field])}`
+      );
+    if (fields.length > 4) lines.push(chalk.gray(`+${fields.length - 4} more`));
+    return lines.join('\n');
+  }
+
+  // The chosen operation is replayed along with everything after it
+  private async replayOperations(direction: 'undo' | 'redo'): Promise<void> {
+    const history = await this.loanService.getHistory();
+    const operations = [...history[direction]].reverse();
+    if (operations.length === 0) {
+      console.log(chalk.yellow(`Nothing to ${direction}.`));
+      return;
+    }
+
+    const { count } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'count',
+        message:
+          direction === 'undo'
+            ? `Undo back to which operation? (last ${UNDO_HISTORY_LIMIT} are kept)`
+            : 'Redo up to which operation?',
+        choices: [
+          ...operations.map((operation, index) => ({
+            name: this.describeOperation(operation, index + 1),
+            value: index + 1,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 0 },
+        ],
+        pageSize: 12,
+      },
+    ]);
+    if (count === 0) return;
+
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: `${direction === 'undo' ? 'Undo' : 'Redo'} ${count} operation${count === 1 ? '' : 's'}?`,
+        default: true,
+      },
+    ]);
+    if (!confirm) return;
+
+    const spinner = createSpinner(
+      direction === 'undo' ? 'Undoing...' : 'Redoing...'
+    ).start();
+    try {
+      const replayed =
+        direction === 'undo'
+          ? await this.loanService.undo(count)
+          : await this.loanService.redo(count);
+      spinner.success({
+        text: `${direction === 'undo' ? 'Undid' : 'Redid'} ${replayed.map(operation => operation.description.toLowerCase()).join(', ')}`,
+      });
+    } catch (error) {
+      spinner.error({ text: (error as Error).message });
+      throw error;
+    }
+  }
+
+  private describeOperation(
+    operation: LoanOperation,
+    position: number
+  ): string {
+    const names = Array.from(
+      new Set(
+        operation.changes.map(
+          change => (change.after || change.before)!.lenderName
+        )
+      )
+    );
+    const who =
+      names.length > 3
+        ? `${names.slice(0, 3).join(', ')} +${names.length - 3} more`
+        : names.join(', ');
+
+    return (
+      `${position}. ${operation.description}` +
+      chalk.gray(
+        ` - ${who} (${operation.performedAt.replace('T', ' ').slice(0, 16)})`
+      )
+    );
+  }
+}
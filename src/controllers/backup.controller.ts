@@ -5,8 +5,16 @@ import { createSpinner } from 'nanospinner';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { Logger } from '../core/logger';
-import { BackupService, BackupMetadata } from '../services/backup.service';
+import {
+  BackupService,
+  BackupMetadata,
+  RestoreResult,
+} from '../services/backup.service';
 import { LoanService } from '../services/loan.service';
+import {
+  MigrationReport,
+  MigrationService,
+} from '../services/migration.service';
 import { formatCurrency } from '../utils/format.utils';
 
 interface CleanupSuggestion {
@@ -21,11 +29,6 @@ interface CleanupResult {
   remainingBackups: number;
 }
 
-interface RestoreResult {
-  loansRestored: number;
-  settingsRestored: boolean;
-}
-
 interface BackupStatistics {
   totalBackups: number;
   totalSize: string;
@@ -54,11 +57,13 @@ export class BackupController {
   private logger: Logger;
   private backupService: BackupService;
   private loanService: LoanService;
+  private migrationService: MigrationService;
 
   constructor() {
     this.logger = new Logger();
     this.backupService = new BackupService();
     this.loanService = new LoanService();
+    this.migrationService = new MigrationService();
   }
 
   async showBackupMenu(): Promise<void> {
@@ -115,6 +120,14 @@ export class BackupController {
             name: `${chalk.cyan('📋')} List Backups`,
             value: 'list',
           },
+          {
+            name: `${chalk.green('🔍')} Verify Backup`,
+            value: 'verify',
+          },
+          {
+            name: `${chalk.cyan('🧬')} Data Schema & Migrations`,
+            value: 'schema',
+          },
           {
             name: `${chalk.magenta('🔄')} Auto Backup Settings`,
             value: 'auto',
@@ -152,6 +165,12 @@ export class BackupController {
         case 'list':
           await this.listBackups();
           break;
+        case 'verify':
+          await this.verifyBackup();
+          break;
+        case 'schema':
+          await this.manageSchema();
+          break;
         case 'auto':
           await this.configureAutoBackup();
           break;
@@ -372,16 +391,11 @@ export class BackupController {
       }
 
       // Perform restore
-      await this.backupService.restoreBackup(restoreOptions.backupId);
+      const restoreResult: RestoreResult =
+        await this.backupService.restoreBackup(restoreOptions.backupId);
 
       restoreSpinner.success({ text: 'Restore completed successfully!' });
 
-      // Mock restore result for display
-      const restoreResult: RestoreResult = {
-        loansRestored: (await this.loanService.getLoans()).length,
-        settingsRestored: true,
-      };
-
       console.log(
         boxen(
           chalk.green('✅ Restore Completed!') +
@@ -392,6 +406,34 @@ export class BackupController {
             chalk.cyan('⚙️ Settings Restored: ') +
             chalk.white(restoreResult.settingsRestored ? 'Yes' : 'No') +
             '\n' +
+            chalk.cyan('📎 Attachments Restored: ') +
+            chalk.white(restoreResult.attachmentsRestored.toString()) +
+            '\n' +
+            chalk.cyan('📝 Templates Restored: ') +
+            chalk.white(restoreResult.templatesRestored.toString()) +
+            '\n' +
+            chalk.cyan('🔁 Recurring Series Restored: ') +
+            chalk.white(restoreResult.recurringRestored.toString()) +
+            '\n' +
+            chalk.cyan('👥 Contacts Restored: ') +
+            chalk.white(restoreResult.contactsRestored.toString()) +
+            '\n' +
+            chalk.cyan('🎯 Debt Plans Restored: ') +
+            chalk.white(restoreResult.debtPlansRestored.toString()) +
+            '\n' +
+            chalk.cyan('💼 Budget Entries Restored: ') +
+            chalk.white(restoreResult.budgetItemsRestored.toString()) +
+            '\n' +
+            chalk.cyan('📅 Holidays Restored: ') +
+            chalk.white(restoreResult.holidaysRestored.toString()) +
+            '\n' +
+            (restoreResult.migratedFrom !== undefined
+              ? chalk.cyan('🧬 Upgraded From: ') +
+                chalk.white(
+                  `schema v${restoreResult.migratedFrom} (${restoreResult.migrationSteps.length} migration${restoreResult.migrationSteps.length === 1 ? '' : 's'})`
+                ) +
+                '\n'
+              : '') +
             chalk.cyan('🕒 Restore Time: ') +
             chalk.white(new Date().toLocaleString()),
           {
@@ -494,6 +536,143 @@ export class BackupController {
     }
   }
 
+  private async verifyBackup(): Promise<void> {
+    console.log('\n' + chalk.bold('🔍 Verify Backup'));
+
+    const backups = await this.backupService.listBackups();
+    if (backups.length === 0) {
+      console.log(chalk.yellow('📂 No backups found.'));
+      return;
+    }
+
+    const { backupId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'backupId',
+        message: 'Select backup to verify:',
+        choices: [
+          ...backups.map(backup => ({
+            name: `${backup.id} - ${backup.type} (${backup.timestamp})`,
+            value: backup.id,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (backupId === 'cancel') return;
+
+    const spinner = createSpinner('Verifying backup...').start();
+    const result = await this.backupService.verifyBackupDetailed(backupId);
+
+    if (result.valid) {
+      spinner.success({ text: 'Backup is complete and readable' });
+      return;
+    }
+
+    spinner.error({ text: result.error || 'Backup is incomplete' });
+    if (result.missingAttachments.length > 0) {
+      console.log(
+        boxen(
+          chalk.red(
+            `📎 ${result.missingAttachments.length} attachment(s) missing:`
+          ) +
+            '\n\n' +
+            result.missingAttachments
+              .map(
+                missing =>
+                  chalk.white(`• ${missing.name}`) +
+                  chalk.gray(` (loan ${missing.loanId.slice(0, 8)})`)
+              )
+              .join('\n'),
+          {
+            padding: 1,
+            margin: 1,
+            borderStyle: 'round',
+            borderColor: 'red',
+          }
+        )
+      );
+    }
+  }
+
+  private async manageSchema(): Promise<void> {
+    console.log('\n' + chalk.bold('🧬 Data Schema & Migrations'));
+
+    const spinner = createSpinner('Checking loan data...').start();
+    let report: MigrationReport;
+    try {
+      report = await this.migrationService.dryRun();
+      spinner.success({ text: 'Check complete' });
+    } catch (error) {
+      spinner.error({ text: 'Failed to check loan data' });
+      throw error;
+    }
+
+    this.displayMigrationReport(report);
+    if (report.steps.length === 0) return;
+
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: 'Run these migrations now? The current file is copied first.',
+        default: true,
+      },
+    ]);
+    if (!confirm) return;
+
+    const migrateSpinner = createSpinner('Migrating loan data...').start();
+    try {
+      const result = await this.migrationService.migrate();
+      migrateSpinner.success({
+        text: `Loan data upgraded to schema v${result.toVersion}`,
+      });
+      console.log(chalk.gray(`Previous file saved to ${result.backupPath}`));
+    } catch (error) {
+      migrateSpinner.error({ text: 'Failed to migrate loan data' });
+      throw error;
+    }
+  }
+
+  private displayMigrationReport(report: MigrationReport): void {
+    const header =
+      chalk.cyan('Current Schema: ') +
+      chalk.white(`v${report.fromVersion}`) +
+      '\n' +
+      chalk.cyan('Latest Schema: ') +
+      chalk.white(`v${report.toVersion}`) +
+      '\n' +
+      chalk.cyan('Loans: ') +
+      chalk.white(report.loanCount.toString());
+
+    const steps =
+      report.steps.length === 0
+        ? chalk.green('✅ Loan data is up to date.')
+        : chalk.yellow('Pending migrations (dry run):') +
+          '\n' +
+          report.steps
+            .map(
+              step =>
+                chalk.white(`• v${step.version}: ${step.description}`) +
+                chalk.gray(
+                  ` - ${step.loansChanged} loan${step.loansChanged === 1 ? '' : 's'} changed`
+                )
+            )
+            .join('\n');
+
+    console.log(
+      boxen(header + '\n\n' + steps, {
+        padding: 1,
+        margin: 1,
+        borderStyle: 'round',
+        borderColor: report.steps.length === 0 ? 'green' : 'yellow',
+      })
+    );
+  }
+
   private async configureAutoBackup(): Promise<void> {
     console.log('\n' + chalk.bold('🔄 Auto Backup Configuration'));
 
@@ -0,0 +1,372 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import boxen from 'boxen';
+import Table from 'cli-table3';
+import { createSpinner } from 'nanospinner';
+import { Logger } from '../core/logger';
+import { BudgetOverview, BudgetService } from '../services/budget.service';
+import { LoanService } from '../services/loan.service';
+import {
+  BudgetFrequency,
+  BudgetItem,
+  BudgetItemDetails,
+  BudgetItemType,
+} from '../types/loan.types';
+import {
+  formatBudgetFrequency,
+  formatMonth,
+  getMonthlyAmount,
+} from '../utils/budget.utils';
+import { SUPPORTED_CURRENCIES } from '../utils/currency.utils';
+import { formatCurrency } from '../utils/format.utils';
+
+export class BudgetController {
+  private logger: Logger;
+  private budgetService: BudgetService;
+  private loanService: LoanService;
+
+  constructor() {
+    this.logger = new Logger();
+    this.budgetService = new BudgetService();
+    this.loanService = new LoanService();
+  }
+
+  async showBudgetMenu(): Promise<void> {
+    try {
+      console.clear();
+      this.displayBudgetHeader();
+
+      const choice = await this.getBudgetMenuChoice();
+
+      if (choice === 'back') {
+        return;
+      }
+
+      await this.handleBudgetChoice(choice);
+    } catch (error) {
+      this.logger.error('Error in budget menu', error as Error);
+      console.error(chalk.red('❌ Failed to load budget menu'));
+    }
+  }
+
+  private displayBudgetHeader(): void {
+    const header = boxen(
+      chalk.green.bold('💼 INCOME & BUDGET') +
+        '\n' +
+        chalk.gray('What our monthly cash position can absorb'),
+      {
+        padding: 1,
+        margin: 1,
+        borderStyle: 'double',
+        borderColor: 'green',
+        textAlignment: 'center',
+      }
+    );
+
+    console.log(header);
+  }
+
+  private async getBudgetMenuChoice(): Promise<string> {
+    const { choice } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'choice',
+        message: chalk.yellow('💼 Select budget operation:'),
+        choices: [
+          {
+            name: `${chalk.cyan('📊')} Budget Summary`,
+            value: 'summary',
+          },
+          {
+            name: `${chalk.green('💵')} Add Income`,
+            value: 'income',
+          },
+          {
+            name: `${chalk.red('🧾')} Add Recurring Expense`,
+            value: 'expense',
+          },
+          {
+            name: `${chalk.yellow('✏️')} Edit Entry`,
+            value: 'edit',
+          },
+          {
+            name: `${chalk.red('🗑️')} Delete Entry`,
+            value: 'delete',
+          },
+          new inquirer.Separator(),
+          {
+            name: `${chalk.gray('🔙')} Back to Main Menu`,
+            value: 'back',
+          },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    return choice;
+  }
+
+  private async handleBudgetChoice(choice: string): Promise<void> {
+    try {
+      switch (choice) {
+        case 'summary':
+          await this.showBudgetSummary();
+          break;
+        case 'income':
+          await this.addItem(BudgetItemType.INCOME);
+          break;
+        case 'expense':
+          await this.addItem(BudgetItemType.EXPENSE);
+          break;
+        case 'edit':
+          await this.editItem();
+          break;
+        case 'delete':
+          await this.deleteItem();
+          break;
+      }
+
+      const { continueBudget } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'continueBudget',
+          message: 'Would you like to perform another budget operation?',
+          default: false,
+        },
+      ]);
+
+      if (continueBudget) {
+        await this.showBudgetMenu();
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error handling budget choice: ${choice}`,
+        error as Error
+      );
+      console.error(chalk.red(`❌ Failed to execute ${choice} operation`));
+    }
+  }
+
+  private async showBudgetSummary(): Promise<void> {
+    const spinner = createSpinner('Working out the budget...').start();
+    let summary: BudgetOverview;
+    let items: BudgetItem[];
+    try {
+      [summary, items] = await Promise.all([
+        this.budgetService.getSummary(),
+        this.budgetService.getItems(),
+      ]);
+      spinner.stop();
+    } catch (error) {
+      spinner.error({ text: 'Failed to work out the budget' });
+      throw error;
+    }
+
+    if (items.length === 0) {
+      console.log(
+        chalk.yellow('No income or expenses yet. Add some to see the budget.')
+      );
+      return;
+    }
+
+    this.displayItems(items);
+
+    const money = (amount: number) => formatCurrency(amount, summary.currency);
+    const dti = summary.debtToIncome;
+    const table = new Table({
+      head: [chalk.cyan(formatMonth(summary.month)), chalk.cyan('Amount')],
+      colWidths: [30, 20],
+    });
+    table.push(
+      ['Monthly Income', chalk.green(money(summary.income))],
+      ['Recurring Expenses', money(summary.expenses)],
+      ['Loan Repayments Due', money(summary.obligations)],
+      [
+        'Free Cash',
+        summary.freeCash >= 0
+          ? chalk.green(money(summary.freeCash))
+          : chalk.red(money(summary.freeCash)),
+      ],
+      ['Collections Due to Us', money(summary.receipts)],
+      [
+        'Debt-to-Income',
+        dti === undefined
+          ? chalk.gray('No income recorded')
+          : dti > summary.maxShare
+            ? chalk.red(`${dti}%`)
+            : chalk.green(`${dti}%`),
+      ]
+    );
+    console.log('\n' + chalk.bold('📊 This Month'));
+    console.log(table.toString());
+
+    if (summary.missingRates.length > 0) {
+      console.log(
+        chalk.yellow(
+          `⚠️ No exchange rate for ${summary.missingRates.join(', ')}; those amounts were counted unconverted.`
+        )
+      );
+    }
+  }
+
+  private displayItems(items: BudgetItem[]): void {
+    const table = new Table({
+      head: [
+        chalk.cyan('Type'),
+        chalk.cyan('Name'),
+        chalk.cyan('Amount'),
+        chalk.cyan('How Often'),
+        chalk.cyan('Per Month'),
+      ],
+      colWidths: [10, 24, 16, 15, 16],
+    });
+
+    [...items]
+      .sort(
+        (a, b) => b.type.localeCompare(a.type) || a.name.localeCompare(b.name)
+      )
+      .forEach(item => {
+        table.push([
+          item.type === BudgetItemType.INCOME
+            ? chalk.green('Income')
+            : chalk.red('Expense'),
+          item.name,
+          formatCurrency(item.amount, item.currency),
+          formatBudgetFrequency(item.frequency),
+          formatCurrency(getMonthlyAmount(item), item.currency),
+        ]);
+      });
+
+    console.log('\n' + chalk.bold('💼 Budget Register'));
+    console.log(table.toString());
+  }
+
+  private async addItem(type: BudgetItemType): Promise<void> {
+    const label = type === BudgetItemType.INCOME ? 'Income' : 'Expense';
+    console.log('\n' + chalk.bold(`➕ Add ${label}`));
+
+    const details = await this.promptItemDetails(type);
+    const item = await this.budgetService.addItem(details);
+    console.log(
+      chalk.green(
+        `✅ ${label} "${item.name}" added (${formatCurrency(getMonthlyAmount(item), item.currency)} a month).`
+      )
+    );
+  }
+
+  private async editItem(): Promise<void> {
+    const item = await this.selectItem('Select an entry to edit:');
+    if (!item) return;
+
+    const details = await this.promptItemDetails(item.type, item);
+    await this.budgetService.updateItem(item.id, details);
+    console.log(chalk.green(`✅ "${details.name.trim()}" updated.`));
+  }
+
+  private async deleteItem(): Promise<void> {
+    const item = await this.selectItem('Select an entry to delete:');
+    if (!item) return;
+
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: `Delete "${item.name}"?`,
+        default: false,
+      },
+    ]);
+    if (!confirm) return;
+
+    await this.budgetService.deleteItem(item.id);
+    console.log(chalk.green(`✅ "${item.name}" deleted.`));
+  }
+
+  private async selectItem(message: string): Promise<BudgetItem | undefined> {
+    const items = await this.budgetService.getItems();
+    if (items.length === 0) {
+      console.log(chalk.yellow('The budget register is empty.'));
+      return undefined;
+    }
+
+    const { itemId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'itemId',
+        message,
+        choices: [
+          ...items.map(item => ({
+            name: `${item.type === BudgetItemType.INCOME ? '💵' : '🧾'} ${item.name} - ${formatCurrency(item.amount, item.currency)} ${formatBudgetFrequency(item.frequency).toLowerCase()}`,
+            value: item.id,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 12,
+      },
+    ]);
+    return items.find(item => item.id === itemId);
+  }
+
+  private async promptItemDetails(
+    type: BudgetItemType,
+    current?: BudgetItem
+  ): Promise<BudgetItemDetails> {
+    const { homeCurrency } = await this.loanService.getCurrencyConverter();
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'name',
+        message:
+          type === BudgetItemType.INCOME
+            ? 'Income source (e.g. Salary):'
+            : 'Expense (e.g. Rent):',
+        default: current?.name,
+        validate: (input: string) =>
+          input.trim().length > 0 || 'Name cannot be empty',
+      },
+      {
+        type: 'list',
+        name: 'currency',
+        message: 'Currency:',
+        choices: Object.keys(SUPPORTED_CURRENCIES).map(code => ({
+          name: `${code} (${SUPPORTED_CURRENCIES[code].trim()})`,
+          value: code,
+        })),
+        default: current?.currency || homeCurrency,
+      },
+      {
+        type: 'number',
+        name: 'amount',
+        message: (answers: any) => `Amount each time (${answers.currency}):`,
+        default: current?.amount,
+        validate: (input: number) =>
+          input > 0 || 'Amount must be greater than 0',
+      },
+      {
+        type: 'list',
+        name: 'frequency',
+        message: 'How often:',
+        choices: Object.values(BudgetFrequency).map(frequency => ({
+          name: formatBudgetFrequency(frequency),
+          value: frequency,
+        })),
+        default: current?.frequency || BudgetFrequency.MONTHLY,
+      },
+      {
+        type: 'input',
+        name: 'notes',
+        message: 'Notes (optional):',
+        default: current?.notes,
+      },
+    ]);
+
+    return {
+      type,
+      name: answers.name,
+      amount: answers.amount,
+      currency: answers.currency,
+      frequency: answers.frequency,
+      notes: answers.notes?.trim() || undefined,
+    };
+  }
+}
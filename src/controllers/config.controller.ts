@@ -5,20 +5,44 @@ import { createSpinner } from 'nanospinner';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { Logger } from '../core/logger';
-import { ConfigManager } from '../core/config-manager';
-import { formatCurrency } from '../utils/format.utils';
+import { ConfigManager, DueDateSettings } from '../core/config-manager';
+import { HolidayService } from '../services/holiday.service';
+import { formatCurrency, formatDate } from '../utils/format.utils';
+import { formatPenaltyRule } from '../utils/penalty.utils';
+import {
+  isValidCurrencyCode,
+  parseExchangeRatesCsv,
+} from '../utils/currency.utils';
+import {
+  RISK_WEIGHTS,
+  RiskFactor,
+  formatRiskFactor,
+  validateRiskThresholds,
+} from '../utils/risk.utils';
+import { formatWeekendRule } from '../utils/due-date.utils';
+import { hasLunarHolidays } from '../utils/holiday.utils';
+import {
+  ExchangeRate,
+  Holiday,
+  PenaltyPeriod,
+  RiskThresholds,
+  WeekendRule,
+} from '../types/loan.types';
 
 export class ConfigController {
   private logger: Logger;
   private configManager: ConfigManager;
+  private holidayService: HolidayService;
 
   constructor() {
     this.logger = new Logger();
     this.configManager = new ConfigManager();
+    this.holidayService = new HolidayService();
   }
 
   async showConfigMenu(): Promise<void> {
     try {
+      await this.configManager.initialize();
       console.clear();
       this.displayConfigHeader();
 
@@ -86,6 +110,26 @@ export class ConfigController {
             name: `${chalk.blue('🌍')} Locale & Language Settings`,
             value: 'locale',
           },
+          {
+            name: `${chalk.red('⚖️')} Penalty & Late Fee Settings`,
+            value: 'penalties',
+          },
+          {
+            name: `${chalk.yellow('🎯')} Risk Level Thresholds`,
+            value: 'risk',
+          },
+          {
+            name: `${chalk.green('💼')} Affordability Warnings`,
+            value: 'affordability',
+          },
+          {
+            name: `${chalk.blue('📅')} Due Dates & Holidays`,
+            value: 'dueDates',
+          },
+          {
+            name: `${chalk.green('💱')} Exchange Rates & Reporting Currency`,
+            value: 'exchangeRates',
+          },
           new inquirer.Separator(),
           {
             name: `${chalk.cyan('📤')} Export Settings`,
@@ -177,6 +221,21 @@ export class ConfigController {
         case 'locale':
           await this.configureLocaleSettings();
           break;
+        case 'penalties':
+          await this.configurePenaltySettings();
+          break;
+        case 'risk':
+          await this.configureRiskThresholds();
+          break;
+        case 'affordability':
+          await this.configureAffordability();
+          break;
+        case 'dueDates':
+          await this.configureDueDates();
+          break;
+        case 'exchangeRates':
+          await this.configureExchangeRates();
+          break;
         case 'export':
           await this.exportSettings();
           break;
@@ -624,7 +683,14 @@ export class ConfigController {
           chalk.white('Compression: ') +
           (currentSettings.compression
             ? chalk.green('Enabled')
-            : chalk.red('Disabled')),
+            : chalk.red('Disabled')) +
+          '\n' +
+          chalk.white('Trash Retention: ') +
+          chalk.yellow(
+            currentSettings.trashRetentionDays > 0
+              ? `${currentSettings.trashRetentionDays} days`
+              : 'Keep until purged'
+          ),
         {
           padding: 1,
           margin: 1,
@@ -677,6 +743,15 @@ export class ConfigController {
         message: 'Enable data compression?',
         default: currentSettings.compression,
       },
+      {
+        type: 'number',
+        name: 'trashRetentionDays',
+        message: 'Days to keep deleted loans in the trash (0 = until purged):',
+        default: currentSettings.trashRetentionDays,
+        validate: input =>
+          (Number.isInteger(input) && input >= 0) ||
+          'Enter a whole number of days, 0 or more',
+      },
     ]);
 
     const spinner = createSpinner('Updating storage settings...').start();
@@ -699,7 +774,14 @@ export class ConfigController {
             chalk.white(newSettings.maxFileSize) +
             '\n' +
             chalk.cyan('Compression: ') +
-            chalk.white(newSettings.compression ? 'Enabled' : 'Disabled'),
+            chalk.white(newSettings.compression ? 'Enabled' : 'Disabled') +
+            '\n' +
+            chalk.cyan('Trash Retention: ') +
+            chalk.white(
+              newSettings.trashRetentionDays > 0
+                ? `${newSettings.trashRetentionDays} days`
+                : 'Keep until purged'
+            ),
           {
             padding: 1,
             margin: 1,
@@ -715,6 +797,782 @@ export class ConfigController {
     }
   }
 
+  private async configurePenaltySettings(): Promise<void> {
+    console.log('\n' + chalk.bold('⚖️ Penalty & Late Fee Settings'));
+
+    const currentSettings = await this.configManager.getPenaltySettings();
+    const rule = currentSettings.defaultRule;
+
+    console.log(
+      boxen(
+        chalk.cyan('Current Penalty Settings:') +
+          '\n\n' +
+          chalk.white('Default Penalties: ') +
+          (currentSettings.enabled
+            ? chalk.green('Enabled')
+            : chalk.red('Disabled')) +
+          '\n' +
+          chalk.white('Default Rule: ') +
+          chalk.yellow(formatPenaltyRule(rule)) +
+          '\n\n' +
+          chalk.gray('Loans with their own rule are not affected.'),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'cyan',
+        }
+      )
+    );
+
+    const newSettings = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'enabled',
+        message: 'Apply a default penalty to overdue loans?',
+        default: currentSettings.enabled,
+      },
+      {
+        type: 'number',
+        name: 'fixedFee',
+        message: 'Fixed late fee per overdue amount:',
+        default: rule.fixedFee,
+        when: answers => answers.enabled,
+        validate: input => input >= 0 || 'Fee cannot be negative',
+      },
+      {
+        type: 'number',
+        name: 'rate',
+        message: 'Penalty rate (% of the overdue amount):',
+        default: rule.rate,
+        when: answers => answers.enabled,
+        validate: input =>
+          (input >= 0 && input <= 100) || 'Rate must be between 0 and 100',
+      },
+      {
+        type: 'list',
+        name: 'ratePeriod',
+        message: 'Charge the rate:',
+        choices: [
+          { name: 'Per day overdue', value: PenaltyPeriod.DAY },
+          { name: 'Per week overdue', value: PenaltyPeriod.WEEK },
+        ],
+        default: rule.ratePeriod,
+        when: answers => answers.enabled,
+      },
+      {
+        type: 'number',
+        name: 'graceDays',
+        message: 'Grace days before penalties start:',
+        default: rule.graceDays,
+        when: answers => answers.enabled,
+        validate: input =>
+          (Number.isInteger(input) && input >= 0) ||
+          'Enter a whole number of days',
+      },
+      {
+        type: 'number',
+        name: 'maxPercent',
+        message: 'Cap penalties at % of principal (0 for no cap):',
+        default: rule.maxPercent || 0,
+        when: answers => answers.enabled,
+        validate: input => input >= 0 || 'Cap cannot be negative',
+      },
+      {
+        type: 'number',
+        name: 'maxAmount',
+        message: 'Cap penalties at a fixed amount (0 for no cap):',
+        default: rule.maxAmount || 0,
+        when: answers => answers.enabled,
+        validate: input => input >= 0 || 'Cap cannot be negative',
+      },
+    ]);
+
+    const spinner = createSpinner('Updating penalty settings...').start();
+
+    try {
+      const defaultRule = newSettings.enabled
+        ? {
+            fixedFee: newSettings.fixedFee,
+            rate: newSettings.rate,
+            ratePeriod: newSettings.ratePeriod,
+            graceDays: newSettings.graceDays,
+            maxPercent: newSettings.maxPercent || undefined,
+            maxAmount: newSettings.maxAmount || undefined,
+          }
+        : rule;
+
+      await this.configManager.updatePenaltySettings({
+        enabled: newSettings.enabled,
+        defaultRule,
+      });
+      spinner.success({ text: 'Penalty settings updated successfully!' });
+
+      console.log(
+        boxen(
+          chalk.green('✅ Penalty Settings Updated!') +
+            '\n\n' +
+            chalk.cyan('Default Penalties: ') +
+            chalk.white(newSettings.enabled ? 'Enabled' : 'Disabled') +
+            '\n' +
+            chalk.cyan('Default Rule: ') +
+            chalk.white(formatPenaltyRule(defaultRule)),
+          {
+            padding: 1,
+            margin: 1,
+            borderStyle: 'round',
+            borderColor: 'green',
+            textAlignment: 'left',
+          }
+        )
+      );
+    } catch (error) {
+      spinner.error({ text: 'Failed to update penalty settings' });
+      throw error;
+    }
+  }
+
+  private async configureRiskThresholds(): Promise<void> {
+    console.log('\n' + chalk.bold('🎯 Risk Level Thresholds'));
+
+    const current = await this.configManager.getRiskThresholds();
+
+    console.log(
+      boxen(
+        chalk.cyan('Current Risk Thresholds:') +
+          '\n\n' +
+          this.formatRiskBands(current) +
+          '\n\n' +
+          chalk.white('Each loan scores 0-100 from:') +
+          '\n' +
+          (Object.keys(RISK_WEIGHTS) as RiskFactor[])
+            .map(factor =>
+              chalk.gray(
+                `  ${formatRiskFactor(factor)}: up to ${RISK_WEIGHTS[factor]} points`
+              )
+            )
+            .join('\n'),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'cyan',
+        }
+      )
+    );
+
+    const score = (input: number) =>
+      (Number.isInteger(input) && input >= 0 && input <= 100) ||
+      'Enter a whole number from 0 to 100';
+    const thresholds: RiskThresholds = await inquirer.prompt([
+      {
+        type: 'number',
+        name: 'lowRisk',
+        message: 'Highest score that is still low risk:',
+        default: current.lowRisk,
+        validate: score,
+      },
+      {
+        type: 'number',
+        name: 'mediumRisk',
+        message: 'Highest score that is medium risk:',
+        default: current.mediumRisk,
+        validate: (input, answers) =>
+          score(input) === true && input <= answers.lowRisk
+            ? 'Must be above the low risk threshold'
+            : score(input),
+      },
+      {
+        type: 'number',
+        name: 'highRisk',
+        message: 'Highest score that is high risk (above is critical):',
+        default: current.highRisk,
+        validate: (input, answers) =>
+          score(input) === true && input <= answers.mediumRisk
+            ? 'Must be above the medium risk threshold'
+            : score(input),
+      },
+    ]);
+
+    const spinner = createSpinner('Updating risk thresholds...').start();
+
+    try {
+      const error = validateRiskThresholds(thresholds);
+      if (error) {
+        throw new Error(error);
+      }
+
+      await this.configManager.updateRiskThresholds(thresholds);
+      spinner.success({ text: 'Risk thresholds updated successfully!' });
+
+      console.log(
+        boxen(
+          chalk.green('✅ Risk Thresholds Updated!') +
+            '\n\n' +
+            this.formatRiskBands(thresholds),
+          {
+            padding: 1,
+            margin: 1,
+            borderStyle: 'round',
+            borderColor: 'green',
+            textAlignment: 'left',
+          }
+        )
+      );
+    } catch (error) {
+      spinner.error({ text: 'Failed to update risk thresholds' });
+      throw error;
+    }
+  }
+
+  private formatRiskBands(thresholds: RiskThresholds): string {
+    return (
+      chalk.green('Low: ') +
+      chalk.white(`0-${thresholds.lowRisk}`) +
+      '\n' +
+      chalk.yellow('Medium: ') +
+      chalk.white(`${thresholds.lowRisk + 1}-${thresholds.mediumRisk}`) +
+      '\n' +
+      chalk.red('High: ') +
+      chalk.white(`${thresholds.mediumRisk + 1}-${thresholds.highRisk}`) +
+      '\n' +
+      chalk.magenta('Critical: ') +
+      chalk.white(`${thresholds.highRisk + 1}-100`)
+    );
+  }
+
+  private async configureAffordability(): Promise<void> {
+    console.log('\n' + chalk.bold('💼 Affordability Warnings'));
+
+    const current = await this.configManager.getAffordabilitySettings();
+
+    console.log(
+      boxen(
+        chalk.cyan('Current Affordability Settings:') +
+          '\n\n' +
+          chalk.white(
+            `Warnings: ${current.enabled ? chalk.green('On') : chalk.red('Off')}`
+          ) +
+          '\n' +
+          chalk.white(
+            `Most of monthly income that may fall due: ${current.maxObligationShare}%`
+          ) +
+          '\n\n' +
+          chalk.gray(
+            'New loans are checked against the income and expenses in the budget register.'
+          ),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'cyan',
+        }
+      )
+    );
+
+    const settings = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'enabled',
+        message: 'Warn when a new loan stretches the budget?',
+        default: current.enabled,
+      },
+      {
+        type: 'number',
+        name: 'maxObligationShare',
+        message: 'Most of monthly income that may fall due in a month (%):',
+        default: current.maxObligationShare,
+        when: (answers: any) => answers.enabled,
+        validate: (input: number) =>
+          (input > 0 && input <= 100) || 'Enter a percentage from 1 to 100',
+      },
+    ]);
+
+    const spinner = createSpinner('Updating affordability settings...').start();
+
+    try {
+      await this.configManager.updateAffordabilitySettings(settings);
+      spinner.success({ text: 'Affordability settings updated successfully!' });
+    } catch (error) {
+      spinner.error({ text: 'Failed to update affordability settings' });
+      throw error;
+    }
+  }
+
+  private async configureDueDates(): Promise<void> {
+    console.log('\n' + chalk.bold('📅 Due Dates & Holidays'));
+
+    const current = await this.configManager.getDueDateSettings();
+    const holidays = await this.holidayService.getHolidays();
+    const today = new Date().toISOString().split('T')[0];
+    const upcoming = holidays
+      .filter(holiday => holiday.date >= today)
+      .slice(0, 5);
+
+    console.log(
+      boxen(
+        chalk.cyan('Current Due Date Rules:') +
+          '\n\n' +
+          chalk.white('Grace Days: ') +
+          chalk.yellow(current.graceDays.toString()) +
+          '\n' +
+          chalk.white('Weekends & Holidays: ') +
+          chalk.yellow(formatWeekendRule(current.weekendRule)) +
+          '\n' +
+          chalk.white('Holidays in Calendar: ') +
+          chalk.yellow(holidays.length.toString()) +
+          '\n\n' +
+          (upcoming.length
+            ? chalk.cyan('Coming Up:') +
+              '\n' +
+              upcoming
+                .map(
+                  holiday =>
+                    chalk.white(`${formatDate(holiday.date)} `) +
+                    chalk.gray(holiday.name)
+                )
+                .join('\n')
+            : chalk.gray('No upcoming holidays')) +
+          '\n\n' +
+          chalk.gray(
+            'A loan is late once its due date, moved off weekends and holidays, and the grace days have passed.'
+          ),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'cyan',
+        }
+      )
+    );
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          { name: '⏳ Set grace days and weekend rule', value: 'rules' },
+          {
+            name: '📋 View all holidays',
+            value: 'list',
+            disabled: holidays.length === 0,
+          },
+          { name: '➕ Add a holiday', value: 'add' },
+          {
+            name: '🗑️ Remove a holiday',
+            value: 'remove',
+            disabled: holidays.length === 0,
+          },
+          { name: '🇳🇬 Load Nigerian public holidays', value: 'preset' },
+          { name: '📥 Import holidays from ICS or CSV', value: 'import' },
+          { name: '🔙 Back', value: 'back' },
+        ],
+      },
+    ]);
+
+    switch (action) {
+      case 'rules':
+        await this.setDueDateRules(current);
+        break;
+      case 'list':
+        this.listHolidays(holidays);
+        break;
+      case 'add':
+        await this.addHoliday();
+        break;
+      case 'remove':
+        await this.removeHoliday(holidays);
+        break;
+      case 'preset':
+        await this.loadNigerianHolidays();
+        break;
+      case 'import':
+        await this.importHolidays();
+        break;
+    }
+  }
+
+  private async setDueDateRules(current: DueDateSettings): Promise<void> {
+    const settings = await inquirer.prompt([
+      {
+        type: 'number',
+        name: 'graceDays',
+        message: 'Grace days after the due date before a loan is late:',
+        default: current.graceDays,
+        validate: (input: number) =>
+          (Number.isInteger(input) && input >= 0) ||
+          'Enter a whole number of days (0 or more)',
+      },
+      {
+        type: 'list',
+        name: 'weekendRule',
+        message: 'When a due date falls on a weekend or holiday:',
+        choices: Object.values(WeekendRule).map(rule => ({
+          name: formatWeekendRule(rule),
+          value: rule,
+        })),
+        default: current.weekendRule,
+      },
+    ]);
+
+    const spinner = createSpinner('Updating due date rules...').start();
+
+    try {
+      await this.configManager.updateDueDateSettings(settings);
+      spinner.success({ text: 'Due date rules updated successfully!' });
+    } catch (error) {
+      spinner.error({ text: 'Failed to update due date rules' });
+      throw error;
+    }
+  }
+
+  private listHolidays(holidays: Holiday[]): void {
+    console.log('\n' + chalk.bold('📋 Holiday Calendar'));
+    holidays.forEach(holiday =>
+      console.log(
+        chalk.white(`${formatDate(holiday.date)}  `) + chalk.gray(holiday.name)
+      )
+    );
+  }
+
+  private async addHoliday(): Promise<void> {
+    const details = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'date',
+        message: 'Date (YYYY-MM-DD):',
+        validate: input =>
+          (/^\d{4}-\d{2}-\d{2}$/.test(input) &&
+            !isNaN(new Date(input).getTime())) ||
+          'Please enter a valid date (YYYY-MM-DD)',
+      },
+      {
+        type: 'input',
+        name: 'name',
+        message: 'Holiday name:',
+        validate: input => input.trim().length > 0 || 'Name cannot be empty',
+      },
+    ]);
+
+    const spinner = createSpinner('Adding holiday...').start();
+
+    try {
+      const holiday = await this.holidayService.addHoliday(details);
+      spinner.success({
+        text: `${holiday.name} added on ${formatDate(holiday.date)}`,
+      });
+    } catch (error) {
+      spinner.error({ text: 'Failed to add holiday' });
+      console.error(chalk.red((error as Error).message));
+    }
+  }
+
+  private async removeHoliday(holidays: Holiday[]): Promise<void> {
+    const { selected } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'selected',
+        message: 'Select the holiday to remove:',
+        choices: holidays.map(holiday => ({
+          name: `${formatDate(holiday.date)} ${holiday.name}`,
+          value: holiday,
+        })),
+        pageSize: 12,
+      },
+    ]);
+
+    const spinner = createSpinner('Removing holiday...').start();
+
+    try {
+      await this.holidayService.deleteHoliday(selected.id);
+      spinner.success({ text: `${selected.name} removed` });
+    } catch (error) {
+      spinner.error({ text: 'Failed to remove holiday' });
+      throw error;
+    }
+  }
+
+  private async loadNigerianHolidays(): Promise<void> {
+    const { year } = await inquirer.prompt([
+      {
+        type: 'number',
+        name: 'year',
+        message: 'Load holidays for which year?',
+        default: new Date().getFullYear(),
+        validate: (input: number) =>
+          (Number.isInteger(input) && input >= 1900 && input <= 2100) ||
+          'Enter a year such as 2026',
+      },
+    ]);
+
+    const spinner = createSpinner(
+      'Loading Nigerian public holidays...'
+    ).start();
+
+    try {
+      const result = await this.holidayService.addNigerianHolidays(year);
+      spinner.success({
+        text:
+          `Added ${result.added} holiday${result.added === 1 ? '' : 's'} for ${year}` +
+          (result.skipped > 0
+            ? ` (${result.skipped} already in the calendar)`
+            : ''),
+      });
+    } catch (error) {
+      spinner.error({ text: 'Failed to load holidays' });
+      throw error;
+    }
+
+    if (!hasLunarHolidays(year)) {
+      console.log(
+        chalk.yellow(
+          `Eid and Maulud dates for ${year} are not known yet; add them once the Federal Government announces them.`
+        )
+      );
+    }
+  }
+
+  private async importHolidays(): Promise<void> {
+    const { filename } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'filename',
+        message: 'Enter .ics or CSV file path (date,name):',
+        validate: async input => {
+          if (!input.trim()) return 'Filename cannot be empty';
+          try {
+            await fs.access(input);
+            return true;
+          } catch {
+            return 'File not found or not accessible';
+          }
+        },
+      },
+    ]);
+
+    const spinner = createSpinner('Importing holidays...').start();
+
+    try {
+      const result = await this.holidayService.importHolidays(filename);
+      spinner.success({
+        text:
+          `Imported ${result.added} holiday${result.added === 1 ? '' : 's'}` +
+          (result.skipped > 0
+            ? ` (${result.skipped} already in the calendar)`
+            : ''),
+      });
+    } catch (error) {
+      spinner.error({ text: 'Failed to import holidays' });
+      console.error(chalk.red((error as Error).message));
+    }
+  }
+
+  private async configureExchangeRates(): Promise<void> {
+    console.log('\n' + chalk.bold('💱 Exchange Rates & Reporting Currency'));
+
+    const { currency: homeCurrency } =
+      await this.configManager.getCurrencySettings();
+    const currentSettings = await this.configManager.getExchangeRateSettings();
+
+    const rateLines = currentSettings.rates.length
+      ? currentSettings.rates
+          .map(
+            rate =>
+              chalk.white(`${rate.currency} `) +
+              chalk.yellow(`${rate.rate} ${homeCurrency}`) +
+              chalk.gray(` from ${rate.effectiveDate}`)
+          )
+          .join('\n')
+      : chalk.gray('No exchange rates recorded');
+
+    console.log(
+      boxen(
+        chalk.cyan('Current Exchange Rates:') +
+          '\n\n' +
+          chalk.white('Home Currency: ') +
+          chalk.yellow(homeCurrency) +
+          '\n' +
+          chalk.white('Reporting Currency: ') +
+          chalk.yellow(currentSettings.reportingCurrency) +
+          '\n\n' +
+          rateLines +
+          '\n\n' +
+          chalk.gray(`Rates are the value of one unit in ${homeCurrency}.`),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'cyan',
+        }
+      )
+    );
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          { name: '➕ Add or update a rate', value: 'add' },
+          {
+            name: '🗑️ Remove a rate',
+            value: 'remove',
+            disabled: currentSettings.rates.length === 0,
+          },
+          { name: '📥 Import rates from CSV', value: 'import' },
+          { name: '📊 Set reporting currency', value: 'reporting' },
+          { name: '🔙 Back', value: 'back' },
+        ],
+      },
+    ]);
+
+    switch (action) {
+      case 'add':
+        await this.addExchangeRate(homeCurrency);
+        break;
+      case 'remove':
+        await this.removeExchangeRate(currentSettings.rates);
+        break;
+      case 'import':
+        await this.importExchangeRates();
+        break;
+      case 'reporting':
+        await this.setReportingCurrency(currentSettings.reportingCurrency);
+        break;
+    }
+  }
+
+  private async addExchangeRate(homeCurrency: string): Promise<void> {
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'currency',
+        message: 'Currency code (e.g. USD):',
+        filter: input => input.trim().toUpperCase(),
+        validate: input =>
+          (isValidCurrencyCode(input) && input !== homeCurrency) ||
+          `Enter a 3-letter code other than ${homeCurrency}`,
+      },
+      {
+        type: 'number',
+        name: 'rate',
+        message: answers =>
+          `Value of 1 ${answers.currency} in ${homeCurrency}:`,
+        validate: input => input > 0 || 'Rate must be greater than 0',
+      },
+      {
+        type: 'input',
+        name: 'effectiveDate',
+        message: 'Effective from (YYYY-MM-DD):',
+        default: new Date().toISOString().split('T')[0],
+        validate: input =>
+          (/^\d{4}-\d{2}-\d{2}$/.test(input) &&
+            !isNaN(new Date(input).getTime())) ||
+          'Please enter a valid date (YYYY-MM-DD)',
+      },
+    ]);
+
+    const spinner = createSpinner('Saving exchange rate...').start();
+
+    try {
+      await this.configManager.saveExchangeRates([answers as ExchangeRate]);
+      spinner.success({
+        text: `1 ${answers.currency} = ${answers.rate} ${homeCurrency} from ${answers.effectiveDate}`,
+      });
+    } catch (error) {
+      spinner.error({ text: 'Failed to save exchange rate' });
+      throw error;
+    }
+  }
+
+  private async removeExchangeRate(rates: ExchangeRate[]): Promise<void> {
+    const { selected } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'selected',
+        message: 'Select the rate to remove:',
+        choices: rates.map(rate => ({
+          name: `${rate.currency} ${rate.rate} from ${rate.effectiveDate}`,
+          value: rate,
+        })),
+      },
+    ]);
+
+    const spinner = createSpinner('Removing exchange rate...').start();
+
+    try {
+      await this.configManager.removeExchangeRate(
+        selected.currency,
+        selected.effectiveDate
+      );
+      spinner.success({ text: 'Exchange rate removed' });
+    } catch (error) {
+      spinner.error({ text: 'Failed to remove exchange rate' });
+      throw error;
+    }
+  }
+
+  private async importExchangeRates(): Promise<void> {
+    const { filename } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'filename',
+        message: 'Enter CSV file path (currency,rate,effective_date):',
+        validate: async input => {
+          if (!input.trim()) return 'Filename cannot be empty';
+          try {
+            await fs.access(input);
+            return true;
+          } catch {
+            return 'File not found or not accessible';
+          }
+        },
+      },
+    ]);
+
+    const spinner = createSpinner('Importing exchange rates...').start();
+
+    try {
+      const content = await fs.readFile(filename, 'utf-8');
+      const rates = parseExchangeRatesCsv(content);
+      await this.configManager.saveExchangeRates(rates);
+      spinner.success({
+        text: `Imported ${rates.length} exchange rate${rates.length === 1 ? '' : 's'}`,
+      });
+    } catch (error) {
+      spinner.error({ text: 'Failed to import exchange rates' });
+      console.error(chalk.red((error as Error).message));
+      this.logger.error('Exchange rate import failed', error as Error);
+    }
+  }
+
+  private async setReportingCurrency(current: string): Promise<void> {
+    const { reportingCurrency } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'reportingCurrency',
+        message: 'Report totals in (currency code):',
+        default: current,
+        filter: input => input.trim().toUpperCase(),
+        validate: input =>
+          isValidCurrencyCode(input) || 'Enter a 3-letter currency code',
+      },
+    ]);
+
+    const spinner = createSpinner('Updating reporting currency...').start();
+
+    try {
+      await this.configManager.setReportingCurrency(reportingCurrency);
+      spinner.success({
+        text: `Totals will be reported in ${reportingCurrency}`,
+      });
+    } catch (error) {
+      spinner.error({ text: 'Failed to update reporting currency' });
+      throw error;
+    }
+  }
+
   private async configureSecuritySettings(): Promise<void> {
     console.log('\n' + chalk.bold('🔒 Security Settings'));
 
@@ -1030,6 +1888,19 @@ export class ConfigController {
           { name: 'Storage Settings', value: 'storage', checked: true },
           { name: 'Security Settings', value: 'security', checked: false },
           { name: 'Locale Settings', value: 'locale', checked: true },
+          { name: 'Penalty Settings', value: 'penalties', checked: true },
+          { name: 'Risk Thresholds', value: 'risk', checked: true },
+          {
+            name: 'Affordability Settings',
+            value: 'affordability',
+            checked: true,
+          },
+          { name: 'Due Date Rules', value: 'dueDates', checked: true },
+          {
+            name: 'Exchange Rates',
+            value: 'exchangeRates',
+            checked: true,
+          },
         ],
         validate: input => input.length > 0 || 'Select at least one section',
       },
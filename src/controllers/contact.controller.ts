@@ -0,0 +1,526 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import boxen from 'boxen';
+import Table from 'cli-table3';
+import { createSpinner } from 'nanospinner';
+import { Logger } from '../core/logger';
+import { ContactProfile, ContactService } from '../services/contact.service';
+import { LoanService } from '../services/loan.service';
+import { Contact, ContactDetails } from '../types/loan.types';
+import {
+  formatCurrency,
+  formatDate,
+  formatDirection,
+} from '../utils/format.utils';
+import { isValidPhoneNumber } from '../utils/validation.utils';
+
+export class ContactController {
+  private logger: Logger;
+  private contactService: ContactService;
+  private loanService: LoanService;
+
+  constructor() {
+    this.logger = new Logger();
+    this.contactService = new ContactService();
+    this.loanService = new LoanService();
+  }
+
+  async showContactMenu(): Promise<void> {
+    try {
+      console.clear();
+      this.displayContactHeader();
+      await this.linkLoans();
+
+      const choice = await this.getContactMenuChoice();
+
+      if (choice === 'back') {
+        return;
+      }
+
+      await this.handleContactChoice(choice);
+    } catch (error) {
+      this.logger.error('Error in contact menu', error as Error);
+      console.error(chalk.red('❌ Failed to load contacts menu'));
+    }
+  }
+
+  private displayContactHeader(): void {
+    const header = boxen(
+      chalk.cyan.bold('👥 CONTACTS') +
+        '\n' +
+        chalk.gray('Lenders & Borrowers Directory'),
+      {
+        padding: 1,
+        margin: 1,
+        borderStyle: 'double',
+        borderColor: 'cyan',
+        textAlignment: 'center',
+      }
+    );
+
+    console.log(header);
+  }
+
+  // New loans are matched to people by phone number before anything is shown
+  private async linkLoans(): Promise<void> {
+    const { linked, created } = await this.contactService.linkLoans();
+    if (linked > 0) {
+      console.log(
+        chalk.gray(
+          `🔗 Linked ${linked} loan${linked === 1 ? '' : 's'} to contacts (${created} new)`
+        )
+      );
+    }
+  }
+
+  private async getContactMenuChoice(): Promise<string> {
+    const { choice } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'choice',
+        message: chalk.yellow('👥 Select contact operation:'),
+        choices: [
+          {
+            name: `${chalk.cyan('📇')} Browse Contacts`,
+            value: 'browse',
+          },
+          {
+            name: `${chalk.green('➕')} Add Contact`,
+            value: 'add',
+          },
+          {
+            name: `${chalk.yellow('✏️')} Edit Contact`,
+            value: 'edit',
+          },
+          {
+            name: `${chalk.magenta('🔀')} Find & Merge Duplicates`,
+            value: 'duplicates',
+          },
+          {
+            name: `${chalk.blue('🔗')} Merge Contacts Manually`,
+            value: 'merge',
+          },
+          new inquirer.Separator(),
+          {
+            name: `${chalk.gray('🔙')} Back to Main Menu`,
+            value: 'back',
+          },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    return choice;
+  }
+
+  private async handleContactChoice(choice: string): Promise<void> {
+    try {
+      switch (choice) {
+        case 'browse':
+          await this.browseContacts();
+          break;
+        case 'add':
+          await this.addContact();
+          break;
+        case 'edit':
+          await this.editContact();
+          break;
+        case 'duplicates':
+          await this.mergeDuplicates();
+          break;
+        case 'merge':
+          await this.mergeManually();
+          break;
+      }
+
+      const { continueContacts } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'continueContacts',
+          message: 'Would you like to perform another contact operation?',
+          default: false,
+        },
+      ]);
+
+      if (continueContacts) {
+        await this.showContactMenu();
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error handling contact choice: ${choice}`,
+        error as Error
+      );
+      console.error(chalk.red(`❌ Failed to execute ${choice} operation`));
+    }
+  }
+
+  private async browseContacts(): Promise<void> {
+    const contacts = await this.contactService.getContacts();
+    if (contacts.length === 0) {
+      console.log(chalk.yellow('No contacts yet. Add a loan or a contact.'));
+      return;
+    }
+
+    const loans = await this.loanService.getLoans();
+    const table = new Table({
+      head: [
+        chalk.cyan('Name'),
+        chalk.cyan('Phone Numbers'),
+        chalk.cyan('Also Known As'),
+        chalk.cyan('Loans'),
+      ],
+      colWidths: [20, 20, 24, 7],
+      wordWrap: true,
+    });
+
+    contacts.forEach(contact => {
+      table.push([
+        contact.name,
+        contact.phoneNumbers.join('\n') || chalk.gray('-'),
+        contact.aliases.join(', ') || chalk.gray('-'),
+        loans.filter(loan => loan.contactId === contact.id).length.toString(),
+      ]);
+    });
+
+    console.log('\n' + chalk.bold('📇 Contacts'));
+    console.log(table.toString());
+
+    const contactId = await this.selectContact(
+      contacts,
+      'Open a contact page:',
+      true
+    );
+    if (contactId) {
+      await this.showContactPage(contactId);
+    }
+  }
+
+  private async showContactPage(contactId: string): Promise<void> {
+    const spinner = createSpinner('Loading contact...').start();
+    let profile: ContactProfile | null;
+    try {
+      profile = await this.contactService.getProfile(contactId);
+      spinner.stop();
+    } catch (error) {
+      spinner.error({ text: 'Failed to load contact' });
+      throw error;
+    }
+
+    if (!profile) {
+      console.log(chalk.red('❌ Contact not found.'));
+      return;
+    }
+
+    const { contact, summary, reportingCurrency } = profile;
+    const money = (amount: number) => formatCurrency(amount, reportingCurrency);
+
+    console.log(
+      boxen(
+        chalk.cyan.bold(`👤 ${contact.name}`) +
+          '\n\n' +
+          chalk.white('Phone: ') +
+          chalk.cyan(contact.phoneNumbers.join(', ') || 'None') +
+          '\n' +
+          (contact.aliases.length > 0
+            ? chalk.white('Also known as: ') +
+              chalk.gray(contact.aliases.join(', ')) +
+              '\n'
+            : '') +
+          (contact.notes
+            ? chalk.white('Notes: ') + chalk.gray(contact.notes) + '\n'
+            : '') +
+          '\n' +
+          chalk.white('Loans: ') +
+          chalk.cyan(
+            `${summary.totalLoans} (${summary.openLoans} open, ${summary.paidLoans} paid)`
+          ) +
+          '\n' +
+          chalk.white('Overdue: ') +
+          (summary.overdueLoans > 0
+            ? chalk.red(summary.overdueLoans.toString())
+            : chalk.green('0')) +
+          '\n' +
+          chalk.white('Borrowed from them: ') +
+          chalk.yellow(money(summary.borrowed)) +
+          chalk.gray(` (${money(summary.owedByMe)} still owed)`) +
+          '\n' +
+          chalk.white('Lent to them: ') +
+          chalk.yellow(money(summary.lent)) +
+          chalk.gray(` (${money(summary.owedToMe)} still due)`) +
+          '\n' +
+          chalk.white('Net position: ') +
+          (summary.owedToMe >= summary.owedByMe
+            ? chalk.green(money(summary.owedToMe - summary.owedByMe))
+            : chalk.red(`-${money(summary.owedByMe - summary.owedToMe)}`)),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'cyan',
+        }
+      )
+    );
+
+    if (profile.loans.length === 0) {
+      console.log(chalk.gray('No loans linked to this contact yet.'));
+      return;
+    }
+
+    const table = new Table({
+      head: [
+        chalk.cyan('Due'),
+        chalk.cyan('Name on Loan'),
+        chalk.cyan('Direction'),
+        chalk.cyan('Amount'),
+        chalk.cyan('Outstanding'),
+        chalk.cyan('Status'),
+      ],
+      colWidths: [12, 16, 12, 14, 14, 11],
+    });
+
+    profile.loans.forEach(loan => {
+      table.push([
+        formatDate(loan.repaymentDate),
+        loan.lenderName,
+        formatDirection(loan.getDirection()),
+        formatCurrency(loan.amount, loan.currency),
+        formatCurrency(loan.getOutstandingBalance(), loan.currency),
+        loan.isOverdue()
+          ? chalk.red(loan.getStatus())
+          : loan.isPaid
+            ? chalk.green(loan.getStatus())
+            : loan.getStatus(),
+      ]);
+    });
+
+    console.log(table.toString());
+  }
+
+  private async addContact(): Promise<void> {
+    console.log('\n' + chalk.bold('➕ Add Contact'));
+    const details = await this.promptContactDetails();
+
+    const spinner = createSpinner('Saving contact...').start();
+    try {
+      const contact = await this.contactService.createContact(details);
+      spinner.success({ text: `${contact.name} added` });
+    } catch (error) {
+      spinner.error({ text: 'Failed to add contact' });
+      throw error;
+    }
+  }
+
+  private async editContact(): Promise<void> {
+    const contacts = await this.contactService.getContacts();
+    const contactId = await this.selectContact(contacts, 'Edit which contact?');
+    if (!contactId) return;
+
+    const contact = contacts.find(c => c.id === contactId)!;
+    const details = await this.promptContactDetails(contact);
+
+    const spinner = createSpinner('Saving contact...').start();
+    try {
+      const updated = await this.contactService.updateContact(
+        contact.id,
+        details
+      );
+      if (!updated) {
+        spinner.error({ text: 'Contact not found' });
+        return;
+      }
+      spinner.success({ text: `${updated.name} updated` });
+    } catch (error) {
+      spinner.error({ text: 'Failed to update contact' });
+      throw error;
+    }
+  }
+
+  private async mergeDuplicates(): Promise<void> {
+    const duplicates = await this.contactService.findDuplicates();
+    if (duplicates.length === 0) {
+      console.log(chalk.green('✅ No likely duplicates found.'));
+      return;
+    }
+
+    console.log(
+      chalk.bold(
+        `\n🔀 ${duplicates.length} possible duplicate group${duplicates.length === 1 ? '' : 's'}`
+      )
+    );
+
+    for (const duplicate of duplicates) {
+      console.log(
+        '\n' +
+          chalk.cyan(duplicate.contacts.map(c => c.name).join(' / ')) +
+          chalk.gray(` - ${duplicate.reasons.join('; ')}`)
+      );
+
+      const { targetId } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'targetId',
+          message: 'Keep which record? The others are merged into it.',
+          choices: [
+            ...duplicate.contacts.map(contact => ({
+              name: this.describeContact(contact),
+              value: contact.id,
+            })),
+            new inquirer.Separator(),
+            { name: chalk.gray('Not the same person - skip'), value: 'skip' },
+          ],
+        },
+      ]);
+
+      if (targetId === 'skip') continue;
+
+      await this.runMerge(
+        targetId,
+        duplicate.contacts.filter(c => c.id !== targetId).map(c => c.id)
+      );
+    }
+  }
+
+  private async mergeManually(): Promise<void> {
+    const contacts = await this.contactService.getContacts();
+    if (contacts.length < 2) {
+      console.log(chalk.yellow('At least two contacts are needed to merge.'));
+      return;
+    }
+
+    const targetId = await this.selectContact(contacts, 'Keep which contact?');
+    if (!targetId) return;
+
+    const { sourceIds } = await inquirer.prompt([
+      {
+        type: 'checkbox',
+        name: 'sourceIds',
+        message: 'Merge which contacts into it?',
+        choices: contacts
+          .filter(contact => contact.id !== targetId)
+          .map(contact => ({
+            name: this.describeContact(contact),
+            value: contact.id,
+          })),
+        validate: (input: string[]) =>
+          input.length > 0 || 'Select at least one contact',
+        pageSize: 12,
+      },
+    ]);
+
+    await this.runMerge(targetId, sourceIds);
+  }
+
+  private async runMerge(targetId: string, sourceIds: string[]): Promise<void> {
+    const spinner = createSpinner('Merging contacts...').start();
+    try {
+      const merged = await this.contactService.mergeContacts(
+        targetId,
+        sourceIds
+      );
+      if (!merged) {
+        spinner.error({ text: 'Contacts not found' });
+        return;
+      }
+      spinner.success({
+        text: `Merged into ${merged.name} (${merged.phoneNumbers.length} phone number${merged.phoneNumbers.length === 1 ? '' : 's'}, ${merged.aliases.length} alias${merged.aliases.length === 1 ? '' : 'es'})`,
+      });
+    } catch (error) {
+      spinner.error({ text: 'Failed to merge contacts' });
+      throw error;
+    }
+  }
+
+  private async selectContact(
+    contacts: Contact[],
+    message: string,
+    allowCancel: boolean = true
+  ): Promise<string | undefined> {
+    if (contacts.length === 0) {
+      console.log(chalk.yellow('No contacts yet.'));
+      return undefined;
+    }
+
+    const { contactId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'contactId',
+        message,
+        choices: [
+          ...contacts.map(contact => ({
+            name: this.describeContact(contact),
+            value: contact.id,
+          })),
+          ...(allowCancel
+            ? [
+                new inquirer.Separator(),
+                { name: chalk.gray('Cancel'), value: 'cancel' },
+              ]
+            : []),
+        ],
+        pageSize: 12,
+      },
+    ]);
+
+    return contactId === 'cancel' ? undefined : contactId;
+  }
+
+  private describeContact(contact: Contact): string {
+    return (
+      contact.name +
+      chalk.gray(` - ${contact.phoneNumbers.join(', ') || 'no phone'}`) +
+      (contact.aliases.length > 0
+        ? chalk.gray(` (aka ${contact.aliases.join(', ')})`)
+        : '')
+    );
+  }
+
+  private async promptContactDetails(
+    current?: Contact
+  ): Promise<ContactDetails> {
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'name',
+        message: 'Name:',
+        default: current?.name,
+        validate: (input: string) =>
+          input.trim().length > 0 || 'Name cannot be empty',
+      },
+      {
+        type: 'input',
+        name: 'phoneNumbers',
+        message: 'Phone numbers (comma separated):',
+        default: current?.phoneNumbers.join(', '),
+        validate: (input: string) =>
+          this.splitList(input).every(isValidPhoneNumber) ||
+          'Enter valid phone numbers separated by commas',
+      },
+      {
+        type: 'input',
+        name: 'aliases',
+        message: 'Other names they go by (comma separated, optional):',
+        default: current?.aliases.join(', ') || '',
+      },
+      {
+        type: 'input',
+        name: 'notes',
+        message: 'Notes (optional):',
+        default: current?.notes || '',
+      },
+    ]);
+
+    return {
+      name: answers.name,
+      phoneNumbers: this.splitList(answers.phoneNumbers),
+      aliases: this.splitList(answers.aliases),
+      notes: answers.notes,
+    };
+  }
+
+  private splitList(input: string): string[] {
+    return input
+      .split(',')
+      .map(value => value.trim())
+      .filter(value => value.length > 0);
+  }
+}
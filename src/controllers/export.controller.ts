@@ -9,6 +9,8 @@ import { ExportService } from '../services/export.service';
 import { LoanService } from '../services/loan.service';
 import { AnalyticsService } from '../services/analytics.service';
 import { formatCurrency } from '../utils/format.utils';
+import { LoanModel } from '../models/loan.model';
+import { LoanDirection, LoanGroupBy } from '../types/loan.types';
 
 export class ExportController {
   private logger: Logger;
@@ -61,7 +63,10 @@ export class ExportController {
   private async getExportMenuChoice(): Promise<string> {
     const loans = await this.loanService.getLoans();
     const loanCount = loans.length;
-    const totalDebt = this.loanService.getTotalDebt(loans);
+    const converter = await this.loanService.getCurrencyConverter();
+    const totalDebt = this.loanService.getTotalDebt(
+      this.loanService.toReportingCurrency(loans, converter)
+    );
 
     // Show quick stats
     console.log(
@@ -72,7 +77,7 @@ export class ExportController {
           chalk.yellow(loanCount.toString()) +
           '\n' +
           chalk.white('Total Debt: ') +
-          chalk.green(formatCurrency(totalDebt)) +
+          chalk.green(formatCurrency(totalDebt, converter.reportingCurrency)) +
           '\n' +
           chalk.white('Ready for Export: ') +
           (loanCount > 0 ? chalk.green('Yes') : chalk.red('No')),
@@ -259,12 +264,17 @@ export class ExportController {
         message: 'Include visual charts and graphs?',
         default: true,
       },
+      this.getDirectionFilterQuestion(),
+      this.getGroupByQuestion(),
     ]);
 
     const spinner = createSpinner('Generating PDF report...').start();
 
     try {
-      const loans = await this.loanService.getLoans();
+      const loans = this.filterByDirection(
+        await this.loanService.getLoans(),
+        pdfOptions.direction
+      );
       const filePath = path.join(
         process.cwd(),
         'data',
@@ -274,6 +284,8 @@ export class ExportController {
 
       const fileSize = await this.exportService.exportToPdf(loans, filePath, {
         format: 'pdf',
+        filterDirection: pdfOptions.direction,
+        groupBy: pdfOptions.groupBy,
         includeMetadata: true,
       });
 
@@ -397,12 +409,17 @@ export class ExportController {
         message: 'Include column headers?',
         default: true,
       },
+      this.getDirectionFilterQuestion(),
+      this.getGroupByQuestion(),
     ]);
 
     const spinner = createSpinner('Generating CSV file...').start();
 
     try {
-      const loans = await this.loanService.getLoans();
+      const loans = this.filterByDirection(
+        await this.loanService.getLoans(),
+        csvOptions.direction
+      );
       const filePath = path.join(
         process.cwd(),
         'data',
@@ -412,6 +429,8 @@ export class ExportController {
 
       const fileSize = await this.exportService.exportToCsv(loans, filePath, {
         format: 'csv',
+        filterDirection: csvOptions.direction,
+        groupBy: csvOptions.groupBy,
         includeMetadata: csvOptions.includeHeaders,
       });
 
@@ -498,12 +517,17 @@ export class ExportController {
         ],
         default: 'lf',
       },
+      this.getDirectionFilterQuestion(),
+      this.getGroupByQuestion(),
     ]);
 
     const spinner = createSpinner('Generating text report...').start();
 
     try {
-      const loans = await this.loanService.getLoans();
+      const loans = this.filterByDirection(
+        await this.loanService.getLoans(),
+        textOptions.direction
+      );
       const filePath = path.join(
         process.cwd(),
         'data',
@@ -513,6 +537,8 @@ export class ExportController {
 
       const fileSize = await this.exportService.exportToText(loans, filePath, {
         format: 'txt',
+        filterDirection: textOptions.direction,
+        groupBy: textOptions.groupBy,
         includeMetadata: true,
       });
 
@@ -592,12 +618,17 @@ export class ExportController {
           { name: 'Validation info', value: 'validation', checked: false },
         ],
       },
+      this.getDirectionFilterQuestion(),
+      this.getGroupByQuestion(),
     ]);
 
     const spinner = createSpinner('Generating JSON file...').start();
 
     try {
-      const loans = await this.loanService.getLoans();
+      const loans = this.filterByDirection(
+        await this.loanService.getLoans(),
+        jsonOptions.direction
+      );
       const filePath = path.join(
         process.cwd(),
         'data',
@@ -607,6 +638,8 @@ export class ExportController {
 
       const fileSize = await this.exportService.exportToJson(loans, filePath, {
         format: 'json',
+        filterDirection: jsonOptions.direction,
+        groupBy: jsonOptions.groupBy,
         includeMetadata: jsonOptions.prettyPrint,
       });
 
@@ -722,8 +755,16 @@ export class ExportController {
           { name: 'Loans with interest', value: 'withInterest' },
           { name: 'Loans without interest', value: 'withoutInterest' },
           { name: 'Recent loans (last 30 days)', value: 'recent' },
+          { name: 'Loans I owe', value: 'payable' },
+          { name: 'Loans owed to me', value: 'receivable' },
         ],
       },
+      {
+        type: 'confirm',
+        name: 'includeTrashed',
+        message: 'Include loans in the trash?',
+        default: false,
+      },
       {
         type: 'checkbox',
         name: 'customFields',
@@ -756,6 +797,7 @@ export class ExportController {
           { name: 'Created Date', value: 'createdDate' },
         ],
       },
+      this.getGroupByQuestion(),
       {
         type: 'confirm',
         name: 'includeMetadata',
@@ -767,7 +809,9 @@ export class ExportController {
     const spinner = createSpinner('Generating custom export...').start();
 
     try {
-      const loans = await this.loanService.getLoans();
+      const loans = await this.loanService.getLoans(
+        customOptions.includeTrashed
+      );
       let filteredLoans = [...loans];
 
       // Apply filters
@@ -775,7 +819,7 @@ export class ExportController {
         filteredLoans = filteredLoans.filter(loan => loan.isPaid);
       }
       if (customOptions.filters.includes('unpaid')) {
-        filteredLoans = filteredLoans.filter(loan => !loan.isPaid);
+        filteredLoans = filteredLoans.filter(loan => loan.isOpen());
       }
       if (customOptions.filters.includes('overdue')) {
         filteredLoans = filteredLoans.filter(loan => loan.isOverdue());
@@ -790,6 +834,12 @@ export class ExportController {
           loan => !loan.interestRate || loan.interestRate === 0
         );
       }
+      if (customOptions.filters.includes('payable')) {
+        filteredLoans = filteredLoans.filter(loan => !loan.isReceivable());
+      }
+      if (customOptions.filters.includes('receivable')) {
+        filteredLoans = filteredLoans.filter(loan => loan.isReceivable());
+      }
       if (customOptions.filters.includes('recent')) {
         const thirtyDaysAgo = new Date();
         thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -811,6 +861,7 @@ export class ExportController {
             {
               format: 'json',
               includeMetadata: customOptions.includeMetadata,
+              groupBy: customOptions.groupBy,
             }
           );
           break;
@@ -821,6 +872,7 @@ export class ExportController {
             {
               format: 'csv',
               includeMetadata: customOptions.includeMetadata,
+              groupBy: customOptions.groupBy,
             }
           );
           break;
@@ -831,6 +883,7 @@ export class ExportController {
             {
               format: 'txt',
               includeMetadata: customOptions.includeMetadata,
+              groupBy: customOptions.groupBy,
             }
           );
           break;
@@ -870,4 +923,47 @@ export class ExportController {
       throw error;
     }
   }
+
+  private getGroupByQuestion(): any {
+    return {
+      type: 'list',
+      name: 'groupBy',
+      message: 'Group loans by:',
+      choices: [
+        { name: 'No grouping', value: 'none' },
+        { name: 'Category', value: LoanGroupBy.CATEGORY },
+        { name: 'Priority', value: LoanGroupBy.PRIORITY },
+        { name: 'Status', value: LoanGroupBy.STATUS },
+        { name: 'Lender', value: LoanGroupBy.LENDER },
+        { name: 'Due month', value: LoanGroupBy.MONTH },
+        { name: 'Due quarter', value: LoanGroupBy.QUARTER },
+        { name: 'Due year', value: LoanGroupBy.YEAR },
+      ],
+      default: 'none',
+      filter: (input: string) => (input === 'none' ? undefined : input),
+    };
+  }
+
+  private getDirectionFilterQuestion(): any {
+    return {
+      type: 'list',
+      name: 'direction',
+      message: 'Which loans should be exported?',
+      choices: [
+        { name: 'All loans', value: 'all' },
+        { name: 'Loans I owe', value: LoanDirection.PAYABLE },
+        { name: 'Loans owed to me', value: LoanDirection.RECEIVABLE },
+      ],
+      default: 'all',
+      filter: (input: string) => (input === 'all' ? undefined : input),
+    };
+  }
+
+  private filterByDirection(
+    loans: LoanModel[],
+    direction?: LoanDirection
+  ): LoanModel[] {
+    if (!direction) return loans;
+    return loans.filter(loan => loan.getDirection() === direction);
+  }
 }
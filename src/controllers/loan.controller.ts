@@ -5,18 +5,125 @@ import Table from 'cli-table3';
 import { createSpinner } from 'nanospinner';
 import { Logger } from '../core/logger';
 import { LoanService } from '../services/loan.service';
-import { formatCurrency } from '../utils/format.utils';
+import { TemplateService } from '../services/template.service';
+import { BatchService } from '../services/batch.service';
+import { RecurringService } from '../services/recurring.service';
+import { PayoffCalculation, PayoffService } from '../services/payoff.service';
+import {
+  DebtPlanComparison,
+  DebtPlanService,
+} from '../services/debt-plan.service';
+import { ExportService } from '../services/export.service';
+import { BudgetService } from '../services/budget.service';
+import {
+  formatCurrency,
+  formatDirection,
+  getCounterpartyLabel,
+} from '../utils/format.utils';
 import { formatDate, isValidDate } from '../utils/date.utils';
 import { isValidPhoneNumber, isValidAmount } from '../utils/validation.utils';
 import { LoanModel } from '../models/loan.model';
+import { Loan } from '../interfaces/loan.interface';
+import {
+  BatchStatus,
+  CollateralDetails,
+  CompoundingFrequency,
+  DebtPlan,
+  GuarantorDetails,
+  InstallmentFrequency,
+  InstallmentPlan,
+  InterestModel,
+  InterestModelType,
+  InterestRatePeriod,
+  LoanBatch,
+  LoanBatchOperationResult,
+  LoanCategory,
+  LoanCollateral,
+  LoanCreateInput,
+  LoanDirection,
+  LoanDocument,
+  LoanPriority,
+  LoanSortField,
+  LoanStatus,
+  LoanTemplate,
+  PaymentMethod,
+  PenaltyPeriod,
+  PenaltyRule,
+  RecurringLoan,
+  RecurringStatus,
+  RestructureTerms,
+  RiskLevel,
+  ScheduleMethod,
+  TemplateDetails,
+} from '../types/loan.types';
+import { formatInterestModel } from '../utils/interest.utils';
+import { formatPenaltyRule } from '../utils/penalty.utils';
+import { formatLineage } from '../utils/lineage.utils';
+import { getGuarantorExposures } from '../utils/guarantor.utils';
+import { formatFileSize } from '../utils/document.utils';
+import {
+  formatCategory,
+  formatPriority,
+  formatTags,
+  normalizeTag,
+  parseTags,
+} from '../utils/category.utils';
+import {
+  formatTemplateTerms,
+  getTemplateDueDate,
+} from '../utils/template.utils';
+import { BATCH_ROW_FORMAT, parseBatchRow } from '../utils/batch.utils';
+import {
+  formatFrequency,
+  getUpcomingOccurrences,
+} from '../utils/recurring.utils';
+import {
+  CurrencyConverter,
+  SUPPORTED_CURRENCIES,
+} from '../utils/currency.utils';
+import {
+  BalancePoint,
+  PayoffScenario,
+  parseLumpSums,
+} from '../utils/payoff.utils';
+import {
+  DebtPlanProgress,
+  DebtPlanProjection,
+  DebtPlanStatus,
+  formatStrategy,
+} from '../utils/debt-plan.utils';
+import { formatMonth } from '../utils/budget.utils';
+import { roundAmount } from '../utils/schedule.utils';
+import {
+  LoanRisk,
+  RISK_LEVEL_ORDER,
+  RiskFactor,
+  compareLoanRisk,
+  formatRiskFactor,
+  formatRiskLevel,
+} from '../utils/risk.utils';
 
 export class LoanController {
   private logger: Logger;
   private loanService: LoanService;
+  private templateService: TemplateService;
+  private batchService: BatchService;
+  private recurringService: RecurringService;
+  private payoffService: PayoffService;
+  private debtPlanService: DebtPlanService;
+  private exportService: ExportService;
+  private budgetService: BudgetService;
 
   constructor() {
     this.logger = new Logger();
     this.loanService = new LoanService();
+    this.templateService = new TemplateService();
+    this.batchService = new BatchService();
+    this.recurringService = new RecurringService();
+    this.payoffService = new PayoffService();
+    this.debtPlanService = new DebtPlanService();
+    this.exportService = new ExportService();
+    this.budgetService = new BudgetService();
   }
 
   async showLoanMenu(): Promise<void> {
@@ -68,6 +175,18 @@ export class LoanController {
             name: `${chalk.green('➕')} Add New Loan`,
             value: 'add',
           },
+          {
+            name: `${chalk.green('📝')} Loan Templates`,
+            value: 'templates',
+          },
+          {
+            name: `${chalk.green('📥')} Batch Entry`,
+            value: 'batch',
+          },
+          {
+            name: `${chalk.cyan('🔁')} Recurring Loans`,
+            value: 'recurring',
+          },
           {
             name: `${chalk.blue('👁️')} View All Loans`,
             value: 'view',
@@ -80,10 +199,46 @@ export class LoanController {
             name: `${chalk.yellow('✏️')} Edit Loan`,
             value: 'edit',
           },
+          {
+            name: `${chalk.cyan('📅')} Reschedule Loan`,
+            value: 'reschedule',
+          },
+          {
+            name: `${chalk.green('💵')} Record Payment`,
+            value: 'recordPayment',
+          },
+          {
+            name: `${chalk.blue('📆')} Installment Plan`,
+            value: 'installments',
+          },
+          {
+            name: `${chalk.red('⚖️')} Penalties & Late Fees`,
+            value: 'penalties',
+          },
           {
             name: `${chalk.magenta('✅')} Mark as Paid`,
             value: 'markPaid',
           },
+          {
+            name: `${chalk.gray('🚫')} Write Off / Reinstate`,
+            value: 'writeOff',
+          },
+          {
+            name: `${chalk.blue('🔗')} Consolidate / Split / Renew`,
+            value: 'restructure',
+          },
+          {
+            name: `${chalk.yellow('🔐')} Collateral`,
+            value: 'collateral',
+          },
+          {
+            name: `${chalk.green('🤝')} Guarantors`,
+            value: 'guarantors',
+          },
+          {
+            name: `${chalk.cyan('📎')} Documents`,
+            value: 'documents',
+          },
           {
             name: `${chalk.yellow('📋')} Loan Details`,
             value: 'details',
@@ -92,6 +247,18 @@ export class LoanController {
             name: `${chalk.red('🗑️')} Delete Loan`,
             value: 'delete',
           },
+          {
+            name: `${chalk.gray('♻️')} Trash`,
+            value: 'trash',
+          },
+          {
+            name: `${chalk.cyan('🧮')} Payoff Calculator`,
+            value: 'payoff',
+          },
+          {
+            name: `${chalk.cyan('🧭')} Debt Payoff Planner`,
+            value: 'debtPlan',
+          },
           {
             name: `${chalk.magenta('📊')} Loan Summary`,
             value: 'summary',
@@ -102,7 +269,7 @@ export class LoanController {
             value: 'back',
           },
         ],
-        pageSize: 12,
+        pageSize: 22,
       },
     ]);
 
@@ -113,13 +280,22 @@ export class LoanController {
     const spinner = createSpinner('Loading loan statistics...').start();
 
     try {
-      const loans = await this.loanService.getLoans();
+      const converter = await this.loanService.getCurrencyConverter();
+      const loans = this.loanService.toReportingCurrency(
+        await this.loanService.getLoans(),
+        converter
+      );
       spinner.stop();
 
       const totalLoans = loans.length;
-      const totalDebt = this.loanService.getTotalDebt(loans);
+      const position = this.loanService.getNetPosition(loans);
       const paidLoans = loans.filter(loan => loan.isPaid).length;
       const overdueLoans = loans.filter(loan => loan.isOverdue()).length;
+      const defaultPenaltyRule = await this.loanService.getDefaultPenaltyRule();
+      const penaltiesDue = loans.reduce(
+        (sum, loan) => sum + loan.getPenaltyDue(defaultPenaltyRule),
+        0
+      );
 
       console.log(
         boxen(
@@ -128,8 +304,20 @@ export class LoanController {
             chalk.white('Total Loans: ') +
             chalk.yellow(totalLoans.toString()) +
             '\n' +
-            chalk.white('Total Debt: ') +
-            chalk.green(formatCurrency(totalDebt)) +
+            chalk.white('I Owe: ') +
+            chalk.red(
+              formatCurrency(position.payable, converter.reportingCurrency)
+            ) +
+            '\n' +
+            chalk.white('Owed to Me: ') +
+            chalk.green(
+              formatCurrency(position.receivable, converter.reportingCurrency)
+            ) +
+            '\n' +
+            chalk.white('Net Position: ') +
+            (position.net < 0 ? chalk.red : chalk.green)(
+              formatCurrency(position.net, converter.reportingCurrency)
+            ) +
             '\n' +
             chalk.white('Paid Loans: ') +
             chalk.blue(paidLoans.toString()) +
@@ -137,7 +325,14 @@ export class LoanController {
             chalk.white('Overdue Loans: ') +
             (overdueLoans > 0
               ? chalk.red(overdueLoans.toString())
-              : chalk.green('0')),
+              : chalk.green('0')) +
+            (penaltiesDue > 0
+              ? '\n' +
+                chalk.white('Penalties Due: ') +
+                chalk.red(
+                  formatCurrency(penaltiesDue, converter.reportingCurrency)
+                )
+              : ''),
           {
             padding: 1,
             margin: 1,
@@ -147,6 +342,7 @@ export class LoanController {
           }
         )
       );
+      this.displayMissingRates(converter);
     } catch (error) {
       spinner.error({ text: 'Failed to load statistics' });
       throw error;
@@ -159,6 +355,15 @@ export class LoanController {
         case 'add':
           await this.addNewLoan();
           break;
+        case 'templates':
+          await this.manageTemplates();
+          break;
+        case 'batch':
+          await this.batchEntry();
+          break;
+        case 'recurring':
+          await this.manageRecurring();
+          break;
         case 'view':
           await this.viewAllLoans();
           break;
@@ -168,15 +373,51 @@ export class LoanController {
         case 'edit':
           await this.editLoan();
           break;
+        case 'reschedule':
+          await this.rescheduleLoan();
+          break;
+        case 'recordPayment':
+          await this.recordPayment();
+          break;
+        case 'installments':
+          await this.manageInstallmentPlan();
+          break;
+        case 'penalties':
+          await this.managePenalties();
+          break;
         case 'markPaid':
           await this.markLoanAsPaid();
           break;
+        case 'writeOff':
+          await this.manageWriteOff();
+          break;
+        case 'restructure':
+          await this.restructureLoans();
+          break;
+        case 'collateral':
+          await this.manageCollateral();
+          break;
+        case 'guarantors':
+          await this.manageGuarantors();
+          break;
+        case 'documents':
+          await this.manageDocuments();
+          break;
         case 'details':
           await this.viewLoanDetails();
           break;
         case 'delete':
           await this.deleteLoan();
           break;
+        case 'trash':
+          await this.manageTrash();
+          break;
+        case 'payoff':
+          await this.payoffCalculator();
+          break;
+        case 'debtPlan':
+          await this.debtPlanner();
+          break;
         case 'summary':
           await this.showLoanSummary();
           break;
@@ -207,68 +448,131 @@ export class LoanController {
   private async addNewLoan(): Promise<void> {
     console.log('\n' + chalk.bold('➕ Add New Loan'));
 
+    const { homeCurrency } = await this.loanService.getCurrencyConverter();
+    const template = await this.selectTemplate();
+
     const loanData = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'direction',
+        message: 'Which way did the money go?',
+        choices: [
+          { name: 'I borrowed it (I owe)', value: LoanDirection.PAYABLE },
+          {
+            name: 'I lent it (owed to me)',
+            value: LoanDirection.RECEIVABLE,
+          },
+        ],
+        default: template?.direction || LoanDirection.PAYABLE,
+      },
       {
         type: 'input',
         name: 'lenderName',
-        message: "Enter lender's name:",
+        message: (answers: any) =>
+          `Enter ${getCounterpartyLabel(answers.direction).toLowerCase()}'s name:`,
+        default: template?.lenderName,
         validate: (input: string) =>
           input.trim().length > 0 || 'Name cannot be empty',
       },
       {
         type: 'input',
         name: 'phoneNumber',
-        message: "Enter lender's phone number:",
+        message: (answers: any) =>
+          `Enter ${getCounterpartyLabel(answers.direction).toLowerCase()}'s phone number:`,
+        default: template?.phoneNumber,
         validate: (input: string) =>
           isValidPhoneNumber(input) || 'Invalid phone number format',
       },
+      this.getCurrencyQuestion(template?.currency || homeCurrency),
       {
         type: 'number',
         name: 'amount',
-        message: 'Enter loan amount:',
+        message: (answers: any) => `Enter loan amount (${answers.currency}):`,
+        default: template?.amount,
         validate: (input: number) =>
           isValidAmount(input) || 'Amount must be greater than 0',
       },
+      {
+        type: 'list',
+        name: 'repaymentType',
+        message: 'How will this loan be repaid?',
+        choices: [
+          { name: 'Single repayment', value: 'single' },
+          { name: 'Installments', value: 'installments' },
+        ],
+        default: 'single',
+      },
       {
         type: 'input',
         name: 'repaymentDate',
         message: 'Enter repayment date (YYYY-MM-DD):',
+        when: (answers: any) => answers.repaymentType === 'single',
+        default: template?.defaultDays
+          ? getTemplateDueDate(template.defaultDays)
+          : undefined,
         validate: (input: string) =>
           isValidDate(input) || 'Invalid date or date must be in the future',
       },
+      ...this.getInstallmentPlanQuestions(
+        (answers: any) => answers.repaymentType === 'installments'
+      ),
       {
         type: 'confirm',
         name: 'hasInterest',
         message: 'Does this loan have interest?',
-        default: false,
+        default: !!template?.interestRate,
       },
       {
         type: 'number',
         name: 'interestRate',
-        message: 'Enter interest rate (%):',
+        message: (answers: any) =>
+          answers.repaymentType === 'installments'
+            ? 'Enter interest rate per installment period (%):'
+            : 'Enter interest rate (%):',
         when: (answers: any) => answers.hasInterest,
         validate: (input: number) =>
           input >= 0 || 'Interest rate cannot be negative',
-        default: 0,
-      },
-      {
-        type: 'input',
-        name: 'description',
-        message: 'Enter loan description (optional):',
-        default: '',
+        default: template?.interestRate || 0,
       },
+      ...this.getInterestModelQuestions(
+        (answers: any) =>
+          answers.hasInterest && answers.repaymentType === 'single'
+      ),
+      ...this.getClassificationQuestions(template),
     ]);
 
+    const newLoanData: Omit<Loan, 'id' | 'isPaid'> = {
+      direction: loanData.direction,
+      lenderName: loanData.lenderName,
+      phoneNumber: loanData.phoneNumber,
+      amount: loanData.amount,
+      currency: loanData.currency,
+      repaymentDate: loanData.repaymentDate || loanData.startDate,
+      interestRate: loanData.hasInterest ? loanData.interestRate : undefined,
+      interestModel:
+        loanData.hasInterest && loanData.repaymentType === 'single'
+          ? this.toInterestModel(loanData)
+          : undefined,
+      installmentPlan:
+        loanData.repaymentType === 'installments'
+          ? this.toInstallmentPlan(loanData)
+          : undefined,
+      ...this.toClassification(loanData),
+      templateId: template?.id,
+    };
+
+    if (!(await this.confirmAffordable(newLoanData))) {
+      console.log(chalk.yellow('Loan not added.'));
+      return;
+    }
+
     const spinner = createSpinner('Adding new loan...').start();
 
     try {
-      const newLoan = await this.loanService.addLoan({
-        lenderName: loanData.lenderName,
-        phoneNumber: loanData.phoneNumber,
-        amount: loanData.amount,
-        repaymentDate: loanData.repaymentDate,
-        interestRate: loanData.hasInterest ? loanData.interestRate : undefined,
-      });
+      const newLoan = await this.loanService.addLoan(newLoanData);
+      if (template) {
+        await this.templateService.recordUsage(template.id);
+      }
 
       spinner.success({ text: 'Loan added successfully!' });
 
@@ -279,17 +583,42 @@ export class LoanController {
             chalk.cyan('Loan ID: ') +
             chalk.white(newLoan.id.slice(0, 8)) +
             '\n' +
-            chalk.cyan('Lender: ') +
+            chalk.cyan('Direction: ') +
+            chalk.white(formatDirection(newLoan.getDirection())) +
+            '\n' +
+            chalk.cyan(`${getCounterpartyLabel(newLoan.getDirection())}: `) +
             chalk.white(newLoan.lenderName) +
             '\n' +
             chalk.cyan('Amount: ') +
-            chalk.white(formatCurrency(newLoan.amount)) +
+            chalk.white(formatCurrency(newLoan.amount, newLoan.currency)) +
             '\n' +
             chalk.cyan('Total with Interest: ') +
-            chalk.white(formatCurrency(newLoan.calculateTotalWithInterest())) +
+            chalk.white(
+              formatCurrency(
+                newLoan.calculateTotalWithInterest(),
+                newLoan.currency
+              )
+            ) +
             '\n' +
             chalk.cyan('Due Date: ') +
-            chalk.white(formatDate(newLoan.repaymentDate)),
+            chalk.white(formatDate(newLoan.repaymentDate)) +
+            '\n' +
+            chalk.cyan('Category: ') +
+            chalk.white(
+              `${formatCategory(newLoan.getCategory())} (${formatPriority(newLoan.getPriority())} priority)`
+            ) +
+            (newLoan.tags?.length
+              ? '\n' +
+                chalk.cyan('Tags: ') +
+                chalk.white(formatTags(newLoan.tags))
+              : '') +
+            (newLoan.hasSchedule()
+              ? '\n' +
+                chalk.cyan('Installments: ') +
+                chalk.white(
+                  `${newLoan.schedule!.length} × ${formatCurrency(newLoan.schedule![0].totalAmount, newLoan.currency)}, first due ${formatDate(newLoan.getNextDueDate())}`
+                )
+              : ''),
           {
             padding: 1,
             margin: 1,
@@ -305,241 +634,3740 @@ export class LoanController {
     }
   }
 
-  private async viewAllLoans(): Promise<void> {
-    console.log('\n' + chalk.bold('👁️ View All Loans'));
+  // Shows what the loan does to the monthly budget and asks before going on
+  private async confirmAffordable(
+    loanData: Omit<Loan, 'id' | 'isPaid'>
+  ): Promise<boolean> {
+    const warning = await this.budgetService.checkNewLoan(loanData);
+    if (!warning) return true;
 
-    const spinner = createSpinner('Loading loans...').start();
+    const money = (amount: number) => formatCurrency(amount, warning.currency);
+    const lines = [
+      chalk.yellow.bold('⚠️ This loan stretches the budget'),
+      '',
+      `${chalk.cyan('Monthly income:')} ${money(warning.income)}`,
+    ];
+    if (warning.breaches.length > 0) {
+      lines.push(
+        `${chalk.cyan('Limit due in a month:')} ${money(warning.limit)} (${warning.maxShare}% of income)`,
+        '',
+        ...warning.breaches.map(
+          breach =>
+            `${formatMonth(breach.month)}: ${chalk.red(money(breach.obligations))} due` +
+            (breach.share !== undefined ? ` (${breach.share}% of income)` : '')
+        )
+      );
+    }
+    if (warning.shortfall > 0) {
+      lines.push(
+        `${chalk.cyan('Free cash this month:')} ${money(warning.freeCash)}`,
+        chalk.red(`Lending this leaves ${money(warning.shortfall)} uncovered`)
+      );
+    }
+    console.log(
+      boxen(lines.join('\n'), {
+        padding: 1,
+        margin: 1,
+        borderStyle: 'round',
+        borderColor: 'yellow',
+      })
+    );
 
-    try {
-      const loans = await this.loanService.getLoans();
-      spinner.stop();
+    const { proceed } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'proceed',
+        message: 'Add the loan anyway?',
+        default: false,
+      },
+    ]);
+    return proceed;
+  }
 
-      if (loans.length === 0) {
-        console.log(
-          boxen(
-            chalk.yellow(
-              '📂 No loans found.\nAdd your first loan to get started!'
-            ),
-            {
-              padding: 1,
-              margin: 1,
-              borderStyle: 'round',
-              borderColor: 'yellow',
-              textAlignment: 'center',
-            }
-          )
-        );
-        return;
+  private async selectTemplate(): Promise<LoanTemplate | undefined> {
+    const templates = await this.templateService.getTemplates();
+    if (templates.length === 0) return undefined;
+
+    const { templateId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'templateId',
+        message: 'Start from a template?',
+        choices: [
+          { name: 'No template', value: 'none' },
+          new inquirer.Separator(),
+          ...[...templates]
+            .sort((a, b) => b.usageCount - a.usageCount)
+            .map(template => ({
+              name: `${template.name} - ${formatTemplateTerms(template)}${template.lenderName ? chalk.gray(` - ${template.lenderName}`) : ''}`,
+              value: template.id,
+            })),
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    return templates.find(template => template.id === templateId);
+  }
+
+  private async manageTemplates(): Promise<void> {
+    console.log('\n' + chalk.bold('📝 Loan Templates'));
+
+    const templates = await this.templateService.getTemplates(true);
+    if (templates.length > 0) {
+      this.displayTemplates(templates);
+    } else {
+      console.log(chalk.yellow('No templates have been saved yet.'));
+    }
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          { name: 'Create template', value: 'create' },
+          { name: 'Create template from an existing loan', value: 'fromLoan' },
+          ...(templates.length > 0
+            ? [
+                { name: 'Edit template', value: 'edit' },
+                { name: 'Deactivate or reactivate template', value: 'toggle' },
+              ]
+            : []),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+      },
+    ]);
+
+    if (action === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    if (action === 'create') {
+      const details = await this.promptTemplateDetails();
+      const spinner = createSpinner('Saving template...').start();
+      try {
+        const template = await this.templateService.createTemplate(details);
+        spinner.success({ text: `Template "${template.name}" created` });
+      } catch (error) {
+        spinner.error({ text: 'Failed to create template' });
+        throw error;
       }
+      return;
+    }
 
-      // Filter options
-      const { filter, sortBy } = await inquirer.prompt([
-        {
-          type: 'list',
-          name: 'filter',
-          message: 'Filter loans by status:',
-          choices: [
-            { name: 'All Loans', value: 'all' },
-            { name: 'Pending Loans', value: 'pending' },
-            { name: 'Paid Loans', value: 'paid' },
-            { name: 'Overdue Loans', value: 'overdue' },
-            { name: 'Due This Week', value: 'thisWeek' },
-            { name: 'Due This Month', value: 'thisMonth' },
-          ],
-        },
-        {
-          type: 'list',
-          name: 'sortBy',
-          message: 'Sort loans by:',
-          choices: [
-            { name: 'Due Date (Earliest First)', value: 'dueDate' },
-            { name: 'Amount (Highest First)', value: 'amountDesc' },
-            { name: 'Amount (Lowest First)', value: 'amountAsc' },
-            { name: 'Lender Name (A-Z)', value: 'lenderName' },
-            { name: 'Status', value: 'status' },
-          ],
-        },
-      ]);
+    if (action === 'fromLoan') {
+      await this.createTemplateFromLoan();
+      return;
+    }
 
-      const filteredLoans = this.filterLoans(loans, filter);
-      const sortedLoans = this.sortLoans(filteredLoans, sortBy);
+    const { templateId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'templateId',
+        message: 'Select template:',
+        choices: templates.map(template => ({
+          name: `${template.name}${template.isActive ? '' : chalk.gray(' (inactive)')}`,
+          value: template.id,
+        })),
+        pageSize: 10,
+      },
+    ]);
+    const template = templates.find(t => t.id === templateId)!;
 
-      this.displayLoansTable(sortedLoans);
+    let updated: LoanTemplate | null = null;
+    if (action === 'edit') {
+      const details = await this.promptTemplateDetails(template);
+      const spinner = createSpinner('Saving template...').start();
+      try {
+        updated = await this.templateService.updateTemplate(
+          template.id,
+          details
+        );
+      } catch (error) {
+        spinner.error({ text: 'Failed to update template' });
+        throw error;
+      }
+      if (!updated) {
+        spinner.error({ text: 'Template not found' });
+        return;
+      }
+      spinner.success({ text: `Template "${updated.name}" updated` });
+      return;
+    }
 
-      // Show summary
-      const totalAmount = sortedLoans.reduce(
-        (sum: number, loan: LoanModel) =>
-          sum + loan.calculateTotalWithInterest(),
-        0
-      );
-      console.log(
-        chalk.cyan(
-          `\n📊 Showing ${sortedLoans.length} of ${loans.length} loans`
-        )
-      );
-      console.log(
-        chalk.cyan(`💰 Total Amount: ${formatCurrency(totalAmount)}`)
+    const spinner = createSpinner('Saving template...').start();
+    try {
+      updated = await this.templateService.setTemplateActive(
+        template.id,
+        !template.isActive
       );
     } catch (error) {
-      spinner.error({ text: 'Failed to load loans' });
+      spinner.error({ text: 'Failed to update template' });
       throw error;
     }
+    if (!updated) {
+      spinner.error({ text: 'Template not found' });
+      return;
+    }
+    spinner.success({
+      text: `Template "${updated.name}" ${updated.isActive ? 'reactivated' : 'deactivated'}`,
+    });
   }
 
-  private async searchLoans(): Promise<void> {
-    console.log('\n' + chalk.bold('🔍 Search Loans'));
+  private async createTemplateFromLoan(): Promise<void> {
+    const loans = await this.loanService.getLoans();
+    if (loans.length === 0) {
+      console.log(chalk.yellow('No loans to create a template from.'));
+      return;
+    }
 
-    const searchCriteria = await inquirer.prompt([
+    const { loanId, name } = await inquirer.prompt([
       {
         type: 'list',
-        name: 'searchType',
-        message: 'Search by:',
-        choices: [
-          { name: 'Lender Name', value: 'lenderName' },
-          { name: 'Phone Number', value: 'phoneNumber' },
-          { name: 'Amount Range', value: 'amountRange' },
-          { name: 'Date Range', value: 'dateRange' },
-          { name: 'Status', value: 'status' },
-        ],
+        name: 'loanId',
+        message: 'Select loan:',
+        choices: loans.map(loan => ({
+          name: `${loan.lenderName} - ${formatCurrency(loan.amount, loan.currency)} (due ${formatDate(loan.repaymentDate)})`,
+          value: loan.id,
+        })),
+        pageSize: 10,
+      },
+      {
+        type: 'input',
+        name: 'name',
+        message: 'Template name:',
+        default: (answers: any) =>
+          loans.find(loan => loan.id === answers.loanId)?.lenderName,
+        validate: (input: string) =>
+          input.trim().length > 0 || 'Template name cannot be empty',
       },
     ]);
 
-    let searchParams: any = {};
+    const loan = loans.find(l => l.id === loanId)!;
+    const spinner = createSpinner('Saving template...').start();
+    try {
+      const template = await this.templateService.createFromLoan(loan, name);
+      spinner.success({
+        text: `Template "${template.name}" created: ${formatTemplateTerms(template)}`,
+      });
+    } catch (error) {
+      spinner.error({ text: 'Failed to create template' });
+      throw error;
+    }
+  }
 
-    switch (searchCriteria.searchType) {
-      case 'lenderName':
-        const nameSearch = await inquirer.prompt([
-          {
-            type: 'input',
-            name: 'name',
-            message: 'Enter lender name (partial match):',
-            validate: input =>
-              input.trim().length > 0 || 'Search term cannot be empty',
-          },
-        ]);
-        searchParams = { type: 'lenderName', value: nameSearch.name };
-        break;
+  private async promptTemplateDetails(
+    current?: LoanTemplate
+  ): Promise<TemplateDetails> {
+    const { homeCurrency } = await this.loanService.getCurrencyConverter();
 
-      case 'phoneNumber':
-        const phoneSearch = await inquirer.prompt([
-          {
-            type: 'input',
-            name: 'phone',
-            message: 'Enter phone number:',
-            validate: input =>
-              input.trim().length > 0 || 'Phone number cannot be empty',
-          },
-        ]);
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'name',
+        message: 'Template name:',
+        default: current?.name,
+        validate: (input: string) =>
+          input.trim().length > 0 || 'Template name cannot be empty',
+      },
+      {
+        type: 'input',
+        name: 'description',
+        message: 'Description (optional):',
+        default: current?.description || '',
+      },
+      {
+        type: 'list',
+        name: 'direction',
+        message: 'Which way does the money go?',
+        choices: [
+          { name: 'I borrow it (I owe)', value: LoanDirection.PAYABLE },
+          { name: 'I lend it (owed to me)', value: LoanDirection.RECEIVABLE },
+        ],
+        default: current?.direction || LoanDirection.PAYABLE,
+      },
+      {
+        type: 'input',
+        name: 'lenderName',
+        message: 'Counterparty name (optional):',
+        default: current?.lenderName || '',
+      },
+      {
+        type: 'input',
+        name: 'phoneNumber',
+        message: 'Phone number (optional):',
+        default: current?.phoneNumber || '',
+        validate: (input: string) =>
+          !input.trim() ||
+          isValidPhoneNumber(input) ||
+          'Invalid phone number format',
+      },
+      this.getCurrencyQuestion(current?.currency || homeCurrency),
+      {
+        type: 'number',
+        name: 'amount',
+        message: 'Default amount (0 to enter it each time):',
+        default: current?.amount ?? 0,
+        validate: (input: number) => input >= 0 || 'Amount cannot be negative',
+      },
+      {
+        type: 'number',
+        name: 'interestRate',
+        message: 'Interest rate (%):',
+        default: current?.interestRate ?? 0,
+        validate: (input: number) =>
+          input >= 0 || 'Interest rate cannot be negative',
+      },
+      {
+        type: 'number',
+        name: 'defaultDays',
+        message: 'Days until repayment (0 to pick a date each time):',
+        default: current?.defaultDays ?? 30,
+        validate: (input: number) =>
+          (Number.isInteger(input) && input >= 0) ||
+          'Enter a whole number of days',
+      },
+      ...this.getClassificationQuestions(current).filter(
+        question => question.name !== 'notes'
+      ),
+    ]);
+
+    const { category, priority, tags } = this.toClassification(answers);
+    return {
+      name: answers.name.trim(),
+      description: answers.description.trim() || undefined,
+      direction: answers.direction,
+      lenderName: answers.lenderName.trim() || undefined,
+      phoneNumber: answers.phoneNumber.trim() || undefined,
+      currency: answers.currency,
+      amount: answers.amount || undefined,
+      interestRate: answers.interestRate || undefined,
+      defaultDays: answers.defaultDays || undefined,
+      category,
+      priority,
+      tags,
+    };
+  }
+
+  private displayTemplates(templates: LoanTemplate[]): void {
+    const table = new Table({
+      head: [
+        chalk.cyan('Name'),
+        chalk.cyan('Counterparty'),
+        chalk.cyan('Terms'),
+        chalk.cyan('Category'),
+        chalk.cyan('Uses'),
+        chalk.cyan('Status'),
+      ],
+      colWidths: [18, 16, 30, 12, 6, 10],
+      wordWrap: true,
+    });
+
+    templates.forEach(template => {
+      table.push([
+        template.name,
+        template.lenderName || chalk.gray('Any'),
+        formatTemplateTerms(template),
+        template.category ? formatCategory(template.category) : '-',
+        template.usageCount.toString(),
+        template.isActive ? chalk.green('Active') : chalk.gray('Inactive'),
+      ]);
+    });
+
+    console.log(table.toString());
+  }
+
+  private async batchEntry(): Promise<void> {
+    console.log('\n' + chalk.bold('📥 Batch Loan Entry'));
+
+    const { source } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'source',
+        message: 'How would you like to enter the loans?',
+        choices: [
+          { name: 'Type rows one per line', value: 'type' },
+          { name: 'Load from a CSV or JSON file', value: 'file' },
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+      },
+    ]);
+
+    if (source === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    let rows: LoanCreateInput[];
+    if (source === 'file') {
+      const { filePath } = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'filePath',
+          message: 'Path to the batch file:',
+          validate: (input: string) =>
+            input.trim().length > 0 || 'Please enter a file path',
+        },
+      ]);
+      const spinner = createSpinner('Reading batch file...').start();
+      try {
+        rows = await this.batchService.loadBatchFile(filePath.trim());
+        spinner.success({ text: `Read ${rows.length} rows` });
+      } catch (error) {
+        spinner.error({ text: 'Failed to read batch file' });
+        throw error;
+      }
+    } else {
+      rows = await this.collectBatchRows();
+    }
+
+    if (rows.length === 0) {
+      console.log(chalk.yellow('No loans to add.'));
+      return;
+    }
+
+    const { name } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'name',
+        message: 'Batch name:',
+        default: `Batch ${new Date().toISOString().split('T')[0]}`,
+      },
+    ]);
+
+    const batch = this.batchService.createBatch(name.trim(), rows);
+    const validation = this.batchService.validateBatch(batch);
+    this.displayBatchResult(batch, validation, false);
+
+    if (validation.successCount === 0) {
+      console.log(chalk.red('❌ No rows passed validation. Nothing saved.'));
+      return;
+    }
+
+    const { mode } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'mode',
+        message: validation.success
+          ? `Save all ${validation.successCount} loans?`
+          : `${validation.failureCount} of ${validation.totalProcessed} rows failed validation. What now?`,
+        choices: [
+          ...(validation.success
+            ? [{ name: 'Save all loans', value: 'all' }]
+            : [
+                {
+                  name: `Save only the ${validation.successCount} valid rows`,
+                  value: 'partial',
+                },
+              ]),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel (nothing is saved)'), value: 'cancel' },
+        ],
+      },
+    ]);
+
+    if (mode === 'cancel') {
+      console.log(chalk.yellow('Batch discarded. Nothing saved.'));
+      return;
+    }
+
+    const spinner = createSpinner('Saving batch...').start();
+    try {
+      const outcome = await this.batchService.processBatch(
+        batch,
+        mode === 'partial'
+      );
+      spinner.stop();
+      this.displayBatchResult(outcome.batch, outcome.result, true);
+    } catch (error) {
+      spinner.error({ text: 'Failed to save batch' });
+      throw error;
+    }
+  }
+
+  private async collectBatchRows(): Promise<LoanCreateInput[]> {
+    console.log(
+      chalk.gray(`Format: ${BATCH_ROW_FORMAT}\n`) +
+        chalk.gray(
+          'Type "undo" to drop the last row, or leave blank to finish.'
+        )
+    );
+
+    const rows: LoanCreateInput[] = [];
+    for (;;) {
+      const { line } = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'line',
+          message: `Row ${rows.length + 1}:`,
+        },
+      ]);
+
+      const text = line.trim();
+      if (!text) break;
+      if (text.toLowerCase() === 'undo') {
+        const removed = rows.pop();
+        console.log(
+          removed
+            ? chalk.yellow(`  Removed ${removed.lenderName || 'empty row'}`)
+            : chalk.gray('  Nothing to undo')
+        );
+        continue;
+      }
+
+      const row = parseBatchRow(text);
+      rows.push(row);
+      console.log(
+        chalk.gray(
+          `  ${row.lenderName || '?'} | ${isNaN(row.amount) ? '?' : formatCurrency(row.amount, row.currency)} | due ${row.repaymentDate || '?'}`
+        )
+      );
+    }
+    return rows;
+  }
+
+  private displayBatchResult(
+    batch: LoanBatch,
+    result: LoanBatchOperationResult,
+    saved: boolean
+  ): void {
+    const table = new Table({
+      head: [
+        chalk.cyan('#'),
+        chalk.cyan('Name'),
+        chalk.cyan('Amount'),
+        chalk.cyan('Due'),
+        chalk.cyan('Result'),
+      ],
+      colWidths: [5, 20, 15, 13, 20],
+    });
+
+    batch.loans.forEach((row, index) => {
+      const rowResult = result.results[index];
+      const warnings = rowResult.warnings?.length || 0;
+      table.push([
+        (index + 1).toString(),
+        row.lenderName || chalk.gray('-'),
+        isNaN(row.amount)
+          ? chalk.gray('-')
+          : formatCurrency(row.amount, row.currency),
+        row.repaymentDate || chalk.gray('-'),
+        rowResult.success
+          ? chalk.green(saved ? '✅ Saved' : '✅ Valid') +
+            (warnings > 0 ? chalk.yellow(` ⚠️ ${warnings}`) : '')
+          : chalk.red(saved ? '❌ Not saved' : '❌ Invalid'),
+      ]);
+    });
+
+    console.log(
+      '\n' +
+        chalk.bold(
+          saved ? `📥 ${batch.name}: Results` : `📥 ${batch.name}: Preview`
+        )
+    );
+    console.log(table.toString());
+
+    result.errors.forEach(error => console.log(chalk.red(`  ❌ ${error}`)));
+    result.warnings.forEach(warning =>
+      console.log(chalk.yellow(`  ⚠️  ${warning}`))
+    );
+
+    if (saved) {
+      console.log(
+        boxen(
+          chalk.white('Status: ') +
+            (batch.status === BatchStatus.COMPLETED
+              ? chalk.green(batch.status)
+              : chalk.red(batch.status)) +
+            '\n' +
+            chalk.white('Saved: ') +
+            chalk.green(batch.processedLoans.toString()) +
+            '\n' +
+            chalk.white('Failed: ') +
+            (batch.failedLoans > 0
+              ? chalk.red(batch.failedLoans.toString())
+              : chalk.green('0')) +
+            '\n' +
+            chalk.white('Warnings: ') +
+            chalk.yellow(result.warnings.length.toString()),
+          {
+            padding: 1,
+            margin: 1,
+            borderStyle: 'round',
+            borderColor:
+              batch.status === BatchStatus.COMPLETED ? 'green' : 'red',
+          }
+        )
+      );
+    }
+  }
+
+  private async manageRecurring(): Promise<void> {
+    console.log('\n' + chalk.bold('🔁 Recurring Loans'));
+
+    const allSeries = await this.recurringService.getSeries();
+    if (allSeries.length > 0) {
+      this.displayRecurringSeries(allSeries);
+    } else {
+      console.log(chalk.yellow('No recurring loans have been set up yet.'));
+    }
+    const active = allSeries.filter(
+      series => series.status === RecurringStatus.ACTIVE
+    );
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          { name: 'Set up a recurring loan', value: 'create' },
+          ...(active.length > 0
+            ? [
+                { name: 'Preview upcoming loans', value: 'preview' },
+                { name: 'Skip or unskip an occurrence', value: 'skip' },
+                { name: 'Stop a series', value: 'stop' },
+              ]
+            : []),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+      },
+    ]);
+
+    switch (action) {
+      case 'create':
+        await this.createRecurringSeries();
+        return;
+      case 'preview':
+        await this.previewRecurringLoans();
+        return;
+      case 'cancel':
+        console.log(chalk.yellow('Operation cancelled.'));
+        return;
+    }
+
+    const { seriesId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'seriesId',
+        message: 'Select series:',
+        choices: active.map(series => ({
+          name: `${series.name} - ${formatFrequency(series.frequency)}, ${formatCurrency(series.amount, series.currency)}`,
+          value: series.id,
+        })),
+      },
+    ]);
+    const series = active.find(s => s.id === seriesId)!;
+
+    if (action === 'stop') {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: `Stop "${series.name}"? Loans already generated are kept.`,
+          default: false,
+        },
+      ]);
+      if (!confirm) {
+        console.log(chalk.yellow('Operation cancelled.'));
+        return;
+      }
+
+      const spinner = createSpinner('Stopping series...').start();
+      try {
+        await this.recurringService.stopSeries(series.id);
+        spinner.success({ text: `"${series.name}" stopped` });
+      } catch (error) {
+        spinner.error({ text: 'Failed to stop series' });
+        throw error;
+      }
+      return;
+    }
+
+    const upcoming = getUpcomingOccurrences(series, 12);
+    const { date } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'date',
+        message: 'Which occurrence?',
+        choices: upcoming.map(occurrence => ({
+          name: `#${occurrence.index + 1} ${formatDate(occurrence.date)}${occurrence.skipped ? chalk.gray(' (skipped - select to restore)') : ''}`,
+          value: occurrence.date,
+        })),
+        pageSize: 12,
+      },
+    ]);
+
+    const spinner = createSpinner('Updating series...').start();
+    try {
+      const updated = await this.recurringService.toggleSkip(series.id, date);
+      const skipped = updated?.skippedDates.includes(date);
+      spinner.success({
+        text: `${formatDate(date)} ${skipped ? 'will be skipped' : 'will generate a loan again'}`,
+      });
+    } catch (error) {
+      spinner.error({ text: 'Failed to update series' });
+      throw error;
+    }
+  }
+
+  private async createRecurringSeries(): Promise<void> {
+    const { homeCurrency } = await this.loanService.getCurrencyConverter();
+    const today = new Date().toISOString().split('T')[0];
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'name',
+        message: 'Series name (e.g. Salary advance):',
+        validate: (input: string) =>
+          input.trim().length > 0 || 'Series name cannot be empty',
+      },
+      {
+        type: 'list',
+        name: 'direction',
+        message: 'Which way does the money go?',
+        choices: [
+          { name: 'I borrow it (I owe)', value: LoanDirection.PAYABLE },
+          { name: 'I lend it (owed to me)', value: LoanDirection.RECEIVABLE },
+        ],
+        default: LoanDirection.PAYABLE,
+      },
+      {
+        type: 'input',
+        name: 'lenderName',
+        message: (answers: any) =>
+          `Enter ${getCounterpartyLabel(answers.direction).toLowerCase()}'s name:`,
+        validate: (input: string) =>
+          input.trim().length > 0 || 'Name cannot be empty',
+      },
+      {
+        type: 'input',
+        name: 'phoneNumber',
+        message: 'Phone number:',
+        validate: (input: string) =>
+          isValidPhoneNumber(input) || 'Invalid phone number format',
+      },
+      this.getCurrencyQuestion(homeCurrency),
+      {
+        type: 'number',
+        name: 'amount',
+        message: (answers: any) => `Amount of each loan (${answers.currency}):`,
+        validate: (input: number) =>
+          isValidAmount(input) || 'Amount must be greater than 0',
+      },
+      {
+        type: 'number',
+        name: 'interestRate',
+        message: 'Interest rate (%):',
+        default: 0,
+        validate: (input: number) =>
+          input >= 0 || 'Interest rate cannot be negative',
+      },
+      // Interest on each loan runs from the day it is generated
+      ...this.getInterestModelQuestions(
+        (answers: any) => answers.interestRate > 0
+      ).filter(question => question.name !== 'interestStartDate'),
+      {
+        type: 'list',
+        name: 'frequency',
+        message: 'How often?',
+        choices: Object.values(InstallmentFrequency).map(frequency => ({
+          name: formatFrequency(frequency),
+          value: frequency,
+        })),
+        default: InstallmentFrequency.MONTHLY,
+      },
+      {
+        type: 'input',
+        name: 'startDate',
+        message: 'Date of the first loan (YYYY-MM-DD):',
+        default: today,
+        validate: (input: string) =>
+          !isNaN(Date.parse(input)) || 'Invalid date format',
+      },
+      {
+        type: 'number',
+        name: 'termDays',
+        message: 'Days from each loan to its repayment (e.g. to payday):',
+        default: 30,
+        validate: (input: number) =>
+          (Number.isInteger(input) && input > 0) ||
+          'Enter a whole number of days above 0',
+      },
+      {
+        type: 'list',
+        name: 'ends',
+        message: 'When does the series end?',
+        choices: [
+          { name: 'Never (until stopped)', value: 'never' },
+          { name: 'After a number of loans', value: 'count' },
+          { name: 'On a date', value: 'date' },
+        ],
+      },
+      {
+        type: 'number',
+        name: 'occurrenceCount',
+        message: 'Number of loans:',
+        when: (answers: any) => answers.ends === 'count',
+        default: 12,
+        validate: (input: number) =>
+          (Number.isInteger(input) && input > 0) ||
+          'Enter a whole number above 0',
+      },
+      {
+        type: 'input',
+        name: 'endDate',
+        message: 'Last possible date (YYYY-MM-DD):',
+        when: (answers: any) => answers.ends === 'date',
+        validate: (input: string, answers: any) =>
+          (!isNaN(Date.parse(input)) && input >= answers.startDate) ||
+          'Enter a valid date on or after the start date',
+      },
+      ...this.getClassificationQuestions().filter(
+        question => question.name !== 'notes'
+      ),
+    ]);
+
+    const { category, priority, tags } = this.toClassification(answers);
+    const spinner = createSpinner('Saving recurring loan...').start();
+    try {
+      const series = await this.recurringService.createSeries({
+        name: answers.name,
+        frequency: answers.frequency,
+        startDate: answers.startDate,
+        endDate: answers.endDate,
+        occurrenceCount: answers.occurrenceCount,
+        termDays: answers.termDays,
+        direction: answers.direction,
+        lenderName: answers.lenderName.trim(),
+        phoneNumber: answers.phoneNumber.trim(),
+        amount: answers.amount,
+        currency: answers.currency,
+        interestRate: answers.interestRate || undefined,
+        interestModel: answers.interestRate
+          ? this.toInterestModel(answers)
+          : undefined,
+        category,
+        priority,
+        tags,
+      });
+      spinner.success({ text: `"${series.name}" set up` });
+      console.log(
+        chalk.gray(
+          'Loans are generated as each date arrives, starting from the next menu.'
+        )
+      );
+    } catch (error) {
+      spinner.error({ text: 'Failed to set up recurring loan' });
+      throw error;
+    }
+  }
+
+  private async previewRecurringLoans(): Promise<void> {
+    const upcoming = await this.recurringService.getUpcoming(3);
+
+    const table = new Table({
+      head: [
+        chalk.cyan('Date'),
+        chalk.cyan('Series'),
+        chalk.cyan('#'),
+        chalk.cyan('Amount'),
+        chalk.cyan('Repay By'),
+      ],
+      colWidths: [13, 22, 5, 15, 13],
+    });
+
+    upcoming.forEach(occurrence => {
+      const row = [
+        formatDate(occurrence.date),
+        occurrence.name,
+        (occurrence.index + 1).toString(),
+        formatCurrency(occurrence.amount, occurrence.currency),
+        formatDate(occurrence.repaymentDate),
+      ];
+      table.push(
+        occurrence.skipped
+          ? row.map(cell => chalk.gray.strikethrough(cell))
+          : row
+      );
+    });
+
+    console.log('\n' + chalk.bold('🔁 Upcoming Recurring Loans'));
+    console.log(table.toString());
+    console.log(chalk.gray('Struck-through rows are skipped.'));
+  }
+
+  private displayRecurringSeries(allSeries: RecurringLoan[]): void {
+    const table = new Table({
+      head: [
+        chalk.cyan('Name'),
+        chalk.cyan('Frequency'),
+        chalk.cyan('Amount'),
+        chalk.cyan('Next'),
+        chalk.cyan('Made'),
+        chalk.cyan('Status'),
+      ],
+      colWidths: [20, 12, 15, 13, 6, 11],
+    });
+
+    allSeries.forEach(series => {
+      const [next] =
+        series.status === RecurringStatus.ACTIVE
+          ? getUpcomingOccurrences(series, 1)
+          : [];
+      table.push([
+        series.name,
+        formatFrequency(series.frequency),
+        formatCurrency(series.amount, series.currency),
+        next ? formatDate(next.date) : chalk.gray('-'),
+        series.generatedLoanIds.length.toString(),
+        series.status === RecurringStatus.ACTIVE
+          ? chalk.green(series.status)
+          : chalk.gray(series.status),
+      ]);
+    });
+
+    console.log(table.toString());
+  }
+
+  private async viewAllLoans(): Promise<void> {
+    console.log('\n' + chalk.bold('👁️ View All Loans'));
+
+    const spinner = createSpinner('Loading loans...').start();
+
+    try {
+      const loans = await this.loanService.getLoans();
+      spinner.stop();
+
+      if (loans.length === 0) {
+        console.log(
+          boxen(
+            chalk.yellow(
+              '📂 No loans found.\nAdd your first loan to get started!'
+            ),
+            {
+              padding: 1,
+              margin: 1,
+              borderStyle: 'round',
+              borderColor: 'yellow',
+              textAlignment: 'center',
+            }
+          )
+        );
+        return;
+      }
+
+      // Filter options
+      const { filter, sortBy } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'filter',
+          message: 'Filter loans by status:',
+          choices: [
+            { name: 'All Loans', value: 'all' },
+            { name: 'Pending Loans', value: 'pending' },
+            { name: 'Paid Loans', value: 'paid' },
+            { name: 'Overdue Loans', value: 'overdue' },
+            { name: 'Due This Week', value: 'thisWeek' },
+            { name: 'Due This Month', value: 'thisMonth' },
+            { name: 'I Owe', value: 'payable' },
+            { name: 'Owed to Me', value: 'receivable' },
+            { name: 'Written Off', value: 'writtenOff' },
+          ],
+        },
+        {
+          type: 'list',
+          name: 'sortBy',
+          message: 'Sort loans by:',
+          choices: [
+            { name: 'Due Date (Earliest First)', value: 'dueDate' },
+            { name: 'Amount (Highest First)', value: 'amountDesc' },
+            { name: 'Amount (Lowest First)', value: 'amountAsc' },
+            { name: 'Lender Name (A-Z)', value: 'lenderName' },
+            { name: 'Status', value: 'status' },
+            {
+              name: 'Risk Level (Highest First)',
+              value: LoanSortField.RISK_LEVEL,
+            },
+          ],
+        },
+      ]);
+
+      const risks = await this.loanService.getLoanRisks();
+      const filteredLoans = this.filterLoans(loans, filter);
+      const sortedLoans = this.sortLoans(filteredLoans, sortBy, risks);
+
+      this.displayLoansTable(sortedLoans, risks);
+
+      // Show summary, converted to the reporting currency
+      const converter = await this.loanService.getCurrencyConverter();
+      const totalAmount = sortedLoans.reduce(
+        (sum: number, loan: LoanModel) =>
+          sum +
+          converter.convert(loan.calculateTotalWithInterest(), loan.currency),
+        0
+      );
+      console.log(
+        chalk.cyan(
+          `\n📊 Showing ${sortedLoans.length} of ${loans.length} loans`
+        )
+      );
+      console.log(
+        chalk.cyan(
+          `💰 Total Amount: ${formatCurrency(totalAmount, converter.reportingCurrency)}`
+        )
+      );
+      this.displayMissingRates(converter);
+    } catch (error) {
+      spinner.error({ text: 'Failed to load loans' });
+      throw error;
+    }
+  }
+
+  private async searchLoans(): Promise<void> {
+    console.log('\n' + chalk.bold('🔍 Search Loans'));
+
+    const searchCriteria = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'searchType',
+        message: 'Search by:',
+        choices: [
+          { name: 'Lender Name', value: 'lenderName' },
+          { name: 'Phone Number', value: 'phoneNumber' },
+          { name: 'Amount Range', value: 'amountRange' },
+          { name: 'Date Range', value: 'dateRange' },
+          { name: 'Status', value: 'status' },
+          { name: 'Direction', value: 'direction' },
+          { name: 'Category', value: 'category' },
+          { name: 'Priority', value: 'priority' },
+          { name: 'Risk Level', value: 'riskLevel' },
+          { name: 'Tag', value: 'tag' },
+          { name: 'Notes', value: 'notes' },
+        ],
+      },
+    ]);
+
+    let searchParams: any = {};
+
+    switch (searchCriteria.searchType) {
+      case 'lenderName':
+        const nameSearch = await inquirer.prompt([
+          {
+            type: 'input',
+            name: 'name',
+            message: 'Enter lender name (partial match):',
+            validate: input =>
+              input.trim().length > 0 || 'Search term cannot be empty',
+          },
+        ]);
+        searchParams = { type: 'lenderName', value: nameSearch.name };
+        break;
+
+      case 'phoneNumber':
+        const phoneSearch = await inquirer.prompt([
+          {
+            type: 'input',
+            name: 'phone',
+            message: 'Enter phone number:',
+            validate: input =>
+              input.trim().length > 0 || 'Phone number cannot be empty',
+          },
+        ]);
         searchParams = { type: 'phoneNumber', value: phoneSearch.phone };
         break;
-
-      case 'amountRange':
-        const amountSearch = await inquirer.prompt([
+
+      case 'amountRange':
+        const amountSearch = await inquirer.prompt([
+          {
+            type: 'number',
+            name: 'minAmount',
+            message: 'Enter minimum amount:',
+            default: 0,
+          },
+          {
+            type: 'number',
+            name: 'maxAmount',
+            message: 'Enter maximum amount:',
+            validate: (input, answers) =>
+              input >= answers.minAmount ||
+              'Maximum must be greater than minimum',
+          },
+        ]);
+        searchParams = {
+          type: 'amountRange',
+          min: amountSearch.minAmount,
+          max: amountSearch.maxAmount,
+        };
+        break;
+
+      case 'dateRange':
+        const dateSearch = await inquirer.prompt([
+          {
+            type: 'input',
+            name: 'startDate',
+            message: 'Enter start date (YYYY-MM-DD):',
+            validate: input =>
+              !isNaN(Date.parse(input)) || 'Invalid date format',
+          },
+          {
+            type: 'input',
+            name: 'endDate',
+            message: 'Enter end date (YYYY-MM-DD):',
+            validate: input =>
+              !isNaN(Date.parse(input)) || 'Invalid date format',
+          },
+        ]);
+        searchParams = {
+          type: 'dateRange',
+          start: dateSearch.startDate,
+          end: dateSearch.endDate,
+        };
+        break;
+
+      case 'status':
+        const statusSearch = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'status',
+            message: 'Select status:',
+            choices: [
+              { name: 'Paid', value: 'paid' },
+              { name: 'Pending', value: 'pending' },
+              { name: 'Overdue', value: 'overdue' },
+              { name: 'Written Off', value: 'writtenOff' },
+            ],
+          },
+        ]);
+        searchParams = { type: 'status', value: statusSearch.status };
+        break;
+
+      case 'direction':
+        const directionSearch = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'direction',
+            message: 'Select direction:',
+            choices: [
+              { name: 'I Owe', value: LoanDirection.PAYABLE },
+              { name: 'Owed to Me', value: LoanDirection.RECEIVABLE },
+            ],
+          },
+        ]);
+        searchParams = { type: 'direction', value: directionSearch.direction };
+        break;
+
+      case 'category':
+        const categorySearch = await inquirer.prompt([
+          {
+            type: 'checkbox',
+            name: 'categories',
+            message: 'Select categories:',
+            choices: Object.values(LoanCategory).map(category => ({
+              name: formatCategory(category),
+              value: category,
+            })),
+            validate: input =>
+              input.length > 0 || 'Select at least one category',
+          },
+        ]);
+        searchParams = { type: 'category', value: categorySearch.categories };
+        break;
+
+      case 'priority':
+        const prioritySearch = await inquirer.prompt([
+          {
+            type: 'checkbox',
+            name: 'priorities',
+            message: 'Select priorities:',
+            choices: Object.values(LoanPriority).map(priority => ({
+              name: formatPriority(priority),
+              value: priority,
+            })),
+            validate: input =>
+              input.length > 0 || 'Select at least one priority',
+          },
+        ]);
+        searchParams = { type: 'priority', value: prioritySearch.priorities };
+        break;
+
+      case 'riskLevel':
+        const riskSearch = await inquirer.prompt([
+          {
+            type: 'checkbox',
+            name: 'levels',
+            message: 'Select risk levels:',
+            choices: RISK_LEVEL_ORDER.map(level => ({
+              name: formatRiskLevel(level),
+              value: level,
+            })),
+            validate: input =>
+              input.length > 0 || 'Select at least one risk level',
+          },
+        ]);
+        searchParams = { type: 'riskLevel', value: riskSearch.levels };
+        break;
+
+      case 'tag':
+        const tagSearch = await inquirer.prompt([
+          {
+            type: 'input',
+            name: 'tag',
+            message: 'Enter tag:',
+            validate: input =>
+              normalizeTag(input).length > 0 || 'Tag cannot be empty',
+          },
+        ]);
+        searchParams = { type: 'tag', value: tagSearch.tag };
+        break;
+
+      case 'notes':
+        const notesSearch = await inquirer.prompt([
+          {
+            type: 'input',
+            name: 'text',
+            message: 'Enter text to find in notes:',
+            validate: input =>
+              input.trim().length > 0 || 'Search term cannot be empty',
+          },
+        ]);
+        searchParams = { type: 'notes', value: notesSearch.text };
+        break;
+    }
+
+    const spinner = createSpinner('Searching loans...').start();
+
+    try {
+      const loans = await this.loanService.getLoans();
+      const risks = await this.loanService.getLoanRisks();
+      const searchResults = this.searchLoansWithCriteria(
+        loans,
+        searchParams,
+        risks
+      );
+
+      spinner.success({ text: `Found ${searchResults.length} matching loans` });
+
+      if (searchResults.length === 0) {
+        console.log(
+          boxen(
+            chalk.yellow(
+              '🔍 No loans found matching your search criteria.\nTry adjusting your search parameters.'
+            ),
+            {
+              padding: 1,
+              margin: 1,
+              borderStyle: 'round',
+              borderColor: 'yellow',
+              textAlignment: 'center',
+            }
+          )
+        );
+        return;
+      }
+
+      this.displayLoansTable(searchResults, risks);
+    } catch (error) {
+      spinner.error({ text: 'Search failed' });
+      throw error;
+    }
+  }
+
+  private async editLoan(): Promise<void> {
+    console.log('\n' + chalk.bold('✏️ Edit Loan'));
+
+    const loans = await this.loanService.getLoans();
+
+    if (loans.length === 0) {
+      console.log(
+        boxen(
+          chalk.yellow('📂 No loans available to edit.\nAdd some loans first!'),
+          {
+            padding: 1,
+            margin: 1,
+            borderStyle: 'round',
+            borderColor: 'yellow',
+            textAlignment: 'center',
+          }
+        )
+      );
+      return;
+    }
+
+    const loanChoices = loans.map(loan => ({
+      name: `${loan.lenderName} - ${formatCurrency(loan.calculateTotalWithInterest(), loan.currency)} - ${formatDate(loan.repaymentDate)} - ${loan.isPaid ? 'Paid' : loan.isOverdue() ? 'Overdue' : 'Pending'}`,
+      value: loan.id,
+    }));
+
+    const { loanId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Select loan to edit:',
+        choices: [
+          ...loanChoices,
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (loanId === 'cancel') {
+      console.log(chalk.yellow('Edit operation cancelled.'));
+      return;
+    }
+
+    const loan = loans.find(l => l.id === loanId);
+    if (!loan) {
+      console.log(chalk.red('❌ Loan not found.'));
+      return;
+    }
+
+    console.log(
+      boxen(
+        chalk.cyan('Current Loan Details:') +
+          '\n\n' +
+          chalk.white('Direction: ') +
+          chalk.yellow(formatDirection(loan.getDirection())) +
+          '\n' +
+          chalk.white(`${getCounterpartyLabel(loan.getDirection())}: `) +
+          chalk.yellow(loan.lenderName) +
+          '\n' +
+          chalk.white('Phone: ') +
+          chalk.yellow(loan.phoneNumber) +
+          '\n' +
+          chalk.white('Amount: ') +
+          chalk.yellow(formatCurrency(loan.amount, loan.currency)) +
+          '\n' +
+          chalk.white('Interest: ') +
+          chalk.yellow(
+            loan.interestRate
+              ? formatInterestModel(loan.interestRate, loan.interestModel)
+              : 'None'
+          ) +
+          '\n' +
+          chalk.white('Due Date: ') +
+          chalk.yellow(formatDate(loan.repaymentDate)) +
+          '\n' +
+          chalk.white('Category: ') +
+          chalk.yellow(formatCategory(loan.getCategory())) +
+          '\n' +
+          chalk.white('Priority: ') +
+          chalk.yellow(formatPriority(loan.getPriority())) +
+          '\n' +
+          chalk.white('Tags: ') +
+          chalk.yellow(formatTags(loan.tags)) +
+          '\n' +
+          chalk.white('Status: ') +
+          (loan.isPaid
+            ? chalk.green('Paid')
+            : loan.isOverdue()
+              ? chalk.red('Overdue')
+              : chalk.yellow('Pending')) +
+          '\n\n' +
+          chalk.gray('Use Reschedule Loan to change the due date.'),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'cyan',
+        }
+      )
+    );
+
+    const { homeCurrency } = await this.loanService.getCurrencyConverter();
+
+    const updates = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'direction',
+        message: 'Which way did the money go?',
+        choices: [
+          { name: 'I borrowed it (I owe)', value: LoanDirection.PAYABLE },
+          {
+            name: 'I lent it (owed to me)',
+            value: LoanDirection.RECEIVABLE,
+          },
+        ],
+        default: loan.getDirection(),
+      },
+      {
+        type: 'input',
+        name: 'lenderName',
+        message: (answers: any) =>
+          `Enter new ${getCounterpartyLabel(answers.direction).toLowerCase()} name:`,
+        default: loan.lenderName,
+        validate: (input: string) =>
+          input.trim().length > 0 || 'Name cannot be empty',
+      },
+      {
+        type: 'input',
+        name: 'phoneNumber',
+        message: 'Enter new phone number:',
+        default: loan.phoneNumber,
+        validate: (input: string) =>
+          isValidPhoneNumber(input) || 'Invalid phone number format',
+      },
+      this.getCurrencyQuestion(loan.currency || homeCurrency),
+      {
+        type: 'number',
+        name: 'amount',
+        message: (answers: any) =>
+          `Enter new loan amount (${answers.currency}):`,
+        default: loan.amount,
+        validate: (input: number) =>
+          isValidAmount(input) || 'Amount must be greater than 0',
+      },
+      {
+        type: 'confirm',
+        name: 'hasInterest',
+        message: 'Does this loan have interest?',
+        default: !!loan.interestRate,
+      },
+      {
+        type: 'number',
+        name: 'interestRate',
+        message: 'Enter new interest rate (%):',
+        default: loan.interestRate || 0,
+        when: (answers: any) => answers.hasInterest,
+        validate: (input: number) =>
+          input >= 0 || 'Interest rate cannot be negative',
+      },
+      ...this.getInterestModelQuestions(
+        (answers: any) => answers.hasInterest && !loan.hasSchedule(),
+        loan.interestModel
+      ),
+      ...this.getClassificationQuestions(loan),
+    ]);
+
+    const spinner = createSpinner('Updating loan...').start();
+
+    try {
+      const updatedLoan = await this.loanService.updateLoan(loanId, {
+        direction: updates.direction,
+        lenderName: updates.lenderName,
+        phoneNumber: updates.phoneNumber,
+        amount: updates.amount,
+        currency: updates.currency,
+        interestRate: updates.hasInterest ? updates.interestRate : undefined,
+        interestModel:
+          updates.hasInterest && !loan.hasSchedule()
+            ? this.toInterestModel(updates)
+            : loan.interestModel,
+        ...this.toClassification(updates),
+      });
+
+      spinner.success({ text: 'Loan updated successfully!' });
+
+      if (updatedLoan) {
+        console.log(
+          boxen(
+            chalk.green('✅ Loan Updated Successfully!') +
+              '\n\n' +
+              chalk.cyan('Updated Details:') +
+              '\n' +
+              chalk.white('Lender: ') +
+              chalk.yellow(updatedLoan.lenderName) +
+              '\n' +
+              chalk.white('Amount: ') +
+              chalk.yellow(
+                formatCurrency(
+                  updatedLoan.calculateTotalWithInterest(),
+                  updatedLoan.currency
+                )
+              ) +
+              '\n' +
+              chalk.white('Due Date: ') +
+              chalk.yellow(formatDate(updatedLoan.repaymentDate)) +
+              '\n' +
+              chalk.white('Category: ') +
+              chalk.yellow(
+                `${formatCategory(updatedLoan.getCategory())} (${formatPriority(updatedLoan.getPriority())} priority)`
+              ),
+            {
+              padding: 1,
+              margin: 1,
+              borderStyle: 'round',
+              borderColor: 'green',
+              textAlignment: 'left',
+            }
+          )
+        );
+      }
+    } catch (error) {
+      spinner.error({ text: 'Failed to update loan' });
+      throw error;
+    }
+  }
+
+  private async rescheduleLoan(): Promise<void> {
+    console.log('\n' + chalk.bold('📅 Reschedule Loan'));
+
+    const loans = await this.loanService.getLoans();
+    const unpaidLoans = loans.filter(loan => loan.isOpen());
+
+    if (unpaidLoans.length === 0) {
+      console.log(
+        boxen(chalk.green('🎉 No outstanding loans to reschedule!'), {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'green',
+          textAlignment: 'center',
+        })
+      );
+      return;
+    }
+
+    const { loanId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Select loan to reschedule:',
+        choices: [
+          ...unpaidLoans.map(loan => ({
+            name: `${loan.lenderName} - ${formatCurrency(loan.getOutstandingBalance(), loan.currency)} - due ${formatDate(loan.repaymentDate)}${loan.isRescheduled() ? ` (rescheduled ${loan.getRescheduleCount()}x)` : ''}`,
+            value: loan.id,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (loanId === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    const loan = unpaidLoans.find(l => l.id === loanId);
+    if (!loan) {
+      console.log(chalk.red('❌ Loan not found.'));
+      return;
+    }
+
+    this.displayRescheduleHistory(loan);
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'newDate',
+        message: `New due date (YYYY-MM-DD), currently ${loan.repaymentDate}:`,
+        validate: (input: string) => {
+          if (!isValidDate(input)) {
+            return 'Please enter a valid future date (YYYY-MM-DD)';
+          }
+          return (
+            input !== loan.repaymentDate ||
+            'New date must differ from the current due date'
+          );
+        },
+      },
+      {
+        type: 'input',
+        name: 'reason',
+        message: 'Reason for rescheduling:',
+        validate: (input: string) =>
+          input.trim().length > 0 || 'Please give a reason',
+      },
+      {
+        type: 'confirm',
+        name: 'renegotiate',
+        message: 'Was the interest rate renegotiated?',
+        default: false,
+        when: () => !loan.hasSchedule(),
+      },
+      {
+        type: 'number',
+        name: 'interestRate',
+        message: 'New interest rate (%):',
+        default: loan.interestRate || 0,
+        when: (answers: any) => answers.renegotiate,
+        validate: (input: number) =>
+          input >= 0 || 'Interest rate cannot be negative',
+      },
+    ]);
+
+    const spinner = createSpinner('Rescheduling loan...').start();
+
+    try {
+      const updatedLoan = await this.loanService.rescheduleLoan(
+        loanId,
+        answers.newDate,
+        answers.reason,
+        answers.renegotiate ? answers.interestRate : undefined
+      );
+
+      if (!updatedLoan) {
+        spinner.error({ text: 'Loan not found' });
+        return;
+      }
+
+      spinner.success({ text: 'Loan rescheduled successfully!' });
+
+      console.log(
+        boxen(
+          chalk.green('✅ Loan Rescheduled!') +
+            '\n\n' +
+            chalk.cyan('Original Due Date: ') +
+            chalk.white(formatDate(updatedLoan.getOriginalRepaymentDate())) +
+            '\n' +
+            chalk.cyan('New Due Date: ') +
+            chalk.white(formatDate(updatedLoan.repaymentDate)) +
+            '\n' +
+            chalk.cyan('Times Rescheduled: ') +
+            chalk.white(updatedLoan.getRescheduleCount().toString()) +
+            '\n' +
+            chalk.cyan('Total to Repay: ') +
+            chalk.white(
+              formatCurrency(
+                updatedLoan.calculateTotalWithInterest(),
+                updatedLoan.currency
+              )
+            ),
+          {
+            padding: 1,
+            margin: 1,
+            borderStyle: 'round',
+            borderColor: 'green',
+            textAlignment: 'left',
+          }
+        )
+      );
+    } catch (error) {
+      spinner.error({ text: 'Failed to reschedule loan' });
+      throw error;
+    }
+  }
+
+  private async recordPayment(): Promise<void> {
+    console.log('\n' + chalk.bold('💵 Record Payment'));
+
+    const loans = await this.loanService.getLoans();
+    const unpaidLoans = loans.filter(loan => loan.isOpen());
+
+    if (unpaidLoans.length === 0) {
+      console.log(
+        boxen(chalk.green('🎉 No outstanding loans to record payments for!'), {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'green',
+          textAlignment: 'center',
+        })
+      );
+      return;
+    }
+
+    const loanChoices = unpaidLoans.map(loan => ({
+      name: `${loan.lenderName} - ${formatCurrency(loan.getOutstandingBalance(), loan.currency)} outstanding of ${formatCurrency(loan.calculateTotalWithInterest(), loan.currency)} - ${formatDate(loan.repaymentDate)}`,
+      value: loan.id,
+    }));
+
+    const { loanId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Select loan to record a payment against:',
+        choices: [
+          ...loanChoices,
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (loanId === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    const loan = unpaidLoans.find(l => l.id === loanId);
+    if (!loan) {
+      console.log(chalk.red('❌ Loan not found.'));
+      return;
+    }
+
+    const outstanding = roundAmount(loan.getOutstandingBalance());
+
+    const paymentData = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'amount',
+        message: `Payment amount (outstanding ${formatCurrency(outstanding, loan.currency)}):`,
+        default: outstanding.toString(),
+        validate: (input: string) => {
+          const amount = parseFloat(input);
+          if (!isValidAmount(amount)) {
+            return 'Please enter a valid amount greater than 0';
+          }
+          if (amount > outstanding) {
+            return `Payment cannot exceed the outstanding balance of ${formatCurrency(outstanding, loan.currency)}`;
+          }
+          return true;
+        },
+        filter: (input: string) => parseFloat(input),
+      },
+      {
+        type: 'input',
+        name: 'paymentDate',
+        message: 'Payment date (YYYY-MM-DD):',
+        default: new Date().toISOString().split('T')[0],
+        validate: (input: string) => {
+          const date = new Date(input);
+          if (isNaN(date.getTime())) {
+            return 'Please enter a valid date in YYYY-MM-DD format';
+          }
+          if (date > new Date()) {
+            return 'Payment date cannot be in the future';
+          }
+          return true;
+        },
+      },
+      {
+        type: 'list',
+        name: 'method',
+        message: 'Payment method:',
+        choices: [
+          { name: 'Cash', value: PaymentMethod.CASH },
+          { name: 'Bank Transfer', value: PaymentMethod.BANK_TRANSFER },
+          { name: 'Mobile Money', value: PaymentMethod.MOBILE_MONEY },
+          { name: 'Cheque', value: PaymentMethod.CHECK },
+          { name: 'Card', value: PaymentMethod.CARD },
+          { name: 'Crypto', value: PaymentMethod.CRYPTO },
+          { name: 'Other', value: PaymentMethod.OTHER },
+        ],
+        default: PaymentMethod.BANK_TRANSFER,
+      },
+      {
+        type: 'input',
+        name: 'reference',
+        message: 'Reference (optional):',
+      },
+      {
+        type: 'input',
+        name: 'notes',
+        message: 'Notes (optional):',
+      },
+    ]);
+
+    const spinner = createSpinner('Recording payment...').start();
+
+    try {
+      const updatedLoan = await this.loanService.recordPayment(loanId, {
+        amount: paymentData.amount,
+        paymentDate: paymentData.paymentDate,
+        method: paymentData.method,
+        reference: paymentData.reference || undefined,
+        notes: paymentData.notes || undefined,
+      });
+
+      if (!updatedLoan) {
+        spinner.error({ text: 'Loan not found' });
+        return;
+      }
+
+      spinner.success({ text: 'Payment recorded successfully!' });
+
+      console.log(
+        boxen(
+          chalk.green('✅ Payment Recorded!') +
+            '\n\n' +
+            chalk.cyan('Lender: ') +
+            chalk.white(updatedLoan.lenderName) +
+            '\n' +
+            chalk.cyan('Amount Paid: ') +
+            chalk.white(
+              formatCurrency(paymentData.amount, updatedLoan.currency)
+            ) +
+            '\n' +
+            chalk.cyan('Total Paid: ') +
+            chalk.green(
+              formatCurrency(updatedLoan.getTotalPaid(), updatedLoan.currency)
+            ) +
+            '\n' +
+            chalk.cyan('Outstanding: ') +
+            chalk.yellow(
+              formatCurrency(
+                updatedLoan.getOutstandingBalance(),
+                updatedLoan.currency
+              )
+            ) +
+            '\n' +
+            chalk.cyan('Status: ') +
+            this.formatStatus(updatedLoan),
+          {
+            padding: 1,
+            margin: 1,
+            borderStyle: 'round',
+            borderColor: 'green',
+            textAlignment: 'left',
+          }
+        )
+      );
+    } catch (error) {
+      spinner.error({ text: 'Failed to record payment' });
+      throw error;
+    }
+  }
+
+  private async manageInstallmentPlan(): Promise<void> {
+    console.log('\n' + chalk.bold('📆 Installment Plan'));
+
+    const loans = await this.loanService.getLoans();
+    const unpaidLoans = loans.filter(loan => loan.isOpen());
+
+    if (unpaidLoans.length === 0) {
+      console.log(
+        boxen(chalk.green('🎉 No outstanding loans to schedule!'), {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'green',
+          textAlignment: 'center',
+        })
+      );
+      return;
+    }
+
+    const { loanId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Select loan:',
+        choices: [
+          ...unpaidLoans.map(loan => ({
+            name: `${loan.lenderName} - ${formatCurrency(loan.amount, loan.currency)} - ${loan.hasSchedule() ? `${loan.schedule!.length} installments` : 'single repayment'}`,
+            value: loan.id,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (loanId === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    const loan = unpaidLoans.find(l => l.id === loanId);
+    if (!loan) {
+      console.log(chalk.red('❌ Loan not found.'));
+      return;
+    }
+
+    if (loan.hasSchedule()) {
+      this.displayInstallmentSchedule(loan);
+    }
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          {
+            name: loan.hasSchedule()
+              ? 'Replace installment plan'
+              : 'Create installment plan',
+            value: 'set',
+          },
+          ...(loan.hasSchedule()
+            ? [{ name: 'Switch back to a single repayment', value: 'remove' }]
+            : []),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+      },
+    ]);
+
+    if (action === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    let plan: InstallmentPlan | null = null;
+    if (action === 'set') {
+      const answers = await inquirer.prompt(
+        this.getInstallmentPlanQuestions(() => true, loan.installmentPlan)
+      );
+      plan = this.toInstallmentPlan(answers);
+    }
+
+    const spinner = createSpinner('Updating installment plan...').start();
+
+    try {
+      const updatedLoan = await this.loanService.setInstallmentPlan(
+        loanId,
+        plan
+      );
+
+      if (!updatedLoan) {
+        spinner.error({ text: 'Loan not found' });
+        return;
+      }
+
+      spinner.success({ text: 'Installment plan updated!' });
+
+      if (updatedLoan.hasSchedule()) {
+        this.displayInstallmentSchedule(updatedLoan);
+      }
+
+      console.log(
+        boxen(
+          chalk.green('✅ Repayment Plan Saved!') +
+            '\n\n' +
+            chalk.cyan('Total to Repay: ') +
+            chalk.white(
+              formatCurrency(
+                updatedLoan.calculateTotalWithInterest(),
+                updatedLoan.currency
+              )
+            ) +
+            '\n' +
+            chalk.cyan('Final Due Date: ') +
+            chalk.white(formatDate(updatedLoan.repaymentDate)),
+          {
+            padding: 1,
+            margin: 1,
+            borderStyle: 'round',
+            borderColor: 'green',
+            textAlignment: 'left',
+          }
+        )
+      );
+    } catch (error) {
+      spinner.error({ text: 'Failed to update installment plan' });
+      throw error;
+    }
+  }
+
+  private async managePenalties(): Promise<void> {
+    console.log('\n' + chalk.bold('⚖️ Penalties & Late Fees'));
+
+    const loans = await this.loanService.getLoans();
+    const unpaidLoans = loans.filter(loan => loan.isOpen());
+
+    if (unpaidLoans.length === 0) {
+      console.log(
+        boxen(chalk.green('🎉 No outstanding loans to manage!'), {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'green',
+          textAlignment: 'center',
+        })
+      );
+      return;
+    }
+
+    const defaultPenaltyRule = await this.loanService.getDefaultPenaltyRule();
+
+    const { loanId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Select loan:',
+        choices: [
+          ...unpaidLoans.map(loan => ({
+            name: `${loan.lenderName} - ${formatCurrency(loan.amount, loan.currency)} - ${formatCurrency(loan.getPenaltyDue(defaultPenaltyRule), loan.currency)} penalty due`,
+            value: loan.id,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (loanId === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    const loan = unpaidLoans.find(l => l.id === loanId);
+    if (!loan) {
+      console.log(chalk.red('❌ Loan not found.'));
+      return;
+    }
+
+    const penaltyDue = loan.getPenaltyDue(defaultPenaltyRule);
+
+    console.log(
+      boxen(
+        chalk.cyan('Current Penalty:') +
+          '\n\n' +
+          chalk.white('Rule: ') +
+          chalk.yellow(
+            formatPenaltyRule(loan.penaltyRule || defaultPenaltyRule) +
+              (loan.penaltyRule || !defaultPenaltyRule ? '' : ' (default)')
+          ) +
+          '\n' +
+          chalk.white('Accrued: ') +
+          chalk.yellow(
+            formatCurrency(
+              loan.getAccruedPenalty(defaultPenaltyRule),
+              loan.currency
+            )
+          ) +
+          '\n' +
+          chalk.white('Waived: ') +
+          chalk.gray(formatCurrency(loan.getWaivedPenalty(), loan.currency)) +
+          '\n' +
+          chalk.white('Due: ') +
+          chalk.red(formatCurrency(penaltyDue, loan.currency)),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'cyan',
+        }
+      )
+    );
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          {
+            name: loan.penaltyRule
+              ? "Change this loan's penalty rule"
+              : 'Set a penalty rule for this loan',
+            value: 'set',
+          },
+          ...(loan.penaltyRule
+            ? [{ name: 'Use the default penalty rule', value: 'default' }]
+            : []),
+          ...(penaltyDue > 0
+            ? [{ name: 'Waive penalty', value: 'waive' }]
+            : []),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+      },
+    ]);
+
+    if (action === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    if (action === 'waive') {
+      const waiver = await inquirer.prompt([
+        {
+          type: 'number',
+          name: 'amount',
+          message: 'Amount to waive:',
+          default: penaltyDue,
+          validate: input =>
+            (input > 0 && input <= penaltyDue) ||
+            `Enter an amount between 0 and ${formatCurrency(penaltyDue, loan.currency)}`,
+        },
+        {
+          type: 'input',
+          name: 'reason',
+          message: 'Reason for the waiver:',
+          validate: input =>
+            input.trim().length > 0 ||
+            'A reason is required for the audit trail',
+        },
+      ]);
+
+      const spinner = createSpinner('Waiving penalty...').start();
+
+      try {
+        const updatedLoan = await this.loanService.waivePenalty(
+          loanId,
+          waiver.amount,
+          waiver.reason.trim()
+        );
+
+        if (!updatedLoan) {
+          spinner.error({ text: 'Loan not found' });
+          return;
+        }
+
+        spinner.success({ text: 'Penalty waived and recorded!' });
+
+        console.log(
+          boxen(
+            chalk.green('✅ Penalty Waived!') +
+              '\n\n' +
+              chalk.cyan('Waived: ') +
+              chalk.white(formatCurrency(waiver.amount, loan.currency)) +
+              '\n' +
+              chalk.cyan('Penalty Still Due: ') +
+              chalk.white(
+                formatCurrency(
+                  updatedLoan.getPenaltyDue(defaultPenaltyRule),
+                  updatedLoan.currency
+                )
+              ),
+            {
+              padding: 1,
+              margin: 1,
+              borderStyle: 'round',
+              borderColor: 'green',
+              textAlignment: 'left',
+            }
+          )
+        );
+      } catch (error) {
+        spinner.error({ text: 'Failed to waive penalty' });
+        throw error;
+      }
+      return;
+    }
+
+    let rule: PenaltyRule | null = null;
+    if (action === 'set') {
+      const answers = await inquirer.prompt(
+        this.getPenaltyRuleQuestions(loan.penaltyRule || defaultPenaltyRule)
+      );
+      rule = this.toPenaltyRule(answers);
+    }
+
+    const spinner = createSpinner('Updating penalty rule...').start();
+
+    try {
+      const updatedLoan = await this.loanService.setPenaltyRule(loanId, rule);
+
+      if (!updatedLoan) {
+        spinner.error({ text: 'Loan not found' });
+        return;
+      }
+
+      spinner.success({ text: 'Penalty rule updated!' });
+
+      console.log(
+        boxen(
+          chalk.green('✅ Penalty Rule Saved!') +
+            '\n\n' +
+            chalk.cyan('Rule: ') +
+            chalk.white(
+              formatPenaltyRule(updatedLoan.penaltyRule || defaultPenaltyRule)
+            ) +
+            '\n' +
+            chalk.cyan('Penalty Due: ') +
+            chalk.white(
+              formatCurrency(
+                updatedLoan.getPenaltyDue(defaultPenaltyRule),
+                updatedLoan.currency
+              )
+            ),
+          {
+            padding: 1,
+            margin: 1,
+            borderStyle: 'round',
+            borderColor: 'green',
+            textAlignment: 'left',
+          }
+        )
+      );
+    } catch (error) {
+      spinner.error({ text: 'Failed to update penalty rule' });
+      throw error;
+    }
+  }
+
+  private async markLoanAsPaid(): Promise<void> {
+    console.log('\n' + chalk.bold('✅ Mark Loan as Paid'));
+
+    const loans = await this.loanService.getLoans();
+    const unpaidLoans = loans.filter(loan => loan.isOpen());
+
+    if (unpaidLoans.length === 0) {
+      console.log(
+        boxen(
+          chalk.green(
+            '🎉 All loans are already paid!\nGreat job managing your finances!'
+          ),
+          {
+            padding: 1,
+            margin: 1,
+            borderStyle: 'round',
+            borderColor: 'green',
+            textAlignment: 'center',
+          }
+        )
+      );
+      return;
+    }
+
+    const loanChoices = unpaidLoans.map(loan => ({
+      name: `${loan.lenderName} - ${formatCurrency(loan.calculateTotalWithInterest(), loan.currency)} - ${formatDate(loan.repaymentDate)} - ${loan.isOverdue() ? chalk.red('Overdue') : chalk.yellow('Pending')}`,
+      value: loan.id,
+    }));
+
+    const { loanId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Select loan to mark as paid:',
+        choices: [
+          ...loanChoices,
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (loanId === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    const loan = unpaidLoans.find(l => l.id === loanId);
+    if (!loan) {
+      console.log(chalk.red('❌ Loan not found.'));
+      return;
+    }
+
+    // Confirm payment
+    const { confirmPayment } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirmPayment',
+        message: `Mark loan from ${loan.lenderName} (${formatCurrency(loan.calculateTotalWithInterest(), loan.currency)}) as paid?`,
+        default: true,
+      },
+    ]);
+
+    if (!confirmPayment) {
+      console.log(chalk.yellow('Payment marking cancelled.'));
+      return;
+    }
+
+    const spinner = createSpinner('Marking loan as paid...').start();
+
+    try {
+      const updatedLoan = await this.loanService.markLoanAsPaid(loanId);
+      spinner.success({ text: 'Loan marked as paid successfully!' });
+
+      if (updatedLoan) {
+        console.log(
+          boxen(
+            chalk.green('✅ Loan Marked as Paid!') +
+              '\n\n' +
+              chalk.cyan('Lender: ') +
+              chalk.white(updatedLoan.lenderName) +
+              '\n' +
+              chalk.cyan('Amount Paid: ') +
+              chalk.white(
+                formatCurrency(
+                  updatedLoan.calculateTotalWithInterest(),
+                  updatedLoan.currency
+                )
+              ) +
+              '\n' +
+              chalk.cyan('Payment Date: ') +
+              chalk.yellow(formatDate(new Date().toISOString().split('T')[0])),
+            {
+              padding: 1,
+              margin: 1,
+              borderStyle: 'round',
+              borderColor: 'green',
+              textAlignment: 'left',
+            }
+          )
+        );
+      }
+    } catch (error) {
+      spinner.error({ text: 'Failed to mark loan as paid' });
+      throw error;
+    }
+  }
+
+  private async manageWriteOff(): Promise<void> {
+    console.log('\n' + chalk.bold('🚫 Write Off / Reinstate'));
+
+    const loans = await this.loanService.getLoans();
+    const candidates = loans.filter(
+      loan => loan.isOpen() || loan.isWrittenOff()
+    );
+
+    if (candidates.length === 0) {
+      console.log(
+        boxen(chalk.green('🎉 No outstanding or written-off loans!'), {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'green',
+          textAlignment: 'center',
+        })
+      );
+      return;
+    }
+
+    const { loanId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Select loan:',
+        choices: [
+          ...candidates.map(loan => ({
+            name: loan.writeOff
+              ? `${loan.lenderName} - ${chalk.gray(`written off ${formatCurrency(loan.writeOff.amount, loan.currency)}`)}`
+              : `${loan.lenderName} - ${formatCurrency(loan.getOutstandingBalance(), loan.currency)} outstanding${loan.isOverdue() ? chalk.red(' (overdue)') : ''}`,
+            value: loan.id,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (loanId === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    const loan = candidates.find(l => l.id === loanId);
+    if (!loan) {
+      console.log(chalk.red('❌ Loan not found.'));
+      return;
+    }
+
+    if (loan.writeOff) {
+      await this.reinstateLoan(loan);
+    } else {
+      await this.writeOffLoan(loan);
+    }
+  }
+
+  private async writeOffLoan(loan: LoanModel): Promise<void> {
+    const outstanding = loan.getOutstandingBalance();
+
+    console.log(
+      boxen(
+        chalk.yellow('⚠️ Writing off cancels this loan as a bad debt.') +
+          '\n\n' +
+          chalk.white(`${getCounterpartyLabel(loan.getDirection())}: `) +
+          chalk.yellow(loan.lenderName) +
+          '\n' +
+          chalk.white('Amount to Write Off: ') +
+          chalk.red(formatCurrency(outstanding, loan.currency)) +
+          '\n\n' +
+          chalk.gray('The loan can be reinstated if the money turns up later.'),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'yellow',
+        }
+      )
+    );
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'reason',
+        message: 'Reason for the write-off:',
+        validate: (input: string) =>
+          input.trim().length > 0 || 'Please give a reason',
+      },
+      {
+        type: 'input',
+        name: 'date',
+        message: 'Write-off date (YYYY-MM-DD):',
+        default: new Date().toISOString().split('T')[0],
+        validate: (input: string) =>
+          !isNaN(Date.parse(input)) || 'Invalid date format',
+      },
+      {
+        type: 'confirm',
+        name: 'confirmed',
+        message: `Write off ${formatCurrency(outstanding, loan.currency)}?`,
+        default: false,
+      },
+    ]);
+
+    if (!answers.confirmed) {
+      console.log(chalk.yellow('Write-off cancelled.'));
+      return;
+    }
+
+    const spinner = createSpinner('Writing off loan...').start();
+
+    try {
+      const updatedLoan = await this.loanService.writeOffLoan(
+        loan.id,
+        answers.reason,
+        answers.date
+      );
+
+      if (!updatedLoan) {
+        spinner.error({ text: 'Loan not found' });
+        return;
+      }
+
+      spinner.success({
+        text: `Wrote off ${formatCurrency(updatedLoan.getWrittenOffAmount(), updatedLoan.currency)}`,
+      });
+    } catch (error) {
+      spinner.error({ text: 'Failed to write off loan' });
+      throw error;
+    }
+  }
+
+  private async reinstateLoan(loan: LoanModel): Promise<void> {
+    const writeOff = loan.writeOff!;
+
+    console.log(
+      boxen(
+        chalk.cyan('Written-off Loan:') +
+          '\n\n' +
+          chalk.white('Amount: ') +
+          chalk.yellow(formatCurrency(writeOff.amount, loan.currency)) +
+          '\n' +
+          chalk.white('Date: ') +
+          chalk.yellow(formatDate(writeOff.date)) +
+          '\n' +
+          chalk.white('Reason: ') +
+          chalk.yellow(writeOff.reason),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'cyan',
+        }
+      )
+    );
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirmed',
+        message: 'Reinstate this loan?',
+        default: true,
+      },
+      {
+        type: 'input',
+        name: 'note',
+        message: 'Note (optional):',
+        when: (answers: any) => answers.confirmed,
+      },
+      {
+        type: 'number',
+        name: 'recovered',
+        message: 'Amount recovered now (0 to skip):',
+        default: 0,
+        when: (answers: any) => answers.confirmed,
+        validate: (input: number) =>
+          (input >= 0 && input <= writeOff.amount) ||
+          `Enter an amount between 0 and ${writeOff.amount}`,
+      },
+    ]);
+
+    if (!answers.confirmed) {
+      console.log(chalk.yellow('Reinstatement cancelled.'));
+      return;
+    }
+
+    const spinner = createSpinner('Reinstating loan...').start();
+
+    try {
+      let updatedLoan = await this.loanService.reinstateLoan(
+        loan.id,
+        answers.note || ''
+      );
+
+      if (updatedLoan && answers.recovered > 0) {
+        updatedLoan = await this.loanService.recordPayment(loan.id, {
+          amount: answers.recovered,
+          paymentDate: new Date().toISOString().split('T')[0],
+          method: PaymentMethod.OTHER,
+          notes: 'Recovered after write-off',
+        });
+      }
+
+      if (!updatedLoan) {
+        spinner.error({ text: 'Loan not found' });
+        return;
+      }
+
+      spinner.success({ text: 'Loan reinstated!' });
+
+      console.log(
+        boxen(
+          chalk.green('✅ Loan Reinstated!') +
+            '\n\n' +
+            chalk.cyan('Outstanding: ') +
+            chalk.white(
+              formatCurrency(
+                updatedLoan.getOutstandingBalance(),
+                updatedLoan.currency
+              )
+            ) +
+            '\n' +
+            chalk.cyan('Status: ') +
+            this.formatStatus(updatedLoan),
+          {
+            padding: 1,
+            margin: 1,
+            borderStyle: 'round',
+            borderColor: 'green',
+            textAlignment: 'left',
+          }
+        )
+      );
+    } catch (error) {
+      spinner.error({ text: 'Failed to reinstate loan' });
+      throw error;
+    }
+  }
+
+  private async restructureLoans(): Promise<void> {
+    console.log('\n' + chalk.bold('🔗 Consolidate / Split / Renew'));
+
+    const loans = await this.loanService.getLoans();
+    const openLoans = loans.filter(loan => loan.isOpen());
+
+    if (openLoans.length === 0) {
+      console.log(
+        boxen(chalk.green('🎉 No open loans to restructure!'), {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'green',
+          textAlignment: 'center',
+        })
+      );
+      return;
+    }
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          {
+            name: 'Consolidate several loans with one person into one',
+            value: 'consolidate',
+          },
+          { name: 'Split a loan into smaller loans', value: 'split' },
+          { name: 'Renew or refinance an unpaid loan', value: 'renew' },
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+      },
+    ]);
+
+    switch (action) {
+      case 'consolidate':
+        await this.consolidateLoans(openLoans);
+        break;
+      case 'split':
+        await this.splitLoan(openLoans);
+        break;
+      case 'renew':
+        await this.renewLoan(openLoans);
+        break;
+      default:
+        console.log(chalk.yellow('Operation cancelled.'));
+    }
+  }
+
+  private async consolidateLoans(openLoans: LoanModel[]): Promise<void> {
+    // Only loans with the same person, direction and currency can be merged
+    const groups = new Map<string, LoanModel[]>();
+    openLoans.forEach(loan => {
+      const key = [
+        loan.lenderName.trim().toLowerCase(),
+        loan.getDirection(),
+        loan.currency || '',
+      ].join('|');
+      groups.set(key, [...(groups.get(key) || []), loan]);
+    });
+    const candidates = Array.from(groups.values()).filter(
+      group => group.length > 1
+    );
+
+    if (candidates.length === 0) {
+      console.log(
+        chalk.yellow(
+          'No one has two or more open loans in the same direction and currency.'
+        )
+      );
+      return;
+    }
+
+    const { groupIndex } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'groupIndex',
+        message: 'Consolidate loans with:',
+        choices: [
+          ...candidates.map((group, index) => ({
+            name: `${group[0].lenderName} (${formatDirection(group[0].getDirection())}) - ${group.length} open loans`,
+            value: index,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: -1 },
+        ],
+      },
+    ]);
+
+    if (groupIndex === -1) {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    const group = candidates[groupIndex];
+    const defaultPenaltyRule = await this.loanService.getDefaultPenaltyRule();
+
+    const { loanIds } = await inquirer.prompt([
+      {
+        type: 'checkbox',
+        name: 'loanIds',
+        message: 'Loans to consolidate:',
+        choices: group.map(loan => ({
+          name: `${formatCurrency(loan.getOutstandingBalance(), loan.currency)} outstanding - due ${formatDate(loan.repaymentDate)}`,
+          value: loan.id,
+          checked: true,
+        })),
+        validate: (input: string[]) =>
+          input.length > 1 || 'Select at least two loans',
+      },
+    ]);
+
+    const selected = group.filter(loan => loanIds.includes(loan.id));
+    const terms = await this.promptRestructureTerms(
+      selected,
+      0,
+      defaultPenaltyRule
+    );
+    if (!terms) return;
+
+    const spinner = createSpinner('Consolidating loans...').start();
+
+    try {
+      const created = await this.loanService.consolidateLoans(loanIds, terms);
+      spinner.success({ text: `Consolidated ${selected.length} loans` });
+      this.displayRestructureResult('Consolidated', selected.length, [created]);
+    } catch (error) {
+      spinner.error({ text: 'Failed to consolidate loans' });
+      throw error;
+    }
+  }
+
+  private async splitLoan(openLoans: LoanModel[]): Promise<void> {
+    const { loanId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Select loan to split:',
+        choices: [
+          ...openLoans.map(loan => ({
+            name: `${loan.lenderName} - ${formatCurrency(loan.getOutstandingBalance(), loan.currency)} outstanding - due ${formatDate(loan.repaymentDate)}`,
+            value: loan.id,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (loanId === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    const loan = openLoans.find(l => l.id === loanId)!;
+    const balance = Math.round(loan.getOutstandingBalance() * 100) / 100;
+
+    const { count } = await inquirer.prompt([
+      {
+        type: 'number',
+        name: 'count',
+        message: 'Split into how many loans?',
+        default: 2,
+        validate: (input: number) =>
+          (Number.isInteger(input) && input >= 2 && input <= 12) ||
+          'Enter a whole number from 2 to 12',
+      },
+    ]);
+
+    // The last part takes whatever is left so the parts add up exactly
+    const parts: Array<{ amount: number; repaymentDate: string }> = [];
+    let remaining = balance;
+    for (let n = 1; n <= count; n++) {
+      const last = n === count;
+      if (last) {
+        console.log(
+          chalk.gray(
+            `Part ${n} takes the remaining ${formatCurrency(remaining, loan.currency)}`
+          )
+        );
+      }
+      const answers = await inquirer.prompt([
+        {
+          type: 'number',
+          name: 'amount',
+          message: `Part ${n} amount (${formatCurrency(remaining, loan.currency)} left):`,
+          when: () => !last,
+          validate: (input: number) =>
+            (input > 0 && input < remaining) ||
+            `Enter an amount below ${remaining}`,
+        },
+        {
+          type: 'input',
+          name: 'repaymentDate',
+          message: `Part ${n} due date (YYYY-MM-DD):`,
+          default: loan.repaymentDate,
+          validate: (input: string) =>
+            isValidDate(input) || 'Please enter a valid future date',
+        },
+      ]);
+      const amount = last ? remaining : answers.amount;
+      parts.push({ amount, repaymentDate: answers.repaymentDate });
+      remaining = Math.round((remaining - amount) * 100) / 100;
+    }
+
+    const { note, confirmed } = await inquirer.prompt([
+      { type: 'input', name: 'note', message: 'Note (optional):' },
+      {
+        type: 'confirm',
+        name: 'confirmed',
+        message: `Close this loan and replace it with ${count} loans?`,
+        default: true,
+      },
+    ]);
+
+    if (!confirmed) {
+      console.log(chalk.yellow('Split cancelled.'));
+      return;
+    }
+
+    const spinner = createSpinner('Splitting loan...').start();
+
+    try {
+      const created = await this.loanService.splitLoan(loan.id, parts, note);
+      spinner.success({ text: `Split into ${created.length} loans` });
+      this.displayRestructureResult('Split', 1, created);
+    } catch (error) {
+      spinner.error({ text: 'Failed to split loan' });
+      throw error;
+    }
+  }
+
+  private async renewLoan(openLoans: LoanModel[]): Promise<void> {
+    const { loanId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Select loan to renew:',
+        choices: [
+          ...openLoans.map(loan => ({
+            name: `${loan.lenderName} - ${formatCurrency(loan.getOutstandingBalance(), loan.currency)} outstanding - due ${formatDate(loan.repaymentDate)}${loan.isOverdue() ? chalk.red(' (overdue)') : ''}`,
+            value: loan.id,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (loanId === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    const loan = openLoans.find(l => l.id === loanId)!;
+    const terms = await this.promptRestructureTerms(
+      [loan],
+      loan.interestRate || 0,
+      await this.loanService.getDefaultPenaltyRule()
+    );
+    if (!terms) return;
+
+    const spinner = createSpinner('Renewing loan...').start();
+
+    try {
+      const created = await this.loanService.renewLoan(loan.id, terms);
+      spinner.success({
+        text:
+          created.relationships?.[0]?.relationshipType === 'refinance'
+            ? 'Loan refinanced'
+            : 'Loan renewed',
+      });
+      this.displayRestructureResult('Renewed', 1, [created]);
+    } catch (error) {
+      spinner.error({ text: 'Failed to renew loan' });
+      throw error;
+    }
+  }
+
+  // Terms for the single loan that replaces a consolidation or renewal
+  private async promptRestructureTerms(
+    sources: LoanModel[],
+    defaultRate: number,
+    defaultPenaltyRule?: PenaltyRule
+  ): Promise<RestructureTerms | null> {
+    const currency = sources[0].currency;
+    const balance = sources.reduce(
+      (sum, loan) => sum + loan.getOutstandingBalance(),
+      0
+    );
+    const penalties = sources.reduce(
+      (sum, loan) => sum + loan.getPenaltyDue(defaultPenaltyRule),
+      0
+    );
+
+    console.log(
+      boxen(
+        chalk.white('Balance Carried Forward: ') +
+          chalk.yellow(formatCurrency(balance, currency)) +
+          (penalties > 0
+            ? '\n' +
+              chalk.white('Unwaived Penalties: ') +
+              chalk.red(formatCurrency(penalties, currency))
+            : ''),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'cyan',
+        }
+      )
+    );
+
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'repaymentDate',
+        message: 'New due date (YYYY-MM-DD):',
+        validate: (input: string) =>
+          isValidDate(input) || 'Please enter a valid future date',
+      },
+      {
+        type: 'number',
+        name: 'interestRate',
+        message: 'Interest rate on the new loan (%):',
+        default: defaultRate,
+        validate: (input: number) =>
+          (input >= 0 && input <= 100) ||
+          'Interest rate must be between 0 and 100',
+      },
+      {
+        type: 'confirm',
+        name: 'includePenalties',
+        message: 'Roll the unwaived penalties into the new loan?',
+        default: false,
+        when: () => penalties > 0,
+      },
+      { type: 'input', name: 'note', message: 'Note (optional):' },
+      {
+        type: 'confirm',
+        name: 'confirmed',
+        message: `Close ${sources.length === 1 ? 'this loan' : `these ${sources.length} loans`} and create the new loan?`,
+        default: true,
+      },
+    ]);
+
+    if (!answers.confirmed) {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return null;
+    }
+
+    return {
+      repaymentDate: answers.repaymentDate,
+      interestRate: answers.interestRate,
+      includePenalties: answers.includePenalties,
+      note: answers.note,
+    };
+  }
+
+  private displayRestructureResult(
+    action: string,
+    closedCount: number,
+    created: LoanModel[]
+  ): void {
+    console.log(
+      boxen(
+        chalk.green(
+          `✅ ${action}! ${closedCount} loan${closedCount === 1 ? '' : 's'} closed and linked to:`
+        ) +
+          '\n\n' +
+          created
+            .map(
+              loan =>
+                chalk.cyan('• ') +
+                chalk.white(formatCurrency(loan.amount, loan.currency)) +
+                chalk.gray(` due ${formatDate(loan.repaymentDate)}`) +
+                (loan.interestRate
+                  ? chalk.gray(` at ${loan.interestRate}%`)
+                  : '')
+            )
+            .join('\n'),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'green',
+          textAlignment: 'left',
+        }
+      )
+    );
+  }
+
+  private async manageCollateral(): Promise<void> {
+    console.log('\n' + chalk.bold('🔐 Collateral'));
+
+    const loans = await this.loanService.getLoans();
+    const candidates = loans.filter(
+      loan => loan.isOpen() || loan.getHeldCollateral().length > 0
+    );
+
+    if (candidates.length === 0) {
+      console.log(
+        boxen(chalk.green('🎉 No open loans or held collateral!'), {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'green',
+          textAlignment: 'center',
+        })
+      );
+      return;
+    }
+
+    const { loanId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Select loan:',
+        choices: [
+          ...candidates.map(loan => {
+            const held = loan.getHeldCollateral().length;
+            return {
+              name: `${loan.lenderName} - ${formatCurrency(loan.getOutstandingBalance(), loan.currency)} outstanding${held > 0 ? chalk.gray(` - ${held} item${held === 1 ? '' : 's'} held`) : ''}`,
+              value: loan.id,
+            };
+          }),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (loanId === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    const loan = candidates.find(l => l.id === loanId);
+    if (!loan) {
+      console.log(chalk.red('❌ Loan not found.'));
+      return;
+    }
+
+    this.displayCollateral(loan);
+    const hasHeld = loan.getHeldCollateral().length > 0;
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          { name: 'Add collateral', value: 'add' },
+          ...(hasHeld
+            ? [
+                { name: 'Edit collateral', value: 'edit' },
+                { name: 'Release collateral', value: 'release' },
+              ]
+            : []),
+          ...(hasHeld && loan.isOpen()
+            ? [{ name: 'Seize collateral', value: 'seize' }]
+            : []),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+      },
+    ]);
+
+    if (action === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    let updatedLoan: LoanModel | null = null;
+    switch (action) {
+      case 'add': {
+        const details = await this.promptCollateralDetails();
+        updatedLoan = await this.runCollateralAction('Adding collateral', () =>
+          this.loanService.addCollateral(loan.id, details)
+        );
+        break;
+      }
+      case 'edit': {
+        const item = await this.selectHeldCollateral(loan, 'Edit which item?');
+        if (!item) return;
+        const details = await this.promptCollateralDetails(item);
+        updatedLoan = await this.runCollateralAction(
+          'Updating collateral',
+          () => this.loanService.updateCollateral(loan.id, item.id, details)
+        );
+        break;
+      }
+      case 'release': {
+        const item = await this.selectHeldCollateral(
+          loan,
+          'Release which item?'
+        );
+        if (!item) return;
+        const { note, confirmed } = await inquirer.prompt([
+          { type: 'input', name: 'note', message: 'Note (optional):' },
+          {
+            type: 'confirm',
+            name: 'confirmed',
+            message: `Return ${item.description} to ${loan.lenderName}?`,
+            default: true,
+          },
+        ]);
+        if (!confirmed) {
+          console.log(chalk.yellow('Release cancelled.'));
+          return;
+        }
+        updatedLoan = await this.runCollateralAction(
+          'Releasing collateral',
+          () => this.loanService.releaseCollateral(loan.id, item.id, note)
+        );
+        break;
+      }
+      case 'seize': {
+        const item = await this.selectHeldCollateral(loan, 'Seize which item?');
+        if (!item) return;
+        const outstanding = loan.getOutstandingBalance();
+        const { realizedAmount, confirmed } = await inquirer.prompt([
           {
             type: 'number',
-            name: 'minAmount',
-            message: 'Enter minimum amount:',
-            default: 0,
+            name: 'realizedAmount',
+            message:
+              'Amount realized from it, applied as a payment (0 if kept):',
+            default: Math.min(item.estimatedValue, outstanding),
+            validate: (input: number) =>
+              (input >= 0 && input <= outstanding) ||
+              `Enter an amount between 0 and ${outstanding}`,
           },
           {
-            type: 'number',
-            name: 'maxAmount',
-            message: 'Enter maximum amount:',
-            validate: (input, answers) =>
-              input >= answers.minAmount ||
-              'Maximum must be greater than minimum',
+            type: 'confirm',
+            name: 'confirmed',
+            message: `Seize ${item.description}?`,
+            default: false,
           },
         ]);
-        searchParams = {
-          type: 'amountRange',
-          min: amountSearch.minAmount,
-          max: amountSearch.maxAmount,
-        };
+        if (!confirmed) {
+          console.log(chalk.yellow('Seizure cancelled.'));
+          return;
+        }
+        updatedLoan = await this.runCollateralAction('Seizing collateral', () =>
+          this.loanService.seizeCollateral(loan.id, item.id, realizedAmount)
+        );
         break;
+      }
+    }
+
+    if (!updatedLoan) return;
+
+    console.log(
+      boxen(
+        chalk.green('✅ Collateral Updated!') +
+          '\n\n' +
+          chalk.cyan('Collateral Held: ') +
+          chalk.white(
+            formatCurrency(
+              updatedLoan.getCollateralValue(),
+              updatedLoan.currency
+            )
+          ) +
+          '\n' +
+          chalk.cyan('Outstanding: ') +
+          chalk.white(
+            formatCurrency(
+              updatedLoan.getOutstandingBalance(),
+              updatedLoan.currency
+            )
+          ) +
+          '\n' +
+          chalk.cyan('Coverage Ratio: ') +
+          this.formatCoverage(updatedLoan.getCoverageRatio()),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: 'green',
+          textAlignment: 'left',
+        }
+      )
+    );
+  }
+
+  private async runCollateralAction(
+    text: string,
+    action: () => Promise<LoanModel | null>
+  ): Promise<LoanModel | null> {
+    const spinner = createSpinner(`${text}...`).start();
+
+    try {
+      const updatedLoan = await action();
+      if (!updatedLoan) {
+        spinner.error({ text: 'Loan or collateral not found' });
+        return null;
+      }
+      spinner.success({ text: 'Collateral saved' });
+      return updatedLoan;
+    } catch (error) {
+      spinner.error({ text: 'Failed to update collateral' });
+      throw error;
+    }
+  }
+
+  private async selectHeldCollateral(
+    loan: LoanModel,
+    message: string
+  ): Promise<LoanCollateral | null> {
+    const { collateralId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'collateralId',
+        message,
+        choices: [
+          ...loan.getHeldCollateral().map(item => ({
+            name: `${item.description} - ${formatCurrency(item.estimatedValue, loan.currency)} (${item.condition})`,
+            value: item.id,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+      },
+    ]);
+
+    if (collateralId === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return null;
+    }
+    return loan.getHeldCollateral().find(item => item.id === collateralId)!;
+  }
+
+  private async promptCollateralDetails(
+    current?: LoanCollateral
+  ): Promise<CollateralDetails> {
+    const answers = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'type',
+        message: 'Collateral type:',
+        default: current?.type,
+        choices: [
+          { name: 'Electronics (phone, laptop)', value: 'electronics' },
+          { name: 'Documents (title, certificate)', value: 'documents' },
+          { name: 'Vehicle', value: 'vehicle' },
+          { name: 'Jewelry', value: 'jewelry' },
+          { name: 'Property', value: 'property' },
+          { name: 'Other', value: 'other' },
+        ],
+      },
+      {
+        type: 'input',
+        name: 'description',
+        message: 'Description:',
+        default: current?.description,
+        validate: (input: string) =>
+          input.trim().length > 0 || 'Please describe the item',
+      },
+      {
+        type: 'number',
+        name: 'estimatedValue',
+        message: 'Estimated value:',
+        default: current?.estimatedValue,
+        validate: (input: number) =>
+          isValidAmount(input) || 'Please enter a valid amount',
+      },
+      {
+        type: 'list',
+        name: 'condition',
+        message: 'Condition:',
+        default: current?.condition || 'good',
+        choices: [
+          { name: 'Excellent', value: 'excellent' },
+          { name: 'Good', value: 'good' },
+          { name: 'Fair', value: 'fair' },
+          { name: 'Poor', value: 'poor' },
+        ],
+      },
+      {
+        type: 'input',
+        name: 'location',
+        message: 'Where is it kept? (optional):',
+        default: current?.location,
+      },
+      {
+        type: 'input',
+        name: 'notes',
+        message: 'Notes (optional):',
+        default: current?.notes,
+      },
+    ]);
+
+    return {
+      type: answers.type,
+      description: answers.description.trim(),
+      estimatedValue: answers.estimatedValue,
+      condition: answers.condition,
+      location: answers.location?.trim() || undefined,
+      notes: answers.notes?.trim() || undefined,
+    };
+  }
+
+  private async manageGuarantors(): Promise<void> {
+    console.log('\n' + chalk.bold('🤝 Guarantors'));
+
+    const { view } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'view',
+        message: 'What would you like to do?',
+        choices: [
+          { name: 'Manage guarantors on a loan', value: 'loan' },
+          { name: 'View exposure by guarantor', value: 'exposure' },
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+      },
+    ]);
+
+    if (view === 'exposure') {
+      await this.showGuarantorExposures();
+      return;
+    }
+    if (view === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    const loans = await this.loanService.getLoans();
+    const candidates = loans.filter(
+      loan => loan.isOpen() || (loan.guarantors || []).length > 0
+    );
+
+    if (candidates.length === 0) {
+      console.log(chalk.yellow('No open loans to attach guarantors to.'));
+      return;
+    }
+
+    const { loanId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Select loan:',
+        choices: [
+          ...candidates.map(loan => {
+            const active = loan.getActiveGuarantors().length;
+            return {
+              name: `${loan.lenderName} - ${formatCurrency(loan.getOutstandingBalance(), loan.currency)} outstanding${active > 0 ? chalk.gray(` - ${active} guarantor${active === 1 ? '' : 's'}`) : ''}${loan.isOverdue() ? chalk.red(' (overdue)') : ''}`,
+              value: loan.id,
+            };
+          }),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (loanId === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+
+    const loan = candidates.find(l => l.id === loanId);
+    if (!loan) {
+      console.log(chalk.red('❌ Loan not found.'));
+      return;
+    }
+
+    this.displayGuarantors(loan);
+    const guarantors = loan.guarantors || [];
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          ...(loan.isOpen()
+            ? [{ name: 'Attach guarantor', value: 'add' }]
+            : []),
+          ...(guarantors.some(g => !g.isActive)
+            ? [{ name: 'Activate guarantor', value: 'activate' }]
+            : []),
+          ...(guarantors.some(g => g.isActive)
+            ? [{ name: 'Release guarantor', value: 'release' }]
+            : []),
+          ...(loan.shouldContactGuarantor()
+            ? [{ name: '📞 Contact guarantor', value: 'contact' }]
+            : []),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+      },
+    ]);
+
+    if (action === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
+    if (action === 'contact') {
+      this.showGuarantorContact(loan);
+      return;
+    }
+
+    let updatedLoan: LoanModel | null = null;
+    const spinner = createSpinner('Saving guarantor...');
+
+    if (action === 'add') {
+      const { details, isActive } = await this.promptGuarantorDetails(loan);
+      spinner.start();
+      try {
+        updatedLoan = await this.loanService.addGuarantor(
+          loan.id,
+          details,
+          isActive
+        );
+      } catch (error) {
+        spinner.error({ text: 'Failed to attach guarantor' });
+        throw error;
+      }
+    } else {
+      const activate = action === 'activate';
+      const { guarantorId } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'guarantorId',
+          message: activate
+            ? 'Activate which guarantor?'
+            : 'Release which guarantor?',
+          choices: guarantors
+            .filter(g => g.isActive !== activate)
+            .map(g => ({
+              name: `${g.name} (${g.relationship}) - ${formatCurrency(g.guaranteeAmount, loan.currency)}`,
+              value: g.id,
+            })),
+        },
+      ]);
+      spinner.start();
+      try {
+        updatedLoan = await this.loanService.setGuarantorActive(
+          loan.id,
+          guarantorId,
+          activate
+        );
+      } catch (error) {
+        spinner.error({ text: 'Failed to update guarantor' });
+        throw error;
+      }
+    }
+
+    if (!updatedLoan) {
+      spinner.error({ text: 'Loan or guarantor not found' });
+      return;
+    }
+
+    spinner.success({
+      text: `Guaranteed: ${formatCurrency(updatedLoan.getGuaranteedAmount(), updatedLoan.currency)} of ${formatCurrency(updatedLoan.getOutstandingBalance(), updatedLoan.currency)} outstanding`,
+    });
+  }
+
+  private async promptGuarantorDetails(
+    loan: LoanModel
+  ): Promise<{ details: GuarantorDetails; isActive: boolean }> {
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'name',
+        message: 'Guarantor name:',
+        validate: (input: string) =>
+          input.trim().length > 0 || 'Please enter a name',
+      },
+      {
+        type: 'input',
+        name: 'phoneNumber',
+        message: 'Phone number:',
+        validate: (input: string) =>
+          isValidPhoneNumber(input) || 'Please enter a valid phone number',
+      },
+      {
+        type: 'input',
+        name: 'relationship',
+        message: `Relationship to ${loan.lenderName}:`,
+        validate: (input: string) =>
+          input.trim().length > 0 || 'Please describe the relationship',
+      },
+      {
+        type: 'number',
+        name: 'guaranteeAmount',
+        message: 'Amount guaranteed:',
+        default: loan.amount,
+        validate: (input: number) =>
+          (isValidAmount(input) && input <= loan.amount) ||
+          `Enter an amount up to ${loan.amount}`,
+      },
+      { type: 'input', name: 'email', message: 'Email (optional):' },
+      { type: 'input', name: 'address', message: 'Address (optional):' },
+      {
+        type: 'confirm',
+        name: 'isActive',
+        message: 'Has the guarantor agreed? (activate now)',
+        default: true,
+      },
+    ]);
+
+    return {
+      details: {
+        name: answers.name.trim(),
+        phoneNumber: answers.phoneNumber.trim(),
+        relationship: answers.relationship.trim(),
+        guaranteeAmount: answers.guaranteeAmount,
+        email: answers.email.trim() || undefined,
+        address: answers.address.trim() || undefined,
+      },
+      isActive: answers.isActive,
+    };
+  }
+
+  private async showGuarantorExposures(): Promise<void> {
+    const converter = await this.loanService.getCurrencyConverter();
+    const loans = this.loanService.toReportingCurrency(
+      await this.loanService.getLoans(),
+      converter
+    );
+    const exposures = getGuarantorExposures(loans);
+
+    if (exposures.length === 0) {
+      console.log(chalk.yellow('No guarantors have been recorded yet.'));
+      return;
+    }
+
+    const table = new Table({
+      head: [
+        chalk.cyan('Guarantor'),
+        chalk.cyan('Phone'),
+        chalk.cyan('Active'),
+        chalk.cyan('Guaranteed'),
+        chalk.cyan('Exposure'),
+        chalk.cyan('Overdue'),
+      ],
+      colWidths: [20, 16, 8, 15, 15, 9],
+    });
+
+    exposures.forEach(exposure => {
+      table.push([
+        exposure.name,
+        exposure.phoneNumber,
+        exposure.activeGuarantees.toString(),
+        formatCurrency(exposure.totalGuaranteed, converter.reportingCurrency),
+        formatCurrency(exposure.totalExposure, converter.reportingCurrency),
+        exposure.overdueLoans > 0
+          ? chalk.red(exposure.overdueLoans.toString())
+          : chalk.green('0'),
+      ]);
+    });
+
+    console.log('\n' + chalk.bold('🤝 Exposure by Guarantor'));
+    console.log(table.toString());
+
+    exposures.forEach(exposure => {
+      console.log(chalk.cyan(`\n${exposure.name}`));
+      exposure.loans.forEach(entry => {
+        console.log(
+          `  ${entry.isActive ? '•' : chalk.gray('○')} ${entry.borrower}: ` +
+            `${formatCurrency(entry.guaranteeAmount, converter.reportingCurrency)} guaranteed, ` +
+            `${formatCurrency(entry.outstanding, converter.reportingCurrency)} outstanding` +
+            (entry.isActive ? '' : chalk.gray(' (released)')) +
+            (entry.isActive && entry.isOverdue ? chalk.red(' - overdue') : '')
+        );
+      });
+    });
+  }
+
+  private showGuarantorContact(loan: LoanModel): void {
+    const overdue = formatCurrency(loan.getOverdueAmount(), loan.currency);
+
+    loan.getActiveGuarantors().forEach(guarantor => {
+      console.log(
+        boxen(
+          chalk.yellow.bold(`📞 ${guarantor.name}`) +
+            '\n\n' +
+            chalk.white('Phone: ') +
+            chalk.cyan(guarantor.phoneNumber) +
+            '\n' +
+            (guarantor.email
+              ? chalk.white('Email: ') + chalk.cyan(guarantor.email) + '\n'
+              : '') +
+            chalk.white('Relationship: ') +
+            chalk.gray(`${guarantor.relationship} of ${loan.lenderName}`) +
+            '\n' +
+            chalk.white('Guaranteed: ') +
+            chalk.yellow(
+              formatCurrency(guarantor.guaranteeAmount, loan.currency)
+            ) +
+            '\n\n' +
+            chalk.gray(
+              `Suggested message: "Hello ${guarantor.name}, ${loan.lenderName}'s repayment of ${overdue} was due on ${formatDate(loan.getNextDueDate())} and is now overdue. As guarantor, could you help us follow up?"`
+            ),
+          {
+            padding: 1,
+            margin: 1,
+            borderStyle: 'round',
+            borderColor: 'yellow',
+            width: 70,
+          }
+        )
+      );
+    });
+  }
+
+  private async manageDocuments(): Promise<void> {
+    console.log('\n' + chalk.bold('📎 Documents'));
+
+    const loans = await this.loanService.getLoans();
+    if (loans.length === 0) {
+      console.log(chalk.yellow('📂 No loans available. Add some loans first!'));
+      return;
+    }
+
+    const { loanId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'loanId',
+        message: 'Select loan:',
+        choices: [
+          ...loans.map(loan => {
+            const count = (loan.documents || []).length;
+            return {
+              name: `${loan.lenderName} - ${formatCurrency(loan.amount, loan.currency)} - ${formatDate(loan.repaymentDate)}${count > 0 ? chalk.gray(` - ${count} document${count === 1 ? '' : 's'}`) : ''}`,
+              value: loan.id,
+            };
+          }),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 10,
+      },
+    ]);
+
+    if (loanId === 'cancel') {
+      console.log(chalk.yellow('Operation cancelled.'));
+      return;
+    }
 
-      case 'dateRange':
-        const dateSearch = await inquirer.prompt([
-          {
-            type: 'input',
-            name: 'startDate',
-            message: 'Enter start date (YYYY-MM-DD):',
-            validate: input =>
-              !isNaN(Date.parse(input)) || 'Invalid date format',
-          },
-          {
-            type: 'input',
-            name: 'endDate',
-            message: 'Enter end date (YYYY-MM-DD):',
-            validate: input =>
-              !isNaN(Date.parse(input)) || 'Invalid date format',
-          },
-        ]);
-        searchParams = {
-          type: 'dateRange',
-          start: dateSearch.startDate,
-          end: dateSearch.endDate,
-        };
-        break;
+    const loan = loans.find(l => l.id === loanId);
+    if (!loan) {
+      console.log(chalk.red('❌ Loan not found.'));
+      return;
+    }
 
-      case 'status':
-        const statusSearch = await inquirer.prompt([
+    this.displayDocuments(loan);
+    const documents = loan.documents || [];
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          { name: 'Attach a file', value: 'attach' },
+          ...(documents.length > 0
+            ? [
+                { name: 'Open a document', value: 'open' },
+                { name: 'Remove a document', value: 'remove' },
+              ]
+            : []),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+      },
+    ]);
+
+    switch (action) {
+      case 'attach':
+        await this.attachDocument(loan);
+        break;
+      case 'open':
+      case 'remove': {
+        const { documentId } = await inquirer.prompt([
           {
             type: 'list',
-            name: 'status',
-            message: 'Select status:',
-            choices: [
-              { name: 'Paid', value: 'paid' },
-              { name: 'Pending', value: 'pending' },
-              { name: 'Overdue', value: 'overdue' },
-            ],
+            name: 'documentId',
+            message:
+              action === 'open'
+                ? 'Open which document?'
+                : 'Remove which document?',
+            choices: documents.map(document => ({
+              name: `${document.name} (${document.type}, ${formatFileSize(document.fileSize)})`,
+              value: document.id,
+            })),
           },
         ]);
-        searchParams = { type: 'status', value: statusSearch.status };
+        const document = documents.find(d => d.id === documentId)!;
+        if (action === 'open') {
+          await this.openDocument(document);
+        } else {
+          await this.removeDocument(loan, document);
+        }
         break;
+      }
+      default:
+        console.log(chalk.yellow('Operation cancelled.'));
     }
+  }
 
-    const spinner = createSpinner('Searching loans...').start();
+  private async attachDocument(loan: LoanModel): Promise<void> {
+    const answers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'sourcePath',
+        message: 'Path to the file:',
+        filter: (input: string) => input.trim().replace(/^['"]|['"]$/g, ''),
+        validate: (input: string) =>
+          input.length > 0 || 'Please enter a file path',
+      },
+      {
+        type: 'list',
+        name: 'type',
+        message: 'Document type:',
+        choices: [
+          { name: 'Signed agreement / IOU', value: 'agreement' },
+          { name: 'Transfer receipt', value: 'receipt' },
+          { name: 'ID copy', value: 'id_copy' },
+          { name: 'Collateral photo or paper', value: 'collateral' },
+          { name: 'Other', value: 'other' },
+        ],
+      },
+    ]);
+
+    const spinner = createSpinner('Attaching document...').start();
 
     try {
-      const loans = await this.loanService.getLoans();
-      const searchResults = this.searchLoansWithCriteria(loans, searchParams);
+      const updatedLoan = await this.loanService.attachDocument(
+        loan.id,
+        answers.sourcePath,
+        answers.type
+      );
 
-      spinner.success({ text: `Found ${searchResults.length} matching loans` });
+      if (!updatedLoan) {
+        spinner.error({ text: 'Loan not found' });
+        return;
+      }
 
-      if (searchResults.length === 0) {
-        console.log(
-          boxen(
-            chalk.yellow(
-              '🔍 No loans found matching your search criteria.\nTry adjusting your search parameters.'
-            ),
-            {
-              padding: 1,
-              margin: 1,
-              borderStyle: 'round',
-              borderColor: 'yellow',
-              textAlignment: 'center',
-            }
-          )
-        );
+      const documents = updatedLoan.documents || [];
+      const attached = documents[documents.length - 1];
+      spinner.success({
+        text: `Attached ${attached.name} (${formatFileSize(attached.fileSize)})`,
+      });
+    } catch (error) {
+      if ((error as any).code === 'ENOENT') {
+        spinner.error({ text: `File not found: ${answers.sourcePath}` });
         return;
       }
+      spinner.error({ text: 'Failed to attach document' });
+      throw error;
+    }
+  }
+
+  private async openDocument(document: LoanDocument): Promise<void> {
+    const location = await this.loanService.getDocumentLocation(document);
+
+    console.log(
+      boxen(
+        chalk.cyan.bold(`📎 ${document.name}`) +
+          '\n\n' +
+          chalk.white('Type: ') +
+          chalk.yellow(`${document.type} (${document.mimeType})`) +
+          '\n' +
+          chalk.white('Size: ') +
+          chalk.yellow(formatFileSize(document.fileSize)) +
+          '\n' +
+          chalk.white('SHA-256: ') +
+          chalk.gray(document.checksum) +
+          '\n\n' +
+          (location.exists
+            ? chalk.white('Path: ') + chalk.green(location.path)
+            : chalk.red(`Missing from the document store: ${location.path}`)),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'round',
+          borderColor: location.exists ? 'cyan' : 'red',
+        }
+      )
+    );
+  }
+
+  private async removeDocument(
+    loan: LoanModel,
+    document: LoanDocument
+  ): Promise<void> {
+    const { confirmed } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirmed',
+        message: `Remove ${document.name} from this loan?`,
+        default: false,
+      },
+    ]);
+
+    if (!confirmed) {
+      console.log(chalk.yellow('Removal cancelled.'));
+      return;
+    }
+
+    const spinner = createSpinner('Removing document...').start();
 
-      this.displayLoansTable(searchResults);
+    try {
+      const updatedLoan = await this.loanService.removeDocument(
+        loan.id,
+        document.id
+      );
+      if (!updatedLoan) {
+        spinner.error({ text: 'Document not found' });
+        return;
+      }
+      spinner.success({ text: `Removed ${document.name}` });
     } catch (error) {
-      spinner.error({ text: 'Search failed' });
+      spinner.error({ text: 'Failed to remove document' });
       throw error;
     }
   }
 
-  private async editLoan(): Promise<void> {
-    console.log('\n' + chalk.bold('✏️ Edit Loan'));
+  private async viewLoanDetails(): Promise<void> {
+    console.log('\n' + chalk.bold('📋 View Loan Details'));
 
     const loans = await this.loanService.getLoans();
 
     if (loans.length === 0) {
       console.log(
         boxen(
-          chalk.yellow('📂 No loans available to edit.\nAdd some loans first!'),
+          chalk.yellow('📂 No loans available to view.\nAdd some loans first!'),
           {
             padding: 1,
             margin: 1,
@@ -553,7 +4381,7 @@ export class LoanController {
     }
 
     const loanChoices = loans.map(loan => ({
-      name: `${loan.lenderName} - ${formatCurrency(loan.calculateTotalWithInterest())} - ${formatDate(loan.repaymentDate)} - ${loan.isPaid ? 'Paid' : loan.isOverdue() ? 'Overdue' : 'Pending'}`,
+      name: `${loan.lenderName} - ${formatCurrency(loan.calculateTotalWithInterest(), loan.currency)} - ${loan.isPaid ? 'Paid' : loan.isOverdue() ? 'Overdue' : 'Pending'}`,
       value: loan.id,
     }));
 
@@ -561,7 +4389,7 @@ export class LoanController {
       {
         type: 'list',
         name: 'loanId',
-        message: 'Select loan to edit:',
+        message: 'Select loan to view details:',
         choices: [
           ...loanChoices,
           new inquirer.Separator(),
@@ -572,7 +4400,6 @@ export class LoanController {
     ]);
 
     if (loanId === 'cancel') {
-      console.log(chalk.yellow('Edit operation cancelled.'));
       return;
     }
 
@@ -582,153 +4409,199 @@ export class LoanController {
       return;
     }
 
+    const defaultPenaltyRule = await this.loanService.getDefaultPenaltyRule();
+    const penaltyDue = loan.getPenaltyDue(defaultPenaltyRule);
+    const converter = await this.loanService.getCurrencyConverter();
+    const loanCurrency = loan.currency || converter.homeCurrency;
+    const reportingAmount = converter.convert(loan.amount, loanCurrency);
+    const showReportingAmount =
+      loanCurrency !== converter.reportingCurrency &&
+      converter.missingRates.size === 0;
+    const risk = (await this.loanService.getLoanRisks()).get(loan.id);
+
     console.log(
       boxen(
-        chalk.cyan('Current Loan Details:') +
+        chalk.cyan.bold('📋 LOAN DETAILS') +
           '\n\n' +
-          chalk.white('Lender: ') +
+          chalk.white('Loan ID: ') +
+          chalk.gray(loan.id) +
+          '\n' +
+          chalk.white('Direction: ') +
+          (loan.isReceivable() ? chalk.green : chalk.red)(
+            formatDirection(loan.getDirection())
+          ) +
+          '\n' +
+          chalk.white(`${getCounterpartyLabel(loan.getDirection())} Name: `) +
           chalk.yellow(loan.lenderName) +
           '\n' +
-          chalk.white('Phone: ') +
+          chalk.white('Phone Number: ') +
           chalk.yellow(loan.phoneNumber) +
           '\n' +
-          chalk.white('Amount: ') +
-          chalk.yellow(formatCurrency(loan.amount)) +
+          chalk.white('Principal Amount: ') +
+          chalk.green(formatCurrency(loan.amount, loan.currency)) +
+          (showReportingAmount
+            ? chalk.gray(
+                ` (≈ ${formatCurrency(reportingAmount, converter.reportingCurrency)})`
+              )
+            : '') +
           '\n' +
-          chalk.white('Interest: ') +
-          chalk.yellow(loan.interestRate ? `${loan.interestRate}%` : 'None') +
+          chalk.white('Interest Rate: ') +
+          chalk.yellow(
+            loan.hasSchedule()
+              ? `${loan.interestRate || 0}% per installment`
+              : formatInterestModel(loan.interestRate, loan.interestModel)
+          ) +
+          '\n' +
+          chalk.white('Total Amount: ') +
+          chalk.green(
+            formatCurrency(loan.calculateTotalWithInterest(), loan.currency)
+          ) +
+          '\n' +
+          chalk.white('Interest Accrued to Date: ') +
+          chalk.green(
+            formatCurrency(loan.getAccruedInterest(), loan.currency)
+          ) +
+          '\n' +
+          chalk.white('Amount Paid: ') +
+          chalk.green(formatCurrency(loan.getTotalPaid(), loan.currency)) +
+          '\n' +
+          chalk.white('Outstanding: ') +
+          chalk.yellow(
+            formatCurrency(loan.getOutstandingBalance(), loan.currency)
+          ) +
+          '\n' +
+          chalk.white('Penalty Rule: ') +
+          chalk.yellow(
+            formatPenaltyRule(loan.penaltyRule || defaultPenaltyRule) +
+              (loan.penaltyRule || !defaultPenaltyRule ? '' : ' (default)')
+          ) +
+          '\n' +
+          chalk.white('Penalties: ') +
+          (penaltyDue > 0 ? chalk.red : chalk.green)(
+            `${formatCurrency(penaltyDue, loan.currency)} due (${formatCurrency(loan.getAccruedPenalty(defaultPenaltyRule), loan.currency)} accrued, ${formatCurrency(loan.getWaivedPenalty(), loan.currency)} waived)`
+          ) +
+          '\n' +
+          chalk.white('Total incl. Penalties: ') +
+          chalk.yellow(
+            formatCurrency(
+              loan.getOutstandingBalance() + penaltyDue,
+              loan.currency
+            )
+          ) +
           '\n' +
+          (loan.collateral?.length
+            ? chalk.white('Collateral Held: ') +
+              chalk.yellow(
+                formatCurrency(loan.getCollateralValue(), loan.currency)
+              ) +
+              '\n' +
+              chalk.white('Coverage Ratio: ') +
+              this.formatCoverage(loan.getCoverageRatio()) +
+              '\n'
+            : '') +
           chalk.white('Due Date: ') +
           chalk.yellow(formatDate(loan.repaymentDate)) +
           '\n' +
-          chalk.white('Status: ') +
-          (loan.isPaid
-            ? chalk.green('Paid')
-            : loan.isOverdue()
-              ? chalk.red('Overdue')
-              : chalk.yellow('Pending')),
-        {
-          padding: 1,
-          margin: 1,
-          borderStyle: 'round',
-          borderColor: 'cyan',
-        }
-      )
-    );
-
-    const updates = await inquirer.prompt([
-      {
-        type: 'input',
-        name: 'lenderName',
-        message: 'Enter new lender name:',
-        default: loan.lenderName,
-        validate: (input: string) =>
-          input.trim().length > 0 || 'Name cannot be empty',
-      },
-      {
-        type: 'input',
-        name: 'phoneNumber',
-        message: 'Enter new phone number:',
-        default: loan.phoneNumber,
-        validate: (input: string) =>
-          isValidPhoneNumber(input) || 'Invalid phone number format',
-      },
-      {
-        type: 'number',
-        name: 'amount',
-        message: 'Enter new loan amount:',
-        default: loan.amount,
-        validate: (input: number) =>
-          isValidAmount(input) || 'Amount must be greater than 0',
-      },
-      {
-        type: 'input',
-        name: 'repaymentDate',
-        message: 'Enter new repayment date (YYYY-MM-DD):',
-        default: loan.repaymentDate,
-        validate: (input: string) =>
-          !isNaN(Date.parse(input)) || 'Invalid date format',
-      },
-      {
-        type: 'confirm',
-        name: 'hasInterest',
-        message: 'Does this loan have interest?',
-        default: !!loan.interestRate,
-      },
-      {
-        type: 'number',
-        name: 'interestRate',
-        message: 'Enter new interest rate (%):',
-        default: loan.interestRate || 0,
-        when: (answers: any) => answers.hasInterest,
-        validate: (input: number) =>
-          input >= 0 || 'Interest rate cannot be negative',
-      },
-    ]);
-
-    const spinner = createSpinner('Updating loan...').start();
-
-    try {
-      const updatedLoan = await this.loanService.updateLoan(loanId, {
-        lenderName: updates.lenderName,
-        phoneNumber: updates.phoneNumber,
-        amount: updates.amount,
-        repaymentDate: updates.repaymentDate,
-        interestRate: updates.hasInterest ? updates.interestRate : undefined,
-      });
-
-      spinner.success({ text: 'Loan updated successfully!' });
-
-      if (updatedLoan) {
-        console.log(
-          boxen(
-            chalk.green('✅ Loan Updated Successfully!') +
-              '\n\n' +
-              chalk.cyan('Updated Details:') +
-              '\n' +
-              chalk.white('Lender: ') +
-              chalk.yellow(updatedLoan.lenderName) +
-              '\n' +
-              chalk.white('Amount: ') +
+          (loan.isOpen() ? this.formatDueCountdown(loan) : '') +
+          (loan.isRescheduled()
+            ? chalk.white('Original Due Date: ') +
+              chalk.gray(formatDate(loan.getOriginalRepaymentDate())) +
+              chalk.yellow(
+                ` (rescheduled ${loan.getRescheduleCount()} time${loan.getRescheduleCount() === 1 ? '' : 's'})`
+              ) +
+              '\n'
+            : '') +
+          (loan.hasSchedule()
+            ? chalk.white('Next Installment: ') +
               chalk.yellow(
-                formatCurrency(updatedLoan.calculateTotalWithInterest())
+                loan.getNextInstallment()
+                  ? `#${loan.getNextInstallment()!.installmentNumber} - ${formatCurrency(loan.getNextInstallment()!.remainingAmount, loan.currency)} on ${formatDate(loan.getNextDueDate())}`
+                  : 'None'
               ) +
               '\n' +
-              chalk.white('Due Date: ') +
-              chalk.yellow(formatDate(updatedLoan.repaymentDate)),
-            {
-              padding: 1,
-              margin: 1,
-              borderStyle: 'round',
-              borderColor: 'green',
-              textAlignment: 'left',
-            }
-          )
-        );
-      }
-    } catch (error) {
-      spinner.error({ text: 'Failed to update loan' });
-      throw error;
+              chalk.white('Overdue Installments: ') +
+              (loan.getOverdueInstallments().length > 0
+                ? chalk.red(
+                    `${loan.getOverdueInstallments().length} (${formatCurrency(loan.getOverdueAmount(), loan.currency)})`
+                  )
+                : chalk.green('0')) +
+              '\n'
+            : '') +
+          (loan.writeOff
+            ? chalk.white('Written Off: ') +
+              chalk.gray(
+                `${formatCurrency(loan.writeOff.amount, loan.currency)} on ${formatDate(loan.writeOff.date)} - ${loan.writeOff.reason}`
+              ) +
+              '\n'
+            : '') +
+          chalk.white('Category: ') +
+          chalk.yellow(formatCategory(loan.getCategory())) +
+          '\n' +
+          chalk.white('Priority: ') +
+          chalk.yellow(formatPriority(loan.getPriority())) +
+          '\n' +
+          chalk.white('Risk: ') +
+          this.formatRisk(risk) +
+          (risk && risk.score > 0
+            ? chalk.gray(` - ${this.describeRiskFactors(risk)}`)
+            : '') +
+          '\n' +
+          chalk.white('Tags: ') +
+          chalk.yellow(formatTags(loan.tags)) +
+          '\n' +
+          (loan.notes
+            ? chalk.white('Notes: ') + chalk.gray(loan.notes) + '\n'
+            : '') +
+          chalk.white('Status: ') +
+          this.formatStatus(loan),
+        {
+          padding: 1,
+          margin: 1,
+          borderStyle: 'double',
+          borderColor: 'cyan',
+          textAlignment: 'left',
+        }
+      )
+    );
+
+    this.displayInstallmentSchedule(loan);
+    this.displayPaymentLedger(loan);
+    this.displayPenaltyWaivers(loan);
+    this.displayCollateral(loan);
+    this.displayGuarantors(loan);
+    this.displayDocuments(loan);
+    this.displayRescheduleHistory(loan);
+    this.displayLineage(loan, loans);
+
+    if (loan.shouldContactGuarantor()) {
+      const { contact } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'contact',
+          message: '📞 This loan is overdue. Contact the guarantor?',
+          default: true,
+        },
+      ]);
+      if (contact) this.showGuarantorContact(loan);
     }
   }
 
-  private async markLoanAsPaid(): Promise<void> {
-    console.log('\n' + chalk.bold('✅ Mark Loan as Paid'));
+  private async deleteLoan(): Promise<void> {
+    console.log('\n' + chalk.bold('🗑️ Delete Loan'));
 
     const loans = await this.loanService.getLoans();
-    const unpaidLoans = loans.filter(loan => !loan.isPaid);
 
-    if (unpaidLoans.length === 0) {
+    if (loans.length === 0) {
       console.log(
         boxen(
-          chalk.green(
-            '🎉 All loans are already paid!\nGreat job managing your finances!'
+          chalk.yellow(
+            '📂 No loans available to delete.\nAdd some loans first!'
           ),
           {
             padding: 1,
             margin: 1,
             borderStyle: 'round',
-            borderColor: 'green',
+            borderColor: 'yellow',
             textAlignment: 'center',
           }
         )
@@ -736,8 +4609,8 @@ export class LoanController {
       return;
     }
 
-    const loanChoices = unpaidLoans.map(loan => ({
-      name: `${loan.lenderName} - ${formatCurrency(loan.calculateTotalWithInterest())} - ${formatDate(loan.repaymentDate)} - ${loan.isOverdue() ? chalk.red('Overdue') : chalk.yellow('Pending')}`,
+    const loanChoices = loans.map(loan => ({
+      name: `${loan.lenderName} - ${formatCurrency(loan.calculateTotalWithInterest(), loan.currency)} - ${loan.isPaid ? 'Paid' : loan.isOverdue() ? 'Overdue' : 'Pending'}`,
       value: loan.id,
     }));
 
@@ -745,7 +4618,7 @@ export class LoanController {
       {
         type: 'list',
         name: 'loanId',
-        message: 'Select loan to mark as paid:',
+        message: 'Select loan to delete:',
         choices: [
           ...loanChoices,
           new inquirer.Separator(),
@@ -756,262 +4629,804 @@ export class LoanController {
     ]);
 
     if (loanId === 'cancel') {
-      console.log(chalk.yellow('Operation cancelled.'));
+      console.log(chalk.yellow('Delete operation cancelled.'));
       return;
     }
 
-    const loan = unpaidLoans.find(l => l.id === loanId);
+    const loan = loans.find(l => l.id === loanId);
     if (!loan) {
       console.log(chalk.red('❌ Loan not found.'));
       return;
     }
 
-    // Confirm payment
-    const { confirmPayment } = await inquirer.prompt([
+    // Confirm deletion
+    const { reason, confirmDelete } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'reason',
+        message: 'Reason for deleting (optional):',
+      },
       {
         type: 'confirm',
-        name: 'confirmPayment',
-        message: `Mark loan from ${loan.lenderName} (${formatCurrency(loan.calculateTotalWithInterest())}) as paid?`,
-        default: true,
+        name: 'confirmDelete',
+        message: chalk.red(
+          `Move the loan from ${loan.lenderName} to the trash?`
+        ),
+        default: false,
       },
     ]);
 
-    if (!confirmPayment) {
-      console.log(chalk.yellow('Payment marking cancelled.'));
+    if (!confirmDelete) {
+      console.log(chalk.yellow('Delete operation cancelled.'));
       return;
     }
 
-    const spinner = createSpinner('Marking loan as paid...').start();
+    const spinner = createSpinner('Deleting loan...').start();
 
     try {
-      const updatedLoan = await this.loanService.markLoanAsPaid(loanId);
-      spinner.success({ text: 'Loan marked as paid successfully!' });
+      const deleted = await this.loanService.deleteLoan(loanId, reason);
+      const retentionDays = await this.loanService.getTrashRetentionDays();
 
-      if (updatedLoan) {
+      if (deleted) {
+        spinner.success({ text: 'Loan moved to trash!' });
         console.log(
           boxen(
-            chalk.green('✅ Loan Marked as Paid!') +
+            chalk.green('✅ Loan Moved to Trash') +
               '\n\n' +
-              chalk.cyan('Lender: ') +
-              chalk.white(updatedLoan.lenderName) +
-              '\n' +
-              chalk.cyan('Amount Paid: ') +
-              chalk.white(
-                formatCurrency(updatedLoan.calculateTotalWithInterest())
-              ) +
-              '\n' +
-              chalk.cyan('Payment Date: ') +
-              chalk.yellow(formatDate(new Date().toISOString().split('T')[0])),
+              chalk.gray(
+                retentionDays > 0
+                  ? `Restore it from Trash within ${retentionDays} days, after which it is purged.`
+                  : 'Restore it from Trash at any time until you purge it.'
+              ),
             {
               padding: 1,
               margin: 1,
               borderStyle: 'round',
               borderColor: 'green',
-              textAlignment: 'left',
+              textAlignment: 'center',
             }
           )
         );
+      } else {
+        spinner.error({ text: 'Failed to delete loan' });
+        console.log(chalk.red('❌ Loan could not be deleted.'));
       }
     } catch (error) {
-      spinner.error({ text: 'Failed to mark loan as paid' });
+      spinner.error({ text: 'Failed to delete loan' });
+      throw error;
+    }
+  }
+
+  private async manageTrash(): Promise<void> {
+    console.log('\n' + chalk.bold('♻️ Trash'));
+
+    const [trash, retentionDays] = await Promise.all([
+      this.loanService.getTrash(),
+      this.loanService.getTrashRetentionDays(),
+    ]);
+    if (trash.length === 0) {
+      console.log(chalk.green('The trash is empty.'));
+      return;
+    }
+
+    this.displayTrash(trash, retentionDays);
+
+    const { action } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'What would you like to do?',
+        choices: [
+          { name: '♻️ Restore loans', value: 'restore' },
+          { name: '🔥 Purge loans permanently', value: 'purge' },
+          { name: '🧹 Empty trash', value: 'empty' },
+          new inquirer.Separator(),
+          { name: chalk.gray('Back'), value: 'back' },
+        ],
+      },
+    ]);
+    if (action === 'back') return;
+
+    let loanIds = trash.map(loan => loan.id);
+    if (action !== 'empty') {
+      ({ loanIds } = await inquirer.prompt([
+        {
+          type: 'checkbox',
+          name: 'loanIds',
+          message:
+            action === 'restore'
+              ? 'Restore which loans?'
+              : 'Purge which loans?',
+          choices: trash.map(loan => ({
+            name: `${loan.lenderName} - ${formatCurrency(loan.amount, loan.currency)} (deleted ${formatDate(loan.deletion!.deletedAt)})`,
+            value: loan.id,
+          })),
+          validate: (input: string[]) =>
+            input.length > 0 || 'Select at least one loan',
+          pageSize: 12,
+        },
+      ]));
+    }
+
+    if (action === 'restore') {
+      const spinner = createSpinner('Restoring loans...').start();
+      try {
+        for (const id of loanIds) {
+          await this.loanService.restoreFromTrash(id);
+        }
+        spinner.success({
+          text: `Restored ${loanIds.length} loan${loanIds.length === 1 ? '' : 's'}`,
+        });
+      } catch (error) {
+        spinner.error({ text: 'Failed to restore loans' });
+        throw error;
+      }
+      return;
+    }
+
+    const { confirm } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: chalk.red(
+          `Permanently delete ${loanIds.length} loan${loanIds.length === 1 ? '' : 's'}? This cannot be undone.`
+        ),
+        default: false,
+      },
+    ]);
+    if (!confirm) return;
+
+    const spinner = createSpinner('Purging loans...').start();
+    try {
+      const purged = await this.loanService.purgeLoans(loanIds);
+      spinner.success({
+        text: `Purged ${purged} loan${purged === 1 ? '' : 's'} permanently`,
+      });
+    } catch (error) {
+      spinner.error({ text: 'Failed to purge loans' });
       throw error;
     }
-  }
+  }
+
+  private displayTrash(trash: LoanModel[], retentionDays: number): void {
+    const table = new Table({
+      head: [
+        chalk.cyan('Name'),
+        chalk.cyan('Amount'),
+        chalk.cyan('Deleted'),
+        chalk.cyan('Reason'),
+        chalk.cyan('Purged On'),
+      ],
+      colWidths: [18, 14, 12, 24, 12],
+      wordWrap: true,
+    });
+
+    trash.forEach(loan => {
+      const deletedAt = new Date(loan.deletion!.deletedAt);
+      const purgeDate = new Date(deletedAt);
+      purgeDate.setDate(purgeDate.getDate() + retentionDays);
+
+      table.push([
+        loan.lenderName,
+        formatCurrency(loan.amount, loan.currency),
+        formatDate(loan.deletion!.deletedAt),
+        loan.deletion!.reason || chalk.gray('-'),
+        retentionDays > 0
+          ? formatDate(purgeDate.toISOString())
+          : chalk.gray('Never'),
+      ]);
+    });
+
+    console.log(table.toString());
+  }
+
+  // Compares the current repayment plan with hypothetical payments
+  private async payoffCalculator(): Promise<void> {
+    console.log('\n' + chalk.bold('🧮 Payoff Calculator'));
+
+    const openLoans = await this.payoffService.getOpenLoans();
+    if (openLoans.length === 0) {
+      console.log(chalk.yellow('No open loans to calculate a payoff for.'));
+      return;
+    }
+
+    const { scope } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'scope',
+        message: 'Calculate for:',
+        choices: [
+          ...(openLoans.length > 1
+            ? [
+                {
+                  name: `All open loans (${openLoans.length})`,
+                  value: 'all',
+                },
+                new inquirer.Separator(),
+              ]
+            : []),
+          ...openLoans.map(loan => ({
+            name: `${loan.lenderName} - ${formatCurrency(loan.getOutstandingBalance(), loan.currency)} - due ${formatDate(loan.getNextDueDate())}`,
+            value: loan.id,
+          })),
+          new inquirer.Separator(),
+          { name: chalk.gray('Cancel'), value: 'cancel' },
+        ],
+        pageSize: 12,
+      },
+    ]);
+    if (scope === 'cancel') return;
+
+    const loans =
+      scope === 'all' ? openLoans : openLoans.filter(loan => loan.id === scope);
+
+    let another = true;
+    while (another) {
+      const scenario = await this.promptPayoffScenario();
+      const spinner = createSpinner('Calculating payoff...').start();
+
+      try {
+        const calculation = await this.payoffService.calculate(loans, scenario);
+        spinner.stop();
+        this.displayPayoffComparison(calculation, loans);
+      } catch (error) {
+        spinner.error({ text: 'Failed to calculate payoff' });
+        throw error;
+      }
+
+      ({ another } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'another',
+          message: 'Try another scenario for the same loans?',
+          default: false,
+        },
+      ]));
+    }
+  }
+
+  private async promptPayoffScenario(): Promise<PayoffScenario> {
+    const today = new Date().toISOString().split('T')[0];
+    const dateInput = (optional: boolean) => (input: string) =>
+      (optional && input.trim() === '') ||
+      (/^\d{4}-\d{2}-\d{2}$/.test(input.trim()) &&
+        !isNaN(Date.parse(input.trim())) &&
+        input.trim() >= today) ||
+      `Enter a date from today as YYYY-MM-DD${optional ? ' or leave blank' : ''}`;
+
+    const { type } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'type',
+        message: 'What if we:',
+        choices: [
+          { name: 'Settle everything on a date', value: 'settle' },
+          { name: 'Pay a fixed amount each month', value: 'monthly' },
+          { name: 'Make one-off payments', value: 'lumpSums' },
+        ],
+      },
+    ]);
+
+    switch (type) {
+      case 'settle': {
+        const { settleOn } = await inquirer.prompt([
+          {
+            type: 'input',
+            name: 'settleOn',
+            message: 'Settle on (YYYY-MM-DD):',
+            default: today,
+            validate: dateInput(false),
+          },
+        ]);
+        return { settleOn: settleOn.trim() };
+      }
+      case 'monthly': {
+        const answers = await inquirer.prompt([
+          {
+            type: 'number',
+            name: 'monthlyPayment',
+            message: 'Amount to pay each month:',
+            validate: input => input > 0 || 'Amount must be greater than 0',
+          },
+          {
+            type: 'input',
+            name: 'firstPaymentDate',
+            message: 'First payment (YYYY-MM-DD):',
+            default: today,
+            validate: dateInput(false),
+          },
+        ]);
+        return {
+          monthlyPayment: answers.monthlyPayment,
+          firstPaymentDate: answers.firstPaymentDate.trim(),
+        };
+      }
+      default: {
+        const answers = await inquirer.prompt([
+          {
+            type: 'input',
+            name: 'lumpSums',
+            message:
+              'Payments as date and amount (e.g. 2025-03-01 50000, 2025-06-01 20000):',
+            validate: input => {
+              try {
+                const lumpSums = parseLumpSums(input);
+                if (lumpSums.length === 0) return 'Enter at least one payment';
+                return (
+                  lumpSums.every(lump => lump.date >= today) ||
+                  'Payments cannot be dated before today'
+                );
+              } catch (error) {
+                return (error as Error).message;
+              }
+            },
+          },
+          {
+            type: 'input',
+            name: 'settleOn',
+            message:
+              'Settle what is left on (YYYY-MM-DD, blank to keep the current plan):',
+            validate: dateInput(true),
+          },
+        ]);
+        return {
+          lumpSums: parseLumpSums(answers.lumpSums),
+          settleOn: answers.settleOn.trim() || undefined,
+        };
+      }
+    }
+  }
+
+  private displayPayoffComparison(
+    calculation: PayoffCalculation,
+    loans: LoanModel[]
+  ): void {
+    const { current, scenario, currency } = calculation;
+    const money = (amount: number) => formatCurrency(amount, currency);
+    const payoff = (date?: string) =>
+      date ? formatDate(date) : chalk.red('Not within 10 years');
+
+    const table = new Table({
+      head: [chalk.cyan(''), chalk.cyan('Current Plan'), chalk.cyan('What If')],
+      colWidths: [20, 20, 20],
+    });
+    table.push(
+      ['Payoff Date', payoff(current.payoffDate), payoff(scenario.payoffDate)],
+      ['Total Paid', money(current.totalPaid), money(scenario.totalPaid)],
+      ['Interest', money(current.totalInterest), money(scenario.totalInterest)],
+      [
+        'Penalties',
+        money(current.totalPenalties),
+        money(scenario.totalPenalties),
+      ]
+    );
+    if (current.remainingBalance > 0 || scenario.remainingBalance > 0) {
+      table.push([
+        'Still Owed',
+        money(current.remainingBalance),
+        money(scenario.remainingBalance),
+      ]);
+    }
+    console.log('\n' + table.toString());
+
+    const savingsText =
+      calculation.savings > 0
+        ? chalk.green(`💰 Saves ${money(calculation.savings)}`)
+        : calculation.savings < 0
+          ? chalk.red(`💸 Costs ${money(-calculation.savings)} more`)
+          : chalk.yellow('⚖️ Costs the same as the current plan');
+    const timing =
+      calculation.daysSooner === undefined || calculation.daysSooner === 0
+        ? ''
+        : calculation.daysSooner > 0
+          ? ` and finishes ${calculation.daysSooner} days sooner`
+          : ` and finishes ${-calculation.daysSooner} days later`;
+    console.log(savingsText + chalk.white(timing));
+    if (calculation.missingRates.length > 0) {
+      console.log(
+        chalk.yellow(
+          `⚠️ No exchange rate for ${calculation.missingRates.join(', ')}; those amounts were counted unconverted.`
+        )
+      );
+    }
+
+    if (loans.length > 1) {
+      const names = new Map(loans.map(loan => [loan.id, loan.lenderName]));
+      const perLoan = new Table({
+        head: [
+          chalk.cyan('Loan'),
+          chalk.cyan('Current Payoff'),
+          chalk.cyan('What-If Payoff'),
+          chalk.cyan('What-If Interest'),
+        ],
+        colWidths: [20, 16, 16, 18],
+      });
+      scenario.loans.forEach((loan, index) => {
+        perLoan.push([
+          names.get(loan.loanId) || loan.loanId.slice(0, 8),
+          payoff(current.loans[index].payoffDate),
+          payoff(loan.payoffDate),
+          money(loan.totalInterest),
+        ]);
+      });
+      console.log('\n' + chalk.bold('Per Loan'));
+      console.log(perLoan.toString());
+    }
+
+    this.displayBalanceCurve(scenario.curve, money);
+  }
+
+  // One bar per month, scaled to the starting balance
+  private displayBalanceCurve(
+    curve: BalancePoint[],
+    money: (amount: number) => string
+  ): void {
+    const step = Math.ceil(curve.length / 24);
+    const points = curve.filter(
+      (_, index) => index % step === 0 || index === curve.length - 1
+    );
+    const highest = Math.max(...points.map(point => point.balance), 1);
+
+    console.log('\n' + chalk.bold('📉 What-If Balance'));
+    points.forEach(point => {
+      const bar = '█'.repeat(Math.round((point.balance / highest) * 30));
+      console.log(
+        `${formatDate(point.date).padEnd(11)} ${chalk.cyan(bar.padEnd(30))} ${money(point.balance)}`
+      );
+    });
+  }
+
+  // Month-by-month payoff plans for the loans we owe
+  private async debtPlanner(): Promise<void> {
+    let action = '';
+    while (action !== 'back') {
+      console.log('\n' + chalk.bold('🧭 Debt Payoff Planner'));
+      const plans = await this.debtPlanService.getPlans();
+
+      ({ action } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'action',
+          message: 'What would you like to do?',
+          choices: [
+            { name: '➕ Build a new plan', value: 'build' },
+            {
+              name: `📋 Saved plans (${plans.length})`,
+              value: 'saved',
+              disabled: plans.length === 0 && 'none saved yet',
+            },
+            new inquirer.Separator(),
+            { name: chalk.gray('🔙 Back'), value: 'back' },
+          ],
+        },
+      ]));
+
+      switch (action) {
+        case 'build':
+          await this.buildDebtPlan();
+          break;
+        case 'saved':
+          await this.viewDebtPlan(plans);
+          break;
+      }
+    }
+  }
+
+  private async buildDebtPlan(): Promise<void> {
+    const loans = await this.debtPlanService.getPayableLoans();
+    if (loans.length === 0) {
+      console.log(chalk.yellow('No open loans that we owe to plan for.'));
+      return;
+    }
 
-  private async viewLoanDetails(): Promise<void> {
-    console.log('\n' + chalk.bold('📋 View Loan Details'));
+    const today = new Date().toISOString().split('T')[0];
+    const answers = await inquirer.prompt([
+      {
+        type: 'number',
+        name: 'monthlyBudget',
+        message: `Monthly repayment budget across ${loans.length} loan${loans.length === 1 ? '' : 's'}:`,
+        validate: input => input > 0 || 'Budget must be greater than 0',
+      },
+      {
+        type: 'input',
+        name: 'startDate',
+        message: 'First payment (YYYY-MM-DD):',
+        default: today,
+        validate: (input: string) =>
+          (/^\d{4}-\d{2}-\d{2}$/.test(input.trim()) &&
+            !isNaN(Date.parse(input.trim())) &&
+            input.trim() >= today) ||
+          'Enter a date from today as YYYY-MM-DD',
+      },
+      {
+        type: 'confirm',
+        name: 'custom',
+        message: 'Also plan a custom payoff order?',
+        default: false,
+        when: () => loans.length > 1,
+      },
+    ]);
 
-    const loans = await this.loanService.getLoans();
+    const customOrder = answers.custom
+      ? await this.promptPayoffOrder(loans)
+      : undefined;
 
-    if (loans.length === 0) {
-      console.log(
-        boxen(
-          chalk.yellow('📂 No loans available to view.\nAdd some loans first!'),
-          {
-            padding: 1,
-            margin: 1,
-            borderStyle: 'round',
-            borderColor: 'yellow',
-            textAlignment: 'center',
-          }
-        )
-      );
-      return;
+    const spinner = createSpinner('Building payoff plans...').start();
+    let comparison: DebtPlanComparison;
+    try {
+      comparison = await this.debtPlanService.comparePlans(loans, {
+        monthlyBudget: answers.monthlyBudget,
+        startDate: answers.startDate.trim(),
+        customOrder,
+      });
+      spinner.stop();
+    } catch (error) {
+      spinner.error({ text: 'Failed to build payoff plans' });
+      throw error;
     }
 
-    const loanChoices = loans.map(loan => ({
-      name: `${loan.lenderName} - ${formatCurrency(loan.calculateTotalWithInterest())} - ${loan.isPaid ? 'Paid' : loan.isOverdue() ? 'Overdue' : 'Pending'}`,
-      value: loan.id,
-    }));
+    const names = new Map(loans.map(loan => [loan.id, loan.lenderName]));
+    this.displayStrategyComparison(comparison);
 
-    const { loanId } = await inquirer.prompt([
+    const { strategy } = await inquirer.prompt([
       {
         type: 'list',
-        name: 'loanId',
-        message: 'Select loan to view details:',
+        name: 'strategy',
+        message: 'Show the month-by-month plan for:',
         choices: [
-          ...loanChoices,
+          ...comparison.plans.map(plan => ({
+            name: formatStrategy(plan.strategy),
+            value: plan.strategy,
+          })),
           new inquirer.Separator(),
-          { name: chalk.gray('Cancel'), value: 'cancel' },
+          { name: chalk.gray('Done'), value: 'done' },
         ],
-        pageSize: 10,
       },
     ]);
+    if (strategy === 'done') return;
 
-    if (loanId === 'cancel') {
-      return;
-    }
+    const plan = comparison.plans.find(p => p.strategy === strategy)!;
+    this.displayDebtPlanMonths(plan, names, comparison.currency);
 
-    const loan = loans.find(l => l.id === loanId);
-    if (!loan) {
-      console.log(chalk.red('❌ Loan not found.'));
-      return;
-    }
+    const { name } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'name',
+        message: 'Name to save this plan under (blank to skip saving):',
+      },
+    ]);
+    if (!name.trim()) return;
 
-    console.log(
-      boxen(
-        chalk.cyan.bold('📋 LOAN DETAILS') +
-          '\n\n' +
-          chalk.white('Loan ID: ') +
-          chalk.gray(loan.id) +
-          '\n' +
-          chalk.white('Lender Name: ') +
-          chalk.yellow(loan.lenderName) +
-          '\n' +
-          chalk.white('Phone Number: ') +
-          chalk.yellow(loan.phoneNumber) +
-          '\n' +
-          chalk.white('Principal Amount: ') +
-          chalk.green(formatCurrency(loan.amount)) +
-          '\n' +
-          chalk.white('Interest Rate: ') +
-          chalk.yellow(
-            loan.interestRate ? `${loan.interestRate}%` : 'No Interest'
-          ) +
-          '\n' +
-          chalk.white('Total Amount: ') +
-          chalk.green(formatCurrency(loan.calculateTotalWithInterest())) +
-          '\n' +
-          chalk.white('Due Date: ') +
-          chalk.yellow(formatDate(loan.repaymentDate)) +
-          '\n' +
-          chalk.white('Status: ') +
-          (loan.isPaid
-            ? chalk.green('✅ PAID')
-            : loan.isOverdue()
-              ? chalk.red('⚠️ OVERDUE')
-              : chalk.yellow('⏳ PENDING')),
-        {
-          padding: 1,
-          margin: 1,
-          borderStyle: 'double',
-          borderColor: 'cyan',
-          textAlignment: 'left',
-        }
-      )
+    const saved = await this.debtPlanService.savePlan(
+      name,
+      plan,
+      comparison.currency
     );
+    console.log(chalk.green(`✅ Plan "${saved.name}" saved.`));
   }
 
-  private async deleteLoan(): Promise<void> {
-    console.log('\n' + chalk.bold('🗑️ Delete Loan'));
+  // Picks loans one at a time until each has a place in the order
+  private async promptPayoffOrder(loans: LoanModel[]): Promise<string[]> {
+    const order: string[] = [];
+    while (order.length < loans.length - 1) {
+      const { loanId } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'loanId',
+          message: `Loan to pay off ${order.length === 0 ? 'first' : 'next'}:`,
+          choices: loans
+            .filter(loan => !order.includes(loan.id))
+            .map(loan => ({
+              name: `${loan.lenderName} - ${formatCurrency(loan.getOutstandingBalance(), loan.currency)}${loan.interestRate ? ` at ${formatInterestModel(loan.interestRate, loan.interestModel)}` : ''}`,
+              value: loan.id,
+            })),
+          pageSize: 12,
+        },
+      ]);
+      order.push(loanId);
+    }
+    return [
+      ...order,
+      ...loans.filter(loan => !order.includes(loan.id)).map(loan => loan.id),
+    ];
+  }
 
-    const loans = await this.loanService.getLoans();
+  private displayStrategyComparison(comparison: DebtPlanComparison): void {
+    const money = (amount: number) =>
+      formatCurrency(amount, comparison.currency);
+    const cheapest = Math.min(
+      ...comparison.plans.map(plan => plan.totalInterest + plan.totalPenalties)
+    );
 
-    if (loans.length === 0) {
+    const table = new Table({
+      head: [
+        chalk.cyan('Strategy'),
+        chalk.cyan('Debt-free'),
+        chalk.cyan('Months'),
+        chalk.cyan('Interest'),
+        chalk.cyan('Total Paid'),
+      ],
+      colWidths: [36, 14, 8, 16, 16],
+    });
+    comparison.plans.forEach(plan => {
+      const best = plan.totalInterest + plan.totalPenalties === cheapest;
+      table.push([
+        best
+          ? chalk.green(`${formatStrategy(plan.strategy)} ★`)
+          : formatStrategy(plan.strategy),
+        plan.debtFreeDate
+          ? formatDate(plan.debtFreeDate)
+          : chalk.red('Not in 10 years'),
+        plan.months.length,
+        money(plan.totalInterest),
+        money(plan.totalPaid),
+      ]);
+    });
+    console.log('\n' + table.toString());
+    console.log(chalk.gray('★ lowest interest and penalties'));
+
+    if (comparison.plans.some(plan => plan.remainingBalance > 0)) {
       console.log(
-        boxen(
-          chalk.yellow(
-            '📂 No loans available to delete.\nAdd some loans first!'
-          ),
-          {
-            padding: 1,
-            margin: 1,
-            borderStyle: 'round',
-            borderColor: 'yellow',
-            textAlignment: 'center',
-          }
+        chalk.yellow(
+          '⚠️ The budget does not clear every loan within 10 years; try a larger budget.'
+        )
+      );
+    }
+    if (comparison.missingRates.length > 0) {
+      console.log(
+        chalk.yellow(
+          `⚠️ No exchange rate for ${comparison.missingRates.join(', ')}; those amounts were counted unconverted.`
         )
       );
-      return;
     }
+  }
 
-    const loanChoices = loans.map(loan => ({
-      name: `${loan.lenderName} - ${formatCurrency(loan.calculateTotalWithInterest())} - ${loan.isPaid ? 'Paid' : loan.isOverdue() ? 'Overdue' : 'Pending'}`,
-      value: loan.id,
-    }));
+  private displayDebtPlanMonths(
+    plan: DebtPlanProjection,
+    names: Map<string, string>,
+    currency?: string,
+    progress?: DebtPlanProgress
+  ): void {
+    const money = (amount: number) => formatCurrency(amount, currency);
+    const statusColor: Record<DebtPlanStatus, (text: string) => string> = {
+      upcoming: chalk.gray,
+      due: chalk.yellow,
+      'on track': chalk.green,
+      ahead: chalk.cyan,
+      behind: chalk.red,
+    };
 
-    const { loanId } = await inquirer.prompt([
+    const table = new Table({
+      head: [
+        chalk.cyan('#'),
+        chalk.cyan('Date'),
+        chalk.cyan('Payments'),
+        chalk.cyan('Balance After'),
+        ...(progress ? [chalk.cyan('Paid'), chalk.cyan('Status')] : []),
+      ],
+      colWidths: [5, 13, 32, 16, ...(progress ? [16, 10] : [])],
+    });
+    plan.months.forEach((month, index) => {
+      const tracked = progress?.months[index];
+      table.push([
+        index + 1,
+        formatDate(month.date),
+        month.payments
+          .map(
+            payment =>
+              `${names.get(payment.loanId) || payment.loanId.slice(0, 8)}: ${money(payment.amount)}`
+          )
+          .join('\n'),
+        money(month.endBalance),
+        ...(tracked
+          ? [
+              tracked.status === 'upcoming' ? '-' : money(tracked.paid),
+              statusColor[tracked.status](tracked.status),
+            ]
+          : []),
+      ]);
+    });
+
+    console.log('\n' + chalk.bold(formatStrategy(plan.strategy)));
+    console.log(table.toString());
+    console.log(
+      `Debt-free: ${plan.debtFreeDate ? chalk.green(formatDate(plan.debtFreeDate)) : chalk.red('Not within 10 years')}` +
+        ` | Interest: ${money(plan.totalInterest)} | Total paid: ${money(plan.totalPaid)}`
+    );
+  }
+
+  private async viewDebtPlan(plans: DebtPlan[]): Promise<void> {
+    const { planId } = await inquirer.prompt([
       {
         type: 'list',
-        name: 'loanId',
-        message: 'Select loan to delete:',
+        name: 'planId',
+        message: 'Select a plan:',
         choices: [
-          ...loanChoices,
+          ...plans.map(plan => ({
+            name: `${plan.name} - ${formatStrategy(plan.strategy)} - ${formatCurrency(plan.monthlyBudget, plan.currency)}/month`,
+            value: plan.id,
+          })),
           new inquirer.Separator(),
           { name: chalk.gray('Cancel'), value: 'cancel' },
         ],
-        pageSize: 10,
+        pageSize: 12,
       },
     ]);
+    if (planId === 'cancel') return;
+    const plan = plans.find(p => p.id === planId)!;
 
-    if (loanId === 'cancel') {
-      console.log(chalk.yellow('Delete operation cancelled.'));
-      return;
+    const spinner = createSpinner(
+      'Checking payments against the plan...'
+    ).start();
+    let progress: DebtPlanProgress;
+    let names: Map<string, string>;
+    try {
+      progress = await this.debtPlanService.trackPlan(plan);
+      const loans = await this.loanService.getLoans();
+      names = new Map(loans.map(loan => [loan.id, loan.lenderName]));
+      spinner.stop();
+    } catch (error) {
+      spinner.error({ text: 'Failed to check the plan' });
+      throw error;
     }
 
-    const loan = loans.find(l => l.id === loanId);
-    if (!loan) {
-      console.log(chalk.red('❌ Loan not found.'));
-      return;
-    }
+    this.displayDebtPlanMonths(plan, names, plan.currency, progress);
+    const difference = progress.paidToDate - progress.plannedToDate;
+    console.log(
+      `Planned so far: ${formatCurrency(progress.plannedToDate, plan.currency)} | Paid so far: ${formatCurrency(progress.paidToDate, plan.currency)}` +
+        (Math.abs(difference) > 0.005
+          ? ` (${difference > 0 ? chalk.cyan(`${formatCurrency(difference, plan.currency)} ahead`) : chalk.red(`${formatCurrency(-difference, plan.currency)} behind`)})`
+          : '')
+    );
 
-    // Confirm deletion
-    const { confirmDelete } = await inquirer.prompt([
+    const { action } = await inquirer.prompt([
       {
-        type: 'confirm',
-        name: 'confirmDelete',
-        message: chalk.red(
-          `Are you sure you want to delete the loan from ${loan.lenderName}? This action cannot be undone.`
-        ),
-        default: false,
+        type: 'list',
+        name: 'action',
+        message: 'What next?',
+        choices: [
+          { name: '📤 Export plan', value: 'export' },
+          { name: '🗑️ Delete plan', value: 'delete' },
+          { name: chalk.gray('🔙 Back'), value: 'back' },
+        ],
       },
     ]);
 
-    if (!confirmDelete) {
-      console.log(chalk.yellow('Delete operation cancelled.'));
-      return;
-    }
-
-    const spinner = createSpinner('Deleting loan...').start();
-
-    try {
-      const deleted = await this.loanService.deleteLoan(loanId);
-
-      if (deleted) {
-        spinner.success({ text: 'Loan deleted successfully!' });
-        console.log(
-          boxen(
-            chalk.green('✅ Loan Deleted Successfully!') +
-              '\n\n' +
-              chalk.gray(
-                'The loan has been permanently removed from your records.'
-              ),
-            {
-              padding: 1,
-              margin: 1,
-              borderStyle: 'round',
-              borderColor: 'green',
-              textAlignment: 'center',
-            }
-          )
-        );
-      } else {
-        spinner.error({ text: 'Failed to delete loan' });
-        console.log(chalk.red('❌ Loan could not be deleted.'));
+    if (action === 'export') {
+      const { exportFormat } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'exportFormat',
+          message: 'Export as:',
+          choices: [
+            { name: 'CSV (one row per payment)', value: 'csv' },
+            { name: 'Text report', value: 'txt' },
+            { name: 'JSON', value: 'json' },
+          ],
+        },
+      ]);
+      const result = await this.exportService.exportDebtPlan(
+        plan,
+        exportFormat,
+        progress
+      );
+      if (!result.success) {
+        console.log(chalk.red(`❌ Export failed: ${result.error}`));
+        return;
       }
-    } catch (error) {
-      spinner.error({ text: 'Failed to delete loan' });
-      throw error;
+      console.log(chalk.green(`✅ Plan exported to ${result.filePath}`));
+    } else if (action === 'delete') {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: `Delete the plan "${plan.name}"?`,
+          default: false,
+        },
+      ]);
+      if (!confirm) return;
+      await this.debtPlanService.deletePlan(plan.id);
+      console.log(chalk.green('✅ Plan deleted.'));
     }
   }
 
@@ -1021,7 +5436,11 @@ export class LoanController {
     const spinner = createSpinner('Generating loan summary...').start();
 
     try {
-      const loans = await this.loanService.getLoans();
+      const converter = await this.loanService.getCurrencyConverter();
+      const loans = this.loanService.toReportingCurrency(
+        await this.loanService.getLoans(),
+        converter
+      );
       spinner.stop();
 
       if (loans.length === 0) {
@@ -1044,23 +5463,53 @@ export class LoanController {
 
       const totalLoans = loans.length;
       const paidLoans = loans.filter(loan => loan.isPaid);
-      const unpaidLoans = loans.filter(loan => !loan.isPaid);
+      const unpaidLoans = loans.filter(loan => loan.isOpen());
       const overdueLoans = loans.filter(loan => loan.isOverdue());
+      const writtenOffLoans = loans.filter(loan => loan.isWrittenOff());
+      const writtenOffAmount = writtenOffLoans.reduce(
+        (sum, loan) => sum + loan.getWrittenOffAmount(),
+        0
+      );
 
       const totalAmount = loans.reduce(
         (sum, loan) => sum + loan.calculateTotalWithInterest(),
         0
       );
-      const paidAmount = paidLoans.reduce(
-        (sum, loan) => sum + loan.calculateTotalWithInterest(),
+      const paidAmount = loans.reduce(
+        (sum, loan) =>
+          sum +
+          (loan.isPaid
+            ? loan.calculateTotalWithInterest()
+            : loan.getTotalPaid()),
         0
       );
       const unpaidAmount = unpaidLoans.reduce(
-        (sum, loan) => sum + loan.calculateTotalWithInterest(),
+        (sum, loan) => sum + loan.getOutstandingBalance(),
         0
       );
       const overdueAmount = overdueLoans.reduce(
-        (sum, loan) => sum + loan.calculateTotalWithInterest(),
+        (sum, loan) => sum + loan.getOutstandingBalance(),
+        0
+      );
+      const partiallyPaidLoans = unpaidLoans.filter(
+        loan => loan.getTotalPaid() > 0
+      );
+      const partialPayments = partiallyPaidLoans.reduce(
+        (sum, loan) => sum + loan.getTotalPaid(),
+        0
+      );
+      const paymentCount = loans.reduce(
+        (sum, loan) => sum + (loan.paymentHistory || []).length,
+        0
+      );
+      const position = this.loanService.getNetPosition(loans);
+      const defaultPenaltyRule = await this.loanService.getDefaultPenaltyRule();
+      const penaltiesDue = loans.reduce(
+        (sum, loan) => sum + loan.getPenaltyDue(defaultPenaltyRule),
+        0
+      );
+      const penaltiesWaived = loans.reduce(
+        (sum, loan) => sum + loan.getWaivedPenalty(),
         0
       );
 
@@ -1079,22 +5528,81 @@ export class LoanController {
             chalk.white('Unpaid Loans: ') +
             chalk.yellow(unpaidLoans.length.toString()) +
             '\n' +
+            chalk.white('Partially Paid: ') +
+            chalk.blue(partiallyPaidLoans.length.toString()) +
+            '\n' +
             chalk.white('Overdue Loans: ') +
             chalk.red(overdueLoans.length.toString()) +
+            '\n' +
+            chalk.white('Written Off: ') +
+            chalk.gray(writtenOffLoans.length.toString()) +
             '\n\n' +
             chalk.white('═══ FINANCIAL SUMMARY ═══') +
             '\n' +
             chalk.white('Total Amount: ') +
-            chalk.cyan(formatCurrency(totalAmount)) +
+            chalk.cyan(
+              formatCurrency(totalAmount, converter.reportingCurrency)
+            ) +
             '\n' +
             chalk.white('Paid Amount: ') +
-            chalk.green(formatCurrency(paidAmount)) +
+            chalk.green(
+              formatCurrency(paidAmount, converter.reportingCurrency)
+            ) +
+            '\n' +
+            chalk.white('Partial Payments: ') +
+            chalk.blue(
+              `${formatCurrency(partialPayments, converter.reportingCurrency)} (${paymentCount} payments recorded)`
+            ) +
             '\n' +
             chalk.white('Outstanding: ') +
-            chalk.yellow(formatCurrency(unpaidAmount)) +
+            chalk.yellow(
+              formatCurrency(unpaidAmount, converter.reportingCurrency)
+            ) +
             '\n' +
             chalk.white('Overdue Amount: ') +
-            chalk.red(formatCurrency(overdueAmount)) +
+            chalk.red(
+              formatCurrency(overdueAmount, converter.reportingCurrency)
+            ) +
+            '\n' +
+            chalk.white('Penalties Due: ') +
+            chalk.red(
+              formatCurrency(penaltiesDue, converter.reportingCurrency)
+            ) +
+            '\n' +
+            chalk.white('Penalties Waived: ') +
+            chalk.gray(
+              formatCurrency(penaltiesWaived, converter.reportingCurrency)
+            ) +
+            '\n' +
+            chalk.white('Total incl. Penalties: ') +
+            chalk.yellow(
+              formatCurrency(
+                unpaidAmount + penaltiesDue,
+                converter.reportingCurrency
+              )
+            ) +
+            '\n' +
+            chalk.white('Written Off (Losses): ') +
+            chalk.gray(
+              formatCurrency(writtenOffAmount, converter.reportingCurrency)
+            ) +
+            '\n\n' +
+            chalk.white('═══ NET POSITION ═══') +
+            '\n' +
+            chalk.white('I Owe: ') +
+            chalk.red(
+              formatCurrency(position.payable, converter.reportingCurrency)
+            ) +
+            '\n' +
+            chalk.white('Owed to Me: ') +
+            chalk.green(
+              formatCurrency(position.receivable, converter.reportingCurrency)
+            ) +
+            '\n' +
+            chalk.white('Net Position: ') +
+            (position.net < 0 ? chalk.red : chalk.green)(
+              formatCurrency(position.net, converter.reportingCurrency)
+            ) +
             '\n\n' +
             chalk.white('═══ COMPLETION RATE ═══') +
             '\n' +
@@ -1109,6 +5617,7 @@ export class LoanController {
           }
         )
       );
+      this.displayMissingRates(converter);
     } catch (error) {
       spinner.error({ text: 'Failed to generate summary' });
       throw error;
@@ -1117,33 +5626,43 @@ export class LoanController {
 
   // Helper methods
   private filterLoans(loans: LoanModel[], filter: string): LoanModel[] {
-    const now = new Date();
-    const oneWeek = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-    const oneMonth = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-
     switch (filter) {
       case 'paid':
         return loans.filter(loan => loan.isPaid);
       case 'pending':
-        return loans.filter(loan => !loan.isPaid && !loan.isOverdue());
+        return loans.filter(loan => loan.isOpen() && !loan.isOverdue());
       case 'overdue':
         return loans.filter(loan => loan.isOverdue());
       case 'thisWeek':
-        return loans.filter(loan => {
-          const dueDate = new Date(loan.repaymentDate);
-          return dueDate <= oneWeek && dueDate >= now && !loan.isPaid;
-        });
+        return loans.filter(
+          loan =>
+            loan.isOpen() &&
+            loan.getDaysUntilDue() >= 0 &&
+            loan.getDaysUntilDue() <= 7
+        );
       case 'thisMonth':
-        return loans.filter(loan => {
-          const dueDate = new Date(loan.repaymentDate);
-          return dueDate <= oneMonth && dueDate >= now && !loan.isPaid;
-        });
+        return loans.filter(
+          loan =>
+            loan.isOpen() &&
+            loan.getDaysUntilDue() >= 0 &&
+            loan.getDaysUntilDue() <= 30
+        );
+      case 'payable':
+        return loans.filter(loan => !loan.isReceivable());
+      case 'receivable':
+        return loans.filter(loan => loan.isReceivable());
+      case 'writtenOff':
+        return loans.filter(loan => loan.isWrittenOff());
       default:
         return loans;
     }
   }
 
-  private sortLoans(loans: LoanModel[], sortBy: string): LoanModel[] {
+  private sortLoans(
+    loans: LoanModel[],
+    sortBy: string,
+    risks: Map<string, LoanRisk>
+  ): LoanModel[] {
     switch (sortBy) {
       case 'dueDate':
         return loans.sort(
@@ -1177,6 +5696,10 @@ export class LoanController {
               : 'pending';
           return statusA.localeCompare(statusB);
         });
+      case LoanSortField.RISK_LEVEL:
+        return loans.sort((a, b) =>
+          compareLoanRisk(risks.get(a.id), risks.get(b.id))
+        );
       default:
         return loans;
     }
@@ -1184,7 +5707,8 @@ export class LoanController {
 
   private searchLoansWithCriteria(
     loans: LoanModel[],
-    searchParams: any
+    searchParams: any,
+    risks: Map<string, LoanRisk>
   ): LoanModel[] {
     switch (searchParams.type) {
       case 'lenderName':
@@ -1215,39 +5739,697 @@ export class LoanController {
         } else if (searchParams.value === 'overdue') {
           return loans.filter(loan => loan.isOverdue());
         } else if (searchParams.value === 'pending') {
-          return loans.filter(loan => !loan.isPaid && !loan.isOverdue());
+          return loans.filter(loan => loan.isOpen() && !loan.isOverdue());
+        } else if (searchParams.value === 'writtenOff') {
+          return loans.filter(loan => loan.isWrittenOff());
         }
         return loans;
+      case 'direction':
+        return loans.filter(loan => loan.getDirection() === searchParams.value);
+      case 'category':
+        return loans.filter(loan =>
+          searchParams.value.includes(loan.getCategory())
+        );
+      case 'priority':
+        return loans.filter(loan =>
+          searchParams.value.includes(loan.getPriority())
+        );
+      case 'riskLevel':
+        return loans.filter(loan => {
+          const risk = risks.get(loan.id);
+          return !!risk && searchParams.value.includes(risk.level);
+        });
+      case 'tag':
+        return loans.filter(loan => loan.hasTag(searchParams.value));
+      case 'notes':
+        return loans.filter(loan =>
+          (loan.notes || '')
+            .toLowerCase()
+            .includes(searchParams.value.trim().toLowerCase())
+        );
       default:
         return loans;
     }
   }
 
-  private displayLoansTable(loans: LoanModel[]): void {
+  // Below 1 the held collateral would not cover what is still owed
+  private formatCoverage(ratio: number | undefined): string {
+    if (ratio === undefined) return chalk.gray('Nothing outstanding');
+    const text = `${Math.round(ratio * 100)}%`;
+    return ratio >= 1
+      ? chalk.green(text)
+      : ratio >= 0.5
+        ? chalk.yellow(text)
+        : chalk.red(text);
+  }
+
+  // When the next payment becomes late after weekends, holidays and grace
+  // days, and how many days are left or have passed
+  private formatDueCountdown(loan: LoanModel): string {
+    const effectiveDate = loan.getEffectiveDueDate();
+    const onTimeUntil =
+      effectiveDate !== loan.getNextDueDate()
+        ? chalk.white('On Time Until: ') +
+          chalk.yellow(formatDate(effectiveDate)) +
+          '\n'
+        : '';
+
+    if (loan.isOverdue()) {
+      return (
+        onTimeUntil +
+        chalk.white('Days Overdue: ') +
+        chalk.red(loan.getDaysOverdue().toString()) +
+        '\n'
+      );
+    }
+    const daysLeft = loan.getDaysUntilDue();
+    return (
+      onTimeUntil +
+      chalk.white('Days Left: ') +
+      (daysLeft <= 3 ? chalk.yellow : chalk.green)(daysLeft.toString()) +
+      '\n'
+    );
+  }
+
+  private formatRisk(risk: LoanRisk | undefined): string {
+    if (!risk) return chalk.gray('-');
+    const text = `${formatRiskLevel(risk.level)} (${risk.score})`;
+    switch (risk.level) {
+      case RiskLevel.CRITICAL:
+        return chalk.magenta.bold(text);
+      case RiskLevel.HIGH:
+        return chalk.red(text);
+      case RiskLevel.MEDIUM:
+        return chalk.yellow(text);
+      default:
+        return chalk.green(text);
+    }
+  }
+
+  // Factors that added to the score, largest first
+  private describeRiskFactors(risk: LoanRisk): string {
+    return (Object.entries(risk.factors) as [RiskFactor, number][])
+      .filter(([, points]) => points > 0)
+      .sort(([, a], [, b]) => b - a)
+      .map(([factor, points]) => `${formatRiskFactor(factor)} +${points}`)
+      .join(', ');
+  }
+
+  private formatStatus(loan: LoanModel): string {
+    switch (loan.getStatus()) {
+      case LoanStatus.PAID:
+        return chalk.green('✅ PAID');
+      case LoanStatus.PARTIALLY_PAID:
+        return loan.isOverdue()
+          ? chalk.red('⚠️ PARTIALLY PAID (OVERDUE)')
+          : chalk.blue('🔄 PARTIALLY PAID');
+      case LoanStatus.OVERDUE:
+        return chalk.red('⚠️ OVERDUE');
+      case LoanStatus.RESCHEDULED:
+        return chalk.cyan('📅 RESCHEDULED');
+      case LoanStatus.CANCELLED:
+        return chalk.gray('🚫 WRITTEN OFF');
+      case LoanStatus.CLOSED:
+        return chalk.blue('🔗 CLOSED (ROLLED OVER)');
+      default:
+        return chalk.yellow('⏳ PENDING');
+    }
+  }
+
+  private getInstallmentPlanQuestions(
+    when: (answers: any) => boolean,
+    current?: InstallmentPlan
+  ): any[] {
+    return [
+      {
+        type: 'list',
+        name: 'frequency',
+        message: 'Installment frequency:',
+        when,
+        choices: [
+          { name: 'Weekly', value: InstallmentFrequency.WEEKLY },
+          { name: 'Bi-weekly', value: InstallmentFrequency.BI_WEEKLY },
+          { name: 'Monthly', value: InstallmentFrequency.MONTHLY },
+        ],
+        default: current?.frequency || InstallmentFrequency.MONTHLY,
+      },
+      {
+        type: 'number',
+        name: 'termCount',
+        message: 'Number of installments:',
+        when,
+        default: current?.termCount || 3,
+        validate: (input: number) =>
+          (Number.isInteger(input) && input > 0 && input <= 120) ||
+          'Enter a whole number between 1 and 120',
+      },
+      {
+        type: 'list',
+        name: 'method',
+        message: 'Installment method:',
+        when,
+        choices: [
+          {
+            name: 'Equal installments (interest on reducing balance)',
+            value: ScheduleMethod.EQUAL_INSTALLMENT,
+          },
+          {
+            name: 'Flat interest (interest on original amount)',
+            value: ScheduleMethod.FLAT_INTEREST,
+          },
+        ],
+        default: current?.method || ScheduleMethod.EQUAL_INSTALLMENT,
+      },
+      {
+        type: 'input',
+        name: 'startDate',
+        message: 'Loan start date (YYYY-MM-DD):',
+        when,
+        default: current?.startDate || new Date().toISOString().split('T')[0],
+        validate: (input: string) =>
+          !isNaN(new Date(input).getTime()) ||
+          'Please enter a valid date in YYYY-MM-DD format',
+      },
+    ];
+  }
+
+  private getInterestModelQuestions(
+    when: (answers: any) => boolean,
+    current?: InterestModel
+  ): any[] {
+    const isPeriodic = (answers: any) =>
+      when(answers) && answers.interestModelType !== InterestModelType.FLAT;
+
+    return [
+      {
+        type: 'list',
+        name: 'interestModelType',
+        message: 'How is interest charged?',
+        when,
+        choices: [
+          {
+            name: 'Flat (one-off percentage of the amount)',
+            value: InterestModelType.FLAT,
+          },
+          {
+            name: 'Simple (rate per month or year)',
+            value: InterestModelType.SIMPLE,
+          },
+          {
+            name: 'Compound (interest on interest)',
+            value: InterestModelType.COMPOUND,
+          },
+          {
+            name: 'Daily accrual (accrues every day until paid)',
+            value: InterestModelType.DAILY_ACCRUAL,
+          },
+        ],
+        default: current?.type || InterestModelType.FLAT,
+      },
+      {
+        type: 'list',
+        name: 'ratePeriod',
+        message: 'The interest rate applies:',
+        when: isPeriodic,
+        choices: [
+          { name: 'Per month', value: InterestRatePeriod.MONTHLY },
+          { name: 'Per year', value: InterestRatePeriod.ANNUAL },
+        ],
+        default: current?.ratePeriod || InterestRatePeriod.MONTHLY,
+      },
+      {
+        type: 'list',
+        name: 'compounding',
+        message: 'Compounding frequency:',
+        when: (answers: any) =>
+          when(answers) &&
+          answers.interestModelType === InterestModelType.COMPOUND,
+        choices: [
+          { name: 'Daily', value: CompoundingFrequency.DAILY },
+          { name: 'Monthly', value: CompoundingFrequency.MONTHLY },
+          { name: 'Quarterly', value: CompoundingFrequency.QUARTERLY },
+          { name: 'Annually', value: CompoundingFrequency.ANNUALLY },
+        ],
+        default: current?.compounding || CompoundingFrequency.MONTHLY,
+      },
+      {
+        type: 'input',
+        name: 'interestStartDate',
+        message: 'Interest runs from (YYYY-MM-DD):',
+        when: isPeriodic,
+        default: current?.startDate || new Date().toISOString().split('T')[0],
+        validate: (input: string) =>
+          !isNaN(new Date(input).getTime()) ||
+          'Please enter a valid date in YYYY-MM-DD format',
+      },
+    ];
+  }
+
+  private getClassificationQuestions(
+    current?: Pick<Loan, 'category' | 'priority' | 'tags' | 'notes'>
+  ): any[] {
+    return [
+      {
+        type: 'list',
+        name: 'category',
+        message: 'Category:',
+        choices: Object.values(LoanCategory).map(category => ({
+          name: formatCategory(category),
+          value: category,
+        })),
+        default: current?.category || LoanCategory.PERSONAL,
+      },
+      {
+        type: 'list',
+        name: 'priority',
+        message: 'Priority:',
+        choices: Object.values(LoanPriority).map(priority => ({
+          name: formatPriority(priority),
+          value: priority,
+        })),
+        default: current?.priority || LoanPriority.MEDIUM,
+      },
+      {
+        type: 'input',
+        name: 'tags',
+        message: 'Tags (comma separated, optional):',
+        default: (current?.tags || []).join(', '),
+      },
+      {
+        type: 'input',
+        name: 'notes',
+        message: 'Notes (optional):',
+        default: current?.notes || '',
+      },
+    ];
+  }
+
+  private toClassification(
+    answers: any
+  ): Pick<Loan, 'category' | 'priority' | 'tags' | 'notes'> {
+    const tags = parseTags(answers.tags || '');
+    return {
+      category: answers.category,
+      priority: answers.priority,
+      tags: tags.length > 0 ? tags : undefined,
+      notes: answers.notes?.trim() || undefined,
+    };
+  }
+
+  private getCurrencyQuestion(defaultCurrency: string): any {
+    return {
+      type: 'list',
+      name: 'currency',
+      message: 'Loan currency:',
+      choices: Object.keys(SUPPORTED_CURRENCIES).map(code => ({
+        name: `${code} (${SUPPORTED_CURRENCIES[code].trim()})`,
+        value: code,
+      })),
+      default: defaultCurrency,
+    };
+  }
+
+  private getPenaltyRuleQuestions(current?: PenaltyRule): any[] {
+    return [
+      {
+        type: 'number',
+        name: 'fixedFee',
+        message: 'Fixed late fee per overdue amount:',
+        default: current?.fixedFee ?? 0,
+        validate: (input: number) => input >= 0 || 'Fee cannot be negative',
+      },
+      {
+        type: 'number',
+        name: 'rate',
+        message: 'Penalty rate (% of the overdue amount):',
+        default: current?.rate ?? 1,
+        validate: (input: number) =>
+          (input >= 0 && input <= 100) || 'Rate must be between 0 and 100',
+      },
+      {
+        type: 'list',
+        name: 'ratePeriod',
+        message: 'Charge the rate:',
+        choices: [
+          { name: 'Per day overdue', value: PenaltyPeriod.DAY },
+          { name: 'Per week overdue', value: PenaltyPeriod.WEEK },
+        ],
+        default: current?.ratePeriod || PenaltyPeriod.DAY,
+      },
+      {
+        type: 'number',
+        name: 'graceDays',
+        message: 'Grace days before penalties start:',
+        default: current?.graceDays ?? 3,
+        validate: (input: number) =>
+          (Number.isInteger(input) && input >= 0) ||
+          'Enter a whole number of days',
+      },
+      {
+        type: 'number',
+        name: 'maxPercent',
+        message: 'Cap penalties at % of principal (0 for no cap):',
+        default: current?.maxPercent || 0,
+        validate: (input: number) => input >= 0 || 'Cap cannot be negative',
+      },
+      {
+        type: 'number',
+        name: 'maxAmount',
+        message: 'Cap penalties at a fixed amount (0 for no cap):',
+        default: current?.maxAmount || 0,
+        validate: (input: number) => input >= 0 || 'Cap cannot be negative',
+      },
+    ];
+  }
+
+  private toPenaltyRule(answers: any): PenaltyRule {
+    return {
+      fixedFee: answers.fixedFee,
+      rate: answers.rate,
+      ratePeriod: answers.ratePeriod,
+      graceDays: answers.graceDays,
+      maxPercent: answers.maxPercent || undefined,
+      maxAmount: answers.maxAmount || undefined,
+    };
+  }
+
+  private toInterestModel(answers: any): InterestModel | undefined {
+    if (
+      !answers.interestModelType ||
+      answers.interestModelType === InterestModelType.FLAT
+    ) {
+      return undefined;
+    }
+
+    return {
+      type: answers.interestModelType,
+      ratePeriod: answers.ratePeriod,
+      compounding: answers.compounding,
+      startDate: answers.interestStartDate,
+    };
+  }
+
+  private toInstallmentPlan(answers: any): InstallmentPlan {
+    return {
+      frequency: answers.frequency,
+      method: answers.method,
+      termCount: answers.termCount,
+      startDate: answers.startDate,
+    };
+  }
+
+  private displayInstallmentSchedule(loan: LoanModel): void {
+    if (!loan.hasSchedule()) return;
+
+    console.log(chalk.cyan.bold('📆 Installment Schedule'));
+
+    const table = new Table({
+      head: [
+        chalk.cyan('#'),
+        chalk.cyan('Due Date'),
+        chalk.cyan('Principal'),
+        chalk.cyan('Interest'),
+        chalk.cyan('Total'),
+        chalk.cyan('Paid'),
+        chalk.cyan('Remaining'),
+        chalk.cyan('Status'),
+      ],
+      colWidths: [5, 12, 13, 12, 13, 13, 13, 10],
+    });
+
+    loan.getSchedule().forEach(row => {
+      const status =
+        row.status === 'paid'
+          ? chalk.green('Paid')
+          : row.status === 'overdue'
+            ? chalk.red('Overdue')
+            : row.status === 'partial'
+              ? chalk.blue('Partial')
+              : chalk.yellow('Pending');
+
+      table.push([
+        row.installmentNumber.toString(),
+        formatDate(row.dueDate),
+        formatCurrency(row.principalAmount, loan.currency),
+        formatCurrency(row.interestAmount, loan.currency),
+        formatCurrency(row.totalAmount, loan.currency),
+        formatCurrency(row.paidAmount, loan.currency),
+        formatCurrency(row.remainingAmount, loan.currency),
+        status,
+      ]);
+    });
+
+    console.log(table.toString());
+  }
+
+  private displayPaymentLedger(loan: LoanModel): void {
+    const payments = loan.paymentHistory || [];
+
+    if (payments.length === 0) {
+      console.log(chalk.gray('No payments recorded for this loan yet.'));
+      return;
+    }
+
+    console.log(chalk.cyan.bold('💵 Payment Ledger'));
+
+    const table = new Table({
+      head: [
+        chalk.cyan('Date'),
+        chalk.cyan('Amount'),
+        chalk.cyan('Method'),
+        chalk.cyan('Reference'),
+        chalk.cyan('Balance'),
+      ],
+      colWidths: [12, 15, 16, 18, 15],
+    });
+
+    let balance = loan.calculateTotalWithInterest();
+    payments.forEach(payment => {
+      balance -= payment.amount;
+      table.push([
+        formatDate(payment.paymentDate),
+        formatCurrency(payment.amount, loan.currency),
+        (payment.method || 'other').replace('_', ' '),
+        payment.reference || '-',
+        formatCurrency(Math.max(0, balance), loan.currency),
+      ]);
+    });
+
+    console.log(table.toString());
+  }
+
+  private displayMissingRates(converter: CurrencyConverter): void {
+    if (converter.missingRates.size === 0) return;
+    console.log(
+      chalk.yellow(
+        `⚠️ No exchange rate for ${Array.from(converter.missingRates).join(', ')}; those amounts are counted unconverted. Add rates under Settings.`
+      )
+    );
+  }
+
+  private displayPenaltyWaivers(loan: LoanModel): void {
+    const waivers = loan.penaltyWaivers || [];
+    if (waivers.length === 0) return;
+
+    console.log(chalk.cyan.bold('⚖️ Penalty Waivers'));
+
+    const table = new Table({
+      head: [chalk.cyan('Date'), chalk.cyan('Amount'), chalk.cyan('Reason')],
+      colWidths: [12, 15, 40],
+    });
+
+    waivers.forEach(waiver => {
+      table.push([
+        formatDate(waiver.waivedAt),
+        formatCurrency(waiver.amount, loan.currency),
+        waiver.reason,
+      ]);
+    });
+
+    console.log(table.toString());
+  }
+
+  private displayCollateral(loan: LoanModel): void {
+    const collateral = loan.collateral || [];
+    if (collateral.length === 0) return;
+
+    console.log(chalk.cyan.bold('🔐 Collateral'));
+
+    const table = new Table({
+      head: [
+        chalk.cyan('Item'),
+        chalk.cyan('Type'),
+        chalk.cyan('Value'),
+        chalk.cyan('Condition'),
+        chalk.cyan('Status'),
+      ],
+      colWidths: [26, 13, 15, 11, 12],
+    });
+
+    collateral.forEach(item => {
+      table.push([
+        item.location
+          ? `${item.description}
+${chalk.gray(item.location)}`
+          : item.description,
+        item.type,
+        formatCurrency(item.estimatedValue, loan.currency),
+        item.condition,
+        item.status === 'held'
+          ? chalk.yellow('Held')
+          : item.status === 'seized'
+            ? chalk.red('Seized')
+            : chalk.gray('Released'),
+      ]);
+    });
+
+    console.log(table.toString());
+  }
+
+  private displayGuarantors(loan: LoanModel): void {
+    const guarantors = loan.guarantors || [];
+    if (guarantors.length === 0) return;
+
+    console.log(chalk.cyan.bold('🤝 Guarantors'));
+
+    const table = new Table({
+      head: [
+        chalk.cyan('Name'),
+        chalk.cyan('Phone'),
+        chalk.cyan('Relationship'),
+        chalk.cyan('Guaranteed'),
+        chalk.cyan('Status'),
+      ],
+      colWidths: [18, 16, 14, 15, 12],
+    });
+
+    guarantors.forEach(guarantor => {
+      table.push([
+        guarantor.name,
+        guarantor.phoneNumber,
+        guarantor.relationship,
+        formatCurrency(guarantor.guaranteeAmount, loan.currency),
+        guarantor.isActive
+          ? chalk.green('Active')
+          : guarantor.releasedAt
+            ? chalk.gray('Released')
+            : chalk.yellow('Pending'),
+      ]);
+    });
+
+    console.log(table.toString());
+  }
+
+  private displayDocuments(loan: LoanModel): void {
+    const documents = loan.documents || [];
+    if (documents.length === 0) return;
+
+    console.log(chalk.cyan.bold('📎 Documents'));
+
+    const table = new Table({
+      head: [
+        chalk.cyan('Name'),
+        chalk.cyan('Type'),
+        chalk.cyan('Size'),
+        chalk.cyan('Attached'),
+      ],
+      colWidths: [32, 12, 10, 12],
+    });
+
+    documents.forEach(document => {
+      table.push([
+        document.name,
+        document.type,
+        formatFileSize(document.fileSize),
+        formatDate(document.uploadedAt),
+      ]);
+    });
+
+    console.log(table.toString());
+  }
+
+  private displayRescheduleHistory(loan: LoanModel): void {
+    const history = loan.rescheduleHistory || [];
+    if (history.length === 0) return;
+
+    console.log(chalk.cyan.bold('📅 Reschedule History'));
+
+    const table = new Table({
+      head: [
+        chalk.cyan('Date'),
+        chalk.cyan('From'),
+        chalk.cyan('To'),
+        chalk.cyan('Interest'),
+        chalk.cyan('Reason'),
+      ],
+      colWidths: [12, 12, 12, 12, 30],
+    });
+
+    history.forEach(record => {
+      table.push([
+        formatDate(record.rescheduledAt),
+        formatDate(record.previousDate),
+        formatDate(record.newDate),
+        record.newInterestRate !== undefined
+          ? `${record.previousInterestRate || 0}% → ${record.newInterestRate}%`
+          : '-',
+        record.reason,
+      ]);
+    });
+
+    console.log(table.toString());
+  }
+
+  private displayLineage(loan: LoanModel, loans: LoanModel[]): void {
+    const lines = formatLineage(loan.id, loans);
+    if (lines.length === 0) return;
+
+    console.log(chalk.cyan.bold('🔗 Loan Lineage'));
+    lines.forEach(line =>
+      console.log(
+        line.startsWith('▶') ? chalk.yellow(line) : chalk.white(line)
+      )
+    );
+  }
+
+  private displayLoansTable(
+    loans: LoanModel[],
+    risks: Map<string, LoanRisk>
+  ): void {
     const table = new Table({
       head: [
-        chalk.cyan('Lender'),
+        chalk.cyan('Name'),
+        chalk.cyan('Direction'),
         chalk.cyan('Phone'),
         chalk.cyan('Amount'),
         chalk.cyan('Due Date'),
         chalk.cyan('Status'),
+        chalk.cyan('Risk'),
       ],
-      colWidths: [20, 15, 15, 12, 12],
+      colWidths: [20, 12, 15, 15, 12, 12, 15],
     });
 
     loans.forEach(loan => {
       const status = loan.isPaid
         ? chalk.green('Paid')
-        : loan.isOverdue()
-          ? chalk.red('Overdue')
-          : chalk.yellow('Pending');
+        : loan.isSuperseded()
+          ? chalk.blue('Closed')
+          : loan.isWrittenOff()
+            ? chalk.gray('Written Off')
+            : loan.isOverdue()
+              ? chalk.red('Overdue')
+              : chalk.yellow('Pending');
 
       table.push([
         loan.lenderName,
+        loan.isReceivable()
+          ? chalk.green(formatDirection(loan.getDirection()))
+          : chalk.red(formatDirection(loan.getDirection())),
         loan.phoneNumber,
-        formatCurrency(loan.calculateTotalWithInterest()),
-        formatDate(loan.repaymentDate),
+        formatCurrency(loan.calculateTotalWithInterest(), loan.currency),
+        formatDate(loan.getNextDueDate()),
         status,
+        this.formatRisk(risks.get(loan.id)),
       ]);
     });
 
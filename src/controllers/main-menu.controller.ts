@@ -8,6 +8,12 @@ import { AnalyticsController } from './analytics.controller';
 import { ExportController } from './export.controller';
 import { BackupController } from './backup.controller';
 import { ConfigController } from './config.controller';
+import { ContactController } from './contact.controller';
+import { BudgetController } from './budget.controller';
+import { AuditController } from './audit.controller';
+import { RecurringService } from '../services/recurring.service';
+import { ContactService } from '../services/contact.service';
+import { formatCurrency } from '../utils/format.utils';
 
 export class MainMenuController {
   private logger: Logger;
@@ -16,6 +22,11 @@ export class MainMenuController {
   private exportController: ExportController;
   private backupController: BackupController;
   private configController: ConfigController;
+  private contactController: ContactController;
+  private budgetController: BudgetController;
+  private auditController: AuditController;
+  private recurringService: RecurringService;
+  private contactService: ContactService;
   private isShuttingDown: boolean = false;
 
   constructor() {
@@ -25,11 +36,19 @@ export class MainMenuController {
     this.exportController = new ExportController();
     this.backupController = new BackupController();
     this.configController = new ConfigController();
+    this.contactController = new ContactController();
+    this.budgetController = new BudgetController();
+    this.auditController = new AuditController();
+    this.recurringService = new RecurringService();
+    this.contactService = new ContactService();
   }
 
   async show(): Promise<void> {
     try {
       while (true) {
+        // Runs before every menu, so at startup and after each command
+        await this.linkContacts();
+
         this.displayMainMenu();
 
         const choice = await this.getMenuChoice();
@@ -40,6 +59,10 @@ export class MainMenuController {
         }
 
         await this.handleMenuChoice(choice);
+
+        // Catches series falling due while the app is open; the startup run
+        // happens before the welcome screen
+        await this.generateRecurringLoans();
       }
     } catch (error) {
       this.logger.error('Error in main menu', error as Error);
@@ -47,6 +70,44 @@ export class MainMenuController {
     }
   }
 
+  // Adds the recurring loans that have fallen due
+  async generateRecurringLoans(): Promise<void> {
+    try {
+      const result = await this.recurringService.generateDueLoans();
+
+      result.generated.forEach(loan => {
+        console.log(
+          chalk.cyan(
+            `🔁 Recurring loan added: ${loan.lenderName} - ${formatCurrency(loan.amount, loan.currency)}, due ${loan.repaymentDate}`
+          )
+        );
+      });
+      result.skipped.forEach(occurrence => {
+        console.log(
+          chalk.gray(`⏭️  Skipped ${occurrence.name} for ${occurrence.date}`)
+        );
+      });
+      result.completed.forEach(series => {
+        console.log(
+          chalk.gray(`🏁 Recurring series "${series.name}" has ended`)
+        );
+      });
+    } catch (error) {
+      this.logger.warn('Recurring loan generation failed', error as Error);
+      console.log(chalk.yellow('⚠️ Could not generate recurring loans'));
+    }
+  }
+
+  // New loans are attached to a contact by phone number
+  private async linkContacts(): Promise<void> {
+    try {
+      await this.contactService.linkLoans();
+    } catch (error) {
+      this.logger.warn('Contact linking failed', error as Error);
+      console.log(chalk.yellow('⚠️ Could not link loans to contacts'));
+    }
+  }
+
   private displayMainMenu(): void {
     // Don't clear screen here - let the welcome service handle the initial display
     // Only show a compact header for subsequent menu displays
@@ -82,6 +143,14 @@ export class MainMenuController {
             name: `${chalk.blue('📊')} Analytics Dashboard`,
             value: 'analytics',
           },
+          {
+            name: `${chalk.green('👥')} Contacts`,
+            value: 'contacts',
+          },
+          {
+            name: `${chalk.green('💼')} Income & Budget`,
+            value: 'budget',
+          },
           {
             name: `${chalk.magenta('📤')} Export Data`,
             value: 'export',
@@ -90,6 +159,10 @@ export class MainMenuController {
             name: `${chalk.yellow('💾')} Backup & Restore`,
             value: 'backup',
           },
+          {
+            name: `${chalk.yellow('🕘')} History & Undo`,
+            value: 'history',
+          },
           {
             name: `${chalk.cyan('⚙️')} Settings & Configuration`,
             value: 'config',
@@ -125,12 +198,21 @@ export class MainMenuController {
         case 'analytics':
           await this.analyticsController.showAnalyticsDashboard();
           break;
+        case 'contacts':
+          await this.contactController.showContactMenu();
+          break;
+        case 'budget':
+          await this.budgetController.showBudgetMenu();
+          break;
         case 'export':
           await this.exportController.showExportMenu();
           break;
         case 'backup':
           await this.backupController.showBackupMenu();
           break;
+        case 'history':
+          await this.auditController.showAuditMenu();
+          break;
         case 'config':
           await this.configController.showConfigMenu();
           break;
@@ -1,6 +1,18 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { Logger } from './logger';
+import {
+  ExchangeRate,
+  PenaltyPeriod,
+  PenaltyRule,
+  RiskThresholds,
+  WeekendRule,
+} from '../types/loan.types';
+import {
+  DEFAULT_RISK_THRESHOLDS,
+  validateRiskThresholds,
+} from '../utils/risk.utils';
+import { DEFAULT_MAX_OBLIGATION_SHARE } from '../utils/budget.utils';
 
 export interface DisplaySettings {
   theme: string;
@@ -33,6 +45,7 @@ export interface StorageSettings {
   backupDirectory: string;
   maxFileSize: string;
   compression: boolean;
+  trashRetentionDays: number; // Trashed loans are purged after this; 0 keeps them
 }
 
 export interface SecuritySettings {
@@ -52,6 +65,26 @@ export interface LocaleSettings {
   numberFormat: string;
 }
 
+export interface ExchangeRateSettings {
+  reportingCurrency: string; // Totals and analytics are converted to this
+  rates: ExchangeRate[]; // Quoted against CurrencySettings.currency
+}
+
+export interface PenaltySettings {
+  enabled: boolean; // Apply defaultRule to loans without their own rule
+  defaultRule: PenaltyRule;
+}
+
+export interface AffordabilitySettings {
+  enabled: boolean; // Warn when a new loan stretches the budget
+  maxObligationShare: number; // Percent of monthly income that may fall due
+}
+
+export interface DueDateSettings {
+  graceDays: number; // Days after the business due date before a loan is late
+  weekendRule: WeekendRule; // Applies to holidays in the calendar as well
+}
+
 export interface AppConfig {
   display: DisplaySettings;
   currency: CurrencySettings;
@@ -59,6 +92,11 @@ export interface AppConfig {
   storage: StorageSettings;
   security: SecuritySettings;
   locale: LocaleSettings;
+  penalties: PenaltySettings;
+  exchangeRates: ExchangeRateSettings;
+  risk: RiskThresholds;
+  affordability: AffordabilitySettings;
+  dueDates: DueDateSettings;
   version: string;
   lastUpdated: string;
 }
@@ -160,6 +198,7 @@ export class ConfigManager {
         backupDirectory: path.join(__dirname, '../../backups'),
         maxFileSize: '10MB',
         compression: true,
+        trashRetentionDays: 30,
       },
       security: {
         dataEncryption: false,
@@ -175,6 +214,29 @@ export class ConfigManager {
         firstDayOfWeek: 'monday',
         numberFormat: 'uk',
       },
+      penalties: {
+        enabled: false,
+        defaultRule: {
+          fixedFee: 0,
+          rate: 1,
+          ratePeriod: PenaltyPeriod.DAY,
+          graceDays: 3,
+          maxPercent: 20,
+        },
+      },
+      exchangeRates: {
+        reportingCurrency: 'NGN',
+        rates: [],
+      },
+      risk: { ...DEFAULT_RISK_THRESHOLDS },
+      affordability: {
+        enabled: true,
+        maxObligationShare: DEFAULT_MAX_OBLIGATION_SHARE,
+      },
+      dueDates: {
+        graceDays: 0,
+        weekendRule: WeekendRule.FORWARD,
+      },
       version: '2.0.0',
       lastUpdated: new Date().toISOString(),
     };
@@ -193,6 +255,17 @@ export class ConfigManager {
       storage: { ...defaults.storage, ...loadedConfig.storage },
       security: { ...defaults.security, ...loadedConfig.security },
       locale: { ...defaults.locale, ...loadedConfig.locale },
+      penalties: { ...defaults.penalties, ...loadedConfig.penalties },
+      exchangeRates: {
+        ...defaults.exchangeRates,
+        ...loadedConfig.exchangeRates,
+      },
+      risk: { ...defaults.risk, ...loadedConfig.risk },
+      affordability: {
+        ...defaults.affordability,
+        ...loadedConfig.affordability,
+      },
+      dueDates: { ...defaults.dueDates, ...loadedConfig.dueDates },
       version: loadedConfig.version || defaults.version,
       lastUpdated: loadedConfig.lastUpdated || defaults.lastUpdated,
     };
@@ -274,6 +347,111 @@ export class ConfigManager {
     this.logger.info('Locale settings updated', settings);
   }
 
+  // Penalty Settings Methods
+  async getPenaltySettings(): Promise<PenaltySettings> {
+    return { ...this.config.penalties };
+  }
+
+  async updatePenaltySettings(
+    settings: Partial<PenaltySettings>
+  ): Promise<void> {
+    this.config.penalties = { ...this.config.penalties, ...settings };
+    await this.saveConfig();
+    this.logger.info('Penalty settings updated', settings);
+  }
+
+  // Risk Threshold Methods
+  async getRiskThresholds(): Promise<RiskThresholds> {
+    return { ...this.config.risk };
+  }
+
+  async updateRiskThresholds(thresholds: RiskThresholds): Promise<void> {
+    this.config.risk = { ...thresholds };
+    await this.saveConfig();
+    this.logger.info('Risk thresholds updated', thresholds);
+  }
+
+  // Affordability Settings Methods
+  async getAffordabilitySettings(): Promise<AffordabilitySettings> {
+    return { ...this.config.affordability };
+  }
+
+  async updateAffordabilitySettings(
+    settings: Partial<AffordabilitySettings>
+  ): Promise<void> {
+    this.config.affordability = { ...this.config.affordability, ...settings };
+    await this.saveConfig();
+    this.logger.info('Affordability settings updated', settings);
+  }
+
+  // Due Date Settings Methods
+  async getDueDateSettings(): Promise<DueDateSettings> {
+    return { ...this.config.dueDates };
+  }
+
+  async updateDueDateSettings(
+    settings: Partial<DueDateSettings>
+  ): Promise<void> {
+    this.config.dueDates = { ...this.config.dueDates, ...settings };
+    await this.saveConfig();
+    this.logger.info('Due date settings updated', settings);
+  }
+
+  // Exchange Rate Methods
+  async getExchangeRateSettings(): Promise<ExchangeRateSettings> {
+    return {
+      ...this.config.exchangeRates,
+      rates: [...this.config.exchangeRates.rates],
+    };
+  }
+
+  async setReportingCurrency(currency: string): Promise<void> {
+    this.config.exchangeRates.reportingCurrency = currency;
+    await this.saveConfig();
+    this.logger.info('Reporting currency updated', { currency });
+  }
+
+  // A rate for the same currency and effective date replaces the old one
+  async saveExchangeRates(rates: ExchangeRate[]): Promise<void> {
+    const key = (rate: ExchangeRate) =>
+      `${rate.currency}|${rate.effectiveDate}`;
+    const incoming = new Set(rates.map(key));
+
+    this.config.exchangeRates.rates = [
+      ...this.config.exchangeRates.rates.filter(
+        rate => !incoming.has(key(rate))
+      ),
+      ...rates,
+    ].sort(
+      (a, b) =>
+        a.currency.localeCompare(b.currency) ||
+        a.effectiveDate.localeCompare(b.effectiveDate)
+    );
+    await this.saveConfig();
+    this.logger.info('Exchange rates saved', { count: rates.length });
+  }
+
+  async removeExchangeRate(
+    currency: string,
+    effectiveDate: string
+  ): Promise<boolean> {
+    const before = this.config.exchangeRates.rates.length;
+    this.config.exchangeRates.rates = this.config.exchangeRates.rates.filter(
+      rate =>
+        !(rate.currency === currency && rate.effectiveDate === effectiveDate)
+    );
+    if (this.config.exchangeRates.rates.length === before) return false;
+    await this.saveConfig();
+    return true;
+  }
+
+  // Rule applied to loans that don't carry their own penalty rule
+  async getDefaultPenaltyRule(): Promise<PenaltyRule | undefined> {
+    return this.config.penalties.enabled
+      ? { ...this.config.penalties.defaultRule }
+      : undefined;
+  }
+
   // General Configuration Methods
   async getFullConfig(): Promise<AppConfig> {
     return { ...this.config };
@@ -353,6 +531,21 @@ export class ConfigManager {
           case 'locale':
             exportData.locale = this.config.locale;
             break;
+          case 'penalties':
+            exportData.penalties = this.config.penalties;
+            break;
+          case 'exchangeRates':
+            exportData.exchangeRates = this.config.exchangeRates;
+            break;
+          case 'risk':
+            exportData.risk = this.config.risk;
+            break;
+          case 'affordability':
+            exportData.affordability = this.config.affordability;
+            break;
+          case 'dueDates':
+            exportData.dueDates = this.config.dueDates;
+            break;
         }
       });
 
@@ -518,6 +711,32 @@ export class ConfigManager {
       merged.locale = { ...current.locale, ...imported.locale };
     }
 
+    if (imported.penalties) {
+      merged.penalties = { ...current.penalties, ...imported.penalties };
+    }
+
+    if (imported.exchangeRates) {
+      merged.exchangeRates = {
+        ...current.exchangeRates,
+        ...imported.exchangeRates,
+      };
+    }
+
+    if (imported.risk) {
+      merged.risk = { ...current.risk, ...imported.risk };
+    }
+
+    if (imported.affordability) {
+      merged.affordability = {
+        ...current.affordability,
+        ...imported.affordability,
+      };
+    }
+
+    if (imported.dueDates) {
+      merged.dueDates = { ...current.dueDates, ...imported.dueDates };
+    }
+
     // Handle string fields separately
     if (imported.version) {
       merged.version = imported.version;
@@ -581,6 +800,33 @@ export class ConfigManager {
         errors.push('Language setting cannot be empty');
       }
 
+      // Validate risk thresholds
+      const riskError = validateRiskThresholds(this.config.risk);
+      if (riskError) {
+        errors.push(riskError);
+      }
+
+      // Validate affordability settings
+      if (
+        this.config.affordability.maxObligationShare <= 0 ||
+        this.config.affordability.maxObligationShare > 100
+      ) {
+        errors.push('Affordability share must be between 1 and 100 percent');
+      }
+
+      // Validate due date settings
+      if (
+        !Number.isInteger(this.config.dueDates.graceDays) ||
+        this.config.dueDates.graceDays < 0
+      ) {
+        errors.push('Grace days must be a whole number of days');
+      }
+      if (
+        !Object.values(WeekendRule).includes(this.config.dueDates.weekendRule)
+      ) {
+        errors.push('Weekend rule must be none, forward or backward');
+      }
+
       return {
         valid: errors.length === 0,
         errors,
@@ -1,9 +1,64 @@
+import {
+  InstallmentPlan,
+  InterestModel,
+  LoanCategory,
+  LoanCollateral,
+  LoanDirection,
+  LoanDeletion,
+  LoanDocument,
+  LoanGuarantor,
+  LoanPriority,
+  LoanRelationship,
+  LoanSchedule,
+  LoanStatus,
+  LoanWriteOff,
+  PaymentRecord,
+  PenaltyRule,
+  PenaltyWaiver,
+  RescheduleRecord,
+} from '../types/loan.types';
+
 export interface Loan {
   id: string;
-  lenderName: string;
+  direction?: LoanDirection; // Payable when unset
+  lenderName: string; // The other party: lender if payable, borrower if receivable
   phoneNumber: string;
   amount: number;
+  currency?: string; // ISO code; the home currency when unset
   repaymentDate: string;
   interestRate?: number; // Optional interest rate (percentage)
+  interestModel?: InterestModel; // How interestRate is applied; flat when unset
   isPaid: boolean;
+  status?: LoanStatus;
+  paymentHistory?: PaymentRecord[]; // Partial repayments, oldest first
+  installmentPlan?: InstallmentPlan;
+  schedule?: LoanSchedule[]; // Generated from installmentPlan
+  penaltyRule?: PenaltyRule; // Overrides the global default when set
+  penaltyWaivers?: PenaltyWaiver[];
+  originalRepaymentDate?: string; // Due date before the first reschedule
+  rescheduleHistory?: RescheduleRecord[]; // Oldest first
+  writeOff?: LoanWriteOff; // Set while the loan is cancelled as a bad debt
+  relationships?: LoanRelationship[]; // Links to the loans this one replaced
+  supersededBy?: string; // First loan this one was rolled into; closes it
+  collateral?: LoanCollateral[];
+  guarantors?: LoanGuarantor[];
+  documents?: LoanDocument[];
+  category?: LoanCategory; // Other when unset
+  priority?: LoanPriority; // Medium when unset
+  tags?: string[]; // Lowercase, without duplicates
+  notes?: string;
+  templateId?: string; // Template the loan was created from
+  batchId?: string; // Batch entry the loan was saved in
+  recurringId?: string; // Recurring series that generated the loan
+  contactId?: string; // Person in the contacts directory
+  deletion?: LoanDeletion; // Set while the loan is in the trash
+  createdAt?: string; // Backfilled by migration for older records
+  updatedAt?: string;
+}
+
+// Layout of loans.json from schema version 1; older files are a bare array
+export interface LoanDataFile {
+  schemaVersion: number;
+  updatedAt: string;
+  loans: Loan[];
 }
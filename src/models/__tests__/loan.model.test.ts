@@ -1,5 +1,18 @@
 import { LoanModel } from '../loan.model';
 import { Loan } from '../../interfaces/loan.interface';
+import {
+  CompoundingFrequency,
+  InterestModelType,
+  InterestRatePeriod,
+  LoanCategory,
+  LoanDirection,
+  LoanPriority,
+  LoanStatus,
+  PaymentRecord,
+  PenaltyPeriod,
+  PenaltyRule,
+  WeekendRule,
+} from '../../types/loan.types';
 
 describe('LoanModel', () => {
   const mockLoanData: Loan = {
@@ -120,4 +133,535 @@ describe('LoanModel', () => {
       expect(loan.isOverdue()).toBe(false);
     });
   });
+
+  describe('payment ledger', () => {
+    const payment = (amount: number, paymentDate: string): PaymentRecord => ({
+      id: `payment-${paymentDate}`,
+      loanId: mockLoanData.id,
+      amount,
+      paymentDate,
+      createdAt: '2025-01-01T00:00:00.000Z',
+    });
+
+    it('should have nothing paid when there are no payments', () => {
+      const loan = new LoanModel(mockLoanData);
+
+      expect(loan.getTotalPaid()).toBe(0);
+      expect(loan.getOutstandingBalance()).toBe(55000);
+    });
+
+    it('should sum partial payments and reduce the outstanding balance', () => {
+      const loan = new LoanModel({
+        ...mockLoanData,
+        paymentHistory: [
+          payment(20000, '2025-01-10'),
+          payment(5000, '2025-01-20'),
+        ],
+      });
+
+      expect(loan.getTotalPaid()).toBe(25000);
+      expect(loan.getOutstandingBalance()).toBe(30000);
+      expect(loan.getStatus()).toBe(LoanStatus.PARTIALLY_PAID);
+    });
+
+    it('should have no outstanding balance once marked as paid', () => {
+      const loan = new LoanModel({ ...mockLoanData, isPaid: true });
+
+      expect(loan.getOutstandingBalance()).toBe(0);
+      expect(loan.getStatus()).toBe(LoanStatus.PAID);
+    });
+
+    it('should report pending for future loans without payments', () => {
+      const tomorrow = new Date();
+      tomorrow.setDate(tomorrow.getDate() + 1);
+
+      const loan = new LoanModel({
+        ...mockLoanData,
+        repaymentDate: tomorrow.toISOString().split('T')[0],
+      });
+
+      expect(loan.getStatus()).toBe(LoanStatus.PENDING);
+    });
+  });
+
+  describe('installment schedule', () => {
+    const daysFromNow = (days: number): string => {
+      const date = new Date();
+      date.setDate(date.getDate() + days);
+      return date.toISOString().split('T')[0];
+    };
+
+    const installment = (n: number, dueDate: string) => ({
+      id: `${mockLoanData.id}-${n}`,
+      loanId: mockLoanData.id,
+      installmentNumber: n,
+      dueDate,
+      principalAmount: 25000,
+      interestAmount: 0,
+      totalAmount: 25000,
+      paidAmount: 0,
+      remainingAmount: 25000,
+      status: 'pending' as const,
+    });
+
+    const scheduledLoanData: Loan = {
+      ...mockLoanData,
+      repaymentDate: daysFromNow(30),
+      schedule: [
+        installment(1, daysFromNow(-2)),
+        installment(2, daysFromNow(30)),
+      ],
+    };
+
+    it('should total the installments', () => {
+      const loan = new LoanModel(scheduledLoanData);
+
+      expect(loan.calculateTotalWithInterest()).toBe(50000);
+    });
+
+    it('should be overdue when an installment is missed before the final due date', () => {
+      const loan = new LoanModel(scheduledLoanData);
+
+      expect(loan.isOverdue()).toBe(true);
+      expect(loan.getOverdueInstallments()).toHaveLength(1);
+      expect(loan.getOverdueAmount()).toBe(25000);
+      expect(loan.getNextDueDate()).toBe(daysFromNow(-2));
+    });
+
+    it('should not be overdue once the missed installment is paid', () => {
+      const loan = new LoanModel({
+        ...scheduledLoanData,
+        schedule: [
+          {
+            ...installment(1, daysFromNow(-2)),
+            paidAmount: 25000,
+            remainingAmount: 0,
+            status: 'paid',
+          },
+          installment(2, daysFromNow(30)),
+        ],
+      });
+
+      expect(loan.isOverdue()).toBe(false);
+      expect(loan.getNextDueDate()).toBe(daysFromNow(30));
+    });
+  });
+
+  describe('interest models', () => {
+    it('should charge simple monthly interest over the loan term', () => {
+      const loan = new LoanModel({
+        ...mockLoanData,
+        repaymentDate: '2025-04-15',
+        interestRate: 5,
+        interestModel: {
+          type: InterestModelType.SIMPLE,
+          ratePeriod: InterestRatePeriod.MONTHLY,
+          startDate: '2025-01-15',
+        },
+      });
+
+      expect(loan.calculateInterest()).toBeCloseTo(7500, 2);
+      expect(loan.calculateTotalWithInterest()).toBeCloseTo(57500, 2);
+    });
+
+    it('should only count interest accrued up to the given date', () => {
+      const loan = new LoanModel({
+        ...mockLoanData,
+        repaymentDate: '2025-04-15',
+        interestRate: 5,
+        interestModel: {
+          type: InterestModelType.SIMPLE,
+          ratePeriod: InterestRatePeriod.MONTHLY,
+          startDate: '2025-01-15',
+        },
+      });
+
+      expect(
+        loan.getAccruedInterest(new Date('2025-02-15T12:00:00Z'))
+      ).toBeCloseTo(2500, 2);
+    });
+
+    it('should clear compound interest paid to the cent', () => {
+      const loan = new LoanModel({
+        ...mockLoanData,
+        repaymentDate: '2025-04-15',
+        interestRate: 10,
+        interestModel: {
+          type: InterestModelType.COMPOUND,
+          ratePeriod: InterestRatePeriod.ANNUAL,
+          startDate: '2025-01-15',
+          compounding: CompoundingFrequency.DAILY,
+        },
+      });
+      const balance = loan.getOutstandingBalance();
+
+      expect(balance).toBe(Math.round(balance * 100) / 100);
+      expect(
+        new LoanModel({
+          ...loan,
+          paymentHistory: [
+            {
+              id: 'payment-1',
+              loanId: loan.id,
+              amount: balance,
+              paymentDate: '2025-04-15',
+              createdAt: '2025-04-15T00:00:00.000Z',
+            },
+          ],
+        }).getOutstandingBalance()
+      ).toBe(0);
+    });
+
+    it('should treat flat interest as fully accrued', () => {
+      const loan = new LoanModel(mockLoanData);
+
+      expect(loan.getAccruedInterest(new Date('2020-01-01'))).toBe(5000);
+    });
+  });
+
+  describe('penalties', () => {
+    const asOf = new Date('2025-02-25T12:00:00');
+    const rule: PenaltyRule = {
+      fixedFee: 0,
+      rate: 1,
+      ratePeriod: PenaltyPeriod.DAY,
+      graceDays: 0,
+    };
+
+    it('should accrue nothing without a rule', () => {
+      const loan = new LoanModel(mockLoanData);
+
+      expect(loan.getAccruedPenalty(undefined, asOf)).toBe(0);
+    });
+
+    it('should fall back to the default rule', () => {
+      const loan = new LoanModel(mockLoanData);
+
+      expect(loan.getAccruedPenalty(rule, asOf)).toBe(5500);
+    });
+
+    it('should prefer the loan rule over the default rule', () => {
+      const loan = new LoanModel({
+        ...mockLoanData,
+        penaltyRule: { ...rule, fixedFee: 1000, rate: 0 },
+      });
+
+      expect(loan.getAccruedPenalty(rule, asOf)).toBe(1000);
+    });
+
+    it('should subtract waivers from the penalty due', () => {
+      const loan = new LoanModel({
+        ...mockLoanData,
+        penaltyRule: rule,
+        penaltyWaivers: [
+          {
+            id: 'waiver-1',
+            amount: 2000,
+            reason: 'Goodwill',
+            waivedAt: '2025-02-20T10:00:00.000Z',
+          },
+        ],
+      });
+
+      expect(loan.getWaivedPenalty()).toBe(2000);
+      expect(loan.getPenaltyDue(undefined, asOf)).toBe(3500);
+    });
+
+    it('should stop charging once the loan is paid', () => {
+      const loan = new LoanModel({
+        ...mockLoanData,
+        penaltyRule: rule,
+        isPaid: true,
+      });
+
+      expect(loan.getPenaltyDue(undefined, asOf)).toBe(0);
+    });
+  });
+
+  describe('direction', () => {
+    it('should treat loans without a direction as money borrowed', () => {
+      const loan = new LoanModel(mockLoanData);
+
+      expect(loan.getDirection()).toBe(LoanDirection.PAYABLE);
+      expect(loan.isReceivable()).toBe(false);
+    });
+
+    it('should recognise money lent out', () => {
+      const loan = new LoanModel({
+        ...mockLoanData,
+        direction: LoanDirection.RECEIVABLE,
+      });
+
+      expect(loan.isReceivable()).toBe(true);
+    });
+  });
+
+  describe('rescheduling', () => {
+    const futureDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split('T')[0];
+
+    it('should keep the original due date after rescheduling', () => {
+      const loan = new LoanModel({
+        ...mockLoanData,
+        repaymentDate: futureDate,
+        originalRepaymentDate: '2025-02-15',
+        rescheduleHistory: [
+          {
+            id: 'reschedule-1',
+            previousDate: '2025-02-15',
+            newDate: futureDate,
+            reason: 'Salary delayed',
+            rescheduledAt: '2025-02-10T09:00:00.000Z',
+          },
+        ],
+      });
+
+      expect(loan.getOriginalRepaymentDate()).toBe('2025-02-15');
+      expect(loan.getRescheduleCount()).toBe(1);
+      expect(loan.getStatus()).toBe(LoanStatus.RESCHEDULED);
+    });
+
+    it('should use the repayment date when never rescheduled', () => {
+      const loan = new LoanModel(mockLoanData);
+
+      expect(loan.isRescheduled()).toBe(false);
+      expect(loan.getOriginalRepaymentDate()).toBe('2025-02-15');
+    });
+  });
+
+  describe('write-off', () => {
+    const writtenOffLoan = new LoanModel({
+      ...mockLoanData,
+      repaymentDate: '2024-01-01',
+      paymentHistory: [
+        {
+          id: 'payment-1',
+          loanId: 'test-id-123',
+          amount: 15000,
+          paymentDate: '2023-12-01',
+          createdAt: '2023-12-01T10:00:00.000Z',
+        },
+      ],
+      writeOff: {
+        amount: 40000,
+        date: '2024-06-01',
+        reason: 'Borrower relocated',
+        recordedAt: '2024-06-01T10:00:00.000Z',
+      },
+    });
+
+    it('should report written-off loans as cancelled', () => {
+      expect(writtenOffLoan.isWrittenOff()).toBe(true);
+      expect(writtenOffLoan.isOpen()).toBe(false);
+      expect(writtenOffLoan.getStatus()).toBe(LoanStatus.CANCELLED);
+    });
+
+    it('should leave nothing outstanding or overdue', () => {
+      expect(writtenOffLoan.getOutstandingBalance()).toBe(0);
+      expect(writtenOffLoan.isOverdue()).toBe(false);
+      expect(writtenOffLoan.getOverdueAmount()).toBe(0);
+    });
+
+    it('should keep the written-off amount and payments received', () => {
+      expect(writtenOffLoan.getWrittenOffAmount()).toBe(40000);
+      expect(writtenOffLoan.getTotalPaid()).toBe(15000);
+    });
+
+    it('should stop accruing penalties', () => {
+      const rule: PenaltyRule = {
+        fixedFee: 500,
+        rate: 1,
+        ratePeriod: PenaltyPeriod.DAY,
+        graceDays: 0,
+      };
+
+      expect(writtenOffLoan.getAccruedPenalty(rule)).toBe(0);
+    });
+  });
+
+  describe('rolled-over loans', () => {
+    const supersededLoan = new LoanModel({
+      ...mockLoanData,
+      repaymentDate: '2024-01-01',
+      paymentHistory: [
+        {
+          id: 'payment-1',
+          loanId: 'test-id-123',
+          amount: 15000,
+          paymentDate: '2023-12-01',
+          createdAt: '2023-12-01T10:00:00.000Z',
+        },
+      ],
+      supersededBy: 'renewal-id',
+    });
+
+    it('should report superseded loans as closed', () => {
+      expect(supersededLoan.isSuperseded()).toBe(true);
+      expect(supersededLoan.isOpen()).toBe(false);
+      expect(supersededLoan.getStatus()).toBe(LoanStatus.CLOSED);
+    });
+
+    it('should leave nothing outstanding or overdue', () => {
+      expect(supersededLoan.getOutstandingBalance()).toBe(0);
+      expect(supersededLoan.isOverdue()).toBe(false);
+      expect(supersededLoan.getOverdueAmount()).toBe(0);
+    });
+
+    it('should only count what was repaid before the rollover', () => {
+      expect(supersededLoan.getCountedTotal()).toBe(15000);
+      expect(supersededLoan.getCountedPrincipal()).toBe(15000);
+    });
+
+    it('should count open loans in full', () => {
+      const loan = new LoanModel(mockLoanData);
+      expect(loan.getCountedTotal()).toBe(55000);
+      expect(loan.getCountedPrincipal()).toBe(50000);
+    });
+  });
+
+  describe('collateral', () => {
+    const item = {
+      loanId: 'test-id-123',
+      type: 'electronics' as const,
+      description: 'Laptop',
+      estimatedValue: 30000,
+      condition: 'good' as const,
+      createdAt: '2025-01-01T10:00:00.000Z',
+      updatedAt: '2025-01-01T10:00:00.000Z',
+    };
+    const securedLoan = new LoanModel({
+      ...mockLoanData,
+      collateral: [
+        { ...item, id: 'c-1', status: 'held' },
+        { ...item, id: 'c-2', status: 'held', estimatedValue: 14000 },
+        { ...item, id: 'c-3', status: 'released', estimatedValue: 99000 },
+      ],
+    });
+
+    it('should only value collateral that is still held', () => {
+      expect(securedLoan.getHeldCollateral()).toHaveLength(2);
+      expect(securedLoan.getCollateralValue()).toBe(44000);
+    });
+
+    it('should compare held collateral with the outstanding balance', () => {
+      expect(securedLoan.getCoverageRatio()).toBeCloseTo(0.8);
+      expect(new LoanModel(mockLoanData).getCoverageRatio()).toBe(0);
+    });
+
+    it('should have no coverage ratio once nothing is owed', () => {
+      const paidLoan = new LoanModel({ ...securedLoan, isPaid: true });
+      expect(paidLoan.getCoverageRatio()).toBeUndefined();
+    });
+  });
+
+  describe('guarantors', () => {
+    const guarantor = {
+      id: 'g-1',
+      loanId: 'test-id-123',
+      name: 'Mama Ngozi',
+      phoneNumber: '+2348030000000',
+      relationship: 'Aunt',
+      guaranteeAmount: 80000,
+      isActive: true,
+      createdAt: '2025-01-01T10:00:00.000Z',
+      updatedAt: '2025-01-01T10:00:00.000Z',
+    };
+    const guaranteedLoan = new LoanModel({
+      ...mockLoanData,
+      direction: LoanDirection.RECEIVABLE,
+      repaymentDate: '2024-01-01',
+      guarantors: [guarantor, { ...guarantor, id: 'g-2', isActive: false }],
+    });
+
+    it('should cap the guaranteed amount at the outstanding balance', () => {
+      expect(guaranteedLoan.getActiveGuarantors()).toHaveLength(1);
+      expect(guaranteedLoan.getGuaranteedAmount()).toBe(55000);
+    });
+
+    it('should suggest contacting the guarantor once the loan is overdue', () => {
+      expect(guaranteedLoan.shouldContactGuarantor()).toBe(true);
+      expect(
+        new LoanModel({
+          ...guaranteedLoan,
+          repaymentDate: '2099-01-01',
+        }).shouldContactGuarantor()
+      ).toBe(false);
+    });
+  });
+
+  describe('classification', () => {
+    it('should default to other category and medium priority', () => {
+      const loan = new LoanModel(mockLoanData);
+      expect(loan.getCategory()).toBe(LoanCategory.OTHER);
+      expect(loan.getPriority()).toBe(LoanPriority.MEDIUM);
+    });
+
+    it('should match tags regardless of case or a leading #', () => {
+      const taggedLoan = new LoanModel({
+        ...mockLoanData,
+        category: LoanCategory.BUSINESS,
+        tags: ['shop', 'stock'],
+      });
+      expect(taggedLoan.getCategory()).toBe(LoanCategory.BUSINESS);
+      expect(taggedLoan.hasTag('#Shop')).toBe(true);
+      expect(taggedLoan.hasTag('rent')).toBe(false);
+    });
+  });
+
+  describe('trash', () => {
+    it('should report loans with a deletion record as trashed', () => {
+      expect(new LoanModel(mockLoanData).isTrashed()).toBe(false);
+      expect(
+        new LoanModel({
+          ...mockLoanData,
+          deletion: { deletedAt: '2025-01-10T09:00:00.000Z', reason: 'Typo' },
+        }).isTrashed()
+      ).toBe(true);
+    });
+  });
+
+  describe('due date calendar', () => {
+    // Due on Saturday 15 February 2025
+    const calendar = {
+      graceDays: 2,
+      weekendRule: WeekendRule.FORWARD,
+      holidays: [],
+    };
+
+    it('should keep the agreed date without a calendar', () => {
+      const loan = new LoanModel(mockLoanData);
+
+      expect(loan.getEffectiveDueDate()).toBe('2025-02-15');
+      expect(loan.getDaysOverdue(new Date('2025-02-17T12:00:00'))).toBe(2);
+    });
+
+    it('should roll past the weekend and add the grace days', () => {
+      const loan = new LoanModel(mockLoanData, calendar);
+
+      expect(loan.getEffectiveDueDate()).toBe('2025-02-19');
+      expect(loan.getDaysUntilDue(new Date('2025-02-14T12:00:00'))).toBe(5);
+      expect(loan.getDaysOverdue(new Date('2025-02-19T12:00:00'))).toBe(0);
+      expect(loan.getDaysOverdue(new Date('2025-02-25T12:00:00'))).toBe(6);
+    });
+
+    it('should charge penalties from the effective due date', () => {
+      const loan = new LoanModel(
+        {
+          ...mockLoanData,
+          penaltyRule: {
+            fixedFee: 0,
+            rate: 1,
+            ratePeriod: PenaltyPeriod.DAY,
+            graceDays: 0,
+          },
+        },
+        calendar
+      );
+
+      expect(
+        loan.getAccruedPenalty(undefined, new Date('2025-02-25T12:00:00'))
+      ).toBe(3300);
+    });
+  });
 });
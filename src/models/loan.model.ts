@@ -1,35 +1,451 @@
 import { Loan } from '../interfaces/loan.interface';
+import {
+  InstallmentPlan,
+  InterestModel,
+  InterestModelType,
+  LoanCategory,
+  LoanCollateral,
+  LoanDeletion,
+  LoanDirection,
+  LoanDocument,
+  LoanGuarantor,
+  LoanPriority,
+  LoanRelationship,
+  LoanSchedule,
+  LoanStatus,
+  LoanWriteOff,
+  PaymentRecord,
+  PenaltyRule,
+  PenaltyWaiver,
+  RescheduleRecord,
+} from '../types/loan.types';
+import { normalizeTag } from '../utils/category.utils';
+import {
+  DueDateCalendar,
+  getDaysUntilDue,
+  getEffectiveDueDate,
+  isPastDue,
+} from '../utils/due-date.utils';
+import { calculateInterest } from '../utils/interest.utils';
+import { calculatePenalty, getDaysOverdue } from '../utils/penalty.utils';
+import { roundAmount } from '../utils/schedule.utils';
 
 export class LoanModel implements Loan {
   id: string;
+  direction?: LoanDirection;
   lenderName: string;
   phoneNumber: string;
   amount: number;
+  currency?: string;
   repaymentDate: string;
   interestRate?: number;
+  interestModel?: InterestModel;
   isPaid: boolean;
+  status?: LoanStatus;
+  paymentHistory?: PaymentRecord[];
+  installmentPlan?: InstallmentPlan;
+  schedule?: LoanSchedule[];
+  penaltyRule?: PenaltyRule;
+  penaltyWaivers?: PenaltyWaiver[];
+  originalRepaymentDate?: string;
+  rescheduleHistory?: RescheduleRecord[];
+  writeOff?: LoanWriteOff;
+  relationships?: LoanRelationship[];
+  supersededBy?: string;
+  collateral?: LoanCollateral[];
+  guarantors?: LoanGuarantor[];
+  documents?: LoanDocument[];
+  category?: LoanCategory;
+  priority?: LoanPriority;
+  tags?: string[];
+  notes?: string;
+  templateId?: string;
+  batchId?: string;
+  recurringId?: string;
+  contactId?: string;
+  deletion?: LoanDeletion;
+  createdAt?: string;
+  updatedAt?: string;
+  // Grace days, weekend rule and holidays; without one due dates stand as agreed
+  private calendar?: DueDateCalendar;
 
-  constructor(data: Loan) {
+  constructor(data: Loan, calendar?: DueDateCalendar) {
     this.id = data.id;
+    this.direction = data.direction;
     this.lenderName = data.lenderName;
     this.phoneNumber = data.phoneNumber;
     this.amount = data.amount;
+    this.currency = data.currency;
     this.repaymentDate = data.repaymentDate;
     this.interestRate = data.interestRate;
+    this.interestModel = data.interestModel;
     this.isPaid = data.isPaid;
+    this.status = data.status;
+    this.paymentHistory = data.paymentHistory;
+    this.installmentPlan = data.installmentPlan;
+    this.schedule = data.schedule;
+    this.penaltyRule = data.penaltyRule;
+    this.penaltyWaivers = data.penaltyWaivers;
+    this.originalRepaymentDate = data.originalRepaymentDate;
+    this.rescheduleHistory = data.rescheduleHistory;
+    this.writeOff = data.writeOff;
+    this.relationships = data.relationships;
+    this.supersededBy = data.supersededBy;
+    this.collateral = data.collateral;
+    this.guarantors = data.guarantors;
+    this.documents = data.documents;
+    this.category = data.category;
+    this.priority = data.priority;
+    this.tags = data.tags;
+    this.notes = data.notes;
+    this.templateId = data.templateId;
+    this.batchId = data.batchId;
+    this.recurringId = data.recurringId;
+    this.contactId = data.contactId;
+    this.deletion = data.deletion;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+    this.calendar = calendar;
+  }
+
+  getCalendar(): DueDateCalendar | undefined {
+    return this.calendar;
+  }
+
+  // Loans recorded before direction tracking were all money borrowed
+  getDirection(): LoanDirection {
+    return this.direction || LoanDirection.PAYABLE;
+  }
+
+  isReceivable(): boolean {
+    return this.getDirection() === LoanDirection.RECEIVABLE;
+  }
+
+  getCategory(): LoanCategory {
+    return this.category || LoanCategory.OTHER;
+  }
+
+  getPriority(): LoanPriority {
+    return this.priority || LoanPriority.MEDIUM;
+  }
+
+  hasTag(tag: string): boolean {
+    return (this.tags || []).includes(normalizeTag(tag));
   }
 
   // Calculate total amount with interest (if applicable)
   calculateTotalWithInterest(): number {
-    if (this.interestRate) {
-      const interest = (this.amount * this.interestRate) / 100;
-      return this.amount + interest;
+    if (this.hasSchedule()) {
+      return this.schedule!.reduce((total, row) => total + row.totalAmount, 0);
+    }
+    return this.amount + this.calculateInterest();
+  }
+
+  // Interest over the life of the loan under its interest model
+  calculateInterest(): number {
+    if (this.hasSchedule()) {
+      return this.schedule!.reduce(
+        (total, row) => total + row.interestAmount,
+        0
+      );
+    }
+    if (!this.interestRate) return 0;
+
+    const end =
+      this.interestModel?.type === InterestModelType.DAILY_ACCRUAL
+        ? this.getAccrualEndDate()
+        : this.repaymentDate;
+    return this.getInterestBetween(end);
+  }
+
+  // Interest earned so far; flat interest is charged in full up front
+  getAccruedInterest(asOf: Date = new Date()): number {
+    const asOfDate = asOf.toISOString().split('T')[0];
+
+    if (this.hasSchedule()) {
+      return this.schedule!.filter(row => row.dueDate <= asOfDate).reduce(
+        (total, row) => total + row.interestAmount,
+        0
+      );
+    }
+    if (!this.interestRate) return 0;
+
+    switch (this.interestModel?.type) {
+      case InterestModelType.SIMPLE:
+      case InterestModelType.COMPOUND:
+        return this.getInterestBetween(
+          asOfDate < this.repaymentDate ? asOfDate : this.repaymentDate
+        );
+      case InterestModelType.DAILY_ACCRUAL:
+        return this.getInterestBetween(
+          asOfDate < this.getAccrualEndDate()
+            ? asOfDate
+            : this.getAccrualEndDate()
+        );
+      default:
+        return this.calculateInterest();
+    }
+  }
+
+  // Sum of all recorded partial payments
+  getTotalPaid(): number {
+    return (this.paymentHistory || []).reduce(
+      (total, payment) => total + payment.amount,
+      0
+    );
+  }
+
+  // Amount still owed to the cent; closed loans have nothing outstanding
+  getOutstandingBalance(): number {
+    if (!this.isOpen()) return 0;
+    return Math.max(
+      0,
+      roundAmount(this.calculateTotalWithInterest() - this.getTotalPaid())
+    );
+  }
+
+  // Derive the current status from payments and due date
+  getStatus(): LoanStatus {
+    if (this.isSuperseded()) return LoanStatus.CLOSED;
+    if (this.isWrittenOff()) return LoanStatus.CANCELLED;
+    if (this.isPaid) return LoanStatus.PAID;
+    if (this.getTotalPaid() > 0) return LoanStatus.PARTIALLY_PAID;
+    if (this.isOverdue()) return LoanStatus.OVERDUE;
+    if (this.isRescheduled()) return LoanStatus.RESCHEDULED;
+    return LoanStatus.PENDING;
+  }
+
+  isWrittenOff(): boolean {
+    return !!this.writeOff;
+  }
+
+  getWrittenOffAmount(): number {
+    return this.writeOff?.amount || 0;
+  }
+
+  isSuperseded(): boolean {
+    return !!this.supersededBy;
+  }
+
+  isTrashed(): boolean {
+    return !!this.deletion;
+  }
+
+  // Still being repaid: not settled, written off or rolled into another loan
+  isOpen(): boolean {
+    return !this.isPaid && !this.isWrittenOff() && !this.isSuperseded();
+  }
+
+  // Portfolio totals count only what was repaid on a loan that was rolled
+  // over; the balance carried forward is counted on the loan that replaced it
+  getCountedTotal(): number {
+    return this.isSuperseded()
+      ? this.getTotalPaid()
+      : this.calculateTotalWithInterest();
+  }
+
+  getCountedPrincipal(): number {
+    return this.isSuperseded()
+      ? Math.min(this.amount, this.getTotalPaid())
+      : this.amount;
+  }
+
+  getHeldCollateral(): LoanCollateral[] {
+    return (this.collateral || []).filter(item => item.status === 'held');
+  }
+
+  getCollateralValue(): number {
+    return this.getHeldCollateral().reduce(
+      (total, item) => total + item.estimatedValue,
+      0
+    );
+  }
+
+  // Held collateral value per unit outstanding; undefined once nothing is owed
+  getCoverageRatio(): number | undefined {
+    const outstanding = this.getOutstandingBalance();
+    if (outstanding <= 0) return undefined;
+    return this.getCollateralValue() / outstanding;
+  }
+
+  getActiveGuarantors(): LoanGuarantor[] {
+    return (this.guarantors || []).filter(guarantor => guarantor.isActive);
+  }
+
+  // What active guarantors could be asked for, capped at what is still owed
+  getGuaranteedAmount(): number {
+    const guaranteed = this.getActiveGuarantors().reduce(
+      (total, guarantor) => total + guarantor.guaranteeAmount,
+      0
+    );
+    return Math.min(guaranteed, this.getOutstandingBalance());
+  }
+
+  // Guarantors vouch for people I lent to, so only receivables qualify
+  shouldContactGuarantor(): boolean {
+    return (
+      this.isReceivable() &&
+      this.isOverdue() &&
+      this.getActiveGuarantors().length > 0
+    );
+  }
+
+  getRescheduleCount(): number {
+    return (this.rescheduleHistory || []).length;
+  }
+
+  isRescheduled(): boolean {
+    return this.getRescheduleCount() > 0;
+  }
+
+  // The due date originally agreed, before any reschedule
+  getOriginalRepaymentDate(): string {
+    return this.originalRepaymentDate || this.repaymentDate;
+  }
+
+  hasSchedule(): boolean {
+    return !!this.schedule && this.schedule.length > 0;
+  }
+
+  // Installments with their current status; unpaid rows past due are overdue
+  getSchedule(): LoanSchedule[] {
+    const now = new Date();
+    return (this.schedule || []).map(row => {
+      if (this.isPaid) {
+        return {
+          ...row,
+          paidAmount: row.totalAmount,
+          remainingAmount: 0,
+          status: 'paid',
+        };
+      }
+      if (
+        row.remainingAmount > 0 &&
+        isPastDue(row.dueDate, this.calendar, now)
+      ) {
+        return { ...row, status: 'overdue' };
+      }
+      return row;
+    });
+  }
+
+  getOverdueInstallments(): LoanSchedule[] {
+    return this.getSchedule().filter(row => row.status === 'overdue');
+  }
+
+  // First installment that still has something owing
+  getNextInstallment(): LoanSchedule | undefined {
+    return this.getSchedule().find(row => row.remainingAmount > 0);
+  }
+
+  // Next date money is due: the next open installment, or the repayment date
+  getNextDueDate(): string {
+    if (this.hasSchedule()) {
+      const next = this.getNextInstallment();
+      return next ? next.dueDate : this.repaymentDate;
     }
-    return this.amount;
+    return this.repaymentDate;
   }
 
-  // Check if loan is overdue
+  // Last day a payment is on time once weekends, holidays and grace days
+  // are allowed for
+  getEffectiveDueDate(dueDate: string = this.getNextDueDate()): string {
+    return getEffectiveDueDate(dueDate, this.calendar);
+  }
+
+  // Days left until the next payment is late; negative once it is
+  getDaysUntilDue(asOf: Date = new Date()): number {
+    return getDaysUntilDue(this.getNextDueDate(), this.calendar, asOf);
+  }
+
+  // Days since the oldest amount still owing became late
+  getDaysOverdue(asOf: Date = new Date()): number {
+    const [oldest] = this.getDueEntries()
+      .map(entry => entry.dueDate)
+      .filter(dueDate => isPastDue(dueDate, this.calendar, asOf))
+      .sort();
+    return oldest ? getDaysOverdue(this.getEffectiveDueDate(oldest), asOf) : 0;
+  }
+
+  // Amount currently past due
+  getOverdueAmount(): number {
+    if (!this.isOpen()) return 0;
+    if (this.hasSchedule()) {
+      return this.getOverdueInstallments().reduce(
+        (total, row) => total + row.remainingAmount,
+        0
+      );
+    }
+    return this.isOverdue() ? this.getOutstandingBalance() : 0;
+  }
+
+  // Amounts still owing keyed by due date, one entry per open installment
+  getDueEntries(): Array<{ dueDate: string; amount: number }> {
+    if (this.hasSchedule()) {
+      return this.getSchedule()
+        .filter(row => row.remainingAmount > 0)
+        .map(row => ({ dueDate: row.dueDate, amount: row.remainingAmount }));
+    }
+    const outstanding = this.getOutstandingBalance();
+    return outstanding > 0
+      ? [{ dueDate: this.repaymentDate, amount: outstanding }]
+      : [];
+  }
+
+  // Late charges on amounts still overdue, before waivers
+  getAccruedPenalty(
+    defaultRule?: PenaltyRule,
+    asOf: Date = new Date()
+  ): number {
+    const rule = this.penaltyRule || defaultRule;
+    if (!rule || !this.isOpen()) return 0;
+    // Late days are counted from the effective due date
+    const entries = this.getDueEntries().map(entry => ({
+      ...entry,
+      dueDate: this.getEffectiveDueDate(entry.dueDate),
+    }));
+    return calculatePenalty(entries, rule, this.amount, asOf);
+  }
+
+  getWaivedPenalty(): number {
+    return (this.penaltyWaivers || []).reduce(
+      (total, waiver) => total + waiver.amount,
+      0
+    );
+  }
+
+  // Penalty still owed on top of the outstanding balance
+  getPenaltyDue(defaultRule?: PenaltyRule, asOf: Date = new Date()): number {
+    return Math.max(
+      0,
+      this.getAccruedPenalty(defaultRule, asOf) - this.getWaivedPenalty()
+    );
+  }
+
+  // Check if loan is overdue; scheduled loans are overdue once any installment is
   isOverdue(): boolean {
-    return new Date(this.repaymentDate) < new Date() && !this.isPaid;
+    if (this.hasSchedule()) {
+      return this.isOpen() && this.getOverdueInstallments().length > 0;
+    }
+    return isPastDue(this.repaymentDate, this.calendar) && this.isOpen();
+  }
+
+  private getInterestBetween(end: string): number {
+    return calculateInterest(
+      this.amount,
+      this.interestRate || 0,
+      this.interestModel,
+      this.interestModel?.startDate || end,
+      end
+    );
+  }
+
+  // Daily interest runs until the loan is settled
+  private getAccrualEndDate(): string {
+    if (!this.isPaid) return new Date().toISOString().split('T')[0];
+    const payments = this.paymentHistory || [];
+    return payments.length > 0
+      ? payments[payments.length - 1].paymentDate
+      : this.repaymentDate;
   }
 }
@@ -0,0 +1,115 @@
+import { LoanService } from '../loan.service';
+import { Loan } from '../../interfaces/loan.interface';
+import { PenaltyPeriod } from '../../types/loan.types';
+
+let mockLoans: Loan[] = [];
+let mockOperations: unknown[] = [];
+
+jest.mock('../storage.service', () => ({
+  StorageService: class {
+    async readLoans() {
+      return mockLoans.map(loan => ({ ...loan }));
+    }
+    async saveLoans(loans: Loan[]) {
+      mockLoans = loans;
+    }
+  },
+}));
+
+jest.mock('../audit.service', () => ({
+  AuditService: class {
+    async pushOperation(operation: unknown) {
+      mockOperations.push(operation);
+      return [];
+    }
+    async recordChanges() {}
+    async getHistory() {
+      return { undo: [], redo: [] };
+    }
+  },
+}));
+
+jest.mock('../document.service', () => ({
+  DocumentService: class {
+    async remove() {}
+  },
+}));
+
+// Five grace days on top of the agreed date
+jest.mock('../holiday.service', () => ({
+  HolidayService: class {
+    async getDueDateCalendar() {
+      return { graceDays: 5, weekendRule: 'none', holidays: [] };
+    }
+  },
+}));
+
+jest.mock('../../core/config-manager', () => ({
+  ConfigManager: class {
+    async initialize() {}
+    async getDefaultPenaltyRule() {
+      return undefined;
+    }
+  },
+}));
+
+describe('LoanService', () => {
+  const loan: Loan = {
+    id: 'loan-1',
+    lenderName: 'Tunde',
+    phoneNumber: '+2348012345678',
+    amount: 10000,
+    repaymentDate: '2025-03-03',
+    isPaid: false,
+    penaltyRule: {
+      fixedFee: 500,
+      rate: 1,
+      ratePeriod: PenaltyPeriod.DAY,
+      graceDays: 0,
+    },
+  };
+
+  beforeEach(() => {
+    mockLoans = [loan];
+    mockOperations = [];
+    jest.useFakeTimers({
+      now: new Date('2025-03-06T12:00:00'),
+      doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('linkContacts', () => {
+    it('should link loans without adding to the undo history', async () => {
+      const service = new LoanService();
+
+      const linked = await service.linkContacts(
+        new Map([['loan-1', 'contact-1']])
+      );
+
+      expect(linked).toBe(1);
+      expect(mockLoans[0].contactId).toBe('contact-1');
+      expect(mockOperations).toEqual([]);
+    });
+  });
+
+  describe('renewLoan', () => {
+    it('should not roll penalties into a loan still within its grace days', async () => {
+      const service = new LoanService();
+
+      const renewed = await service.renewLoan('loan-1', {
+        repaymentDate: '2025-04-03',
+        includePenalties: true,
+      });
+
+      expect(renewed.amount).toBe(10000);
+      expect(renewed.isOverdue()).toBe(false);
+      expect(mockLoans.find(l => l.id === 'loan-1')?.supersededBy).toBe(
+        renewed.id
+      );
+    });
+  });
+});
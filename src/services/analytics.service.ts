@@ -1,5 +1,19 @@
+import { format } from 'date-fns';
 import { Logger } from '../core/logger';
 import { LoanModel } from '../models/loan.model';
+import {
+  InterestModelType,
+  LoanDirection,
+  LoanGroupBy,
+  PenaltyRule,
+} from '../types/loan.types';
+import { groupLoans } from '../utils/category.utils';
+import {
+  MonthlyBudget,
+  getAmountDue,
+  getShareOfIncome,
+} from '../utils/budget.utils';
+import { ContactService } from './contact.service';
 
 export interface OverviewAnalytics {
   totalLoans: number;
@@ -16,6 +30,42 @@ export interface OverviewAnalytics {
   smallestLoan: number;
   largestLoan: number;
   paymentRate: number;
+  payableLoans: number;
+  receivableLoans: number;
+  payableOutstanding: number; // What I still owe
+  receivableOutstanding: number; // What I am still owed
+  netPosition: number; // Receivable minus payable
+  writtenOffLoans: number;
+  writtenOffAmount: number;
+  rolledOverLoans: number; // Closed by consolidation, split or renewal
+}
+
+export interface CashFlowMonth {
+  month: string;
+  income: number; // From the budget register
+  expenses: number;
+  expectedInflow: number; // Collections expected on loans owed to us
+  overdueAmount: number;
+  obligations: number; // Due on loans we owe
+  debtToIncome?: number; // Percent; unset without any income
+  freeCash: number; // Income less expenses and obligations
+  netCashFlow: number;
+}
+
+export interface LossAnalysis {
+  writtenOffLoans: number;
+  lostAmount: number; // Written off on money I lent
+  forgivenAmount: number; // Written off on money I borrowed
+  recoveredAmount: number; // Collected on money I lent that is now closed
+  recoveryRate: number;
+  writeOffs: Array<{
+    loanId: string;
+    name: string;
+    amount: number;
+    date: string;
+    reason: string;
+    direction: LoanDirection;
+  }>;
 }
 
 export interface MonthlyBreakdown {
@@ -35,9 +85,23 @@ export interface LenderAnalysis {
   overdueLoans: number;
   paymentRate: number;
   averageAmount: number;
+  reschedules: number;
+  rescheduledLoans: number;
+  reliability: number; // Share of loans kept to their original due date
   riskLevel: 'Low' | 'Medium' | 'High';
 }
 
+export interface SegmentBreakdown {
+  key: string;
+  label: string;
+  totalLoans: number;
+  openLoans: number;
+  overdueLoans: number;
+  totalAmount: number;
+  outstanding: number;
+  amountShare: number; // Percentage of the portfolio total
+}
+
 export interface InterestAnalysis {
   totalInterest: number;
   interestPercentage: number;
@@ -47,6 +111,11 @@ export interface InterestAnalysis {
   loansWithInterest: number;
   interestLoanPercentage: number;
   potentialRevenue: number;
+  accruedInterest: number;
+  interestByModel: Record<
+    string,
+    { loans: number; interest: number; accrued: number }
+  >;
 }
 
 export interface PaymentTrend {
@@ -72,9 +141,11 @@ export interface RiskAssessment {
 
 export class AnalyticsService {
   private logger: Logger;
+  private contactService: ContactService;
 
   constructor() {
     this.logger = new Logger();
+    this.contactService = new ContactService();
   }
 
   async generateOverviewAnalytics(
@@ -88,23 +159,27 @@ export class AnalyticsService {
       const totalLoans = loans.length;
       const paidLoans = loans.filter(loan => loan.isPaid).length;
       const overdueLoans = loans.filter(loan => loan.isOverdue()).length;
-      const activeLoans = totalLoans - paidLoans;
+      const writtenOff = loans.filter(loan => loan.isWrittenOff());
+      const rolledOver = loans.filter(loan => loan.isSuperseded());
+      const activeLoans = loans.filter(loan => loan.isOpen()).length;
       const pendingLoans = activeLoans - overdueLoans;
 
-      const totalDebt = loans.reduce(
-        (sum, loan) => sum + loan.calculateTotalWithInterest(),
+      // Written-off loans are reported as losses rather than debt, and a
+      // rolled-over balance is counted once, on the loan that replaced it
+      const currentLoans = loans.filter(loan => !loan.isWrittenOff());
+      const totalDebt = currentLoans.reduce(
+        (sum, loan) => sum + loan.getCountedTotal(),
+        0
+      );
+      const totalInterest = loans.reduce(
+        (sum, loan) => sum + loan.calculateInterest(),
         0
       );
-      const totalInterest = loans.reduce((sum, loan) => {
-        if (loan.interestRate) {
-          return sum + (loan.amount * loan.interestRate) / 100;
-        }
-        return sum;
-      }, 0);
 
-      const overdueAmount = loans
-        .filter(loan => loan.isOverdue())
-        .reduce((sum, loan) => sum + loan.calculateTotalWithInterest(), 0);
+      const overdueAmount = loans.reduce(
+        (sum, loan) => sum + loan.getOverdueAmount(),
+        0
+      );
 
       const paidAmount = loans
         .filter(loan => loan.isPaid)
@@ -112,14 +187,29 @@ export class AnalyticsService {
 
       const pendingAmount = totalDebt - paidAmount - overdueAmount;
 
-      const loanAmounts = loans.map(loan => loan.calculateTotalWithInterest());
-      const averageLoanAmount = totalLoans > 0 ? totalDebt / totalLoans : 0;
+      const countedLoans = currentLoans.filter(loan => !loan.isSuperseded());
+      const loanAmounts = loans
+        .filter(loan => !loan.isSuperseded())
+        .map(loan => loan.calculateTotalWithInterest());
+      const averageLoanAmount =
+        countedLoans.length > 0 ? totalDebt / countedLoans.length : 0;
       const smallestLoan =
         loanAmounts.length > 0 ? Math.min(...loanAmounts) : 0;
       const largestLoan = loanAmounts.length > 0 ? Math.max(...loanAmounts) : 0;
 
       const paymentRate = totalLoans > 0 ? (paidLoans / totalLoans) * 100 : 0;
 
+      const payable = loans.filter(loan => !loan.isReceivable());
+      const receivable = loans.filter(loan => loan.isReceivable());
+      const payableOutstanding = payable.reduce(
+        (sum, loan) => sum + loan.getOutstandingBalance(),
+        0
+      );
+      const receivableOutstanding = receivable.reduce(
+        (sum, loan) => sum + loan.getOutstandingBalance(),
+        0
+      );
+
       const analytics: OverviewAnalytics = {
         totalLoans,
         activeLoans,
@@ -135,6 +225,17 @@ export class AnalyticsService {
         smallestLoan,
         largestLoan,
         paymentRate,
+        payableLoans: payable.length,
+        receivableLoans: receivable.length,
+        payableOutstanding,
+        receivableOutstanding,
+        netPosition: receivableOutstanding - payableOutstanding,
+        writtenOffLoans: writtenOff.length,
+        writtenOffAmount: writtenOff.reduce(
+          (sum, loan) => sum + loan.getWrittenOffAmount(),
+          0
+        ),
+        rolledOverLoans: rolledOver.length,
       };
 
       this.logger.info('Overview analytics generated successfully', analytics);
@@ -186,7 +287,7 @@ export class AnalyticsService {
         if (monthlyData.has(repaymentMonth)) {
           const data = monthlyData.get(repaymentMonth)!;
           data.newLoans++;
-          data.totalAmount += loan.calculateTotalWithInterest();
+          data.totalAmount += loan.getCountedTotal();
 
           if (loan.isPaid) {
             data.paidLoans++;
@@ -232,37 +333,49 @@ export class AnalyticsService {
       const lenderMap = new Map<
         string,
         {
+          name: string;
           loans: LoanModel[];
           totalAmount: number;
           paidLoans: number;
           overdueLoans: number;
+          reschedules: number;
+          rescheduledLoans: number;
         }
       >();
 
-      // Group loans by lender
-      loans.forEach(loan => {
-        if (!lenderMap.has(loan.lenderName)) {
-          lenderMap.set(loan.lenderName, {
-            loans: [],
-            totalAmount: 0,
-            paidLoans: 0,
-            overdueLoans: 0,
-          });
-        }
+      // Group loans by person so spelling variants count as one lender
+      const groups = await this.contactService.groupLoansByContact(loans);
+      groups.forEach(group => {
+        const lenderData = {
+          name: group.name,
+          loans: group.loans,
+          totalAmount: 0,
+          paidLoans: 0,
+          overdueLoans: 0,
+          reschedules: 0,
+          rescheduledLoans: 0,
+        };
 
-        const lenderData = lenderMap.get(loan.lenderName)!;
-        lenderData.loans.push(loan);
-        lenderData.totalAmount += loan.calculateTotalWithInterest();
+        group.loans.forEach(loan => {
+          lenderData.totalAmount += loan.getCountedTotal();
 
-        if (loan.isPaid) {
-          lenderData.paidLoans++;
-        } else if (loan.isOverdue()) {
-          lenderData.overdueLoans++;
-        }
+          if (loan.isPaid) {
+            lenderData.paidLoans++;
+          } else if (loan.isOverdue()) {
+            lenderData.overdueLoans++;
+          }
+
+          if (loan.isRescheduled()) {
+            lenderData.rescheduledLoans++;
+            lenderData.reschedules += loan.getRescheduleCount();
+          }
+        });
+
+        lenderMap.set(group.key, lenderData);
       });
 
-      const analysis: LenderAnalysis[] = Array.from(lenderMap.entries()).map(
-        ([name, data]) => {
+      const analysis: LenderAnalysis[] = Array.from(lenderMap.values()).map(
+        data => {
           const totalLoans = data.loans.length;
           const paymentRate =
             totalLoans > 0 ? (data.paidLoans / totalLoans) * 100 : 0;
@@ -274,20 +387,36 @@ export class AnalyticsService {
           const overdueRate =
             totalLoans > 0 ? (data.overdueLoans / totalLoans) * 100 : 0;
 
-          if (overdueRate > 50 || paymentRate < 30) {
+          // Loans that were neither rescheduled nor left overdue count as kept
+          const keptLoans = data.loans.filter(
+            loan => !loan.isRescheduled() && !loan.isOverdue()
+          ).length;
+          const reliability =
+            totalLoans > 0 ? (keptLoans / totalLoans) * 100 : 0;
+          const rescheduleRate =
+            totalLoans > 0 ? (data.rescheduledLoans / totalLoans) * 100 : 0;
+
+          if (overdueRate > 50 || paymentRate < 30 || rescheduleRate > 50) {
             riskLevel = 'High';
-          } else if (overdueRate > 20 || paymentRate < 60) {
+          } else if (
+            overdueRate > 20 ||
+            paymentRate < 60 ||
+            rescheduleRate > 25
+          ) {
             riskLevel = 'Medium';
           }
 
           return {
-            name,
+            name: data.name,
             totalLoans,
             totalAmount: data.totalAmount,
             paidLoans: data.paidLoans,
             overdueLoans: data.overdueLoans,
             paymentRate,
             averageAmount,
+            reschedules: data.reschedules,
+            rescheduledLoans: data.rescheduledLoans,
+            reliability,
             riskLevel,
           };
         }
@@ -306,6 +435,45 @@ export class AnalyticsService {
     }
   }
 
+  // Category and priority are the supported segments; see LoanGroupBy
+  async generateSegmentBreakdown(
+    loans: LoanModel[],
+    groupBy: LoanGroupBy.CATEGORY | LoanGroupBy.PRIORITY
+  ): Promise<SegmentBreakdown[]> {
+    try {
+      this.logger.info('Generating segment breakdown', { groupBy });
+
+      const portfolioTotal = loans.reduce(
+        (total, loan) => total + loan.getCountedTotal(),
+        0
+      );
+
+      return groupLoans(loans, groupBy).map(group => {
+        const totalAmount = group.loans.reduce(
+          (total, loan) => total + loan.getCountedTotal(),
+          0
+        );
+        return {
+          key: group.key,
+          label: group.label,
+          totalLoans: group.loans.length,
+          openLoans: group.loans.filter(loan => loan.isOpen()).length,
+          overdueLoans: group.loans.filter(loan => loan.isOverdue()).length,
+          totalAmount,
+          outstanding: group.loans.reduce(
+            (total, loan) => total + loan.getOutstandingBalance(),
+            0
+          ),
+          amountShare:
+            portfolioTotal > 0 ? (totalAmount / portfolioTotal) * 100 : 0,
+        };
+      });
+    } catch (error) {
+      this.logger.error('Failed to generate segment breakdown', error as Error);
+      throw error;
+    }
+  }
+
   async generateInterestAnalysis(
     loans: LoanModel[]
   ): Promise<InterestAnalysis> {
@@ -315,14 +483,36 @@ export class AnalyticsService {
       const loansWithInterest = loans.filter(
         loan => loan.interestRate && loan.interestRate > 0
       );
-      const totalInterest = loans.reduce((sum, loan) => {
-        if (loan.interestRate) {
-          return sum + (loan.amount * loan.interestRate) / 100;
-        }
-        return sum;
-      }, 0);
+      const totalInterest = loans.reduce(
+        (sum, loan) => sum + loan.calculateInterest(),
+        0
+      );
+      const accruedInterest = loans.reduce(
+        (sum, loan) => sum + loan.getAccruedInterest(),
+        0
+      );
 
-      const totalPrincipal = loans.reduce((sum, loan) => sum + loan.amount, 0);
+      // Group by interest model; scheduled loans follow their schedule
+      const interestByModel: InterestAnalysis['interestByModel'] = {};
+      loansWithInterest.forEach(loan => {
+        const model = loan.hasSchedule()
+          ? 'installment'
+          : loan.interestModel?.type || InterestModelType.FLAT;
+        const entry = interestByModel[model] || {
+          loans: 0,
+          interest: 0,
+          accrued: 0,
+        };
+        entry.loans++;
+        entry.interest += loan.calculateInterest();
+        entry.accrued += loan.getAccruedInterest();
+        interestByModel[model] = entry;
+      });
+
+      const totalPrincipal = loans.reduce(
+        (sum, loan) => sum + loan.getCountedPrincipal(),
+        0
+      );
       const interestPercentage =
         totalPrincipal > 0 ? (totalInterest / totalPrincipal) * 100 : 0;
 
@@ -343,7 +533,7 @@ export class AnalyticsService {
 
       // Calculate potential revenue if all loans were paid with interest
       const potentialRevenue = loans.reduce(
-        (sum, loan) => sum + loan.calculateTotalWithInterest(),
+        (sum, loan) => sum + loan.getCountedTotal(),
         0
       );
 
@@ -356,6 +546,8 @@ export class AnalyticsService {
         loansWithInterest: loansWithInterest.length,
         interestLoanPercentage,
         potentialRevenue,
+        accruedInterest,
+        interestByModel,
       };
 
       this.logger.info('Interest analysis generated successfully', analysis);
@@ -446,7 +638,10 @@ export class AnalyticsService {
     }
   }
 
-  async generateRiskAssessment(loans: LoanModel[]): Promise<RiskAssessment> {
+  async generateRiskAssessment(
+    loans: LoanModel[],
+    defaultPenaltyRule?: PenaltyRule
+  ): Promise<RiskAssessment> {
     try {
       this.logger.info('Generating risk assessment');
 
@@ -475,14 +670,11 @@ export class AnalyticsService {
       const lenderMap = new Map<string, number>();
       loans.forEach(loan => {
         const current = lenderMap.get(loan.lenderName) || 0;
-        lenderMap.set(
-          loan.lenderName,
-          current + loan.calculateTotalWithInterest()
-        );
+        lenderMap.set(loan.lenderName, current + loan.getCountedTotal());
       });
 
       const totalDebt = loans.reduce(
-        (sum, loan) => sum + loan.calculateTotalWithInterest(),
+        (sum, loan) => sum + loan.getCountedTotal(),
         0
       );
       const maxLenderExposure = Math.max(...Array.from(lenderMap.values()));
@@ -575,8 +767,99 @@ export class AnalyticsService {
               : 'Well-diversified portfolio size',
       });
 
+      // Factor 6: Penalty Exposure (penalties due relative to what is owed)
+      const penaltiesDue = loans.reduce(
+        (sum, loan) => sum + loan.getPenaltyDue(defaultPenaltyRule),
+        0
+      );
+      const outstanding = loans.reduce(
+        (sum, loan) => sum + loan.getOutstandingBalance(),
+        0
+      );
+      const penaltyRate =
+        outstanding > 0 ? (penaltiesDue / outstanding) * 100 : 0;
+      const penaltyScore = penaltyRate > 10 ? 80 : penaltyRate > 0 ? 40 : 10;
+
+      factors.push({
+        name: 'Penalty Exposure',
+        score: penaltyScore,
+        impact: penaltyRate > 10 ? 'High' : penaltyRate > 0 ? 'Medium' : 'Low',
+        recommendation:
+          penaltyRate > 10
+            ? 'Penalties are piling up - settle or renegotiate overdue loans'
+            : penaltyRate > 0
+              ? 'Clear overdue amounts before further penalties accrue'
+              : 'No late penalties accruing',
+      });
+
+      // Factor 7: Rescheduling (open loans whose due date has been pushed back)
+      const openLoans = loans.filter(loan => loan.isOpen());
+      const rescheduledOpen = openLoans.filter(loan => loan.isRescheduled());
+      const rescheduleRate =
+        openLoans.length > 0
+          ? (rescheduledOpen.length / openLoans.length) * 100
+          : 0;
+      const repeatReschedules = rescheduledOpen.filter(
+        loan => loan.getRescheduleCount() > 1
+      ).length;
+      const rescheduleScore =
+        rescheduleRate > 40 || repeatReschedules > 0
+          ? 75
+          : rescheduleRate > 0
+            ? 40
+            : 10;
+
+      factors.push({
+        name: 'Rescheduling',
+        score: rescheduleScore,
+        impact:
+          rescheduleScore >= 75
+            ? 'High'
+            : rescheduleScore >= 40
+              ? 'Medium'
+              : 'Low',
+        recommendation:
+          rescheduleScore >= 75
+            ? 'Repeated reschedules - agree firm repayment plans before extending again'
+            : rescheduleScore >= 40
+              ? 'Keep rescheduled loans on a short follow-up cycle'
+              : 'Loans are being repaid on their agreed dates',
+      });
+
+      // Factor 8: Collateral Coverage (held collateral against money I lent)
+      const openReceivables = openLoans.filter(loan => loan.isReceivable());
+      const receivableOutstanding = openReceivables.reduce(
+        (sum, loan) => sum + loan.getOutstandingBalance(),
+        0
+      );
+      const securedAmount = openReceivables.reduce(
+        (sum, loan) =>
+          sum +
+          Math.min(loan.getCollateralValue(), loan.getOutstandingBalance()),
+        0
+      );
+      const coverageRate =
+        receivableOutstanding > 0
+          ? (securedAmount / receivableOutstanding) * 100
+          : 100;
+      const coverageScore =
+        coverageRate < 25 ? 70 : coverageRate < 75 ? 40 : 15;
+
+      factors.push({
+        name: 'Collateral Coverage',
+        score: coverageScore,
+        impact:
+          coverageRate < 25 ? 'High' : coverageRate < 75 ? 'Medium' : 'Low',
+        recommendation:
+          coverageRate < 25
+            ? 'Most money lent is unsecured - ask for collateral on larger loans'
+            : coverageRate < 75
+              ? 'Review collateral values on partly secured loans'
+              : 'Outstanding loans are well secured',
+      });
+
       // Calculate overall risk score (weighted average)
-      const weights = [0.3, 0.25, 0.15, 0.2, 0.1]; // Weights for each factor
+      const weights = [0.2, 0.15, 0.15, 0.15, 0.1, 0.1, 0.1, 0.05]; // Weights for each factor
       totalRiskScore = factors.reduce((sum, factor, index) => {
         return sum + factor.score * weights[index];
       }, 0);
@@ -610,8 +893,74 @@ export class AnalyticsService {
     }
   }
 
+  async generateLossAnalysis(loans: LoanModel[]): Promise<LossAnalysis> {
+    try {
+      this.logger.info('Generating loss analysis');
+
+      const writtenOff = loans.filter(loan => loan.isWrittenOff());
+      const lostAmount = writtenOff
+        .filter(loan => loan.isReceivable())
+        .reduce((sum, loan) => sum + loan.getWrittenOffAmount(), 0);
+      const forgivenAmount = writtenOff
+        .filter(loan => !loan.isReceivable())
+        .reduce((sum, loan) => sum + loan.getWrittenOffAmount(), 0);
+      const recoveredAmount = loans
+        .filter(loan => this.isClosedReceivable(loan))
+        .reduce((sum, loan) => sum + this.getCollectedAmount(loan), 0);
+
+      const analysis: LossAnalysis = {
+        writtenOffLoans: writtenOff.length,
+        lostAmount,
+        forgivenAmount,
+        recoveredAmount,
+        recoveryRate: this.calculateRecoveryRate(loans),
+        writeOffs: writtenOff.map(loan => ({
+          loanId: loan.id,
+          name: loan.lenderName,
+          amount: loan.getWrittenOffAmount(),
+          date: loan.writeOff!.date,
+          reason: loan.writeOff!.reason,
+          direction: loan.getDirection(),
+        })),
+      };
+
+      this.logger.info('Loss analysis generated successfully', {
+        writtenOffLoans: analysis.writtenOffLoans,
+      });
+      return analysis;
+    } catch (error) {
+      this.logger.error('Failed to generate loss analysis', error as Error);
+      throw error;
+    }
+  }
+
   // Utility methods for advanced analytics
 
+  // Share of the money due on closed loans I lent that was actually collected
+  private calculateRecoveryRate(loans: LoanModel[]): number {
+    const closed = loans.filter(loan => this.isClosedReceivable(loan));
+    const collected = closed.reduce(
+      (sum, loan) => sum + this.getCollectedAmount(loan),
+      0
+    );
+    const lost = closed.reduce(
+      (sum, loan) => sum + loan.getWrittenOffAmount(),
+      0
+    );
+    return collected + lost > 0 ? (collected / (collected + lost)) * 100 : 0;
+  }
+
+  // Rolled-over loans are not settled; their balance lives on in a new loan
+  private isClosedReceivable(loan: LoanModel): boolean {
+    return loan.isReceivable() && !loan.isOpen() && !loan.isSuperseded();
+  }
+
+  private getCollectedAmount(loan: LoanModel): number {
+    return loan.isPaid
+      ? loan.calculateTotalWithInterest()
+      : loan.getTotalPaid();
+  }
+
   async calculatePortfolioMetrics(loans: LoanModel[]): Promise<{
     totalValue: number;
     weightedAverageRate: number;
@@ -621,16 +970,19 @@ export class AnalyticsService {
   }> {
     try {
       const totalValue = loans.reduce(
-        (sum, loan) => sum + loan.calculateTotalWithInterest(),
+        (sum, loan) => sum + loan.getCountedTotal(),
+        0
+      );
+      const totalPrincipal = loans.reduce(
+        (sum, loan) => sum + loan.getCountedPrincipal(),
         0
       );
-      const totalPrincipal = loans.reduce((sum, loan) => sum + loan.amount, 0);
 
       // Weighted average interest rate
       let weightedRate = 0;
       if (totalPrincipal > 0) {
         weightedRate = loans.reduce((sum, loan) => {
-          const weight = loan.amount / totalPrincipal;
+          const weight = loan.getCountedPrincipal() / totalPrincipal;
           return sum + weight * (loan.interestRate || 0);
         }, 0);
       }
@@ -645,10 +997,7 @@ export class AnalyticsService {
       const defaultRate =
         loans.length > 0 ? (overdueLoans / loans.length) * 100 : 0;
 
-      // Recovery rate (paid loans / total loans)
-      const paidLoans = loans.filter(loan => loan.isPaid).length;
-      const recoveryRate =
-        loans.length > 0 ? (paidLoans / loans.length) * 100 : 0;
+      const recoveryRate = this.calculateRecoveryRate(loans);
 
       return {
         totalValue,
@@ -666,57 +1015,79 @@ export class AnalyticsService {
     }
   }
 
+  // Income and expenses come from the budget register; loans owed to us are
+  // weighted by how likely they are to be collected, loans we owe are not
   async generateCashFlowProjection(
     loans: LoanModel[],
-    months: number = 12
-  ): Promise<
-    Array<{
-      month: string;
-      expectedInflow: number;
-      overdueAmount: number;
-      netCashFlow: number;
-    }>
-  > {
+    months: number = 12,
+    budget: MonthlyBudget = { income: 0, expenses: 0 }
+  ): Promise<CashFlowMonth[]> {
     try {
-      const projections: Array<{
-        month: string;
-        expectedInflow: number;
-        overdueAmount: number;
-        netCashFlow: number;
-      }> = [];
+      const projections: CashFlowMonth[] = [];
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const currentMonth = today.slice(0, 7);
 
       for (let i = 0; i < months; i++) {
         const projectionDate = new Date();
+        projectionDate.setDate(1);
         projectionDate.setMonth(projectionDate.getMonth() + i);
 
-        const monthKey = projectionDate.toISOString().slice(0, 7);
+        const monthKey = format(projectionDate, 'yyyy-MM');
         const monthName = projectionDate.toLocaleDateString('en-US', {
           year: 'numeric',
           month: 'short',
         });
 
-        // Calculate expected inflows for this month
-        const monthLoans = loans.filter(loan => {
-          const repaymentMonth = loan.repaymentDate.slice(0, 7);
-          return repaymentMonth === monthKey && !loan.isPaid;
-        });
-
-        const expectedInflow = monthLoans.reduce((sum, loan) => {
+        // Calculate expected inflows for this month, per installment;
+        // overdue amounts owed to us are counted in the current month
+        const monthEntries = loans
+          .filter(loan => loan.isOpen() && loan.isReceivable())
+          .flatMap(loan =>
+            loan.getDueEntries().map(entry => ({
+              ...entry,
+              dueDate: loan.getEffectiveDueDate(entry.dueDate),
+            }))
+          )
+          .filter(
+            entry =>
+              entry.dueDate.slice(0, 7) === monthKey ||
+              (monthKey === currentMonth &&
+                entry.dueDate.slice(0, 7) < currentMonth)
+          )
+          .map(entry => ({
+            ...entry,
+            isOverdue: entry.dueDate < today,
+          }));
+
+        const expectedInflow = monthEntries.reduce((sum, entry) => {
           // Apply probability of payment based on current status
-          const paymentProbability = loan.isOverdue() ? 0.3 : 0.85;
-          return sum + loan.calculateTotalWithInterest() * paymentProbability;
+          const paymentProbability = entry.isOverdue ? 0.3 : 0.85;
+          return sum + entry.amount * paymentProbability;
         }, 0);
 
-        const overdueAmount = monthLoans
-          .filter(loan => loan.isOverdue())
-          .reduce((sum, loan) => sum + loan.calculateTotalWithInterest(), 0);
+        const overdueAmount = monthEntries
+          .filter(entry => entry.isOverdue)
+          .reduce((sum, entry) => sum + entry.amount, 0);
 
-        const netCashFlow = expectedInflow - overdueAmount * 0.1; // Assume 10% collection cost
+        // Overdue debts of ours are counted in the current month
+        const obligations = getAmountDue(
+          loans,
+          LoanDirection.PAYABLE,
+          monthKey
+        );
+
+        const freeCash = budget.income - budget.expenses - obligations;
+        const netCashFlow = freeCash + expectedInflow - overdueAmount * 0.1; // Assume 10% collection cost
 
         projections.push({
           month: monthName,
+          income: budget.income,
+          expenses: budget.expenses,
           expectedInflow,
           overdueAmount,
+          obligations,
+          debtToIncome: getShareOfIncome(obligations, budget.income),
+          freeCash,
           netCashFlow,
         });
       }
@@ -810,31 +1181,49 @@ export class AnalyticsService {
     overview: OverviewAnalytics;
     monthly: MonthlyBreakdown[];
     lenders: LenderAnalysis[];
+    categories: SegmentBreakdown[];
+    priorities: SegmentBreakdown[];
     interest: InterestAnalysis;
     trends: PaymentTrend[];
     risk: RiskAssessment;
+    losses: LossAnalysis;
     exportTimestamp: string;
   }> {
     try {
       this.logger.info('Exporting comprehensive analytics data');
 
-      const [overview, monthly, lenders, interest, trends, risk] =
-        await Promise.all([
-          this.generateOverviewAnalytics(loans),
-          this.generateMonthlyBreakdown(loans),
-          this.generateLenderAnalysis(loans),
-          this.generateInterestAnalysis(loans),
-          this.generatePaymentTrends(loans),
-          this.generateRiskAssessment(loans),
-        ]);
+      const [
+        overview,
+        monthly,
+        lenders,
+        categories,
+        priorities,
+        interest,
+        trends,
+        risk,
+        losses,
+      ] = await Promise.all([
+        this.generateOverviewAnalytics(loans),
+        this.generateMonthlyBreakdown(loans),
+        this.generateLenderAnalysis(loans),
+        this.generateSegmentBreakdown(loans, LoanGroupBy.CATEGORY),
+        this.generateSegmentBreakdown(loans, LoanGroupBy.PRIORITY),
+        this.generateInterestAnalysis(loans),
+        this.generatePaymentTrends(loans),
+        this.generateRiskAssessment(loans),
+        this.generateLossAnalysis(loans),
+      ]);
 
       const exportData = {
         overview,
         monthly,
         lenders,
+        categories,
+        priorities,
         interest,
         trends,
         risk,
+        losses,
         exportTimestamp: new Date().toISOString(),
       };
 
@@ -0,0 +1,173 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../core/logger';
+import { ConfigManager } from '../core/config-manager';
+import { DATA_DIR, HISTORY_DATA_PATH, UNDO_HISTORY_LIMIT } from '../config';
+import { AuditAction, LoanAuditLog } from '../types/loan.types';
+import {
+  AuditFilter,
+  LoanChange,
+  diffLoanValues,
+  filterAuditEntries,
+} from '../utils/audit.utils';
+
+export interface LoanOperation {
+  id: string;
+  action: AuditAction;
+  description: string;
+  changes: LoanChange[];
+  performedAt: string;
+}
+
+// Oldest first; the last entry of each list is undone or redone next
+export interface OperationHistory {
+  undo: LoanOperation[];
+  redo: LoanOperation[];
+}
+
+export class AuditService {
+  private logger: Logger;
+  private configManager: ConfigManager;
+  private auditPath: string;
+
+  constructor() {
+    this.logger = new Logger();
+    this.configManager = new ConfigManager();
+    this.auditPath = path.join(DATA_DIR, 'audit.log');
+  }
+
+  async isEnabled(): Promise<boolean> {
+    await this.configManager.initialize();
+    const { auditLogging } = await this.configManager.getSecuritySettings();
+    return auditLogging;
+  }
+
+  // Entries are appended as one JSON object per line and never rewritten
+  async record(
+    entry: Omit<LoanAuditLog, 'id' | 'timestamp'>
+  ): Promise<LoanAuditLog> {
+    const auditEntry: LoanAuditLog = {
+      ...entry,
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+    };
+
+    try {
+      await fs.mkdir(path.dirname(this.auditPath), { recursive: true });
+      await fs.appendFile(
+        this.auditPath,
+        JSON.stringify(auditEntry) + '\n',
+        'utf-8'
+      );
+      return auditEntry;
+    } catch (error) {
+      this.logger.error('Failed to write audit entry', error as Error);
+      throw error;
+    }
+  }
+
+  // One entry per changed loan, holding the old and new values of each field
+  async recordChanges(
+    action: AuditAction,
+    changes: LoanChange[],
+    notes: Map<string, { action?: AuditAction; notes: string }> = new Map()
+  ): Promise<void> {
+    if (!(await this.isEnabled())) return;
+
+    for (const change of changes) {
+      const note = notes.get(change.loanId);
+      await this.record({
+        loanId: change.loanId,
+        action: note?.action || action,
+        ...diffLoanValues(change),
+        notes: note?.notes,
+      });
+    }
+  }
+
+  async getEntries(filter: AuditFilter = {}): Promise<LoanAuditLog[]> {
+    try {
+      const content = await fs.readFile(this.auditPath, 'utf-8');
+      const entries = content
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .map(line => JSON.parse(line) as LoanAuditLog);
+      return filterAuditEntries(entries, filter);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      this.logger.error('Failed to read audit log', error as Error);
+      throw error;
+    }
+  }
+
+  async getHistory(): Promise<OperationHistory> {
+    try {
+      const content = await fs.readFile(HISTORY_DATA_PATH, 'utf-8');
+      return JSON.parse(content) as OperationHistory;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { undo: [], redo: [] };
+      }
+      this.logger.error('Failed to read operation history', error as Error);
+      throw error;
+    }
+  }
+
+  // A new operation makes anything previously undone impossible to redo.
+  // Returns the operations that dropped out of the history.
+  async pushOperation(
+    operation: Omit<LoanOperation, 'id' | 'performedAt'>
+  ): Promise<LoanOperation[]> {
+    const entry: LoanOperation = {
+      ...operation,
+      id: uuidv4(),
+      performedAt: new Date().toISOString(),
+    };
+    const { undo, redo } = await this.getHistory();
+    const kept = [...undo, entry].slice(-UNDO_HISTORY_LIMIT);
+    await this.saveHistory({ undo: kept, redo: [] });
+    return [...undo.slice(0, undo.length + 1 - kept.length), ...redo];
+  }
+
+  // Moves the latest operation from one list to the other
+  async shiftOperation(from: keyof OperationHistory): Promise<void> {
+    const history = await this.getHistory();
+    const to = from === 'undo' ? 'redo' : 'undo';
+    const operation = history[from].pop();
+    if (!operation) return;
+
+    history[to] = [...history[to], operation];
+    await this.saveHistory(history);
+  }
+
+  // Purged loans must not come back, so any operation touching them goes.
+  // Returns the operations removed from the history.
+  async forgetLoans(loanIds: string[]): Promise<LoanOperation[]> {
+    const history = await this.getHistory();
+    const touches = (operation: LoanOperation) =>
+      operation.changes.some(change => loanIds.includes(change.loanId));
+    const dropped = [...history.undo, ...history.redo].filter(touches);
+    if (dropped.length === 0) return [];
+
+    await this.saveHistory({
+      undo: history.undo.filter(operation => !touches(operation)),
+      redo: history.redo.filter(operation => !touches(operation)),
+    });
+    return dropped;
+  }
+
+  private async saveHistory(history: OperationHistory): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(HISTORY_DATA_PATH), { recursive: true });
+      await fs.writeFile(
+        HISTORY_DATA_PATH,
+        JSON.stringify(history, null, 2),
+        'utf-8'
+      );
+    } catch (error) {
+      this.logger.error('Failed to save operation history', error as Error);
+      throw error;
+    }
+  }
+}
@@ -4,7 +4,29 @@ import { createHash } from 'crypto';
 import { Logger } from '../core/logger';
 import { ConfigManager, AppConfig } from '../core/config-manager';
 import { StorageService } from './storage.service';
+import { LoanService } from './loan.service';
+import { DocumentService } from './document.service';
+import { TemplateService } from './template.service';
+import { RecurringService } from './recurring.service';
+import { ContactService } from './contact.service';
+import { DebtPlanService } from './debt-plan.service';
+import { BudgetService } from './budget.service';
+import { HolidayService } from './holiday.service';
 import { Loan } from '../interfaces/loan.interface';
+import {
+  BudgetItem,
+  Contact,
+  DebtPlan,
+  Holiday,
+  LoanDocument,
+  LoanTemplate,
+  RecurringLoan,
+} from '../types/loan.types';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MigrationStep,
+  migrateData,
+} from '../utils/migration.utils';
 
 export interface BackupMetadata {
   id: string;
@@ -22,6 +44,14 @@ export interface BackupData {
   metadata: BackupMetadata;
   loans?: Loan[];
   settings?: AppConfig;
+  attachments?: Record<string, string>; // Base64 content keyed by checksum
+  templates?: LoanTemplate[];
+  recurring?: RecurringLoan[];
+  contacts?: Contact[];
+  debtPlans?: DebtPlan[];
+  budget?: BudgetItem[];
+  holidays?: Holiday[];
+  schemaVersion?: number; // Loan schema; unset on backups made before versioning
   version: string;
 }
 
@@ -57,6 +87,28 @@ export interface CleanupResult {
 export interface RestoreResult {
   loansRestored: number;
   settingsRestored: boolean;
+  attachmentsRestored: number;
+  templatesRestored: number;
+  recurringRestored: number;
+  contactsRestored: number;
+  debtPlansRestored: number;
+  budgetItemsRestored: number;
+  holidaysRestored: number;
+  migratedFrom?: number; // Schema version of the backup when it was older
+  migrationSteps: MigrationStep[];
+}
+
+export interface MissingAttachment {
+  loanId: string;
+  documentId: string;
+  name: string;
+  checksum: string;
+}
+
+export interface BackupVerification {
+  valid: boolean;
+  error?: string;
+  missingAttachments: MissingAttachment[];
 }
 
 export interface BackupStatistics {
@@ -79,12 +131,28 @@ export class BackupService {
   private logger: Logger;
   private configManager: ConfigManager;
   private storageService: StorageService;
+  private loanService: LoanService;
+  private documentService: DocumentService;
+  private templateService: TemplateService;
+  private recurringService: RecurringService;
+  private contactService: ContactService;
+  private debtPlanService: DebtPlanService;
+  private budgetService: BudgetService;
+  private holidayService: HolidayService;
   private backupDir: string;
 
   constructor() {
     this.logger = new Logger();
     this.configManager = new ConfigManager();
     this.storageService = new StorageService();
+    this.loanService = new LoanService();
+    this.documentService = new DocumentService();
+    this.templateService = new TemplateService();
+    this.recurringService = new RecurringService();
+    this.contactService = new ContactService();
+    this.debtPlanService = new DebtPlanService();
+    this.budgetService = new BudgetService();
+    this.holidayService = new HolidayService();
     this.backupDir = path.join(process.cwd(), 'data', 'backups');
   }
 
@@ -125,6 +193,7 @@ export class BackupService {
           compressed: options.compress || false,
           encrypted: options.encrypt || false,
         },
+        schemaVersion: CURRENT_SCHEMA_VERSION,
         version: '2.0.0',
       };
 
@@ -132,6 +201,18 @@ export class BackupService {
         backupData.loans = await this.storageService.readLoans();
       }
 
+      if (type === 'full') {
+        backupData.attachments = await this.collectAttachments(
+          backupData.loans!
+        );
+        backupData.templates = await this.templateService.getTemplates(true);
+        backupData.recurring = await this.recurringService.getSeries();
+        backupData.contacts = await this.contactService.getContacts();
+        backupData.debtPlans = await this.debtPlanService.getPlans();
+        backupData.budget = await this.budgetService.getItems();
+        backupData.holidays = await this.holidayService.getHolidays();
+      }
+
       if (type === 'full' || type === 'settings-only') {
         // Use getFullConfig() instead of getAllSettings()
         backupData.settings = await this.configManager.getFullConfig();
@@ -198,12 +279,89 @@ export class BackupService {
 
       let loansRestored = 0;
       let settingsRestored = false;
+      let attachmentsRestored = 0;
+      let templatesRestored = 0;
+      let recurringRestored = 0;
+      let contactsRestored = 0;
+      let debtPlansRestored = 0;
+      let budgetItemsRestored = 0;
+      let holidaysRestored = 0;
+      let migratedFrom: number | undefined;
+      let migrationSteps: MigrationStep[] = [];
 
       // Restore loans if requested and available
       if (options.restoreLoans !== false && backupData.loans) {
-        await this.storageService.saveLoans(backupData.loans);
-        loansRestored = backupData.loans.length;
+        // Older backups go through the same migrations as loans.json
+        const outcome = migrateData(
+          backupData.schemaVersion === undefined
+            ? backupData.loans
+            : {
+                schemaVersion: backupData.schemaVersion,
+                updatedAt: backupData.metadata.timestamp,
+                loans: backupData.loans,
+              }
+        );
+        if (outcome.steps.length > 0) {
+          migratedFrom = outcome.fromVersion;
+          migrationSteps = outcome.steps;
+          this.logger.info(
+            `Backup loans migrated from schema v${outcome.fromVersion} to v${outcome.toVersion}`
+          );
+        }
+
+        // Document paths in the file are not trusted; they are rebuilt from
+        // the checksum the same way the document store names files
+        const loans = outcome.data.loans.map(loan =>
+          loan.documents
+            ? {
+                ...loan,
+                documents: loan.documents.map(document => ({
+                  ...document,
+                  filePath: this.documentService.getStoredPath(document),
+                })),
+              }
+            : loan
+        );
+
+        // Goes through the loan service so the restore can be undone
+        await this.loanService.restoreLoans(loans, `backup ${backupId}`);
+        loansRestored = loans.length;
         this.logger.info('Loans restored successfully');
+
+        attachmentsRestored = await this.restoreAttachments(
+          loans,
+          backupData.attachments || {}
+        );
+
+        if (backupData.templates) {
+          await this.templateService.replaceTemplates(backupData.templates);
+          templatesRestored = backupData.templates.length;
+        }
+
+        if (backupData.recurring) {
+          await this.recurringService.replaceSeries(backupData.recurring);
+          recurringRestored = backupData.recurring.length;
+        }
+
+        if (backupData.contacts) {
+          await this.contactService.replaceContacts(backupData.contacts);
+          contactsRestored = backupData.contacts.length;
+        }
+
+        if (backupData.debtPlans) {
+          await this.debtPlanService.replacePlans(backupData.debtPlans);
+          debtPlansRestored = backupData.debtPlans.length;
+        }
+
+        if (backupData.budget) {
+          await this.budgetService.replaceItems(backupData.budget);
+          budgetItemsRestored = backupData.budget.length;
+        }
+
+        if (backupData.holidays) {
+          await this.holidayService.replaceHolidays(backupData.holidays);
+          holidaysRestored = backupData.holidays.length;
+        }
       }
 
       // Restore settings if requested and available
@@ -244,6 +402,15 @@ export class BackupService {
       return {
         loansRestored,
         settingsRestored,
+        attachmentsRestored,
+        templatesRestored,
+        recurringRestored,
+        contactsRestored,
+        debtPlansRestored,
+        budgetItemsRestored,
+        holidaysRestored,
+        migratedFrom,
+        migrationSteps,
       };
     } catch (error) {
       this.logger.error(`Failed to restore backup ${backupId}`, error as Error);
@@ -494,20 +661,42 @@ export class BackupService {
   }
 
   async verifyBackup(backupId: string): Promise<boolean> {
+    return (await this.verifyBackupDetailed(backupId)).valid;
+  }
+
+  // Full backups must carry every attachment their loans refer to
+  async verifyBackupDetailed(backupId: string): Promise<BackupVerification> {
     try {
       const backupData = await this.loadBackup(backupId);
       if (!backupData) {
-        return false;
+        return {
+          valid: false,
+          error: 'Backup not found',
+          missingAttachments: [],
+        };
       }
 
       await this.validateBackup(backupData);
-      return true;
+      const missingAttachments = this.findMissingAttachments(backupData);
+      if (missingAttachments.length > 0) {
+        this.logger.warn(
+          `Backup ${backupId} is missing ${missingAttachments.length} attachment(s)`
+        );
+      }
+      return {
+        valid: missingAttachments.length === 0,
+        missingAttachments,
+      };
     } catch (error) {
       this.logger.error(
         `Backup verification failed for ${backupId}`,
         error as Error
       );
-      return false;
+      return {
+        valid: false,
+        error: (error as Error).message,
+        missingAttachments: [],
+      };
     }
   }
 
@@ -563,6 +752,21 @@ export class BackupService {
       if (!Array.isArray(backupData.loans)) {
         throw new Error('Invalid loans data in backup');
       }
+
+      // Collateral travels inside each loan record
+      const badCollateral = backupData.loans.find(
+        loan =>
+          loan.collateral !== undefined &&
+          (!Array.isArray(loan.collateral) ||
+            loan.collateral.some(
+              item => !item.id || typeof item.estimatedValue !== 'number'
+            ))
+      );
+      if (badCollateral) {
+        throw new Error(
+          `Invalid collateral data for loan ${badCollateral.id} in backup`
+        );
+      }
     }
 
     if (
@@ -577,6 +781,66 @@ export class BackupService {
     this.logger.info('Backup validation passed');
   }
 
+  // Each stored file is included once, however many documents refer to it
+  private async collectAttachments(
+    loans: Loan[]
+  ): Promise<Record<string, string>> {
+    const attachments: Record<string, string> = {};
+
+    for (const document of this.getDocuments(loans)) {
+      if (attachments[document.checksum]) continue;
+
+      const content = await this.documentService.read(document);
+      if (content) {
+        attachments[document.checksum] = content.toString('base64');
+      } else {
+        this.logger.warn(
+          `Attachment ${document.name} is missing from the document store`
+        );
+      }
+    }
+
+    return attachments;
+  }
+
+  private findMissingAttachments(backupData: BackupData): MissingAttachment[] {
+    if (backupData.metadata.type !== 'full') return [];
+
+    const attachments = backupData.attachments || {};
+    return this.getDocuments(backupData.loans || [])
+      .filter(document => !attachments[document.checksum])
+      .map(document => ({
+        loanId: document.loanId,
+        documentId: document.id,
+        name: document.name,
+        checksum: document.checksum,
+      }));
+  }
+
+  private async restoreAttachments(
+    loans: Loan[],
+    attachments: Record<string, string>
+  ): Promise<number> {
+    let restored = 0;
+
+    for (const document of this.getDocuments(loans)) {
+      const content = attachments[document.checksum];
+      if (!content || (await this.documentService.exists(document))) continue;
+
+      await this.documentService.restore(
+        document,
+        Buffer.from(content, 'base64')
+      );
+      restored++;
+    }
+
+    return restored;
+  }
+
+  private getDocuments(loans: Loan[]): LoanDocument[] {
+    return loans.flatMap(loan => loan.documents || []);
+  }
+
   private generateBackupId(): string {
     const timestamp = Date.now().toString();
     const random = Math.random().toString(36).substring(2, 8);
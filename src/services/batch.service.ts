@@ -0,0 +1,231 @@
+import * as fs from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../core/logger';
+import { Loan } from '../interfaces/loan.interface';
+import {
+  BatchStatus,
+  LoanBatch,
+  LoanBatchOperationResult,
+  LoanCategory,
+  LoanCreateInput,
+  LoanDirection,
+  LoanOperationResult,
+  LoanPriority,
+} from '../types/loan.types';
+import { isValidCurrencyCode } from '../utils/currency.utils';
+import { getBatchFileFormat, parseBatchFile } from '../utils/batch.utils';
+import { LoanService } from './loan.service';
+import { ValidationService } from './validation.service';
+
+export interface BatchOutcome {
+  batch: LoanBatch;
+  result: LoanBatchOperationResult;
+}
+
+export class BatchService {
+  private logger: Logger;
+  private loanService: LoanService;
+  private validationService: ValidationService;
+
+  constructor() {
+    this.logger = new Logger();
+    this.loanService = new LoanService();
+    this.validationService = new ValidationService();
+  }
+
+  createBatch(name: string, loans: LoanCreateInput[]): LoanBatch {
+    return {
+      id: uuidv4(),
+      name,
+      loans,
+      status: BatchStatus.PENDING,
+      totalLoans: loans.length,
+      processedLoans: 0,
+      failedLoans: 0,
+      errors: [],
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  async loadBatchFile(filePath: string): Promise<LoanCreateInput[]> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return parseBatchFile(content, getBatchFileFormat(filePath));
+  }
+
+  // Checks every row without saving; success marks the rows that would save
+  validateBatch(batch: LoanBatch): LoanBatchOperationResult {
+    const rowResults = this.validationService.validateLoanBatch(batch.loans);
+    const results: LoanOperationResult[] = batch.loans.map((input, index) => {
+      const errors = [
+        ...rowResults[index].errors,
+        ...this.validateOptionalFields(input).map(
+          error => `Loan ${index + 1}: ${error}`
+        ),
+      ];
+      return {
+        success: errors.length === 0,
+        error: errors.length > 0 ? errors.join('; ') : undefined,
+        warnings: rowResults[index].warnings,
+      };
+    });
+    const duplicates = this.validationService.validateForDuplicates(
+      batch.loans
+    );
+    const successCount = results.filter(result => result.success).length;
+
+    return {
+      success: successCount === results.length,
+      totalProcessed: results.length,
+      successCount,
+      failureCount: results.length - successCount,
+      results,
+      errors: results.flatMap(result => (result.error ? [result.error] : [])),
+      warnings: [
+        ...duplicates.warnings,
+        ...results.flatMap(result => result.warnings || []),
+      ],
+    };
+  }
+
+  // Saves nothing if any row is invalid, unless allowPartial saves the valid rows
+  async processBatch(
+    batch: LoanBatch,
+    allowPartial: boolean = false
+  ): Promise<BatchOutcome> {
+    const validation = this.validateBatch(batch);
+    const saveable = validation.results.flatMap((result, index) =>
+      result.success ? [index] : []
+    );
+
+    if (saveable.length === 0 || (!validation.success && !allowPartial)) {
+      const result: LoanBatchOperationResult = {
+        ...validation,
+        success: false,
+        successCount: 0,
+        failureCount: validation.totalProcessed,
+        results: validation.results.map(row =>
+          row.success
+            ? {
+                ...row,
+                success: false,
+                error: 'Not saved because other rows failed validation',
+              }
+            : row
+        ),
+      };
+      return {
+        batch: this.finishBatch(batch, BatchStatus.FAILED, result),
+        result,
+      };
+    }
+
+    try {
+      const { homeCurrency } = await this.loanService.getCurrencyConverter();
+      const saved = await this.loanService.importLoans(
+        saveable.map(index =>
+          this.toLoanData(batch.loans[index], batch.id, homeCurrency)
+        ),
+        `batch "${batch.name}"`
+      );
+
+      const results = [...validation.results];
+      saved.forEach((loan, position) => {
+        results[saveable[position]] = {
+          ...results[saveable[position]],
+          data: {
+            id: loan.id,
+            lenderName: loan.lenderName,
+            phoneNumber: loan.phoneNumber,
+            amount: loan.amount,
+            repaymentDate: loan.repaymentDate,
+            interestRate: loan.interestRate,
+            isPaid: loan.isPaid,
+            createdAt: loan.createdAt!,
+            updatedAt: loan.updatedAt!,
+          },
+        };
+      });
+
+      const result: LoanBatchOperationResult = {
+        ...validation,
+        success: validation.failureCount === 0,
+        results,
+      };
+      this.logger.info(`Batch "${batch.name}" saved`, {
+        batchId: batch.id,
+        saved: result.successCount,
+        failed: result.failureCount,
+      });
+      return {
+        batch: this.finishBatch(batch, BatchStatus.COMPLETED, result),
+        result,
+      };
+    } catch (error) {
+      this.logger.error('Failed to save loan batch', error as Error);
+      throw error;
+    }
+  }
+
+  private finishBatch(
+    batch: LoanBatch,
+    status: BatchStatus,
+    result: LoanBatchOperationResult
+  ): LoanBatch {
+    return {
+      ...batch,
+      status,
+      processedLoans: result.successCount,
+      failedLoans: result.failureCount,
+      errors: result.errors,
+      processedAt: new Date().toISOString(),
+    };
+  }
+
+  // Fields ValidationService does not know about
+  private validateOptionalFields(input: LoanCreateInput): string[] {
+    const errors: string[] = [];
+    if (
+      input.direction &&
+      !Object.values(LoanDirection).includes(input.direction)
+    ) {
+      errors.push(`Unknown direction "${input.direction}"`);
+    }
+    if (input.currency && !isValidCurrencyCode(input.currency)) {
+      errors.push(`Invalid currency code "${input.currency}"`);
+    }
+    if (
+      input.category &&
+      !Object.values(LoanCategory).includes(input.category)
+    ) {
+      errors.push(`Unknown category "${input.category}"`);
+    }
+    if (
+      input.priority &&
+      !Object.values(LoanPriority).includes(input.priority)
+    ) {
+      errors.push(`Unknown priority "${input.priority}"`);
+    }
+    return errors;
+  }
+
+  private toLoanData(
+    input: LoanCreateInput,
+    batchId: string,
+    homeCurrency: string
+  ): Omit<Loan, 'id' | 'isPaid'> {
+    return {
+      direction: input.direction || LoanDirection.PAYABLE,
+      lenderName: input.lenderName.trim(),
+      phoneNumber: input.phoneNumber.trim(),
+      amount: input.amount,
+      currency: input.currency || homeCurrency,
+      repaymentDate: input.repaymentDate,
+      interestRate: input.interestRate || undefined,
+      category: input.category,
+      priority: input.priority,
+      tags: input.tags,
+      notes: input.notes,
+      batchId,
+    };
+  }
+}
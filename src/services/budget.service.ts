@@ -0,0 +1,194 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { format } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../core/logger';
+import { ConfigManager } from '../core/config-manager';
+import { BUDGET_DATA_PATH } from '../config';
+import { Loan } from '../interfaces/loan.interface';
+import { BudgetItem, BudgetItemDetails } from '../types/loan.types';
+import {
+  AffordabilityCheck,
+  BudgetSummary,
+  MonthlyBudget,
+  checkAffordability,
+  getMonthlyBudget,
+  summarizeBudget,
+} from '../utils/budget.utils';
+import { CurrencyConverter } from '../utils/currency.utils';
+import { LoanService } from './loan.service';
+
+export interface BudgetOverview extends BudgetSummary {
+  currency: string; // Reporting currency every amount is converted to
+  maxShare: number; // Configured limit on debt-to-income, in percent
+  missingRates: string[]; // Currencies counted unconverted for lack of a rate
+}
+
+export interface AffordabilityWarning extends AffordabilityCheck {
+  currency: string;
+  maxShare: number;
+}
+
+export class BudgetService {
+  private logger: Logger;
+  private loanService: LoanService;
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.logger = new Logger();
+    this.loanService = new LoanService();
+    this.configManager = new ConfigManager();
+  }
+
+  async getItems(): Promise<BudgetItem[]> {
+    return this.readItems();
+  }
+
+  async addItem(details: BudgetItemDetails): Promise<BudgetItem> {
+    this.assertItemDetails(details);
+
+    const now = new Date().toISOString();
+    const item: BudgetItem = {
+      ...details,
+      name: details.name.trim(),
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    const items = await this.readItems();
+    await this.saveItems([...items, item]);
+    return item;
+  }
+
+  async updateItem(
+    id: string,
+    details: BudgetItemDetails
+  ): Promise<BudgetItem | null> {
+    this.assertItemDetails(details);
+
+    const items = await this.readItems();
+    const existing = items.find(item => item.id === id);
+    if (!existing) return null;
+
+    const updated: BudgetItem = {
+      ...existing,
+      ...details,
+      name: details.name.trim(),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.saveItems(items.map(item => (item.id === id ? updated : item)));
+    return updated;
+  }
+
+  async deleteItem(id: string): Promise<boolean> {
+    const items = await this.readItems();
+    const remaining = items.filter(item => item.id !== id);
+    if (remaining.length === items.length) return false;
+    await this.saveItems(remaining);
+    return true;
+  }
+
+  // Income and expenses per month in the converter's reporting currency
+  async getMonthlyBudget(converter: CurrencyConverter): Promise<MonthlyBudget> {
+    const items = await this.readItems();
+    return getMonthlyBudget(items, (amount, currency) =>
+      converter.convert(amount, currency)
+    );
+  }
+
+  async getSummary(asOf: Date = new Date()): Promise<BudgetOverview> {
+    try {
+      await this.configManager.initialize();
+      const settings = await this.configManager.getAffordabilitySettings();
+      const converter = await this.loanService.getCurrencyConverter();
+      const budget = await this.getMonthlyBudget(converter);
+      const loans = this.loanService.toReportingCurrency(
+        await this.loanService.getLoans(),
+        converter
+      );
+      return {
+        ...summarizeBudget(budget, loans, format(asOf, 'yyyy-MM'), asOf),
+        currency: converter.reportingCurrency,
+        maxShare: settings.maxObligationShare,
+        missingRates: Array.from(converter.missingRates),
+      };
+    } catch (error) {
+      this.logger.error('Failed to summarize budget', error as Error);
+      throw error;
+    }
+  }
+
+  // Undefined when warnings are off, nothing is over the limit or there is
+  // no income in the register to measure against
+  async checkNewLoan(
+    loanData: Omit<Loan, 'id' | 'isPaid'>
+  ): Promise<AffordabilityWarning | undefined> {
+    await this.configManager.initialize();
+    const settings = await this.configManager.getAffordabilitySettings();
+    if (!settings.enabled) return undefined;
+
+    const converter = await this.loanService.getCurrencyConverter();
+    const budget = await this.getMonthlyBudget(converter);
+    if (budget.income <= 0) return undefined;
+
+    const [newLoan, ...loans] = this.loanService.toReportingCurrency(
+      [
+        await this.loanService.previewLoan(loanData),
+        ...(await this.loanService.getLoans()),
+      ],
+      converter
+    );
+    const check = checkAffordability(
+      newLoan,
+      loans,
+      budget,
+      settings.maxObligationShare
+    );
+    if (check.breaches.length === 0 && check.shortfall === 0) return undefined;
+
+    return {
+      ...check,
+      currency: converter.reportingCurrency,
+      maxShare: settings.maxObligationShare,
+    };
+  }
+
+  private assertItemDetails(details: BudgetItemDetails): void {
+    if (!details.name.trim()) {
+      throw new Error('Name is required');
+    }
+    if (!(details.amount > 0)) {
+      throw new Error('Amount must be greater than 0');
+    }
+  }
+
+  // Backups replace the whole register
+  async replaceItems(items: BudgetItem[]): Promise<void> {
+    await this.saveItems(items);
+  }
+
+  private async readItems(): Promise<BudgetItem[]> {
+    try {
+      const content = await fs.readFile(BUDGET_DATA_PATH, 'utf-8');
+      return JSON.parse(content) as BudgetItem[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      this.logger.error('Failed to read budget register', error as Error);
+      throw error;
+    }
+  }
+
+  private async saveItems(items: BudgetItem[]): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(BUDGET_DATA_PATH), { recursive: true });
+      await fs.writeFile(
+        BUDGET_DATA_PATH,
+        JSON.stringify(items, null, 2),
+        'utf-8'
+      );
+    } catch (error) {
+      this.logger.error('Failed to save budget register', error as Error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,303 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../core/logger';
+import { CONTACT_DATA_PATH } from '../config';
+import { LoanModel } from '../models/loan.model';
+import { Contact, ContactDetails } from '../types/loan.types';
+import {
+  ContactDuplicate,
+  ContactSummary,
+  findDuplicateContacts,
+  hasContactName,
+  mergeContactDetails,
+  normalizeContactName,
+  summarizeContactLoans,
+} from '../utils/contact.utils';
+import { LoanService } from './loan.service';
+import { StorageService } from './storage.service';
+import { ValidationService } from './validation.service';
+
+export interface ContactProfile {
+  contact: Contact;
+  loans: LoanModel[]; // In their own currencies
+  summary: ContactSummary; // In the reporting currency
+  reportingCurrency: string;
+}
+
+export interface ContactLoanGroup {
+  key: string; // Contact ID, else the normalised phone, else the name
+  name: string;
+  contact?: Contact;
+  loans: LoanModel[];
+}
+
+export class ContactService {
+  private logger: Logger;
+  private storage: StorageService;
+  private loanService: LoanService;
+  private validationService: ValidationService;
+
+  constructor() {
+    this.logger = new Logger();
+    this.storage = new StorageService();
+    this.loanService = new LoanService();
+    this.validationService = new ValidationService();
+  }
+
+  async getContacts(): Promise<Contact[]> {
+    const contacts = await this.readContacts();
+    return contacts.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createContact(details: ContactDetails): Promise<Contact> {
+    const contacts = await this.readContacts();
+    const now = new Date().toISOString();
+    const contact: Contact = {
+      ...this.cleanDetails(details),
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.saveContacts([...contacts, contact]);
+    return contact;
+  }
+
+  async updateContact(
+    id: string,
+    details: ContactDetails
+  ): Promise<Contact | null> {
+    const contacts = await this.readContacts();
+    if (!contacts.some(contact => contact.id === id)) return null;
+
+    const updated = contacts.map(contact =>
+      contact.id === id
+        ? {
+            ...contact,
+            ...this.cleanDetails(details),
+            updatedAt: new Date().toISOString(),
+          }
+        : contact
+    );
+    await this.saveContacts(updated);
+    return updated.find(contact => contact.id === id)!;
+  }
+
+  // Points every unlinked loan at the contact with the same phone number,
+  // creating contacts as needed; other names become aliases. Loans without a
+  // phone number are left unlinked rather than lumped into one contact
+  async linkLoans(): Promise<{ linked: number; created: number }> {
+    const [loans, contacts] = await Promise.all([
+      this.storage.readLoans(),
+      this.readContacts(),
+    ]);
+    const knownIds = new Set(contacts.map(contact => contact.id));
+    const contactIds = new Map<string, string>();
+    let created = 0;
+    let contactsChanged = false;
+
+    loans.forEach(loan => {
+      if (loan.contactId && knownIds.has(loan.contactId)) return;
+
+      const phone = this.validationService.normalizePhoneNumber(
+        loan.phoneNumber || ''
+      );
+      if (!phone) return;
+
+      let contact = contacts.find(c => c.phoneNumbers.includes(phone));
+      const now = new Date().toISOString();
+
+      if (!contact) {
+        contact = {
+          id: uuidv4(),
+          name: loan.lenderName.trim(),
+          aliases: [],
+          phoneNumbers: [phone],
+          createdAt: now,
+          updatedAt: now,
+        };
+        contacts.push(contact);
+        knownIds.add(contact.id);
+        created++;
+        contactsChanged = true;
+      } else if (!hasContactName(contact, loan.lenderName)) {
+        contact.aliases = [...contact.aliases, loan.lenderName.trim()];
+        contact.updatedAt = now;
+        contactsChanged = true;
+      }
+
+      contactIds.set(loan.id, contact.id);
+    });
+
+    if (contactsChanged) await this.saveContacts(contacts);
+    const linked =
+      contactIds.size > 0 ? await this.loanService.linkContacts(contactIds) : 0;
+    if (linked > 0) {
+      this.logger.info(`Linked ${linked} loans to contacts`, { created });
+    }
+    return { linked, created };
+  }
+
+  async findDuplicates(): Promise<ContactDuplicate[]> {
+    return findDuplicateContacts(await this.getContacts());
+  }
+
+  // Sources are folded into the target and their loans repointed to it
+  async mergeContacts(
+    targetId: string,
+    sourceIds: string[]
+  ): Promise<Contact | null> {
+    const contacts = await this.readContacts();
+    const target = contacts.find(contact => contact.id === targetId);
+    const sources = contacts.filter(
+      contact => contact.id !== targetId && sourceIds.includes(contact.id)
+    );
+    if (!target || sources.length === 0) return null;
+
+    try {
+      const loans = await this.storage.readLoans();
+      await this.loanService.assignContacts(
+        new Map(
+          loans
+            .filter(
+              loan => loan.contactId && sourceIds.includes(loan.contactId)
+            )
+            .map(loan => [loan.id, targetId])
+        ),
+        `Merge contacts into ${target.name}`
+      );
+
+      const merged: Contact = {
+        ...target,
+        ...mergeContactDetails(target, sources),
+        updatedAt: new Date().toISOString(),
+      };
+      await this.saveContacts(
+        contacts
+          .filter(contact => !sources.includes(contact))
+          .map(contact => (contact.id === targetId ? merged : contact))
+      );
+
+      this.logger.info(
+        `Merged ${sources.length} contacts into ${merged.name}`,
+        {
+          targetId,
+          sourceIds,
+        }
+      );
+      return merged;
+    } catch (error) {
+      this.logger.error('Failed to merge contacts', error as Error);
+      throw error;
+    }
+  }
+
+  async getProfile(id: string): Promise<ContactProfile | null> {
+    const contacts = await this.readContacts();
+    const contact = contacts.find(c => c.id === id);
+    if (!contact) return null;
+
+    const converter = await this.loanService.getCurrencyConverter();
+    const loans = (await this.loanService.getLoans())
+      .filter(loan => loan.contactId === id)
+      .sort((a, b) => b.repaymentDate.localeCompare(a.repaymentDate));
+
+    return {
+      contact,
+      loans,
+      summary: summarizeContactLoans(
+        this.loanService.toReportingCurrency(loans, converter)
+      ),
+      reportingCurrency: converter.reportingCurrency,
+    };
+  }
+
+  // Groups loans by person, falling back to the phone number for loans
+  // that are not linked yet, so spelling differences never split a lender
+  async groupLoansByContact(loans: LoanModel[]): Promise<ContactLoanGroup[]> {
+    const contacts = await this.readContacts();
+    const groups = new Map<string, ContactLoanGroup>();
+
+    loans.forEach(loan => {
+      const phone = this.validationService.normalizePhoneNumber(
+        loan.phoneNumber
+      );
+      const contact =
+        contacts.find(c => c.id === loan.contactId) ||
+        (phone
+          ? contacts.find(c => c.phoneNumbers.includes(phone))
+          : undefined);
+      const key =
+        contact?.id ||
+        (phone
+          ? `phone:${phone}`
+          : `name:${normalizeContactName(loan.lenderName)}`);
+      const group = groups.get(key) || {
+        key,
+        name: contact?.name || loan.lenderName.trim(),
+        contact,
+        loans: [],
+      };
+      group.loans.push(loan);
+      groups.set(key, group);
+    });
+
+    return Array.from(groups.values());
+  }
+
+  // Backups replace the whole directory
+  async replaceContacts(contacts: Contact[]): Promise<void> {
+    await this.saveContacts(contacts);
+  }
+
+  private cleanDetails(details: ContactDetails): ContactDetails {
+    const name = details.name.trim();
+    if (!name) {
+      throw new Error('Contact name cannot be empty');
+    }
+
+    const phoneNumbers = details.phoneNumbers.map(phone => {
+      const validation = this.validationService.validatePhoneNumber(phone);
+      if (!validation.isValid) {
+        throw new Error(`${phone}: ${validation.errors.join(', ')}`);
+      }
+      return this.validationService.normalizePhoneNumber(phone);
+    });
+
+    return {
+      name,
+      aliases: Array.from(
+        new Set(details.aliases.map(alias => alias.trim()).filter(Boolean))
+      ).filter(
+        alias => normalizeContactName(alias) !== normalizeContactName(name)
+      ),
+      phoneNumbers: Array.from(new Set(phoneNumbers)),
+      notes: details.notes?.trim() || undefined,
+    };
+  }
+
+  private async readContacts(): Promise<Contact[]> {
+    try {
+      const content = await fs.readFile(CONTACT_DATA_PATH, 'utf-8');
+      return JSON.parse(content) as Contact[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      this.logger.error('Failed to read contacts', error as Error);
+      throw error;
+    }
+  }
+
+  private async saveContacts(contacts: Contact[]): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(CONTACT_DATA_PATH), { recursive: true });
+      await fs.writeFile(
+        CONTACT_DATA_PATH,
+        JSON.stringify(contacts, null, 2),
+        'utf-8'
+      );
+    } catch (error) {
+      this.logger.error('Failed to save contacts', error as Error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../core/logger';
+import { DEBT_PLAN_DATA_PATH } from '../config';
+import { LoanModel } from '../models/loan.model';
+import { DebtPlan } from '../types/loan.types';
+import {
+  DebtPlanProgress,
+  DebtPlanProjection,
+  DebtPlanSettings,
+  compareStrategies,
+  trackDebtPlan,
+} from '../utils/debt-plan.utils';
+import { LoanService } from './loan.service';
+
+export interface DebtPlanComparison {
+  plans: DebtPlanProjection[];
+  currency?: string; // Currency of every amount in the plans
+  missingRates: string[]; // Currencies counted unconverted for lack of a rate
+}
+
+export class DebtPlanService {
+  private logger: Logger;
+  private loanService: LoanService;
+
+  constructor() {
+    this.logger = new Logger();
+    this.loanService = new LoanService();
+  }
+
+  // Open loans we owe; money owed to us has no place in a payoff plan
+  async getPayableLoans(): Promise<LoanModel[]> {
+    const loans = await this.loanService.getLoans();
+    return loans.filter(loan => loan.isOpen() && !loan.isReceivable());
+  }
+
+  // A single loan is planned in its own currency; several loans are
+  // converted to the reporting currency first
+  async comparePlans(
+    loans: LoanModel[],
+    settings: Omit<DebtPlanSettings, 'strategy'>
+  ): Promise<DebtPlanComparison> {
+    if (!(settings.monthlyBudget > 0)) {
+      throw new Error('Monthly budget must be greater than 0');
+    }
+    if (loans.length === 0) {
+      throw new Error('There are no open loans to plan for');
+    }
+
+    try {
+      const defaultPenaltyRule = await this.loanService.getDefaultPenaltyRule();
+
+      if (loans.length === 1) {
+        return {
+          plans: compareStrategies(loans, settings, { defaultPenaltyRule }),
+          currency: loans[0].currency,
+          missingRates: [],
+        };
+      }
+
+      const converter = await this.loanService.getCurrencyConverter();
+      const converted = this.loanService.toReportingCurrency(loans, converter);
+      return {
+        plans: compareStrategies(converted, settings, { defaultPenaltyRule }),
+        currency: converter.reportingCurrency,
+        missingRates: Array.from(converter.missingRates),
+      };
+    } catch (error) {
+      this.logger.error('Failed to build debt plans', error as Error);
+      throw error;
+    }
+  }
+
+  async getPlans(): Promise<DebtPlan[]> {
+    return this.readPlans();
+  }
+
+  async savePlan(
+    name: string,
+    projection: DebtPlanProjection,
+    currency?: string
+  ): Promise<DebtPlan> {
+    if (!name.trim()) {
+      throw new Error('Plan name is required');
+    }
+
+    const plan: DebtPlan = {
+      ...projection,
+      id: uuidv4(),
+      name: name.trim(),
+      currency,
+      createdAt: new Date().toISOString(),
+    };
+    const plans = await this.readPlans();
+    await this.savePlans([...plans, plan]);
+    this.logger.info(`Debt plan saved: ${plan.name}`);
+    return plan;
+  }
+
+  async deletePlan(id: string): Promise<boolean> {
+    const plans = await this.readPlans();
+    const remaining = plans.filter(plan => plan.id !== id);
+    if (remaining.length === plans.length) return false;
+    await this.savePlans(remaining);
+    return true;
+  }
+
+  // Payments on loans in other currencies are converted to the plan's
+  // currency, which is the reporting currency for multi-loan plans
+  async trackPlan(plan: DebtPlan): Promise<DebtPlanProgress> {
+    try {
+      const loans = await this.loanService.getLoans();
+      if (plan.loanIds.length === 1) {
+        return trackDebtPlan(plan, loans);
+      }
+
+      const converter = await this.loanService.getCurrencyConverter();
+      return trackDebtPlan(plan, loans, (loan, amount) =>
+        converter.convert(amount, loan.currency)
+      );
+    } catch (error) {
+      this.logger.error('Failed to track debt plan', error as Error);
+      throw error;
+    }
+  }
+
+  // Backups replace the whole plan list
+  async replacePlans(plans: DebtPlan[]): Promise<void> {
+    await this.savePlans(plans);
+  }
+
+  private async readPlans(): Promise<DebtPlan[]> {
+    try {
+      const content = await fs.readFile(DEBT_PLAN_DATA_PATH, 'utf-8');
+      return JSON.parse(content) as DebtPlan[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      this.logger.error('Failed to read debt plans', error as Error);
+      throw error;
+    }
+  }
+
+  private async savePlans(plans: DebtPlan[]): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(DEBT_PLAN_DATA_PATH), { recursive: true });
+      await fs.writeFile(
+        DEBT_PLAN_DATA_PATH,
+        JSON.stringify(plans, null, 2),
+        'utf-8'
+      );
+    } catch (error) {
+      this.logger.error('Failed to save debt plans', error as Error);
+      throw error;
+    }
+  }
+}
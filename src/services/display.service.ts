@@ -9,6 +9,8 @@ import terminalLink from 'terminal-link';
 import { Logger } from '../core/logger';
 import { LoanModel } from '../models/loan.model';
 import { formatCurrency, formatDate } from '../utils/format.utils';
+import { LoanRisk, formatRiskLevel } from '../utils/risk.utils';
+import { RiskLevel } from '../types/loan.types';
 
 export interface DisplayOptions {
   color?: boolean;
@@ -167,7 +169,12 @@ export class DisplayService {
     return new cliTable3(tableConfig);
   }
 
-  showLoanTable(loans: LoanModel[], options?: DisplayOptions): void {
+  // Risks are looked up by loan ID; loans without one show a dash
+  showLoanTable(
+    loans: LoanModel[],
+    options?: DisplayOptions,
+    risks?: Map<string, LoanRisk>
+  ): void {
     if (loans.length === 0) {
       this.showEmptyState(
         'No loans found',
@@ -201,6 +208,7 @@ export class DisplayService {
         formatter: val => (val ? `${val}%` : 'None'),
       },
       { header: 'Status', key: 'status', width: 12, alignment: 'center' },
+      { header: 'Risk', key: 'riskLevel', width: 14, alignment: 'center' },
     ];
 
     const table = this.createTable(columns, options);
@@ -224,12 +232,13 @@ export class DisplayService {
             ? chalk.red(formatCurrency(totalAmount))
             : chalk.yellow(formatCurrency(totalAmount)),
         loan.isOverdue()
-          ? chalk.red(formatDate(loan.repaymentDate))
-          : chalk.white(formatDate(loan.repaymentDate)),
+          ? chalk.red(formatDate(loan.getNextDueDate()))
+          : chalk.white(formatDate(loan.getNextDueDate())),
         loan.interestRate
           ? chalk.cyan(`${loan.interestRate}%`)
           : chalk.gray('None'),
         status,
+        this.formatRisk(risks?.get(loan.id)),
       ]);
     });
 
@@ -237,6 +246,21 @@ export class DisplayService {
     console.log();
   }
 
+  private formatRisk(risk?: LoanRisk): string {
+    if (!risk) return chalk.gray('-');
+    const text = `${formatRiskLevel(risk.level)} (${risk.score})`;
+    switch (risk.level) {
+      case RiskLevel.CRITICAL:
+        return chalk.magenta.bold(text);
+      case RiskLevel.HIGH:
+        return chalk.red(text);
+      case RiskLevel.MEDIUM:
+        return chalk.yellow(text);
+      default:
+        return chalk.green(text);
+    }
+  }
+
   showSummaryTable(data: Record<string, any>, title?: string): void {
     if (title) {
       console.log(chalk.cyan.bold(`📊 ${title}`));
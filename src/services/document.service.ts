@@ -0,0 +1,123 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from '../core/logger';
+import { DATA_DIR, DOCUMENT_DIR } from '../config';
+import { LoanDocument } from '../types/loan.types';
+import {
+  getMimeType,
+  getStoredFileName,
+  hashContent,
+} from '../utils/document.utils';
+
+export type StoredDocument = Pick<
+  LoanDocument,
+  'name' | 'filePath' | 'checksum' | 'fileSize' | 'mimeType'
+>;
+
+// Content-addressed file store; documents with the same content share a file
+export class DocumentService {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  async store(sourcePath: string): Promise<StoredDocument> {
+    try {
+      const content = await fs.readFile(sourcePath);
+      const name = path.basename(sourcePath);
+      const checksum = hashContent(content);
+      const storedName = getStoredFileName(checksum, name);
+
+      await fs.mkdir(DOCUMENT_DIR, { recursive: true });
+      const target = path.join(DOCUMENT_DIR, storedName);
+      if (!(await this.fileExists(target))) {
+        await fs.writeFile(target, content);
+      }
+
+      return {
+        name,
+        filePath: path.relative(DATA_DIR, target),
+        checksum,
+        fileSize: content.length,
+        mimeType: getMimeType(name),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to store document ${sourcePath}`,
+        error as Error
+      );
+      throw error;
+    }
+  }
+
+  // Where a document with this content is kept, whatever path it claims
+  getStoredPath(document: Pick<LoanDocument, 'filePath' | 'checksum'>): string {
+    if (!/^[0-9a-f]{64}$/.test(document.checksum)) {
+      throw new Error(`Invalid checksum for document ${document.filePath}`);
+    }
+    return path.relative(
+      DATA_DIR,
+      path.join(
+        DOCUMENT_DIR,
+        getStoredFileName(document.checksum, document.filePath)
+      )
+    );
+  }
+
+  resolvePath(document: Pick<LoanDocument, 'filePath'>): string {
+    return path.join(DATA_DIR, document.filePath);
+  }
+
+  async exists(document: Pick<LoanDocument, 'filePath'>): Promise<boolean> {
+    return this.fileExists(this.resolvePath(document));
+  }
+
+  // Returns undefined when the file is gone or no longer matches its checksum
+  async read(
+    document: Pick<LoanDocument, 'filePath' | 'checksum'>
+  ): Promise<Buffer | undefined> {
+    try {
+      const content = await fs.readFile(this.resolvePath(document));
+      return hashContent(content) === document.checksum ? content : undefined;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async restore(
+    document: Pick<LoanDocument, 'filePath' | 'checksum'>,
+    content: Buffer
+  ): Promise<void> {
+    if (hashContent(content) !== document.checksum) {
+      throw new Error(`Checksum mismatch restoring ${document.filePath}`);
+    }
+    const target = path.join(DATA_DIR, this.getStoredPath(document));
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content);
+  }
+
+  async remove(document: Pick<LoanDocument, 'filePath'>): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(document));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.error(
+          `Failed to remove document ${document.filePath}`,
+          error as Error
+        );
+        throw error;
+      }
+    }
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
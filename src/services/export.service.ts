@@ -4,17 +4,46 @@ import PDFDocument from 'pdfkit';
 import { createObjectCsvWriter } from 'csv-writer';
 import { format } from 'date-fns';
 import { Logger } from '../core/logger';
+import { ConfigManager } from '../core/config-manager';
 import { StorageService } from './storage.service';
+import { HolidayService } from './holiday.service';
 import { LoanModel } from '../models/loan.model';
-import { formatCurrency } from '../utils/format.utils';
+import {
+  DebtPlan,
+  LoanDirection,
+  LoanGroupBy,
+  PenaltyRule,
+} from '../types/loan.types';
+import {
+  formatCurrency,
+  formatDirection,
+  getCounterpartyLabel,
+} from '../utils/format.utils';
+import { formatInterestModel } from '../utils/interest.utils';
+import { formatLineage } from '../utils/lineage.utils';
+import {
+  formatCategory,
+  formatPriority,
+  formatTags,
+  getGroupKey,
+  groupLoans,
+} from '../utils/category.utils';
+import {
+  CurrencyConverter,
+  createCurrencyConverter,
+} from '../utils/currency.utils';
+import { DebtPlanProgress, formatStrategy } from '../utils/debt-plan.utils';
 
 export interface ExportOptions {
   format: 'txt' | 'csv' | 'json' | 'pdf' | 'html';
   includeMetadata?: boolean;
   filterPaid?: boolean;
   filterOverdue?: boolean;
+  filterDirection?: LoanDirection;
+  includeTrashed?: boolean; // Loans in the trash are left out by default
   sortBy?: 'date' | 'amount' | 'lender' | 'status';
   sortOrder?: 'asc' | 'desc';
+  groupBy?: LoanGroupBy;
   customFields?: string[];
   outputPath?: string;
 }
@@ -29,6 +58,14 @@ export interface ExportResult {
   error?: string;
 }
 
+export interface ExportGroupSummary {
+  key: string;
+  label: string;
+  loanCount: number;
+  totalAmount: number;
+  totalOutstanding: number;
+}
+
 export interface ExportMetadata {
   exportedAt: string;
   exportedBy: string;
@@ -41,11 +78,17 @@ export interface ExportMetadata {
 export class ExportService {
   private logger: Logger;
   private storageService: StorageService;
+  private holidayService: HolidayService;
+  private configManager: ConfigManager;
   private exportDir: string;
+  private defaultPenaltyRule?: PenaltyRule;
+  private converter?: CurrencyConverter;
 
   constructor() {
     this.logger = new Logger();
     this.storageService = new StorageService();
+    this.holidayService = new HolidayService();
+    this.configManager = new ConfigManager();
     this.exportDir = path.join(process.cwd(), 'data', 'exports');
   }
 
@@ -65,7 +108,8 @@ export class ExportService {
 
       // Load and filter loans
       const allLoans = await this.storageService.readLoans();
-      const loanModels = allLoans.map(loan => new LoanModel(loan));
+      const calendar = await this.holidayService.getDueDateCalendar();
+      const loanModels = allLoans.map(loan => new LoanModel(loan, calendar));
       const filteredLoans = this.filterLoans(loanModels, options);
       const sortedLoans = this.sortLoans(filteredLoans, options);
 
@@ -129,6 +173,8 @@ export class ExportService {
     filePath: string,
     options: ExportOptions
   ): Promise<number> {
+    await this.loadExportSettings();
+    loans = this.orderByGroup(loans, options);
     let content = '';
 
     // Add metadata if requested
@@ -141,25 +187,78 @@ export class ExportService {
     content += 'LOAN SUMMARY\n';
     content += '-'.repeat(40) + '\n';
     content += `Total Loans: ${loans.length}\n`;
-    content += `Total Amount: ${formatCurrency(this.calculateTotalAmount(loans))}\n`;
+    content += `Total Amount: ${this.formatTotal(this.calculateTotalAmount(loans))}\n`;
+    content += `Total Repaid: ${this.formatTotal(this.calculateTotalPaid(loans))}\n`;
+    content += `Outstanding: ${this.formatTotal(this.calculateTotalOutstanding(loans))}\n`;
+    content += `Penalties Due: ${this.formatTotal(this.calculateTotalPenalties(loans))}\n`;
+    content += `I Owe: ${this.formatTotal(this.calculateOutstandingByDirection(loans, LoanDirection.PAYABLE))}\n`;
+    content += `Owed to Me: ${this.formatTotal(this.calculateOutstandingByDirection(loans, LoanDirection.RECEIVABLE))}\n`;
+    content += `Written Off: ${this.formatTotal(this.calculateTotalWrittenOff(loans))}\n`;
     content += `Paid Loans: ${loans.filter(l => l.isPaid).length}\n`;
     content += `Overdue Loans: ${loans.filter(l => l.isOverdue()).length}\n`;
-    content += `Pending Loans: ${loans.filter(l => !l.isPaid && !l.isOverdue()).length}\n\n`;
+    content += `Pending Loans: ${loans.filter(l => l.isOpen() && !l.isOverdue()).length}\n`;
+    content += `Written-off Loans: ${loans.filter(l => l.isWrittenOff()).length}\n\n`;
+
+    if (options.groupBy) {
+      content += `BREAKDOWN BY ${this.formatGroupBy(options.groupBy).toUpperCase()}\n`;
+      content += '-'.repeat(40) + '\n';
+      this.summarizeGroups(loans, options.groupBy).forEach(group => {
+        content += `${group.label}: ${group.loanCount} loan${group.loanCount === 1 ? '' : 's'}, ${this.formatTotal(group.totalAmount)} total, ${this.formatTotal(group.totalOutstanding)} outstanding\n`;
+      });
+      content += '\n';
+    }
 
     // Add detailed loan list
     content += 'DETAILED LOAN LIST\n';
     content += '='.repeat(80) + '\n\n';
 
+    // Loans arrive ordered by group, so a heading starts each new group
+    const groupLabels = this.getGroupLabels(loans, options.groupBy);
     loans.forEach((loan, index) => {
+      const groupLabel = groupLabels.get(loan.id);
+      if (groupLabel && groupLabel !== groupLabels.get(loans[index - 1]?.id)) {
+        content += `[${groupLabel}]\n\n`;
+      }
       content += `${index + 1}. ${loan.lenderName}\n`;
+      content += `   Direction: ${formatDirection(loan.getDirection())} (${getCounterpartyLabel(loan.getDirection()).toLowerCase()})\n`;
       content += `   Phone: ${loan.phoneNumber}\n`;
-      content += `   Amount: ${formatCurrency(loan.amount)}\n`;
+      content += `   Amount: ${formatCurrency(loan.amount, loan.currency)}\n`;
       if (loan.interestRate) {
-        content += `   Interest: ${loan.interestRate}%\n`;
-        content += `   Total with Interest: ${formatCurrency(loan.calculateTotalWithInterest())}\n`;
+        content += `   Interest: ${formatInterestModel(loan.interestRate, loan.interestModel)}\n`;
+        content += `   Total with Interest: ${formatCurrency(loan.calculateTotalWithInterest(), loan.currency)}\n`;
+        content += `   Interest Accrued to Date: ${formatCurrency(loan.getAccruedInterest(), loan.currency)}\n`;
       }
       content += `   Due Date: ${format(new Date(loan.repaymentDate), 'PPP')}\n`;
-      content += `   Status: ${loan.isPaid ? 'PAID' : loan.isOverdue() ? 'OVERDUE' : 'PENDING'}\n`;
+      if (loan.isRescheduled()) {
+        content += `   Originally Due: ${format(new Date(loan.getOriginalRepaymentDate()), 'PPP')} (rescheduled ${loan.getRescheduleCount()}x)\n`;
+      }
+      content += `   Status: ${this.getStatusLabel(loan)}\n`;
+      content += `   Category: ${formatCategory(loan.getCategory())} (${formatPriority(loan.getPriority())} priority)\n`;
+      if (loan.tags?.length) {
+        content += `   Tags: ${formatTags(loan.tags)}\n`;
+      }
+      if (loan.notes) {
+        content += `   Notes: ${loan.notes}\n`;
+      }
+      content += `   Paid: ${formatCurrency(loan.getTotalPaid(), loan.currency)}\n`;
+      content += `   Outstanding: ${formatCurrency(loan.getOutstandingBalance(), loan.currency)}\n`;
+      if (loan.writeOff) {
+        content += `   Written Off: ${formatCurrency(loan.writeOff.amount, loan.currency)} on ${format(new Date(loan.writeOff.date), 'PPP')} (${loan.writeOff.reason})\n`;
+      }
+      const lineage = formatLineage(loan.id, loans);
+      if (lineage.length > 0) {
+        content += '   Lineage:\n';
+        lineage.forEach(line => (content += `     ${line}\n`));
+      }
+      if (loan.getAccruedPenalty(this.defaultPenaltyRule) > 0) {
+        content += `   Penalties: ${formatCurrency(loan.getPenaltyDue(this.defaultPenaltyRule), loan.currency)} due (${formatCurrency(loan.getWaivedPenalty(), loan.currency)} waived)\n`;
+      }
+      (loan.paymentHistory || []).forEach(payment => {
+        content += `     - ${format(new Date(payment.paymentDate), 'PPP')}: ${formatCurrency(payment.amount, loan.currency)}`;
+        content += payment.method ? ` via ${payment.method}` : '';
+        content += payment.reference ? ` (ref ${payment.reference})` : '';
+        content += '\n';
+      });
       content += `   ID: ${loan.id}\n`;
       content += '\n' + '-'.repeat(60) + '\n\n';
     });
@@ -174,17 +273,44 @@ export class ExportService {
     filePath: string,
     options: ExportOptions
   ): Promise<number> {
+    await this.loadExportSettings();
+    loans = this.orderByGroup(loans, options);
+    const groupLabels = this.getGroupLabels(loans, options.groupBy);
     const records = loans.map(loan => ({
       id: loan.id,
+      direction: loan.getDirection(),
       lender_name: loan.lenderName,
       phone_number: loan.phoneNumber,
+      currency: loan.currency || this.converter?.homeCurrency,
       amount: loan.amount,
       interest_rate: loan.interestRate || 0,
+      interest_model: loan.interestModel?.type || 'flat',
       total_with_interest: loan.calculateTotalWithInterest(),
+      accrued_interest: loan.getAccruedInterest(),
       repayment_date: loan.repaymentDate,
+      original_repayment_date: loan.getOriginalRepaymentDate(),
+      reschedule_count: loan.getRescheduleCount(),
       is_paid: loan.isPaid,
       is_overdue: loan.isOverdue(),
-      status: loan.isPaid ? 'PAID' : loan.isOverdue() ? 'OVERDUE' : 'PENDING',
+      status: this.getStatusLabel(loan),
+      category: loan.getCategory(),
+      priority: loan.getPriority(),
+      tags: (loan.tags || []).join(';'),
+      notes: loan.notes || '',
+      group: groupLabels.get(loan.id) || '',
+      amount_paid: loan.getTotalPaid(),
+      outstanding: loan.getOutstandingBalance(),
+      written_off: loan.getWrittenOffAmount(),
+      write_off_date: loan.writeOff?.date || '',
+      write_off_reason: loan.writeOff?.reason || '',
+      superseded_by: loan.supersededBy || '',
+      accrued_penalty: loan.getAccruedPenalty(this.defaultPenaltyRule),
+      penalty_waived: loan.getWaivedPenalty(),
+      penalty_due: loan.getPenaltyDue(this.defaultPenaltyRule),
+      payment_count: (loan.paymentHistory || []).length,
+      last_payment_date: loan.paymentHistory?.length
+        ? loan.paymentHistory[loan.paymentHistory.length - 1].paymentDate
+        : '',
       created_at: new Date().toISOString(),
     }));
 
@@ -192,15 +318,44 @@ export class ExportService {
       path: filePath,
       header: [
         { id: 'id', title: 'ID' },
-        { id: 'lender_name', title: 'Lender Name' },
+        { id: 'direction', title: 'Direction' },
+        { id: 'lender_name', title: 'Counterparty Name' },
         { id: 'phone_number', title: 'Phone Number' },
+        { id: 'currency', title: 'Currency' },
         { id: 'amount', title: 'Amount' },
         { id: 'interest_rate', title: 'Interest Rate (%)' },
+        { id: 'interest_model', title: 'Interest Model' },
         { id: 'total_with_interest', title: 'Total with Interest' },
+        { id: 'accrued_interest', title: 'Accrued Interest' },
         { id: 'repayment_date', title: 'Repayment Date' },
+        { id: 'original_repayment_date', title: 'Original Repayment Date' },
+        { id: 'reschedule_count', title: 'Times Rescheduled' },
         { id: 'is_paid', title: 'Is Paid' },
         { id: 'is_overdue', title: 'Is Overdue' },
         { id: 'status', title: 'Status' },
+        { id: 'category', title: 'Category' },
+        { id: 'priority', title: 'Priority' },
+        { id: 'tags', title: 'Tags' },
+        { id: 'notes', title: 'Notes' },
+        ...(options.groupBy
+          ? [
+              {
+                id: 'group',
+                title: `Group (${this.formatGroupBy(options.groupBy)})`,
+              },
+            ]
+          : []),
+        { id: 'amount_paid', title: 'Amount Paid' },
+        { id: 'outstanding', title: 'Outstanding' },
+        { id: 'written_off', title: 'Written Off' },
+        { id: 'write_off_date', title: 'Write-off Date' },
+        { id: 'write_off_reason', title: 'Write-off Reason' },
+        { id: 'superseded_by', title: 'Superseded By' },
+        { id: 'accrued_penalty', title: 'Accrued Penalty' },
+        { id: 'penalty_waived', title: 'Penalty Waived' },
+        { id: 'penalty_due', title: 'Penalty Due' },
+        { id: 'payment_count', title: 'Payments' },
+        { id: 'last_payment_date', title: 'Last Payment Date' },
         { id: 'created_at', title: 'Export Date' },
       ],
     });
@@ -215,28 +370,74 @@ export class ExportService {
     filePath: string,
     options: ExportOptions
   ): Promise<number> {
+    await this.loadExportSettings();
+    loans = this.orderByGroup(loans, options);
     const exportData = {
       metadata: options.includeMetadata
         ? this.generateMetadata(loans, options)
         : undefined,
       summary: {
         totalLoans: loans.length,
+        reportingCurrency: this.converter?.reportingCurrency,
         totalAmount: this.calculateTotalAmount(loans),
+        totalPaid: this.calculateTotalPaid(loans),
+        totalOutstanding: this.calculateTotalOutstanding(loans),
+        totalPenaltiesDue: this.calculateTotalPenalties(loans),
+        totalPayable: this.calculateOutstandingByDirection(
+          loans,
+          LoanDirection.PAYABLE
+        ),
+        totalReceivable: this.calculateOutstandingByDirection(
+          loans,
+          LoanDirection.RECEIVABLE
+        ),
+        totalWrittenOff: this.calculateTotalWrittenOff(loans),
+        totalCollateralHeld: this.calculateTotalCollateral(loans),
         paidLoans: loans.filter(l => l.isPaid).length,
         overdueLoans: loans.filter(l => l.isOverdue()).length,
-        pendingLoans: loans.filter(l => !l.isPaid && !l.isOverdue()).length,
+        pendingLoans: loans.filter(l => l.isOpen() && !l.isOverdue()).length,
+        writtenOffLoans: loans.filter(l => l.isWrittenOff()).length,
       },
+      groupBy: options.groupBy,
+      groups: options.groupBy
+        ? this.summarizeGroups(loans, options.groupBy)
+        : undefined,
       loans: loans.map(loan => ({
         id: loan.id,
+        direction: loan.getDirection(),
         lenderName: loan.lenderName,
         phoneNumber: loan.phoneNumber,
+        currency: loan.currency || this.converter?.homeCurrency,
         amount: loan.amount,
         interestRate: loan.interestRate,
+        interestModel: loan.interestModel,
         totalWithInterest: loan.calculateTotalWithInterest(),
+        accruedInterest: loan.getAccruedInterest(),
         repaymentDate: loan.repaymentDate,
+        originalRepaymentDate: loan.getOriginalRepaymentDate(),
+        rescheduleHistory: loan.rescheduleHistory || [],
         isPaid: loan.isPaid,
         isOverdue: loan.isOverdue(),
-        status: loan.isPaid ? 'PAID' : loan.isOverdue() ? 'OVERDUE' : 'PENDING',
+        status: this.getStatusLabel(loan),
+        category: loan.getCategory(),
+        priority: loan.getPriority(),
+        tags: loan.tags || [],
+        notes: loan.notes,
+        group: options.groupBy ? getGroupKey(loan, options.groupBy) : undefined,
+        amountPaid: loan.getTotalPaid(),
+        outstanding: loan.getOutstandingBalance(),
+        writeOff: loan.writeOff,
+        relationships: loan.relationships || [],
+        supersededBy: loan.supersededBy,
+        collateral: loan.collateral || [],
+        collateralValue: loan.getCollateralValue(),
+        coverageRatio: loan.getCoverageRatio(),
+        penaltyRule: loan.penaltyRule || this.defaultPenaltyRule,
+        accruedPenalty: loan.getAccruedPenalty(this.defaultPenaltyRule),
+        penaltyDue: loan.getPenaltyDue(this.defaultPenaltyRule),
+        penaltyWaivers: loan.penaltyWaivers || [],
+        paymentHistory: loan.paymentHistory || [],
+        schedule: loan.hasSchedule() ? loan.getSchedule() : undefined,
       })),
     };
 
@@ -250,6 +451,8 @@ export class ExportService {
     filePath: string,
     options: ExportOptions
   ): Promise<number> {
+    await this.loadExportSettings();
+    loans = this.orderByGroup(loans, options);
     return new Promise((resolve, reject) => {
       try {
         const doc = new PDFDocument({ margin: 50 });
@@ -260,11 +463,9 @@ export class ExportService {
         doc
           .fontSize(20)
           .text('LoanTrack Pro - Loan Export Report', { align: 'center' });
-        doc
-          .fontSize(12)
-          .text(`Generated on: ${format(new Date(), 'PPP')}`, {
-            align: 'center',
-          });
+        doc.fontSize(12).text(`Generated on: ${format(new Date(), 'PPP')}`, {
+          align: 'center',
+        });
         doc.moveDown(2);
 
         // Summary
@@ -273,15 +474,52 @@ export class ExportService {
         doc.fontSize(12);
         doc.text(`Total Loans: ${loans.length}`);
         doc.text(
-          `Total Amount: ${formatCurrency(this.calculateTotalAmount(loans))}`
+          `Total Amount: ${this.formatTotal(this.calculateTotalAmount(loans))}`
+        );
+        doc.text(
+          `Total Repaid: ${this.formatTotal(this.calculateTotalPaid(loans))}`
+        );
+        doc.text(
+          `Outstanding: ${this.formatTotal(this.calculateTotalOutstanding(loans))}`
+        );
+        doc.text(
+          `Penalties Due: ${this.formatTotal(this.calculateTotalPenalties(loans))}`
+        );
+        doc.text(
+          `I Owe: ${this.formatTotal(this.calculateOutstandingByDirection(loans, LoanDirection.PAYABLE))}`
+        );
+        doc.text(
+          `Owed to Me: ${this.formatTotal(this.calculateOutstandingByDirection(loans, LoanDirection.RECEIVABLE))}`
+        );
+        doc.text(
+          `Written Off: ${this.formatTotal(this.calculateTotalWrittenOff(loans))}`
         );
         doc.text(`Paid Loans: ${loans.filter(l => l.isPaid).length}`);
         doc.text(`Overdue Loans: ${loans.filter(l => l.isOverdue()).length}`);
         doc.text(
-          `Pending Loans: ${loans.filter(l => !l.isPaid && !l.isOverdue()).length}`
+          `Pending Loans: ${loans.filter(l => l.isOpen() && !l.isOverdue()).length}`
+        );
+        doc.text(
+          `Written-off Loans: ${loans.filter(l => l.isWrittenOff()).length}`
         );
         doc.moveDown(2);
 
+        if (options.groupBy) {
+          doc
+            .fontSize(16)
+            .text(`Breakdown by ${this.formatGroupBy(options.groupBy)}`, {
+              underline: true,
+            });
+          doc.moveDown(0.5);
+          doc.fontSize(12);
+          this.summarizeGroups(loans, options.groupBy).forEach(group => {
+            doc.text(
+              `${group.label}: ${group.loanCount} loan${group.loanCount === 1 ? '' : 's'}, ${this.formatTotal(group.totalAmount)} total, ${this.formatTotal(group.totalOutstanding)} outstanding`
+            );
+          });
+          doc.moveDown(2);
+        }
+
         // Loan Details
         doc.fontSize(16).text('Loan Details', { underline: true });
         doc.moveDown(0.5);
@@ -295,18 +533,52 @@ export class ExportService {
             .fontSize(14)
             .text(`${index + 1}. ${loan.lenderName}`, { underline: true });
           doc.fontSize(10);
+          doc.text(`Direction: ${formatDirection(loan.getDirection())}`);
           doc.text(`Phone: ${loan.phoneNumber}`);
-          doc.text(`Amount: ${formatCurrency(loan.amount)}`);
+          doc.text(`Amount: ${formatCurrency(loan.amount, loan.currency)}`);
           if (loan.interestRate) {
-            doc.text(`Interest: ${loan.interestRate}%`);
             doc.text(
-              `Total with Interest: ${formatCurrency(loan.calculateTotalWithInterest())}`
+              `Interest: ${formatInterestModel(loan.interestRate, loan.interestModel)}`
+            );
+            doc.text(
+              `Total with Interest: ${formatCurrency(loan.calculateTotalWithInterest(), loan.currency)}`
+            );
+            doc.text(
+              `Interest Accrued to Date: ${formatCurrency(loan.getAccruedInterest(), loan.currency)}`
             );
           }
           doc.text(`Due Date: ${format(new Date(loan.repaymentDate), 'PPP')}`);
+          doc.text(`Status: ${this.getStatusLabel(loan)}`);
           doc.text(
-            `Status: ${loan.isPaid ? 'PAID' : loan.isOverdue() ? 'OVERDUE' : 'PENDING'}`
+            `Category: ${formatCategory(loan.getCategory())} (${formatPriority(loan.getPriority())} priority)`
           );
+          if (loan.tags?.length) {
+            doc.text(`Tags: ${formatTags(loan.tags)}`);
+          }
+          if (loan.notes) {
+            doc.text(`Notes: ${loan.notes}`);
+          }
+          if (loan.writeOff) {
+            doc.text(
+              `Written Off: ${formatCurrency(loan.writeOff.amount, loan.currency)} on ${format(new Date(loan.writeOff.date), 'PPP')} (${loan.writeOff.reason})`
+            );
+          }
+          if (loan.getAccruedPenalty(this.defaultPenaltyRule) > 0) {
+            doc.text(
+              `Penalties: ${formatCurrency(loan.getPenaltyDue(this.defaultPenaltyRule), loan.currency)} due (${formatCurrency(loan.getWaivedPenalty(), loan.currency)} waived)`
+            );
+          }
+          if (loan.collateral?.length) {
+            const coverage = loan.getCoverageRatio();
+            doc.text(
+              `Collateral: ${formatCurrency(loan.getCollateralValue(), loan.currency)} held${coverage !== undefined ? ` (${Math.round(coverage * 100)}% coverage)` : ''}`
+            );
+            loan.collateral.forEach(item => {
+              doc.text(
+                `  - ${item.description} (${item.type}, ${item.condition}): ${formatCurrency(item.estimatedValue, loan.currency)} - ${item.status}`
+              );
+            });
+          }
           doc.text(`ID: ${loan.id}`);
           doc.moveDown(1);
         });
@@ -330,6 +602,8 @@ export class ExportService {
     filePath: string,
     options: ExportOptions
   ): Promise<number> {
+    await this.loadExportSettings();
+    loans = this.orderByGroup(loans, options);
     const html = `
 <!DOCTYPE html>
 <html lang="en">
@@ -348,6 +622,9 @@ export class ExportService {
         .status-paid { color: green; font-weight: bold; }
         .status-overdue { color: red; font-weight: bold; }
         .status-pending { color: orange; font-weight: bold; }
+        .status-partially-paid { color: steelblue; font-weight: bold; }
+        .status-written-off { color: gray; font-weight: bold; }
+        .status-closed { color: slategray; font-weight: bold; }
         .footer { margin-top: 30px; text-align: center; color: #666; }
     </style>
 </head>
@@ -360,22 +637,63 @@ export class ExportService {
     <div class="summary">
         <h2>Summary</h2>
         <p><strong>Total Loans:</strong> ${loans.length}</p>
-        <p><strong>Total Amount:</strong> ${formatCurrency(this.calculateTotalAmount(loans))}</p>
+        <p><strong>Total Amount:</strong> ${this.formatTotal(this.calculateTotalAmount(loans))}</p>
+        <p><strong>Total Repaid:</strong> ${this.formatTotal(this.calculateTotalPaid(loans))}</p>
+        <p><strong>Outstanding:</strong> ${this.formatTotal(this.calculateTotalOutstanding(loans))}</p>
+        <p><strong>I Owe:</strong> ${this.formatTotal(this.calculateOutstandingByDirection(loans, LoanDirection.PAYABLE))}</p>
+        <p><strong>Owed to Me:</strong> ${this.formatTotal(this.calculateOutstandingByDirection(loans, LoanDirection.RECEIVABLE))}</p>
         <p><strong>Paid Loans:</strong> ${loans.filter(l => l.isPaid).length}</p>
         <p><strong>Overdue Loans:</strong> ${loans.filter(l => l.isOverdue()).length}</p>
-        <p><strong>Pending Loans:</strong> ${loans.filter(l => !l.isPaid && !l.isOverdue()).length}</p>
+        <p><strong>Written Off:</strong> ${this.formatTotal(this.calculateTotalWrittenOff(loans))}</p>
+        <p><strong>Pending Loans:</strong> ${loans.filter(l => l.isOpen() && !l.isOverdue()).length}</p>
+        <p><strong>Written-off Loans:</strong> ${loans.filter(l => l.isWrittenOff()).length}</p>
     </div>
-
+${
+  options.groupBy
+    ? `
+    <h2>Breakdown by ${this.formatGroupBy(options.groupBy)}</h2>
+    <table class="loan-table">
+        <thead>
+            <tr>
+                <th>${this.formatGroupBy(options.groupBy)}</th>
+                <th>Loans</th>
+                <th>Total</th>
+                <th>Outstanding</th>
+            </tr>
+        </thead>
+        <tbody>
+            ${this.summarizeGroups(loans, options.groupBy)
+              .map(
+                group => `
+                <tr>
+                    <td>${group.label}</td>
+                    <td>${group.loanCount}</td>
+                    <td>${this.formatTotal(group.totalAmount)}</td>
+                    <td>${this.formatTotal(group.totalOutstanding)}</td>
+                </tr>
+            `
+              )
+              .join('')}
+        </tbody>
+    </table>
+`
+    : ''
+}
     <h2>Loan Details</h2>
     <table class="loan-table">
         <thead>
             <tr>
-                <th>Lender</th>
+                <th>Name</th>
+                <th>Direction</th>
                 <th>Phone</th>
                 <th>Amount</th>
                 <th>Interest</th>
                 <th>Total</th>
+                <th>Paid</th>
+                <th>Outstanding</th>
                 <th>Due Date</th>
+                <th>Category</th>
+                <th>Priority</th>
                 <th>Status</th>
             </tr>
         </thead>
@@ -385,13 +703,18 @@ export class ExportService {
                 loan => `
                 <tr>
                     <td>${loan.lenderName}</td>
+                    <td>${formatDirection(loan.getDirection())}</td>
                     <td>${loan.phoneNumber}</td>
-                    <td>${formatCurrency(loan.amount)}</td>
-                    <td>${loan.interestRate ? `${loan.interestRate}%` : 'None'}</td>
-                    <td>${formatCurrency(loan.calculateTotalWithInterest())}</td>
+                    <td>${formatCurrency(loan.amount, loan.currency)}</td>
+                    <td>${loan.interestRate ? formatInterestModel(loan.interestRate, loan.interestModel) : 'None'}</td>
+                    <td>${formatCurrency(loan.calculateTotalWithInterest(), loan.currency)}</td>
+                    <td>${formatCurrency(loan.getTotalPaid(), loan.currency)}</td>
+                    <td>${formatCurrency(loan.getOutstandingBalance(), loan.currency)}</td>
                     <td>${format(new Date(loan.repaymentDate), 'PPP')}</td>
-                    <td class="status-${loan.isPaid ? 'paid' : loan.isOverdue() ? 'overdue' : 'pending'}">
-                        ${loan.isPaid ? 'PAID' : loan.isOverdue() ? 'OVERDUE' : 'PENDING'}
+                    <td>${formatCategory(loan.getCategory())}</td>
+                    <td>${formatPriority(loan.getPriority())}</td>
+                    <td class="status-${this.getStatusLabel(loan).toLowerCase().replace(' ', '-')}">
+                        ${this.getStatusLabel(loan)}
                     </td>
                 </tr>
             `
@@ -413,6 +736,161 @@ export class ExportService {
     return stats.size;
   }
 
+  // One row per loan payment in the plan, with what was actually paid in
+  // each month when progress is given
+  async exportDebtPlan(
+    plan: DebtPlan,
+    exportFormat: 'txt' | 'csv' | 'json',
+    progress?: DebtPlanProgress,
+    outputPath?: string
+  ): Promise<ExportResult> {
+    try {
+      await this.initialize();
+
+      const loans = await this.storageService.readLoans();
+      const names = new Map(loans.map(loan => [loan.id, loan.lenderName]));
+      const timestamp = format(new Date(), 'yyyy-MM-dd_HH-mm-ss');
+      const filename = `debt_plan_export_${timestamp}.${exportFormat}`;
+      const filePath = outputPath || path.join(this.exportDir, filename);
+
+      switch (exportFormat) {
+        case 'txt':
+          await this.writeDebtPlanText(plan, names, filePath, progress);
+          break;
+        case 'csv':
+          await this.writeDebtPlanCsv(plan, names, filePath, progress);
+          break;
+        case 'json':
+          await fs.writeFile(
+            filePath,
+            JSON.stringify(
+              {
+                plan,
+                loans: plan.loanIds.map(id => ({ id, name: names.get(id) })),
+                progress,
+              },
+              null,
+              2
+            ),
+            'utf-8'
+          );
+          break;
+        default:
+          throw new Error(`Unsupported export format: ${exportFormat}`);
+      }
+
+      const stats = await fs.stat(filePath);
+      this.logger.info(`Debt plan exported: ${filename}`);
+      return {
+        success: true,
+        filePath,
+        fileSize: stats.size,
+        recordCount: plan.months.length,
+        format: exportFormat,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Debt plan export failed', error as Error);
+      return {
+        success: false,
+        filePath: '',
+        fileSize: 0,
+        recordCount: 0,
+        format: exportFormat,
+        timestamp: new Date().toISOString(),
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  private async writeDebtPlanText(
+    plan: DebtPlan,
+    names: Map<string, string>,
+    filePath: string,
+    progress?: DebtPlanProgress
+  ): Promise<void> {
+    const money = (amount: number) => formatCurrency(amount, plan.currency);
+    let content = `DEBT PAYOFF PLAN: ${plan.name}\n`;
+    content += '='.repeat(80) + '\n\n';
+    content += `Strategy: ${formatStrategy(plan.strategy)}\n`;
+    content += `Monthly Budget: ${money(plan.monthlyBudget)}\n`;
+    content += `First Payment: ${format(new Date(plan.startDate), 'PPP')}\n`;
+    content += `Debt-free: ${plan.debtFreeDate ? format(new Date(plan.debtFreeDate), 'PPP') : 'Not within the projection'}\n`;
+    content += `Total Paid: ${money(plan.totalPaid)}\n`;
+    content += `Total Interest: ${money(plan.totalInterest)}\n`;
+    if (plan.totalPenalties > 0) {
+      content += `Total Penalties: ${money(plan.totalPenalties)}\n`;
+    }
+    if (plan.remainingBalance > 0) {
+      content += `Still Owed: ${money(plan.remainingBalance)}\n`;
+    }
+    if (progress) {
+      content += `Planned to Date: ${money(progress.plannedToDate)}\n`;
+      content += `Paid to Date: ${money(progress.paidToDate)} (${progress.status})\n`;
+    }
+
+    content += '\nPAYOFF ORDER\n';
+    content += '-'.repeat(40) + '\n';
+    plan.loanIds.forEach((id, index) => {
+      content += `${index + 1}. ${names.get(id) || id}\n`;
+    });
+
+    content += '\nMONTH BY MONTH\n';
+    content += '='.repeat(80) + '\n\n';
+    plan.months.forEach((month, index) => {
+      const tracked = progress?.months[index];
+      content += `Month ${index + 1} - ${format(new Date(month.date), 'PPP')}\n`;
+      month.payments.forEach(payment => {
+        content += `   ${names.get(payment.loanId) || payment.loanId}: ${money(payment.amount)}\n`;
+      });
+      content += `   Balance After: ${money(month.endBalance)}\n`;
+      if (tracked && tracked.status !== 'upcoming') {
+        content += `   Actually Paid: ${money(tracked.paid)} (${tracked.status})\n`;
+      }
+      content += '\n';
+    });
+
+    await fs.writeFile(filePath, content, 'utf-8');
+  }
+
+  private async writeDebtPlanCsv(
+    plan: DebtPlan,
+    names: Map<string, string>,
+    filePath: string,
+    progress?: DebtPlanProgress
+  ): Promise<void> {
+    const records = plan.months.flatMap((month, index) => {
+      const tracked = progress?.months[index];
+      return month.payments.map(payment => ({
+        month: index + 1,
+        payment_date: month.date,
+        loan_id: payment.loanId,
+        counterparty: names.get(payment.loanId) || '',
+        currency: plan.currency || '',
+        amount: payment.amount,
+        end_balance: month.endBalance,
+        month_paid: tracked?.status === 'upcoming' ? '' : (tracked?.paid ?? ''),
+        status: tracked?.status || '',
+      }));
+    });
+
+    const csvWriter = createObjectCsvWriter({
+      path: filePath,
+      header: [
+        { id: 'month', title: 'Month' },
+        { id: 'payment_date', title: 'Payment Date' },
+        { id: 'loan_id', title: 'Loan ID' },
+        { id: 'counterparty', title: 'Counterparty Name' },
+        { id: 'currency', title: 'Currency' },
+        { id: 'amount', title: 'Planned Payment' },
+        { id: 'end_balance', title: 'Balance After Month' },
+        { id: 'month_paid', title: 'Actually Paid in Month' },
+        { id: 'status', title: 'Status' },
+      ],
+    });
+    await csvWriter.writeRecords(records);
+  }
+
   async getExportHistory(): Promise<ExportResult[]> {
     try {
       const files = await fs.readdir(this.exportDir);
@@ -501,7 +979,9 @@ export class ExportService {
   }
 
   private filterLoans(loans: LoanModel[], options: ExportOptions): LoanModel[] {
-    let filtered = [...loans];
+    let filtered = options.includeTrashed
+      ? [...loans]
+      : loans.filter(loan => !loan.isTrashed());
 
     if (options.filterPaid !== undefined) {
       filtered = filtered.filter(loan => loan.isPaid === options.filterPaid);
@@ -513,6 +993,12 @@ export class ExportService {
       );
     }
 
+    if (options.filterDirection !== undefined) {
+      filtered = filtered.filter(
+        loan => loan.getDirection() === options.filterDirection
+      );
+    }
+
     return filtered;
   }
 
@@ -552,13 +1038,140 @@ export class ExportService {
     return sorted;
   }
 
+  // Keep the chosen sort order within each group
+  private orderByGroup(
+    loans: LoanModel[],
+    options: ExportOptions
+  ): LoanModel[] {
+    if (!options.groupBy) return loans;
+    return groupLoans(loans, options.groupBy).flatMap(group => group.loans);
+  }
+
+  private getGroupLabels(
+    loans: LoanModel[],
+    groupBy?: LoanGroupBy
+  ): Map<string, string> {
+    const labels = new Map<string, string>();
+    if (!groupBy) return labels;
+    groupLoans(loans, groupBy).forEach(group =>
+      group.loans.forEach(loan => labels.set(loan.id, group.label))
+    );
+    return labels;
+  }
+
+  private summarizeGroups(
+    loans: LoanModel[],
+    groupBy: LoanGroupBy
+  ): ExportGroupSummary[] {
+    return groupLoans(loans, groupBy).map(group => ({
+      key: group.key,
+      label: group.label,
+      loanCount: group.loans.length,
+      totalAmount: this.calculateTotalAmount(group.loans),
+      totalOutstanding: this.calculateTotalOutstanding(group.loans),
+    }));
+  }
+
+  private formatGroupBy(groupBy: LoanGroupBy): string {
+    return groupBy.charAt(0).toUpperCase() + groupBy.slice(1);
+  }
+
   private calculateTotalAmount(loans: LoanModel[]): number {
     return loans.reduce(
-      (total, loan) => total + loan.calculateTotalWithInterest(),
+      (total, loan) => total + this.toReporting(loan.getCountedTotal(), loan),
+      0
+    );
+  }
+
+  private calculateTotalPaid(loans: LoanModel[]): number {
+    return loans.reduce(
+      (total, loan) =>
+        total +
+        this.toReporting(
+          loan.isPaid ? loan.calculateTotalWithInterest() : loan.getTotalPaid(),
+          loan
+        ),
+      0
+    );
+  }
+
+  private calculateTotalOutstanding(loans: LoanModel[]): number {
+    return loans.reduce(
+      (total, loan) =>
+        total + this.toReporting(loan.getOutstandingBalance(), loan),
+      0
+    );
+  }
+
+  // Exports can be called directly, so resolve the configured settings each time
+  private async loadExportSettings(): Promise<void> {
+    await this.configManager.initialize();
+    this.defaultPenaltyRule = await this.configManager.getDefaultPenaltyRule();
+
+    const { currency } = await this.configManager.getCurrencySettings();
+    const { reportingCurrency, rates } =
+      await this.configManager.getExchangeRateSettings();
+    this.converter = createCurrencyConverter(
+      rates,
+      currency,
+      reportingCurrency
+    );
+  }
+
+  // Summary totals are stated in the reporting currency
+  private toReporting(amount: number, loan: LoanModel): number {
+    return this.converter
+      ? this.converter.convert(amount, loan.currency)
+      : amount;
+  }
+
+  private formatTotal(amount: number): string {
+    return formatCurrency(amount, this.converter?.reportingCurrency);
+  }
+
+  private calculateOutstandingByDirection(
+    loans: LoanModel[],
+    direction: LoanDirection
+  ): number {
+    return this.calculateTotalOutstanding(
+      loans.filter(loan => loan.getDirection() === direction)
+    );
+  }
+
+  private calculateTotalWrittenOff(loans: LoanModel[]): number {
+    return loans.reduce(
+      (total, loan) =>
+        total + this.toReporting(loan.getWrittenOffAmount(), loan),
       0
     );
   }
 
+  private calculateTotalCollateral(loans: LoanModel[]): number {
+    return loans.reduce(
+      (total, loan) =>
+        total + this.toReporting(loan.getCollateralValue(), loan),
+      0
+    );
+  }
+
+  private calculateTotalPenalties(loans: LoanModel[]): number {
+    return loans.reduce(
+      (total, loan) =>
+        total +
+        this.toReporting(loan.getPenaltyDue(this.defaultPenaltyRule), loan),
+      0
+    );
+  }
+
+  private getStatusLabel(loan: LoanModel): string {
+    if (loan.isSuperseded()) return 'CLOSED';
+    if (loan.isWrittenOff()) return 'WRITTEN OFF';
+    if (loan.isPaid) return 'PAID';
+    if (loan.isOverdue()) return 'OVERDUE';
+    if (loan.getTotalPaid() > 0) return 'PARTIALLY PAID';
+    return 'PENDING';
+  }
+
   private generateMetadata(
     loans: LoanModel[],
     options: ExportOptions
@@ -571,8 +1184,10 @@ export class ExportService {
       filters: {
         filterPaid: options.filterPaid,
         filterOverdue: options.filterOverdue,
+        filterDirection: options.filterDirection,
         sortBy: options.sortBy,
         sortOrder: options.sortOrder,
+        groupBy: options.groupBy,
       },
       format: options.format,
     };
@@ -596,8 +1211,10 @@ Format: ${metadata.format.toUpperCase()}
 FILTERS APPLIED:
 ${metadata.filters.filterPaid !== undefined ? `- Filter Paid: ${metadata.filters.filterPaid}` : ''}
 ${metadata.filters.filterOverdue !== undefined ? `- Filter Overdue: ${metadata.filters.filterOverdue}` : ''}
+${metadata.filters.filterDirection ? `- Direction: ${formatDirection(metadata.filters.filterDirection)}` : ''}
 ${metadata.filters.sortBy ? `- Sort By: ${metadata.filters.sortBy}` : ''}
 ${metadata.filters.sortOrder ? `- Sort Order: ${metadata.filters.sortOrder}` : ''}
+${metadata.filters.groupBy ? `- Group By: ${this.formatGroupBy(metadata.filters.groupBy)}` : ''}
     `.trim();
   }
 }
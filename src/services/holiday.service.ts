@@ -0,0 +1,177 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../core/logger';
+import { ConfigManager } from '../core/config-manager';
+import { HOLIDAY_DATA_PATH } from '../config';
+import { Holiday, HolidayDetails } from '../types/loan.types';
+import { DueDateCalendar } from '../utils/due-date.utils';
+import {
+  getHolidayFileFormat,
+  getNigerianHolidays,
+  parseHolidaysCsv,
+  parseHolidaysIcs,
+} from '../utils/holiday.utils';
+
+export interface HolidayMergeResult {
+  added: number;
+  skipped: number; // Dates already in the calendar
+}
+
+export class HolidayService {
+  private logger: Logger;
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.logger = new Logger();
+    this.configManager = new ConfigManager();
+  }
+
+  // Grace days and weekend rule from settings with the holiday calendar
+  async getDueDateCalendar(): Promise<DueDateCalendar> {
+    await this.configManager.initialize();
+    const settings = await this.configManager.getDueDateSettings();
+    const holidays = await this.readHolidays();
+    return { ...settings, holidays: holidays.map(holiday => holiday.date) };
+  }
+
+  // Sorted by date
+  async getHolidays(): Promise<Holiday[]> {
+    const holidays = await this.readHolidays();
+    return holidays.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async addHoliday(details: HolidayDetails): Promise<Holiday> {
+    this.assertHolidayDetails(details);
+
+    const holidays = await this.readHolidays();
+    if (holidays.some(holiday => holiday.date === details.date)) {
+      throw new Error(`There is already a holiday on ${details.date}`);
+    }
+
+    const holiday: Holiday = {
+      id: uuidv4(),
+      date: details.date,
+      name: details.name.trim(),
+    };
+    await this.saveHolidays([...holidays, holiday]);
+    return holiday;
+  }
+
+  async deleteHoliday(id: string): Promise<boolean> {
+    const holidays = await this.readHolidays();
+    const remaining = holidays.filter(holiday => holiday.id !== id);
+    if (remaining.length === holidays.length) return false;
+    await this.saveHolidays(remaining);
+    return true;
+  }
+
+  async addNigerianHolidays(year: number): Promise<HolidayMergeResult> {
+    return this.mergeHolidays(getNigerianHolidays(year));
+  }
+
+  // Reads an .ics calendar or a "date,name" CSV file
+  async importHolidays(filePath: string): Promise<HolidayMergeResult> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const details =
+        getHolidayFileFormat(filePath) === 'ics'
+          ? parseHolidaysIcs(content)
+          : parseHolidaysCsv(content);
+      return await this.mergeHolidays(details);
+    } catch (error) {
+      this.logger.error('Failed to import holidays', error as Error);
+      throw error;
+    }
+  }
+
+  // Adds the holidays on dates the calendar does not have yet
+  private async mergeHolidays(
+    details: HolidayDetails[]
+  ): Promise<HolidayMergeResult> {
+    details.forEach(detail => this.assertHolidayDetails(detail));
+
+    const holidays = await this.readHolidays();
+    const dates = new Set(holidays.map(holiday => holiday.date));
+    const added: Holiday[] = [];
+    details.forEach(detail => {
+      if (dates.has(detail.date)) return;
+      dates.add(detail.date);
+      added.push({ id: uuidv4(), date: detail.date, name: detail.name.trim() });
+    });
+
+    if (added.length > 0) {
+      await this.saveHolidays([...holidays, ...added]);
+    }
+    return { added: added.length, skipped: details.length - added.length };
+  }
+
+  private assertHolidayDetails(details: HolidayDetails): void {
+    if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(details.date) ||
+      isNaN(parseISO(details.date).getTime())
+    ) {
+      throw new Error(`Invalid holiday date: ${details.date}`);
+    }
+    if (!details.name.trim()) {
+      throw new Error('Holiday name is required');
+    }
+  }
+
+  // Backups replace the whole calendar
+  async replaceHolidays(holidays: Holiday[]): Promise<void> {
+    await this.saveHolidays(holidays);
+  }
+
+  // Writes the starting calendar on first run; returns how many holidays it
+  // added, or 0 when there is already a calendar
+  async seedHolidays(): Promise<number> {
+    try {
+      await fs.access(HOLIDAY_DATA_PATH);
+      return 0;
+    } catch {
+      const holidays = this.getDefaultHolidays();
+      await this.saveHolidays(holidays);
+      return holidays.length;
+    }
+  }
+
+  // Until the calendar is saved, reads see the default holidays without
+  // writing anything
+  private async readHolidays(): Promise<Holiday[]> {
+    try {
+      const content = await fs.readFile(HOLIDAY_DATA_PATH, 'utf-8');
+      return JSON.parse(content) as Holiday[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.error('Failed to read holiday calendar', error as Error);
+        throw error;
+      }
+      return this.getDefaultHolidays();
+    }
+  }
+
+  // Nigerian public holidays for this year and next; the IDs are derived from
+  // the date so they stay the same from one read to the next
+  private getDefaultHolidays(): Holiday[] {
+    const thisYear = new Date().getFullYear();
+    return [thisYear, thisYear + 1]
+      .flatMap(year => getNigerianHolidays(year))
+      .map(details => ({ id: `holiday-${details.date}`, ...details }));
+  }
+
+  private async saveHolidays(holidays: Holiday[]): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(HOLIDAY_DATA_PATH), { recursive: true });
+      await fs.writeFile(
+        HOLIDAY_DATA_PATH,
+        JSON.stringify(holidays, null, 2),
+        'utf-8'
+      );
+    } catch (error) {
+      this.logger.error('Failed to save holiday calendar', error as Error);
+      throw error;
+    }
+  }
+}
@@ -1,57 +1,1402 @@
 import { Loan } from '../interfaces/loan.interface';
 import { LoanModel } from '../models/loan.model';
+import {
+  AuditAction,
+  CollateralDetails,
+  GuarantorDetails,
+  InstallmentPlan,
+  LoanCollateral,
+  LoanDirection,
+  LoanDocument,
+  LoanGuarantor,
+  LoanRelationship,
+  LoanSplitPart,
+  LoanStatus,
+  LoanWriteOff,
+  PaymentMethod,
+  PaymentRecord,
+  PenaltyRule,
+  PenaltyWaiver,
+  RescheduleRecord,
+  RestructureTerms,
+} from '../types/loan.types';
+import { ConfigManager } from '../core/config-manager';
+import {
+  allocatePayments,
+  generateSchedule,
+  roundAmount,
+  shiftDate,
+} from '../utils/schedule.utils';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import {
+  CurrencyConverter,
+  convertLoan,
+  createCurrencyConverter,
+} from '../utils/currency.utils';
+import {
+  LoanChange,
+  applyLoanChanges,
+  getLoanChanges,
+} from '../utils/audit.utils';
+import { LoanRisk, assessLoanRisks } from '../utils/risk.utils';
+import { DueDateCalendar } from '../utils/due-date.utils';
 import { StorageService } from './storage.service';
+import { AuditService, LoanOperation, OperationHistory } from './audit.service';
+import { DocumentService } from './document.service';
+import { HolidayService } from './holiday.service';
 import { v4 as uuidv4 } from 'uuid';
 
 export class LoanService {
   private storage: StorageService;
+  private configManager: ConfigManager;
+  private auditService: AuditService;
+  private documentService: DocumentService;
+  private holidayService: HolidayService;
+  // Notes for the audit entries of the operation in progress, by loan
+  private pendingNotes?: Map<string, { action?: AuditAction; notes: string }>;
 
   constructor() {
     this.storage = new StorageService();
+    this.configManager = new ConfigManager();
+    this.auditService = new AuditService();
+    this.documentService = new DocumentService();
+    this.holidayService = new HolidayService();
   }
 
   async addLoan(loanData: Omit<Loan, 'id' | 'isPaid'>): Promise<LoanModel> {
-    const loan: Loan = { ...loanData, id: uuidv4(), isPaid: false };
-    const loanModel = new LoanModel(loan);
-    const loans = await this.storage.readLoans();
-    loans.push(loan);
-    await this.storage.saveLoans(loans);
+    const [loanModel] = await this.addLoans([loanData]);
     return loanModel;
   }
 
-  async getLoans(): Promise<LoanModel[]> {
+  // Saves every loan in a single write, so either all are stored or none
+  async addLoans(
+    loansData: Omit<Loan, 'id' | 'isPaid'>[]
+  ): Promise<LoanModel[]> {
+    return this.track(
+      AuditAction.CREATE,
+      loansData.length === 1 ? 'Add loan' : `Add ${loansData.length} loans`,
+      async () => {
+        const now = new Date().toISOString();
+        const newLoans = loansData.map(loanData =>
+          this.buildNewLoan(loanData, now)
+        );
+        const loans = await this.storage.readLoans();
+        await this.storage.saveLoans([...loans, ...newLoans]);
+        const calendar = await this.getDueDateCalendar();
+        return newLoans.map(loan => new LoanModel(loan, calendar));
+      }
+    );
+  }
+
+  // The loan as addLoan would store it, without saving anything
+  async previewLoan(loanData: Omit<Loan, 'id' | 'isPaid'>): Promise<LoanModel> {
+    return new LoanModel(
+      this.buildNewLoan(loanData, new Date().toISOString()),
+      await this.getDueDateCalendar()
+    );
+  }
+
+  // Loans brought in from a file; undone together as one operation
+  async importLoans(
+    loansData: Omit<Loan, 'id' | 'isPaid'>[],
+    source: string
+  ): Promise<LoanModel[]> {
+    return this.track(AuditAction.IMPORT, `Import ${source}`, () =>
+      this.addLoans(loansData)
+    );
+  }
+
+  // Replaces every loan with those from a backup
+  async restoreLoans(loans: Loan[], source: string): Promise<void> {
+    return this.track(AuditAction.RESTORE, `Restore ${source}`, () =>
+      this.storage.saveLoans(loans)
+    );
+  }
+
+  // Points loans at contacts; keyed by loan ID
+  async assignContacts(
+    contactIds: Map<string, string>,
+    description: string
+  ): Promise<number> {
+    return this.track(AuditAction.UPDATE, description, () =>
+      this.saveContactIds(contactIds, description)
+    );
+  }
+
+  // Automatic linking stays out of the undo history, so undo and redo keep
+  // acting on what the user last did
+  async linkContacts(contactIds: Map<string, string>): Promise<number> {
+    return this.saveContactIds(contactIds, 'Link loans to contacts');
+  }
+
+  // Trashed loans are left out unless asked for
+  async getLoans(includeTrashed: boolean = false): Promise<LoanModel[]> {
+    const loans = await this.storage.readLoans();
+    const calendar = await this.getDueDateCalendar();
+    return loans
+      .filter(loan => includeTrashed || !loan.deletion)
+      .map(loan => new LoanModel(loan, calendar));
+  }
+
+  // Most recently deleted first
+  async getTrash(): Promise<LoanModel[]> {
     const loans = await this.storage.readLoans();
-    return loans.map(loan => new LoanModel(loan));
+    const calendar = await this.getDueDateCalendar();
+    return loans
+      .filter(loan => loan.deletion)
+      .sort((a, b) =>
+        b.deletion!.deletedAt.localeCompare(a.deletion!.deletedAt)
+      )
+      .map(loan => new LoanModel(loan, calendar));
+  }
+
+  // Applied to every loan handed out, so overdue checks use effective dates
+  async getDueDateCalendar(): Promise<DueDateCalendar> {
+    return this.holidayService.getDueDateCalendar();
   }
 
   async updateLoan(
     id: string,
     updates: Partial<Loan>
   ): Promise<LoanModel | null> {
-    const loans = await this.storage.readLoans();
-    const loanIndex = loans.findIndex(loan => loan.id === id);
-    if (loanIndex === -1) return null;
-    loans[loanIndex] = { ...loans[loanIndex], ...updates };
-    await this.storage.saveLoans(loans);
-    return new LoanModel(loans[loanIndex]);
+    return this.track(AuditAction.UPDATE, 'Edit loan', async () => {
+      const loans = await this.storage.readLoans();
+      const loanIndex = loans.findIndex(loan => loan.id === id);
+      if (loanIndex === -1) return null;
+      loans[loanIndex] = {
+        ...loans[loanIndex],
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+      await this.storage.saveLoans(loans);
+      return new LoanModel(loans[loanIndex], await this.getDueDateCalendar());
+    });
+  }
+
+  // Moves the loan to the trash; it can be restored until it is purged
+  async deleteLoan(id: string, reason?: string): Promise<boolean> {
+    return this.track(AuditAction.DELETE, 'Move loan to trash', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan || loan.deletion) return false;
+
+      await this.updateLoan(id, {
+        deletion: {
+          deletedAt: new Date().toISOString(),
+          reason: reason?.trim() || undefined,
+        },
+      });
+      this.note(
+        id,
+        `Moved to trash${reason?.trim() ? `: ${reason.trim()}` : ''}`
+      );
+      return true;
+    });
+  }
+
+  async restoreFromTrash(id: string): Promise<LoanModel | null> {
+    return this.track(
+      AuditAction.RESTORE,
+      'Restore loan from trash',
+      async () => {
+        const loans = await this.storage.readLoans();
+        const loan = loans.find(l => l.id === id);
+        if (!loan?.deletion) return null;
+
+        this.note(id, 'Restored from trash');
+        return this.updateLoan(id, { deletion: undefined });
+      }
+    );
   }
 
-  async deleteLoan(id: string): Promise<boolean> {
+  // Permanent: the loans leave loans.json and the undo history for good
+  async purgeLoans(ids: string[]): Promise<number> {
     const loans = await this.storage.readLoans();
-    const updatedLoans = loans.filter(loan => loan.id !== id);
-    if (updatedLoans.length === loans.length) return false;
-    await this.storage.saveLoans(updatedLoans);
-    return true;
+    const purged = loans.filter(loan => ids.includes(loan.id) && loan.deletion);
+    if (purged.length === 0) return 0;
+
+    const purgedIds = purged.map(loan => loan.id);
+    await this.storage.saveLoans(
+      loans.filter(loan => !purgedIds.includes(loan.id))
+    );
+    await this.auditService.recordChanges(
+      AuditAction.DELETE,
+      purged.map(loan => ({ loanId: loan.id, before: loan, after: null })),
+      new Map(purgedIds.map(id => [id, { notes: 'Purged from trash' }]))
+    );
+
+    const dropped = await this.auditService.forgetLoans(purgedIds);
+    await this.removeUnusedDocuments([
+      ...purged,
+      ...dropped.flatMap(operation =>
+        operation.changes.flatMap(change => [change.before, change.after])
+      ),
+    ]);
+    return purged.length;
+  }
+
+  // Days a loan stays in the trash; 0 means until purged by hand
+  async getTrashRetentionDays(): Promise<number> {
+    await this.configManager.initialize();
+    const { trashRetentionDays } =
+      await this.configManager.getStorageSettings();
+    return trashRetentionDays;
+  }
+
+  // Purges loans that have been in the trash longer than the retention period
+  async purgeExpiredTrash(asOf: Date = new Date()): Promise<number> {
+    const trashRetentionDays = await this.getTrashRetentionDays();
+    if (!trashRetentionDays) return 0;
+
+    const trash = await this.getTrash();
+    return this.purgeLoans(
+      trash
+        .filter(
+          loan =>
+            differenceInCalendarDays(
+              asOf,
+              parseISO(loan.deletion!.deletedAt)
+            ) >= trashRetentionDays
+        )
+        .map(loan => loan.id)
+    );
   }
 
   async markLoanAsPaid(id: string): Promise<LoanModel | null> {
-    return this.updateLoan(id, { isPaid: true });
+    return this.track(AuditAction.MARK_PAID, 'Mark loan as paid', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) return null;
+      if (loan.writeOff) {
+        throw new Error('Reinstate a written-off loan before marking it paid');
+      }
+      this.assertNotSuperseded(loan);
+
+      // Settle whatever is left so the ledger adds up to the total owed
+      const calendar = await this.getDueDateCalendar();
+      const outstanding = new LoanModel(loan, calendar).getOutstandingBalance();
+      if (outstanding > 0) {
+        return this.recordPayment(id, {
+          amount: outstanding,
+          paymentDate: new Date().toISOString().split('T')[0],
+          method: PaymentMethod.OTHER,
+          notes: 'Settled in full',
+        });
+      }
+
+      return this.updateLoan(id, { isPaid: true, status: LoanStatus.PAID });
+    });
   }
 
-  getTotalDebt(loans: LoanModel[]): number {
-    return loans.reduce(
-      (total, loan) => total + loan.calculateTotalWithInterest(),
-      0
+  async recordPayment(
+    id: string,
+    payment: Omit<PaymentRecord, 'id' | 'loanId' | 'createdAt'>
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.UPDATE, 'Record payment', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) return null;
+
+      if (loan.writeOff) {
+        throw new Error(
+          'Reinstate a written-off loan before recording payments on it'
+        );
+      }
+      this.assertNotSuperseded(loan);
+
+      const calendar = await this.getDueDateCalendar();
+      const outstanding = roundAmount(
+        new LoanModel(loan, calendar).getOutstandingBalance()
+      );
+      if (payment.amount <= 0) {
+        throw new Error('Payment amount must be greater than zero');
+      }
+      if (payment.amount > outstanding) {
+        throw new Error(
+          `Payment of ${payment.amount} exceeds outstanding balance of ${outstanding}`
+        );
+      }
+
+      const record: PaymentRecord = {
+        ...payment,
+        id: uuidv4(),
+        loanId: id,
+        createdAt: new Date().toISOString(),
+      };
+      const paymentHistory = [...(loan.paymentHistory || []), record].sort(
+        (a, b) =>
+          new Date(a.paymentDate).getTime() - new Date(b.paymentDate).getTime()
+      );
+
+      return this.updateLoan(
+        id,
+        this.getPaymentState(loan, paymentHistory, calendar)
+      );
+    });
+  }
+
+  async removePayment(
+    id: string,
+    paymentId: string
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.UPDATE, 'Remove payment', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) return null;
+      this.assertNotSuperseded(loan);
+
+      const paymentHistory = (loan.paymentHistory || []).filter(
+        payment => payment.id !== paymentId
+      );
+      if (paymentHistory.length === (loan.paymentHistory || []).length) {
+        return null;
+      }
+
+      return this.updateLoan(
+        id,
+        this.getPaymentState(
+          loan,
+          paymentHistory,
+          await this.getDueDateCalendar()
+        )
+      );
+    });
+  }
+
+  async setInstallmentPlan(
+    id: string,
+    plan: InstallmentPlan | null
+  ): Promise<LoanModel | null> {
+    return this.track(
+      AuditAction.UPDATE,
+      'Change installment plan',
+      async () => {
+        const loans = await this.storage.readLoans();
+        const loan = loans.find(l => l.id === id);
+        if (!loan) return null;
+
+        if (!plan) {
+          return this.updateLoan(id, {
+            installmentPlan: undefined,
+            schedule: undefined,
+          });
+        }
+
+        const scheduled = { ...loan, ...this.buildSchedule(loan, plan) };
+        if (loan.isPaid) {
+          return this.updateLoan(id, scheduled);
+        }
+        return this.updateLoan(id, {
+          ...scheduled,
+          ...this.getPaymentState(
+            scheduled,
+            loan.paymentHistory || [],
+            await this.getDueDateCalendar()
+          ),
+        });
+      }
     );
   }
+
+  // Move the due date while keeping the original date and every earlier move
+  async rescheduleLoan(
+    id: string,
+    newDate: string,
+    reason: string,
+    newInterestRate?: number
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.RESCHEDULE, 'Reschedule loan', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) return null;
+
+      const calendar = await this.getDueDateCalendar();
+      if (!new LoanModel(loan, calendar).isOpen()) {
+        throw new Error('Only open loans can be rescheduled');
+      }
+      if (newDate === loan.repaymentDate) {
+        throw new Error('New due date must differ from the current due date');
+      }
+      if (!reason.trim()) {
+        throw new Error('A reason is required to reschedule a loan');
+      }
+      if (newInterestRate !== undefined && loan.schedule?.length) {
+        throw new Error(
+          'Change the installment plan to renegotiate interest on installment loans'
+        );
+      }
+
+      const interestChanged =
+        newInterestRate !== undefined && newInterestRate !== loan.interestRate;
+      const record: RescheduleRecord = {
+        id: uuidv4(),
+        previousDate: loan.repaymentDate,
+        newDate,
+        reason: reason.trim(),
+        previousInterestRate: interestChanged ? loan.interestRate : undefined,
+        newInterestRate: interestChanged ? newInterestRate : undefined,
+        rescheduledAt: new Date().toISOString(),
+      };
+
+      // Open installments move by the same number of days as the final due date
+      const shift = differenceInCalendarDays(
+        parseISO(newDate),
+        parseISO(loan.repaymentDate)
+      );
+      const schedule = loan.schedule?.map(row =>
+        row.remainingAmount > 0
+          ? { ...row, dueDate: shiftDate(row.dueDate, shift) }
+          : row
+      );
+
+      const updated = await this.updateLoan(id, {
+        originalRepaymentDate: loan.originalRepaymentDate || loan.repaymentDate,
+        repaymentDate: newDate,
+        rescheduleHistory: [...(loan.rescheduleHistory || []), record],
+        interestRate: interestChanged ? newInterestRate : loan.interestRate,
+        schedule,
+        status:
+          new LoanModel(loan, calendar).getTotalPaid() > 0
+            ? LoanStatus.PARTIALLY_PAID
+            : LoanStatus.RESCHEDULED,
+      });
+
+      this.note(id, record.reason);
+
+      return updated;
+    });
+  }
+
+  // Cancel a bad debt; whatever is still outstanding is recorded as the loss
+  async writeOffLoan(
+    id: string,
+    reason: string,
+    date: string = new Date().toISOString().split('T')[0]
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.CANCEL, 'Write off loan', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) return null;
+
+      const model = new LoanModel(loan, await this.getDueDateCalendar());
+      if (!model.isOpen()) {
+        throw new Error('Only open loans can be written off');
+      }
+      if (!reason.trim()) {
+        throw new Error('A reason is required to write off a loan');
+      }
+
+      const writeOff: LoanWriteOff = {
+        amount: model.getOutstandingBalance(),
+        date,
+        reason: reason.trim(),
+        recordedAt: new Date().toISOString(),
+      };
+      const updated = await this.updateLoan(id, {
+        writeOff,
+        status: LoanStatus.CANCELLED,
+      });
+
+      this.note(
+        id,
+        `Wrote off ${writeOff.amount} on ${date}: ${writeOff.reason}`
+      );
+
+      return updated;
+    });
+  }
+
+  // Bring a written-off loan back so that late payments can be recorded
+  async reinstateLoan(id: string, note: string): Promise<LoanModel | null> {
+    return this.track(AuditAction.RESTORE, 'Reinstate loan', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) return null;
+
+      if (!loan.writeOff) {
+        throw new Error('Only written-off loans can be reinstated');
+      }
+
+      const reinstated: Loan = { ...loan, writeOff: undefined };
+      const updated = await this.updateLoan(id, {
+        writeOff: undefined,
+        ...this.getPaymentState(
+          reinstated,
+          loan.paymentHistory || [],
+          await this.getDueDateCalendar()
+        ),
+      });
+
+      this.note(
+        id,
+        `Reinstated after write-off of ${loan.writeOff.amount}${note.trim() ? `: ${note.trim()}` : ''}`
+      );
+
+      return updated;
+    });
+  }
+
+  // Merge open loans with one person into a single loan for their balance
+  async consolidateLoans(
+    ids: string[],
+    terms: RestructureTerms
+  ): Promise<LoanModel> {
+    return this.track(
+      AuditAction.RESTRUCTURE,
+      'Consolidate loans',
+      async () => {
+        const loans = await this.storage.readLoans();
+        const sources = loans.filter(loan => ids.includes(loan.id));
+        if (sources.length < 2) {
+          throw new Error('Select at least two loans to consolidate');
+        }
+        const calendar = await this.getDueDateCalendar();
+        this.assertRestructurable(sources, 'consolidated', calendar);
+
+        const [first] = sources;
+        const counterparty = (loan: Loan) =>
+          [
+            loan.lenderName.trim().toLowerCase(),
+            loan.direction || LoanDirection.PAYABLE,
+            loan.currency || '',
+          ].join('|');
+        if (sources.some(loan => counterparty(loan) !== counterparty(first))) {
+          throw new Error(
+            'Only loans with the same person, direction and currency can be consolidated'
+          );
+        }
+
+        const defaultRule = await this.getDefaultPenaltyRule();
+        const amount = roundAmount(
+          sources.reduce(
+            (total, loan) =>
+              total +
+              this.getRolloverAmount(loan, terms, calendar, defaultRule),
+            0
+          )
+        );
+        const [created] = await this.replaceLoans(
+          loans,
+          sources,
+          [{ amount, repaymentDate: terms.repaymentDate }],
+          terms,
+          'consolidation',
+          calendar
+        );
+        return created;
+      }
+    );
+  }
+
+  // Replace an open loan with parts that add up to its outstanding balance
+  async splitLoan(
+    id: string,
+    parts: LoanSplitPart[],
+    note?: string
+  ): Promise<LoanModel[]> {
+    return this.track(AuditAction.RESTRUCTURE, 'Split loan', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) throw new Error('Loan not found');
+      const calendar = await this.getDueDateCalendar();
+      this.assertRestructurable([loan], 'split', calendar);
+
+      if (parts.length < 2) {
+        throw new Error('A loan must be split into at least two parts');
+      }
+      if (parts.some(part => part.amount <= 0)) {
+        throw new Error('Every part must be greater than zero');
+      }
+      const balance = new LoanModel(loan, calendar).getOutstandingBalance();
+      const total = roundAmount(
+        parts.reduce((sum, part) => sum + part.amount, 0)
+      );
+      if (total !== roundAmount(balance)) {
+        throw new Error(
+          `Parts add up to ${total} but the outstanding balance is ${roundAmount(balance)}`
+        );
+      }
+
+      return this.replaceLoans(
+        loans,
+        [loan],
+        parts,
+        {
+          interestRate: loan.interestRate,
+          interestModel: loan.interestModel,
+          note,
+        },
+        'split',
+        calendar
+      );
+    });
+  }
+
+  // Roll an unpaid loan into a new one; a new rate makes it a refinance
+  async renewLoan(id: string, terms: RestructureTerms): Promise<LoanModel> {
+    return this.track(AuditAction.RESTRUCTURE, 'Renew loan', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) throw new Error('Loan not found');
+      const calendar = await this.getDueDateCalendar();
+      this.assertRestructurable([loan], 'renewed', calendar);
+
+      const rateChanged =
+        terms.interestRate !== undefined &&
+        terms.interestRate !== (loan.interestRate || 0);
+      const amount = roundAmount(
+        this.getRolloverAmount(
+          loan,
+          terms,
+          calendar,
+          await this.getDefaultPenaltyRule()
+        )
+      );
+      const [created] = await this.replaceLoans(
+        loans,
+        [loan],
+        [{ amount, repaymentDate: terms.repaymentDate }],
+        {
+          ...terms,
+          interestRate: rateChanged ? terms.interestRate : loan.interestRate,
+          interestModel: terms.interestModel || loan.interestModel,
+        },
+        rateChanged ? 'refinance' : 'renewal',
+        calendar
+      );
+      return created;
+    });
+  }
+
+  async addCollateral(
+    id: string,
+    details: CollateralDetails
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.UPDATE, 'Add collateral', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) return null;
+
+      this.assertCollateralDetails(details);
+      const now = new Date().toISOString();
+      const item: LoanCollateral = {
+        ...details,
+        id: uuidv4(),
+        loanId: id,
+        status: 'held',
+        createdAt: now,
+        updatedAt: now,
+      };
+      const updated = await this.updateLoan(id, {
+        collateral: [...(loan.collateral || []), item],
+      });
+
+      this.note(
+        id,
+        `Added collateral: ${item.description} valued at ${item.estimatedValue}`
+      );
+
+      return updated;
+    });
+  }
+
+  async updateCollateral(
+    id: string,
+    collateralId: string,
+    updates: Partial<CollateralDetails>
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.UPDATE, 'Edit collateral', async () => {
+      return this.changeCollateral(id, collateralId, item => {
+        const changed = { ...item, ...updates };
+        this.assertCollateralDetails(changed);
+        return {
+          item: changed,
+          notes: `Updated collateral: ${changed.description}`,
+        };
+      });
+    });
+  }
+
+  // Hand collateral back, usually once the loan it secured is settled
+  async releaseCollateral(
+    id: string,
+    collateralId: string,
+    note?: string
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.UPDATE, 'Release collateral', async () => {
+      return this.changeCollateral(id, collateralId, item => ({
+        item: {
+          ...item,
+          status: 'released',
+          notes: note?.trim() || item.notes,
+        },
+        notes: `Released collateral: ${item.description}`,
+      }));
+    });
+  }
+
+  // Keep collateral against a default; what it fetched counts as a payment
+  async seizeCollateral(
+    id: string,
+    collateralId: string,
+    realizedAmount: number,
+    date: string = new Date().toISOString().split('T')[0]
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.UPDATE, 'Seize collateral', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) return null;
+
+      const model = new LoanModel(loan, await this.getDueDateCalendar());
+      if (!model.isOpen()) {
+        throw new Error('Collateral can only be seized on an open loan');
+      }
+      if (realizedAmount < 0) {
+        throw new Error('Realized amount cannot be negative');
+      }
+      if (realizedAmount > model.getOutstandingBalance()) {
+        throw new Error(
+          `Realized amount of ${realizedAmount} exceeds outstanding balance of ${model.getOutstandingBalance()}`
+        );
+      }
+
+      let updated = await this.changeCollateral(id, collateralId, item => ({
+        item: { ...item, status: 'seized' },
+        notes: `Seized collateral: ${item.description} for ${realizedAmount}`,
+      }));
+      if (updated && realizedAmount > 0) {
+        const seized = updated.collateral!.find(c => c.id === collateralId)!;
+        updated = await this.recordPayment(id, {
+          amount: realizedAmount,
+          paymentDate: date,
+          method: PaymentMethod.OTHER,
+          notes: `Proceeds from seized collateral: ${seized.description}`,
+        });
+      }
+      return updated;
+    });
+  }
+
+  async addGuarantor(
+    id: string,
+    details: GuarantorDetails,
+    isActive: boolean = true
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.UPDATE, 'Add guarantor', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) return null;
+
+      if (!details.name.trim()) {
+        throw new Error('A guarantor needs a name');
+      }
+      if (!(details.guaranteeAmount > 0)) {
+        throw new Error('Guaranteed amount must be greater than zero');
+      }
+      if (details.guaranteeAmount > loan.amount) {
+        throw new Error(
+          `Guaranteed amount of ${details.guaranteeAmount} exceeds the loan amount of ${loan.amount}`
+        );
+      }
+
+      const now = new Date().toISOString();
+      const guarantor: LoanGuarantor = {
+        ...details,
+        id: uuidv4(),
+        loanId: id,
+        isActive,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const updated = await this.updateLoan(id, {
+        guarantors: [...(loan.guarantors || []), guarantor],
+      });
+
+      this.note(
+        id,
+        `Added guarantor ${guarantor.name} for ${guarantor.guaranteeAmount}`
+      );
+
+      return updated;
+    });
+  }
+
+  // Activate once the guarantor has agreed; release when they are let off
+  async setGuarantorActive(
+    id: string,
+    guarantorId: string,
+    isActive: boolean
+  ): Promise<LoanModel | null> {
+    return this.track(
+      AuditAction.UPDATE,
+      isActive ? 'Activate guarantor' : 'Release guarantor',
+      async () => {
+        const loans = await this.storage.readLoans();
+        const loan = loans.find(l => l.id === id);
+        if (!loan) return null;
+
+        const guarantor = (loan.guarantors || []).find(
+          g => g.id === guarantorId
+        );
+        if (!guarantor) return null;
+        if (guarantor.isActive === isActive) {
+          throw new Error(
+            `${guarantor.name} is already ${isActive ? 'active' : 'released'}`
+          );
+        }
+
+        const now = new Date().toISOString();
+        const updated = await this.updateLoan(id, {
+          guarantors: (loan.guarantors || []).map(g =>
+            g.id === guarantorId
+              ? {
+                  ...g,
+                  isActive,
+                  releasedAt: isActive ? undefined : now,
+                  updatedAt: now,
+                }
+              : g
+          ),
+        });
+
+        this.note(
+          id,
+          `${isActive ? 'Activated' : 'Released'} guarantor ${guarantor.name}`
+        );
+
+        return updated;
+      }
+    );
+  }
+
+  // Copy a file into the document store and attach it to the loan
+  async attachDocument(
+    id: string,
+    sourcePath: string,
+    type: LoanDocument['type']
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.UPDATE, 'Attach document', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) return null;
+
+      const stored = await this.documentService.store(sourcePath);
+      const document: LoanDocument = {
+        ...stored,
+        id: uuidv4(),
+        loanId: id,
+        type,
+        uploadedAt: new Date().toISOString(),
+      };
+      const updated = await this.updateLoan(id, {
+        documents: [...(loan.documents || []), document],
+      });
+
+      this.note(
+        id,
+        `Attached ${document.type} ${document.name} (${document.checksum.slice(0, 12)})`
+      );
+
+      return updated;
+    });
+  }
+
+  async removeDocument(
+    id: string,
+    documentId: string
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.UPDATE, 'Remove document', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) return null;
+
+      const document = (loan.documents || []).find(d => d.id === documentId);
+      if (!document) return null;
+
+      const updated = await this.updateLoan(id, {
+        documents: (loan.documents || []).filter(d => d.id !== documentId),
+      });
+
+      this.note(id, `Removed ${document.type} ${document.name}`);
+
+      return updated;
+    });
+  }
+
+  async getDocumentLocation(
+    document: LoanDocument
+  ): Promise<{ path: string; exists: boolean }> {
+    return {
+      path: this.documentService.resolvePath(document),
+      exists: await this.documentService.exists(document),
+    };
+  }
+
+  // Converts into the reporting currency using rates in effect today
+  async getCurrencyConverter(): Promise<CurrencyConverter> {
+    await this.configManager.initialize();
+    const { currency } = await this.configManager.getCurrencySettings();
+    const { reportingCurrency, rates } =
+      await this.configManager.getExchangeRateSettings();
+    return createCurrencyConverter(rates, currency, reportingCurrency);
+  }
+
+  toReportingCurrency(
+    loans: LoanModel[],
+    converter: CurrencyConverter
+  ): LoanModel[] {
+    return loans.map(
+      loan => new LoanModel(convertLoan(loan, converter), loan.getCalendar())
+    );
+  }
+
+  // Every loan is scored against the rest of the portfolio, so the
+  // risk of any loan can be looked up by ID
+  async getLoanRisks(): Promise<Map<string, LoanRisk>> {
+    const [loans, converter] = await Promise.all([
+      this.getLoans(),
+      this.getCurrencyConverter(),
+    ]);
+    const thresholds = await this.configManager.getRiskThresholds();
+    return assessLoanRisks(loans, thresholds, converter);
+  }
+
+  // Rule applied to loans that do not carry their own penalty rule
+  async getDefaultPenaltyRule(): Promise<PenaltyRule | undefined> {
+    await this.configManager.initialize();
+    return this.configManager.getDefaultPenaltyRule();
+  }
+
+  async setPenaltyRule(
+    id: string,
+    rule: PenaltyRule | null
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.UPDATE, 'Change penalty rule', async () => {
+      return this.updateLoan(id, { penaltyRule: rule || undefined });
+    });
+  }
+
+  async waivePenalty(
+    id: string,
+    amount: number,
+    reason: string
+  ): Promise<LoanModel | null> {
+    return this.track(AuditAction.WAIVE_PENALTY, 'Waive penalty', async () => {
+      const loans = await this.storage.readLoans();
+      const loan = loans.find(l => l.id === id);
+      if (!loan) return null;
+
+      const penaltyDue = new LoanModel(
+        loan,
+        await this.getDueDateCalendar()
+      ).getPenaltyDue(await this.getDefaultPenaltyRule());
+      if (amount <= 0) {
+        throw new Error('Waiver amount must be greater than zero');
+      }
+      if (amount > penaltyDue) {
+        throw new Error(
+          `Waiver of ${amount} exceeds penalty due of ${penaltyDue}`
+        );
+      }
+
+      const waiver: PenaltyWaiver = {
+        id: uuidv4(),
+        amount,
+        reason,
+        waivedAt: new Date().toISOString(),
+      };
+      const updated = await this.updateLoan(id, {
+        penaltyWaivers: [...(loan.penaltyWaivers || []), waiver],
+      });
+
+      this.note(id, `Waived ${amount} of ${penaltyDue} penalty: ${reason}`);
+
+      return updated;
+    });
+  }
+
+  async getHistory(): Promise<OperationHistory> {
+    return this.auditService.getHistory();
+  }
+
+  // Reverts the latest operations, newest first
+  async undo(count: number = 1): Promise<LoanOperation[]> {
+    return this.replay('undo', count);
+  }
+
+  async redo(count: number = 1): Promise<LoanOperation[]> {
+    return this.replay('redo', count);
+  }
+
+  // Snapshots the loans an operation touches so it can be audited and undone.
+  // Nested calls belong to the outermost operation.
+  private async track<T>(
+    action: AuditAction,
+    description: string,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    if (this.pendingNotes) return operation();
+
+    const before = await this.storage.readLoans();
+    const notes = new Map<string, { action?: AuditAction; notes: string }>();
+    this.pendingNotes = notes;
+    try {
+      return await operation();
+    } finally {
+      this.pendingNotes = undefined;
+      // Recorded even when the operation fails part way
+      const changes = getLoanChanges(before, await this.storage.readLoans());
+      if (changes.length > 0) {
+        const dropped = await this.auditService.pushOperation({
+          action,
+          description,
+          changes,
+        });
+        await this.auditService.recordChanges(action, changes, notes);
+        await this.removeUnusedDocuments(
+          dropped.flatMap(operation =>
+            operation.changes.flatMap(change => [change.before, change.after])
+          )
+        );
+      }
+    }
+  }
+
+  private async saveContactIds(
+    contactIds: Map<string, string>,
+    description: string
+  ): Promise<number> {
+    const loans = await this.storage.readLoans();
+    const now = new Date().toISOString();
+    let assigned = 0;
+    const updated = loans.map(loan => {
+      const contactId = contactIds.get(loan.id);
+      if (!contactId || contactId === loan.contactId) return loan;
+      assigned++;
+      this.note(loan.id, description);
+      return { ...loan, contactId, updatedAt: now };
+    });
+    if (assigned > 0) await this.storage.saveLoans(updated);
+    return assigned;
+  }
+
+  private note(loanId: string, notes: string, action?: AuditAction): void {
+    if (!this.pendingNotes) return;
+    const existing = this.pendingNotes.get(loanId);
+    this.pendingNotes.set(loanId, {
+      action: action || existing?.action,
+      notes: existing ? `${existing.notes}; ${notes}` : notes,
+    });
+  }
+
+  private async replay(
+    direction: 'undo' | 'redo',
+    count: number
+  ): Promise<LoanOperation[]> {
+    const replayed: LoanOperation[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const history = await this.auditService.getHistory();
+      const operation = history[direction][history[direction].length - 1];
+      if (!operation) break;
+
+      const loans = await this.storage.readLoans();
+      await this.storage.saveLoans(
+        applyLoanChanges(loans, operation.changes, direction)
+      );
+      await this.auditService.shiftOperation(direction);
+
+      const changes: LoanChange[] =
+        direction === 'undo'
+          ? operation.changes.map(change => ({
+              loanId: change.loanId,
+              before: change.after,
+              after: change.before,
+            }))
+          : operation.changes;
+      const verb = direction === 'undo' ? 'Undid' : 'Redid';
+      await this.auditService.recordChanges(
+        direction === 'undo' ? AuditAction.UNDO : AuditAction.REDO,
+        changes,
+        new Map(
+          changes.map(change => [
+            change.loanId,
+            { notes: `${verb} "${operation.description}"` },
+          ])
+        )
+      );
+      replayed.push(operation);
+    }
+
+    return replayed;
+  }
+
+  // Stored files are shared by identical uploads and by the undo history,
+  // so a file is only removed once nothing can refer to it again
+  private async removeUnusedDocuments(
+    candidates: (Loan | null)[]
+  ): Promise<void> {
+    const { undo, redo } = await this.auditService.getHistory();
+    const referenced = [
+      ...(await this.storage.readLoans()),
+      ...[...undo, ...redo].flatMap(operation =>
+        operation.changes.flatMap(change => [change.before, change.after])
+      ),
+    ].flatMap(loan => loan?.documents || []);
+
+    const removed = new Set<string>();
+    for (const document of candidates.flatMap(loan => loan?.documents || [])) {
+      if (
+        removed.has(document.filePath) ||
+        referenced.some(d => d.filePath === document.filePath)
+      ) {
+        continue;
+      }
+      removed.add(document.filePath);
+      await this.documentService.remove(document);
+    }
+  }
+
+  private assertCollateralDetails(details: CollateralDetails): void {
+    if (!details.description.trim()) {
+      throw new Error('Collateral needs a description');
+    }
+    if (!(details.estimatedValue > 0)) {
+      throw new Error('Estimated value must be greater than zero');
+    }
+  }
+
+  // Only held collateral can change; released or seized items are history
+  private async changeCollateral(
+    id: string,
+    collateralId: string,
+    change: (item: LoanCollateral) => { item: LoanCollateral; notes: string }
+  ): Promise<LoanModel | null> {
+    const loans = await this.storage.readLoans();
+    const loan = loans.find(l => l.id === id);
+    if (!loan) return null;
+
+    const current = (loan.collateral || []).find(c => c.id === collateralId);
+    if (!current) return null;
+    if (current.status !== 'held') {
+      throw new Error(`This collateral was already ${current.status}`);
+    }
+
+    const now = new Date().toISOString();
+    const { item, notes } = change(current);
+    const resolved = item.status !== 'held';
+    const updated = await this.updateLoan(id, {
+      collateral: (loan.collateral || []).map(c =>
+        c.id === collateralId
+          ? { ...item, updatedAt: now, resolvedAt: resolved ? now : undefined }
+          : c
+      ),
+    });
+
+    this.note(id, notes);
+
+    return updated;
+  }
+
+  private assertRestructurable(
+    loans: Loan[],
+    action: string,
+    calendar: DueDateCalendar
+  ): void {
+    const closed = loans.find(loan => !new LoanModel(loan, calendar).isOpen());
+    if (closed) {
+      throw new Error(
+        `Only open loans can be ${action}; ${closed.lenderName} is already closed`
+      );
+    }
+  }
+
+  // A rolled-over loan's ledger is frozen; payments go to its replacement
+  private assertNotSuperseded(loan: Loan): void {
+    if (loan.supersededBy) {
+      throw new Error(
+        'This loan was rolled into another loan; record payments there instead'
+      );
+    }
+  }
+
+  private getRolloverAmount(
+    loan: Loan,
+    terms: RestructureTerms,
+    calendar: DueDateCalendar,
+    defaultRule?: PenaltyRule
+  ): number {
+    const model = new LoanModel(loan, calendar);
+    return (
+      model.getOutstandingBalance() +
+      (terms.includePenalties ? model.getPenaltyDue(defaultRule) : 0)
+    );
+  }
+
+  // Close the sources and create their replacements, linked both ways
+  private async replaceLoans(
+    loans: Loan[],
+    sources: Loan[],
+    parts: LoanSplitPart[],
+    terms: Omit<RestructureTerms, 'repaymentDate'>,
+    relationshipType: LoanRelationship['relationshipType'],
+    calendar: DueDateCalendar
+  ): Promise<LoanModel[]> {
+    const [template] = sources;
+    const createdAt = new Date().toISOString();
+    const created: Loan[] = parts.map(part => {
+      const id = uuidv4();
+      return {
+        id,
+        direction: template.direction,
+        lenderName: template.lenderName,
+        phoneNumber: template.phoneNumber,
+        amount: part.amount,
+        currency: template.currency,
+        repaymentDate: part.repaymentDate,
+        interestRate: terms.interestRate,
+        interestModel: terms.interestRate ? terms.interestModel : undefined,
+        isPaid: false,
+        status: LoanStatus.PENDING,
+        penaltyRule: template.penaltyRule,
+        createdAt,
+        updatedAt: createdAt,
+        category: template.category,
+        priority: template.priority,
+        tags: Array.from(new Set(sources.flatMap(source => source.tags || []))),
+        relationships: sources.map(source => ({
+          id: uuidv4(),
+          primaryLoanId: id,
+          relatedLoanId: source.id,
+          relationshipType,
+          description: terms.note?.trim() || undefined,
+          createdAt,
+        })),
+      };
+    });
+
+    const sourceIds = sources.map(source => source.id);
+    const supersededBy = created[0].id;
+
+    // Held collateral moves with the balance to the first replacement loan
+    const carried = sources.flatMap(source =>
+      (source.collateral || [])
+        .filter(item => item.status === 'held')
+        .map(item => ({ ...item, loanId: supersededBy }))
+    );
+    if (carried.length > 0) created[0].collateral = carried;
+
+    await this.storage.saveLoans([
+      ...loans.map(loan =>
+        sourceIds.includes(loan.id)
+          ? {
+              ...loan,
+              supersededBy,
+              status: LoanStatus.CLOSED,
+              updatedAt: createdAt,
+              collateral: loan.collateral?.filter(
+                item => item.status !== 'held'
+              ),
+            }
+          : loan
+      ),
+      ...created,
+    ]);
+
+    for (const source of sources) {
+      this.note(
+        source.id,
+        `Closed by ${relationshipType} into ${created.map(loan => loan.id).join(', ')}`
+      );
+    }
+    for (const loan of created) {
+      this.note(
+        loan.id,
+        `Created by ${relationshipType} of ${sourceIds.length} loan${sourceIds.length === 1 ? '' : 's'}`,
+        AuditAction.CREATE
+      );
+    }
+
+    return created.map(loan => new LoanModel(loan, calendar));
+  }
+
+  private buildNewLoan(
+    loanData: Omit<Loan, 'id' | 'isPaid'>,
+    now: string
+  ): Loan {
+    const loan: Loan = {
+      ...loanData,
+      id: uuidv4(),
+      isPaid: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    return loan.installmentPlan
+      ? { ...loan, ...this.buildSchedule(loan, loan.installmentPlan) }
+      : loan;
+  }
+
+  // Generate installments; the loan falls due with its final installment
+  private buildSchedule(loan: Loan, plan: InstallmentPlan): Partial<Loan> {
+    const schedule = generateSchedule(
+      loan.id,
+      loan.amount,
+      loan.interestRate || 0,
+      plan
+    );
+    return {
+      installmentPlan: plan,
+      schedule,
+      repaymentDate: schedule[schedule.length - 1].dueDate,
+    };
+  }
+
+  // Recompute paid flag and status after the ledger changes
+  private getPaymentState(
+    loan: Loan,
+    paymentHistory: PaymentRecord[],
+    calendar: DueDateCalendar
+  ): Partial<Loan> {
+    const model = new LoanModel(
+      { ...loan, paymentHistory, isPaid: false },
+      calendar
+    );
+    const isPaid = roundAmount(model.getOutstandingBalance()) <= 0;
+    return {
+      paymentHistory,
+      schedule: loan.schedule
+        ? allocatePayments(loan.schedule, paymentHistory)
+        : undefined,
+      isPaid,
+      status: isPaid
+        ? LoanStatus.PAID
+        : model.getTotalPaid() > 0
+          ? LoanStatus.PARTIALLY_PAID
+          : model.isRescheduled()
+            ? LoanStatus.RESCHEDULED
+            : LoanStatus.PENDING,
+    };
+  }
+
+  // Written-off loans are losses, not debt
+  getTotalDebt(loans: LoanModel[]): number {
+    return loans
+      .filter(loan => !loan.isWrittenOff())
+      .reduce((total, loan) => total + loan.getCountedTotal(), 0);
+  }
+
+  // Outstanding balances split by direction; a positive net means I am owed
+  getNetPosition(loans: LoanModel[]): {
+    payable: number;
+    receivable: number;
+    net: number;
+  } {
+    const payable = loans
+      .filter(loan => !loan.isReceivable())
+      .reduce((total, loan) => total + loan.getOutstandingBalance(), 0);
+    const receivable = loans
+      .filter(loan => loan.isReceivable())
+      .reduce((total, loan) => total + loan.getOutstandingBalance(), 0);
+    return { payable, receivable, net: receivable - payable };
+  }
 }
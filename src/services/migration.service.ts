@@ -0,0 +1,95 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { format } from 'date-fns';
+import { Logger } from '../core/logger';
+import { BACKUP_DIR, LOAN_DATA_PATH } from '../config';
+import { StorageService } from './storage.service';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MigrationStep,
+  detectSchemaVersion,
+  migrateData,
+} from '../utils/migration.utils';
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  loanCount: number;
+  steps: MigrationStep[];
+  dryRun: boolean;
+  backupPath?: string; // Copy of the file as it was before migrating
+}
+
+export class MigrationService {
+  private logger: Logger;
+  private storageService: StorageService;
+
+  constructor() {
+    this.logger = new Logger();
+    this.storageService = new StorageService();
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    const raw = await this.storageService.readRaw();
+    return raw === undefined
+      ? CURRENT_SCHEMA_VERSION
+      : detectSchemaVersion(raw);
+  }
+
+  // Report what migrate() would change without touching the data file
+  async dryRun(): Promise<MigrationReport> {
+    return this.run(true);
+  }
+
+  // Upgrade loans.json step by step, copying the original file aside first
+  async migrate(): Promise<MigrationReport> {
+    return this.run(false);
+  }
+
+  private async run(dryRun: boolean): Promise<MigrationReport> {
+    try {
+      const raw = await this.storageService.readRaw();
+      if (raw === undefined) {
+        return {
+          fromVersion: CURRENT_SCHEMA_VERSION,
+          toVersion: CURRENT_SCHEMA_VERSION,
+          loanCount: 0,
+          steps: [],
+          dryRun,
+        };
+      }
+
+      const outcome = migrateData(raw);
+      const report: MigrationReport = {
+        fromVersion: outcome.fromVersion,
+        toVersion: outcome.toVersion,
+        loanCount: outcome.data.loans.length,
+        steps: outcome.steps,
+        dryRun,
+      };
+      if (dryRun || outcome.steps.length === 0) return report;
+
+      report.backupPath = await this.backupDataFile(outcome.fromVersion);
+      await this.storageService.saveLoans(outcome.data.loans);
+
+      this.logger.info(
+        `Loan data migrated from schema v${outcome.fromVersion} to v${outcome.toVersion}`,
+        { backupPath: report.backupPath }
+      );
+      return report;
+    } catch (error) {
+      this.logger.error('Failed to migrate loan data', error as Error);
+      throw error;
+    }
+  }
+
+  private async backupDataFile(version: number): Promise<string> {
+    await fs.mkdir(BACKUP_DIR, { recursive: true });
+    const backupPath = path.join(
+      BACKUP_DIR,
+      `loans_schema-v${version}_${format(new Date(), 'yyyy-MM-dd_HH-mm-ss')}.json`
+    );
+    await fs.copyFile(LOAN_DATA_PATH, backupPath);
+    return backupPath;
+  }
+}
@@ -0,0 +1,58 @@
+import { Logger } from '../core/logger';
+import { LoanModel } from '../models/loan.model';
+import {
+  PayoffComparison,
+  PayoffScenario,
+  comparePayoff,
+} from '../utils/payoff.utils';
+import { LoanService } from './loan.service';
+
+export interface PayoffCalculation extends PayoffComparison {
+  currency?: string; // Currency of every amount in the comparison
+  missingRates: string[]; // Currencies counted unconverted for lack of a rate
+}
+
+export class PayoffService {
+  private logger: Logger;
+  private loanService: LoanService;
+
+  constructor() {
+    this.logger = new Logger();
+    this.loanService = new LoanService();
+  }
+
+  async getOpenLoans(): Promise<LoanModel[]> {
+    const loans = await this.loanService.getLoans();
+    return loans.filter(loan => loan.isOpen());
+  }
+
+  // A single loan is worked out in its own currency; several loans are
+  // converted to the reporting currency first
+  async calculate(
+    loans: LoanModel[],
+    scenario: PayoffScenario
+  ): Promise<PayoffCalculation> {
+    try {
+      const defaultPenaltyRule = await this.loanService.getDefaultPenaltyRule();
+
+      if (loans.length === 1) {
+        return {
+          ...comparePayoff(loans, scenario, { defaultPenaltyRule }),
+          currency: loans[0].currency,
+          missingRates: [],
+        };
+      }
+
+      const converter = await this.loanService.getCurrencyConverter();
+      const converted = this.loanService.toReportingCurrency(loans, converter);
+      return {
+        ...comparePayoff(converted, scenario, { defaultPenaltyRule }),
+        currency: converter.reportingCurrency,
+        missingRates: Array.from(converter.missingRates),
+      };
+    } catch (error) {
+      this.logger.error('Failed to calculate payoff', error as Error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,240 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../core/logger';
+import { RECURRING_DATA_PATH } from '../config';
+import { LoanModel } from '../models/loan.model';
+import {
+  RecurringLoan,
+  RecurringLoanDetails,
+  RecurringOccurrence,
+  RecurringStatus,
+} from '../types/loan.types';
+import {
+  buildRecurringLoanData,
+  getDueOccurrences,
+  getUpcomingOccurrences,
+  isPastSeriesEnd,
+} from '../utils/recurring.utils';
+import { LoanService } from './loan.service';
+
+export interface RecurringRunResult {
+  generated: LoanModel[];
+  skipped: RecurringOccurrence[];
+  completed: RecurringLoan[]; // Series that reached their end in this run
+}
+
+export class RecurringService {
+  private logger: Logger;
+  private loanService: LoanService;
+
+  constructor() {
+    this.logger = new Logger();
+    this.loanService = new LoanService();
+  }
+
+  async getSeries(): Promise<RecurringLoan[]> {
+    return this.readSeries();
+  }
+
+  async createSeries(details: RecurringLoanDetails): Promise<RecurringLoan> {
+    this.assertSeriesDetails(details);
+
+    const now = new Date().toISOString();
+    const series: RecurringLoan = {
+      ...details,
+      name: details.name.trim(),
+      id: uuidv4(),
+      status: RecurringStatus.ACTIVE,
+      nextOccurrence: 0,
+      skippedDates: [],
+      generatedLoanIds: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    const allSeries = await this.readSeries();
+    await this.saveSeries([...allSeries, series]);
+    return series;
+  }
+
+  // Upcoming occurrences across active series, soonest first
+  async getUpcoming(perSeries: number = 3): Promise<RecurringOccurrence[]> {
+    const allSeries = await this.readSeries();
+    return allSeries
+      .filter(series => series.status === RecurringStatus.ACTIVE)
+      .flatMap(series => getUpcomingOccurrences(series, perSeries))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Toggles whether a pending occurrence will generate a loan
+  async toggleSkip(id: string, date: string): Promise<RecurringLoan | null> {
+    const allSeries = await this.readSeries();
+    const series = allSeries.find(s => s.id === id);
+    if (!series) return null;
+    if (series.status !== RecurringStatus.ACTIVE) {
+      throw new Error('Only active series can skip occurrences');
+    }
+    if (
+      !getDueOccurrences(series, date).some(
+        occurrence => occurrence.date === date
+      )
+    ) {
+      throw new Error(`${date} is not an upcoming occurrence of this series`);
+    }
+
+    const skippedDates = series.skippedDates.includes(date)
+      ? series.skippedDates.filter(skipped => skipped !== date)
+      : [...series.skippedDates, date].sort();
+    return this.changeSeries(allSeries, id, { skippedDates });
+  }
+
+  // Loans already generated are kept; only future occurrences stop
+  async stopSeries(id: string): Promise<RecurringLoan | null> {
+    const allSeries = await this.readSeries();
+    if (!allSeries.some(s => s.id === id)) return null;
+    return this.changeSeries(allSeries, id, {
+      status: RecurringStatus.STOPPED,
+    });
+  }
+
+  // asOf is a yyyy-MM-dd date; every occurrence up to it is handled once
+  async generateDueLoans(
+    asOf: string = new Date().toISOString().split('T')[0]
+  ): Promise<RecurringRunResult> {
+    const allSeries = await this.readSeries();
+    const result: RecurringRunResult = {
+      generated: [],
+      skipped: [],
+      completed: [],
+    };
+
+    const pending = allSeries
+      .filter(series => series.status === RecurringStatus.ACTIVE)
+      .map(series => ({ series, due: getDueOccurrences(series, asOf) }))
+      .filter(
+        ({ series, due }) =>
+          due.length > 0 || isPastSeriesEnd(series, series.nextOccurrence)
+      );
+    if (pending.length === 0) return result;
+
+    try {
+      const toGenerate = pending.flatMap(({ series, due }) =>
+        due
+          .filter(occurrence => !occurrence.skipped)
+          .map(occurrence => ({ series, occurrence }))
+      );
+      result.generated = await this.loanService.addLoans(
+        toGenerate.map(({ series, occurrence }) =>
+          buildRecurringLoanData(series, occurrence)
+        )
+      );
+      result.skipped = pending.flatMap(({ due }) =>
+        due.filter(occurrence => occurrence.skipped)
+      );
+
+      const now = new Date().toISOString();
+      const updatedSeries = allSeries.map(series => {
+        const entry = pending.find(p => p.series.id === series.id);
+        if (!entry) return series;
+
+        const nextOccurrence = series.nextOccurrence + entry.due.length;
+        const generatedIds = result.generated
+          .filter((_, i) => toGenerate[i].series.id === series.id)
+          .map(loan => loan.id);
+        const updated: RecurringLoan = {
+          ...series,
+          nextOccurrence,
+          generatedLoanIds: [...series.generatedLoanIds, ...generatedIds],
+          lastGeneratedAt:
+            generatedIds.length > 0 ? now : series.lastGeneratedAt,
+          status: isPastSeriesEnd(series, nextOccurrence)
+            ? RecurringStatus.COMPLETED
+            : series.status,
+          updatedAt: now,
+        };
+        if (updated.status === RecurringStatus.COMPLETED) {
+          result.completed.push(updated);
+        }
+        return updated;
+      });
+      await this.saveSeries(updatedSeries);
+
+      if (result.generated.length > 0) {
+        this.logger.info(
+          `Generated ${result.generated.length} recurring loans`,
+          { asOf, loanIds: result.generated.map(loan => loan.id) }
+        );
+      }
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to generate recurring loans', error as Error);
+      throw error;
+    }
+  }
+
+  // Backups replace the whole series list
+  async replaceSeries(allSeries: RecurringLoan[]): Promise<void> {
+    await this.saveSeries(allSeries);
+  }
+
+  private async changeSeries(
+    allSeries: RecurringLoan[],
+    id: string,
+    changes: Partial<RecurringLoan>
+  ): Promise<RecurringLoan> {
+    const updated = allSeries.map(series =>
+      series.id === id
+        ? { ...series, ...changes, updatedAt: new Date().toISOString() }
+        : series
+    );
+    await this.saveSeries(updated);
+    return updated.find(series => series.id === id)!;
+  }
+
+  private assertSeriesDetails(details: RecurringLoanDetails): void {
+    if (!details.name.trim()) {
+      throw new Error('Series name cannot be empty');
+    }
+    if (!(details.amount > 0)) {
+      throw new Error('Amount must be greater than 0');
+    }
+    if (!Number.isInteger(details.termDays) || details.termDays <= 0) {
+      throw new Error('Repayment term must be a whole number of days above 0');
+    }
+    if (
+      details.occurrenceCount !== undefined &&
+      (!Number.isInteger(details.occurrenceCount) ||
+        details.occurrenceCount <= 0)
+    ) {
+      throw new Error('Occurrence count must be a whole number above 0');
+    }
+    if (details.endDate && details.endDate < details.startDate) {
+      throw new Error('End date cannot be before the start date');
+    }
+  }
+
+  private async readSeries(): Promise<RecurringLoan[]> {
+    try {
+      const content = await fs.readFile(RECURRING_DATA_PATH, 'utf-8');
+      return JSON.parse(content) as RecurringLoan[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      this.logger.error('Failed to read recurring loans', error as Error);
+      throw error;
+    }
+  }
+
+  private async saveSeries(allSeries: RecurringLoan[]): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(RECURRING_DATA_PATH), { recursive: true });
+      await fs.writeFile(
+        RECURRING_DATA_PATH,
+        JSON.stringify(allSeries, null, 2),
+        'utf-8'
+      );
+    } catch (error) {
+      this.logger.error('Failed to save recurring loans', error as Error);
+      throw error;
+    }
+  }
+}
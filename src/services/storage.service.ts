@@ -1,22 +1,39 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { Loan } from '../interfaces/loan.interface';
+import { Loan, LoanDataFile } from '../interfaces/loan.interface';
 import { LOAN_DATA_PATH } from '../config';
+import { CURRENT_SCHEMA_VERSION, migrateData } from '../utils/migration.utils';
 
 export class StorageService {
+  // Older files are upgraded in memory; MigrationService persists the upgrade
   async readLoans(): Promise<Loan[]> {
-    try {
-      const data = await fs.readFile(LOAN_DATA_PATH, 'utf-8');
-      return JSON.parse(data) as Loan[];
-    } catch (error) {
-      // If file doesn't exist, create it with an empty array
+    const raw = await this.readRaw();
+    if (raw === undefined) {
+      // If file doesn't exist, create it with an empty list
       await this.saveLoans([]);
       return [];
     }
+    return migrateData(raw).data.loans;
   }
 
   async saveLoans(loans: Loan[]): Promise<void> {
-    await fs.writeFile(LOAN_DATA_PATH, JSON.stringify(loans, null, 2));
+    const data: LoanDataFile = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      updatedAt: new Date().toISOString(),
+      loans,
+    };
+    await fs.writeFile(LOAN_DATA_PATH, JSON.stringify(data, null, 2));
+  }
+
+  // The parsed file as stored, or undefined when there is none yet
+  async readRaw(): Promise<unknown> {
+    try {
+      const data = await fs.readFile(LOAN_DATA_PATH, 'utf-8');
+      return JSON.parse(data);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
   }
 
   async exportLoans(): Promise<void> {
@@ -0,0 +1,158 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../core/logger';
+import { TEMPLATE_DATA_PATH } from '../config';
+import { Loan } from '../interfaces/loan.interface';
+import { LoanTemplate, TemplateDetails } from '../types/loan.types';
+import { buildTemplateFromLoan } from '../utils/template.utils';
+
+export class TemplateService {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger();
+  }
+
+  async getTemplates(
+    includeInactive: boolean = false
+  ): Promise<LoanTemplate[]> {
+    const templates = await this.readTemplates();
+    return includeInactive
+      ? templates
+      : templates.filter(template => template.isActive);
+  }
+
+  async createTemplate(details: TemplateDetails): Promise<LoanTemplate> {
+    const templates = await this.readTemplates();
+    this.assertTemplateDetails(details, templates);
+
+    const now = new Date().toISOString();
+    const template: LoanTemplate = {
+      ...details,
+      name: details.name.trim(),
+      id: uuidv4(),
+      isActive: true,
+      usageCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.saveTemplates([...templates, template]);
+    return template;
+  }
+
+  async createFromLoan(loan: Loan, name: string): Promise<LoanTemplate> {
+    return this.createTemplate(buildTemplateFromLoan(loan, name));
+  }
+
+  async updateTemplate(
+    id: string,
+    details: TemplateDetails
+  ): Promise<LoanTemplate | null> {
+    const templates = await this.readTemplates();
+    const template = templates.find(t => t.id === id);
+    if (!template) return null;
+    this.assertTemplateDetails(details, templates, id);
+
+    return this.changeTemplate(templates, id, {
+      ...details,
+      name: details.name.trim(),
+    });
+  }
+
+  // Inactive templates are kept for history but not offered for new loans
+  async setTemplateActive(
+    id: string,
+    isActive: boolean
+  ): Promise<LoanTemplate | null> {
+    const templates = await this.readTemplates();
+    if (!templates.some(t => t.id === id)) return null;
+    return this.changeTemplate(templates, id, { isActive });
+  }
+
+  async recordUsage(id: string): Promise<LoanTemplate | null> {
+    const templates = await this.readTemplates();
+    const template = templates.find(t => t.id === id);
+    if (!template) return null;
+    return this.changeTemplate(templates, id, {
+      usageCount: template.usageCount + 1,
+      lastUsedAt: new Date().toISOString(),
+    });
+  }
+
+  // Backups replace the whole template list
+  async replaceTemplates(templates: LoanTemplate[]): Promise<void> {
+    await this.saveTemplates(templates);
+  }
+
+  private async changeTemplate(
+    templates: LoanTemplate[],
+    id: string,
+    changes: Partial<LoanTemplate>
+  ): Promise<LoanTemplate> {
+    const updated = templates.map(template =>
+      template.id === id
+        ? { ...template, ...changes, updatedAt: new Date().toISOString() }
+        : template
+    );
+    await this.saveTemplates(updated);
+    return updated.find(template => template.id === id)!;
+  }
+
+  private assertTemplateDetails(
+    details: TemplateDetails,
+    templates: LoanTemplate[],
+    currentId?: string
+  ): void {
+    const name = details.name.trim().toLowerCase();
+    if (!name) {
+      throw new Error('Template name cannot be empty');
+    }
+    if (
+      templates.some(
+        template =>
+          template.id !== currentId &&
+          template.isActive &&
+          template.name.toLowerCase() === name
+      )
+    ) {
+      throw new Error(
+        `A template named "${details.name.trim()}" already exists`
+      );
+    }
+    if (details.amount !== undefined && !(details.amount > 0)) {
+      throw new Error('Template amount must be greater than 0');
+    }
+    if (
+      details.defaultDays !== undefined &&
+      (!Number.isInteger(details.defaultDays) || details.defaultDays <= 0)
+    ) {
+      throw new Error('Default days must be a whole number above 0');
+    }
+  }
+
+  private async readTemplates(): Promise<LoanTemplate[]> {
+    try {
+      const content = await fs.readFile(TEMPLATE_DATA_PATH, 'utf-8');
+      return JSON.parse(content) as LoanTemplate[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      this.logger.error('Failed to read loan templates', error as Error);
+      throw error;
+    }
+  }
+
+  private async saveTemplates(templates: LoanTemplate[]): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(TEMPLATE_DATA_PATH), { recursive: true });
+      await fs.writeFile(
+        TEMPLATE_DATA_PATH,
+        JSON.stringify(templates, null, 2),
+        'utf-8'
+      );
+    } catch (error) {
+      this.logger.error('Failed to save loan templates', error as Error);
+      throw error;
+    }
+  }
+}
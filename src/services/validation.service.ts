@@ -192,7 +192,7 @@ export class ValidationService {
       return { isValid: false, errors, warnings };
     }
 
-    const cleanPhone = phone.replace(/[\s\-\(\)]/g, '');
+    const cleanPhone = this.cleanPhoneNumber(phone);
 
     // Length validation
     if (cleanPhone.length < 10) {
@@ -424,6 +424,17 @@ export class ValidationService {
     };
   }
 
+  // Canonical form for matching one number written different ways, e.g.
+  // "0801 234 5678", "+234-801-234-5678" and "2348012345678"
+  normalizePhoneNumber(phone: string): string {
+    const cleanPhone = this.cleanPhoneNumber(phone.trim());
+
+    if (cleanPhone.startsWith('00')) return `+${cleanPhone.slice(2)}`;
+    if (cleanPhone.startsWith('234')) return `+${cleanPhone}`;
+    if (/^0[789]\d{9}$/.test(cleanPhone)) return `+234${cleanPhone.slice(1)}`;
+    return cleanPhone;
+  }
+
   // ==================== BUSINESS RULES VALIDATION ====================
 
   validateBusinessRules(
@@ -621,6 +632,10 @@ export class ValidationService {
     ];
   }
 
+  private cleanPhoneNumber(phone: string): string {
+    return phone.replace(/[\s\-\(\)]/g, '');
+  }
+
   private formatFieldName(field: string): string {
     return field
       .replace(/([A-Z])/g, ' $1')
@@ -13,6 +13,10 @@ import { formatCurrency } from '../utils/format.utils';
 export interface WelcomeStats {
   totalLoans: number;
   totalAmount: number;
+  payableAmount: number;
+  receivableAmount: number;
+  netPosition: number;
+  reportingCurrency?: string;
   overdueLoans: number;
   paidLoans: number;
   pendingLoans: number;
@@ -188,7 +192,13 @@ export class WelcomeService {
           '\n\n' +
           `${chalk.cyan('💰')} Total Loans: ${chalk.white.bold(stats.totalLoans.toString())}` +
           '\n' +
-          `${chalk.green('💵')} Total Amount: ${chalk.white.bold(formatCurrency(stats.totalAmount))}` +
+          `${chalk.green('💵')} Total Amount: ${chalk.white.bold(formatCurrency(stats.totalAmount, stats.reportingCurrency))}` +
+          '\n' +
+          `${chalk.red('📤')} I Owe: ${chalk.white.bold(formatCurrency(stats.payableAmount, stats.reportingCurrency))}` +
+          '\n' +
+          `${chalk.green('📥')} Owed to Me: ${chalk.white.bold(formatCurrency(stats.receivableAmount, stats.reportingCurrency))}` +
+          '\n' +
+          `${chalk.cyan('⚖️')} Net Position: ${(stats.netPosition < 0 ? chalk.red : chalk.green).bold(formatCurrency(stats.netPosition, stats.reportingCurrency))}` +
           '\n' +
           `${chalk.red('⚠️')} Overdue: ${chalk.white.bold(stats.overdueLoans.toString())}` +
           '\n' +
@@ -321,30 +331,32 @@ export class WelcomeService {
 
   private async getWelcomeStats(): Promise<WelcomeStats> {
     try {
-      const loans = await this.loanService.getLoans();
+      const converter = await this.loanService.getCurrencyConverter();
+      const loans = this.loanService.toReportingCurrency(
+        await this.loanService.getLoans(),
+        converter
+      );
 
       const totalLoans = loans.length;
-      const totalAmount = loans.reduce(
-        (sum, loan) => sum + loan.calculateTotalWithInterest(),
-        0
-      );
+      const totalAmount = this.loanService.getTotalDebt(loans);
+      const position = this.loanService.getNetPosition(loans);
       const overdueLoans = loans.filter(loan => loan.isOverdue()).length;
       const paidLoans = loans.filter(loan => loan.isPaid).length;
       const pendingLoans = loans.filter(
-        loan => !loan.isPaid && !loan.isOverdue()
+        loan => loan.isOpen() && !loan.isOverdue()
       ).length;
 
-      // Find next due date
+      // Find next due date, allowing for weekends, holidays and grace days
       const upcomingLoans = loans
-        .filter(loan => !loan.isPaid && !loan.isOverdue())
-        .sort(
-          (a, b) =>
-            new Date(a.repaymentDate).getTime() -
-            new Date(b.repaymentDate).getTime()
+        .filter(loan => loan.isOpen() && !loan.isOverdue())
+        .sort((a, b) =>
+          a.getEffectiveDueDate().localeCompare(b.getEffectiveDueDate())
         );
 
       const nextDueDate =
-        upcomingLoans.length > 0 ? upcomingLoans[0].repaymentDate : null;
+        upcomingLoans.length > 0
+          ? upcomingLoans[0].getEffectiveDueDate()
+          : null;
 
       // Get last activity (simplified - would need activity tracking)
       const lastActivity =
@@ -353,6 +365,10 @@ export class WelcomeService {
       return {
         totalLoans,
         totalAmount,
+        payableAmount: position.payable,
+        receivableAmount: position.receivable,
+        netPosition: position.net,
+        reportingCurrency: converter.reportingCurrency,
         overdueLoans,
         paidLoans,
         pendingLoans,
@@ -364,6 +380,9 @@ export class WelcomeService {
       return {
         totalLoans: 0,
         totalAmount: 0,
+        payableAmount: 0,
+        receivableAmount: 0,
+        netPosition: 0,
         overdueLoans: 0,
         paidLoans: 0,
         pendingLoans: 0,
@@ -384,46 +403,108 @@ export class WelcomeService {
     const reminders = [];
 
     try {
-      const loans = await this.loanService.getLoans();
+      const converter = await this.loanService.getCurrencyConverter();
+      const loans = this.loanService.toReportingCurrency(
+        await this.loanService.getLoans(),
+        converter
+      );
 
-      // Overdue reminders
+      // Overdue reminders, worded by who has to pay whom
       const overdueLoans = loans.filter(loan => loan.isOverdue());
-      if (overdueLoans.length > 0) {
+      const overduePayable = overdueLoans.filter(loan => !loan.isReceivable());
+      const overdueReceivable = overdueLoans.filter(loan => loan.isReceivable());
+      const overdueAmount = (dueLoans: typeof loans) =>
+        dueLoans.reduce((sum, loan) => sum + loan.getOverdueAmount(), 0);
+
+      if (overduePayable.length > 0) {
+        const overdueInstallments = overduePayable.reduce(
+          (sum, loan) => sum + loan.getOverdueInstallments().length,
+          0
+        );
         reminders.push({
-          title: 'Overdue Loans',
-          message: `${overdueLoans.length} loan${overdueLoans.length > 1 ? 's' : ''} past due date`,
+          title: 'Overdue Repayments',
+          message:
+            `You are late repaying ${overduePayable.length} loan${overduePayable.length > 1 ? 's' : ''} (${formatCurrency(overdueAmount(overduePayable), converter.reportingCurrency)})` +
+            (overdueInstallments > 0
+              ? `, ${overdueInstallments} missed installment${overdueInstallments > 1 ? 's' : ''}`
+              : ''),
           priority: 'high' as const,
           icon: '🚨',
         });
       }
 
-      // Due soon reminders
-      const dueSoonLoans = loans.filter(loan => {
-        if (loan.isPaid || loan.isOverdue()) return false;
-        const dueDate = new Date(loan.repaymentDate);
-        const threeDaysFromNow = new Date();
-        threeDaysFromNow.setDate(threeDaysFromNow.getDate() + 3);
-        return dueDate <= threeDaysFromNow;
-      });
+      if (overdueReceivable.length > 0) {
+        reminders.push({
+          title: 'Late Borrowers',
+          message: `${overdueReceivable.length} borrower${overdueReceivable.length > 1 ? 's are' : ' is'} late paying you back (${formatCurrency(overdueAmount(overdueReceivable), converter.reportingCurrency)}) - time to follow up`,
+          priority: 'high' as const,
+          icon: '📞',
+        });
+      }
 
-      if (dueSoonLoans.length > 0) {
+      // Overdue loans backed by a guarantor
+      const guaranteedOverdue = overdueReceivable.filter(loan =>
+        loan.shouldContactGuarantor()
+      );
+      if (guaranteedOverdue.length > 0) {
+        const contacts = guaranteedOverdue
+          .map(loan => {
+            const [guarantor] = loan.getActiveGuarantors();
+            return `${guarantor.name} (${guarantor.phoneNumber}) for ${loan.lenderName}`;
+          })
+          .join(', ');
+        reminders.push({
+          title: 'Contact Guarantors',
+          message: `${guaranteedOverdue.length} overdue loan${guaranteedOverdue.length > 1 ? 's have' : ' has'} a guarantor to call: ${contacts}`,
+          priority: 'high' as const,
+          icon: '🤝',
+        });
+      }
+
+      // Due soon reminders, per installment for scheduled loans
+      const dueSoonLoans = loans.filter(
+        loan =>
+          loan.isOpen() && !loan.isOverdue() && loan.getDaysUntilDue() <= 3
+      );
+      const dueSoonAmount = (dueLoans: typeof loans) =>
+        dueLoans.reduce(
+          (sum, loan) =>
+            sum +
+            (loan.hasSchedule()
+              ? loan.getNextInstallment()!.remainingAmount
+              : loan.getOutstandingBalance()),
+          0
+        );
+      const dueSoonPayable = dueSoonLoans.filter(loan => !loan.isReceivable());
+      const dueSoonReceivable = dueSoonLoans.filter(loan => loan.isReceivable());
+
+      if (dueSoonPayable.length > 0) {
         reminders.push({
-          title: 'Due Soon',
-          message: `${dueSoonLoans.length} loan${dueSoonLoans.length > 1 ? 's' : ''} due within 3 days`,
+          title: 'Payments Due Soon',
+          message: `You have ${dueSoonPayable.length} payment${dueSoonPayable.length > 1 ? 's' : ''} of ${formatCurrency(dueSoonAmount(dueSoonPayable), converter.reportingCurrency)} to make within 3 days`,
           priority: 'medium' as const,
           icon: '⏰',
         });
       }
 
+      if (dueSoonReceivable.length > 0) {
+        reminders.push({
+          title: 'Collections Due Soon',
+          message: `${formatCurrency(dueSoonAmount(dueSoonReceivable), converter.reportingCurrency)} from ${dueSoonReceivable.length} borrower${dueSoonReceivable.length > 1 ? 's' : ''} is due to you within 3 days`,
+          priority: 'medium' as const,
+          icon: '💸',
+        });
+      }
+
       // Large amount reminders
       const largeLoans = loans.filter(
-        loan => !loan.isPaid && loan.calculateTotalWithInterest() > 100000
+        loan => loan.isOpen() && loan.calculateTotalWithInterest() > 100000
       );
 
       if (largeLoans.length > 0) {
         reminders.push({
           title: 'High Value Loans',
-          message: `${largeLoans.length} loan${largeLoans.length > 1 ? 's' : ''} over ₦100,000`,
+          message: `${largeLoans.length} loan${largeLoans.length > 1 ? 's' : ''} over ${formatCurrency(100000, converter.reportingCurrency)}`,
           priority: 'low' as const,
           icon: '💰',
         });
@@ -523,7 +604,7 @@ export class WelcomeService {
       return `${timeGreeting}! Excellent work - all loans are paid!`;
     }
 
-    return `${timeGreeting}! You're managing ${stats.totalLoans} loan${stats.totalLoans > 1 ? 's' : ''} worth ${formatCurrency(stats.totalAmount)}.`;
+    return `${timeGreeting}! You're managing ${stats.totalLoans} loan${stats.totalLoans > 1 ? 's' : ''} worth ${formatCurrency(stats.totalAmount, stats.reportingCurrency)}.`;
   }
 
   // ==================== USER PREFERENCES ====================
@@ -24,9 +24,11 @@ export interface LoanExtended extends LoanBase {
 }
 
 export interface LoanCreateInput {
+  direction?: LoanDirection;
   lenderName: string;
   phoneNumber: string;
   amount: number;
+  currency?: string;
   repaymentDate: string;
   interestRate?: number;
   notes?: string;
@@ -163,20 +165,29 @@ export interface LoanTemplate {
   id: string;
   name: string;
   description?: string;
+  direction?: LoanDirection;
   lenderName?: string;
   phoneNumber?: string;
   amount?: number;
+  currency?: string;
   interestRate?: number;
-  defaultDays?: number;
+  defaultDays?: number; // Due date offset from the day the loan is added
   category?: LoanCategory;
   priority?: LoanPriority;
   tags?: string[];
   isActive: boolean;
   usageCount: number;
+  lastUsedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Fields that describe a template and can be edited
+export type TemplateDetails = Omit<
+  LoanTemplate,
+  'id' | 'isActive' | 'usageCount' | 'lastUsedAt' | 'createdAt' | 'updatedAt'
+>;
+
 export interface LoanBatch {
   id: string;
   name: string;
@@ -257,8 +268,8 @@ export interface LoanAuditLog {
   id: string;
   loanId: string;
   action: AuditAction;
-  oldValues?: Partial<LoanBase>;
-  newValues?: Partial<LoanBase>;
+  oldValues?: Record<string, unknown>; // Only the fields that changed
+  newValues?: Record<string, unknown>;
   userId?: string;
   timestamp: string;
   ipAddress?: string;
@@ -289,11 +300,7 @@ export interface LoanConfiguration {
   defaultPriority?: LoanPriority;
   autoReminders: boolean;
   reminderDays: number[];
-  riskThresholds: {
-    lowRisk: number;
-    mediumRisk: number;
-    highRisk: number;
-  };
+  riskThresholds: RiskThresholds;
   amountThresholds: {
     small: number;
     medium: number;
@@ -378,6 +385,7 @@ export enum LoanStatus {
   PARTIALLY_PAID = 'partially_paid',
   CANCELLED = 'cancelled',
   RESCHEDULED = 'rescheduled',
+  CLOSED = 'closed', // Rolled into another loan
 }
 
 export enum RiskLevel {
@@ -387,6 +395,13 @@ export enum RiskLevel {
   CRITICAL = 'critical',
 }
 
+// Highest risk score (0-100) for each level; anything above highRisk is critical
+export interface RiskThresholds {
+  lowRisk: number;
+  mediumRisk: number;
+  highRisk: number;
+}
+
 export enum LoanCategory {
   PERSONAL = 'personal',
   BUSINESS = 'business',
@@ -508,6 +523,10 @@ export enum AuditAction {
   RESTORE = 'restore',
   EXPORT = 'export',
   IMPORT = 'import',
+  WAIVE_PENALTY = 'waive_penalty',
+  RESTRUCTURE = 'restructure',
+  UNDO = 'undo',
+  REDO = 'redo',
 }
 
 export enum NotificationType {
@@ -663,7 +682,8 @@ export interface LoanDocument {
   loanId: string;
   name: string;
   type: 'agreement' | 'receipt' | 'id_copy' | 'collateral' | 'other';
-  filePath: string;
+  filePath: string; // Relative to the data directory
+  checksum: string; // SHA-256 of the content; also its name in the store
   fileSize: number;
   mimeType: string;
   uploadedAt: string;
@@ -683,12 +703,20 @@ export interface LoanCollateral {
   description: string;
   estimatedValue: number;
   condition: 'excellent' | 'good' | 'fair' | 'poor';
+  status: 'held' | 'released' | 'seized';
   location?: string;
   notes?: string;
+  resolvedAt?: string; // When it was released or seized
   createdAt: string;
   updatedAt: string;
 }
 
+// Fields that describe a collateral item and can be edited while it is held
+export type CollateralDetails = Pick<
+  LoanCollateral,
+  'type' | 'description' | 'estimatedValue' | 'condition' | 'location' | 'notes'
+>;
+
 export interface LoanGuarantor {
   id: string;
   loanId: string;
@@ -699,10 +727,22 @@ export interface LoanGuarantor {
   relationship: string;
   guaranteeAmount: number;
   isActive: boolean;
+  releasedAt?: string; // Set when the guarantee is released
   createdAt: string;
   updatedAt: string;
 }
 
+// Fields supplied when a guarantor is attached to a loan
+export type GuarantorDetails = Pick<
+  LoanGuarantor,
+  | 'name'
+  | 'phoneNumber'
+  | 'email'
+  | 'address'
+  | 'relationship'
+  | 'guaranteeAmount'
+>;
+
 export interface LoanSchedule {
   id: string;
   loanId: string;
@@ -718,6 +758,273 @@ export interface LoanSchedule {
   notes?: string;
 }
 
+export enum InstallmentFrequency {
+  WEEKLY = 'weekly',
+  BI_WEEKLY = 'bi_weekly',
+  MONTHLY = 'monthly',
+}
+
+export enum ScheduleMethod {
+  EQUAL_INSTALLMENT = 'equal_installment',
+  FLAT_INTEREST = 'flat_interest',
+}
+
+export interface InstallmentPlan {
+  frequency: InstallmentFrequency;
+  method: ScheduleMethod;
+  termCount: number;
+  startDate: string; // Disbursement date; first installment falls one period later
+}
+
+export enum InterestModelType {
+  FLAT = 'flat',
+  SIMPLE = 'simple',
+  COMPOUND = 'compound',
+  DAILY_ACCRUAL = 'daily_accrual',
+}
+
+export enum InterestRatePeriod {
+  MONTHLY = 'monthly',
+  ANNUAL = 'annual',
+}
+
+export enum CompoundingFrequency {
+  DAILY = 'daily',
+  MONTHLY = 'monthly',
+  QUARTERLY = 'quarterly',
+  ANNUALLY = 'annually',
+}
+
+export interface InterestModel {
+  type: InterestModelType;
+  ratePeriod?: InterestRatePeriod; // Period the rate applies to; not used by flat
+  compounding?: CompoundingFrequency; // Compound model only
+  startDate?: string; // Date interest starts running from
+}
+
+export enum PenaltyPeriod {
+  DAY = 'day',
+  WEEK = 'week',
+}
+
+export interface PenaltyRule {
+  fixedFee: number; // Charged once per overdue amount after the grace days
+  rate: number; // Percentage of the overdue amount per period
+  ratePeriod: PenaltyPeriod;
+  graceDays: number;
+  maxAmount?: number; // Cap on the total penalty
+  maxPercent?: number; // Cap as a percentage of the principal
+}
+
+export interface PenaltyWaiver {
+  id: string;
+  amount: number;
+  reason: string;
+  waivedAt: string;
+}
+
+export enum LoanDirection {
+  PAYABLE = 'payable', // Money I borrowed
+  RECEIVABLE = 'receivable', // Money I lent
+}
+
+// One unit of `currency` is worth `rate` units of the home currency
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  effectiveDate: string;
+}
+
+// One link in a loan's chain of due dates
+export interface RescheduleRecord {
+  id: string;
+  previousDate: string;
+  newDate: string;
+  reason: string;
+  previousInterestRate?: number;
+  newInterestRate?: number; // Set when the interest was renegotiated
+  rescheduledAt: string;
+}
+
+// Balance given up on a cancelled loan
+export interface LoanWriteOff {
+  amount: number;
+  date: string;
+  reason: string;
+  recordedAt: string;
+}
+
+export interface LoanDeletion {
+  deletedAt: string;
+  reason?: string;
+}
+
+// Terms of the loan that replaces a consolidated or renewed loan
+export interface RestructureTerms {
+  repaymentDate: string;
+  interestRate?: number;
+  interestModel?: InterestModel;
+  includePenalties?: boolean; // Roll unwaived penalties into the new principal
+  note?: string;
+}
+
+export interface LoanSplitPart {
+  amount: number;
+  repaymentDate: string;
+}
+
+export enum RecurringStatus {
+  ACTIVE = 'active',
+  STOPPED = 'stopped',
+  COMPLETED = 'completed', // Ran past its end date or occurrence count
+}
+
+// An arrangement that turns into a concrete loan each period
+export interface RecurringLoan {
+  id: string;
+  name: string;
+  frequency: InstallmentFrequency;
+  startDate: string; // Date of the first occurrence
+  endDate?: string; // No occurrences after this date
+  occurrenceCount?: number; // Stop after this many occurrences
+  termDays: number; // Days from each occurrence to its repayment date
+  direction?: LoanDirection;
+  lenderName: string;
+  phoneNumber: string;
+  amount: number;
+  currency?: string;
+  interestRate?: number;
+  interestModel?: InterestModel; // Runs from each occurrence's date
+  category?: LoanCategory;
+  priority?: LoanPriority;
+  tags?: string[];
+  status: RecurringStatus;
+  nextOccurrence: number; // Index of the first occurrence not yet handled
+  skippedDates: string[]; // Occurrence dates that will not generate a loan
+  generatedLoanIds: string[];
+  lastGeneratedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Fields chosen when a recurring series is set up
+export type RecurringLoanDetails = Omit<
+  RecurringLoan,
+  | 'id'
+  | 'status'
+  | 'nextOccurrence'
+  | 'skippedDates'
+  | 'generatedLoanIds'
+  | 'lastGeneratedAt'
+  | 'createdAt'
+  | 'updatedAt'
+>;
+
+export interface RecurringOccurrence {
+  recurringId: string;
+  name: string;
+  index: number; // Zero-based position in the series
+  date: string;
+  repaymentDate: string;
+  amount: number;
+  currency?: string;
+  skipped: boolean;
+}
+
+// A person in the contacts directory; loans point to it by contactId
+export interface Contact {
+  id: string;
+  name: string;
+  aliases: string[]; // Other names the person appears under on loans
+  phoneNumbers: string[]; // Normalised, so each number is stored once
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ContactDetails = Pick<
+  Contact,
+  'name' | 'aliases' | 'phoneNumbers' | 'notes'
+>;
+
+export enum BudgetItemType {
+  INCOME = 'income',
+  EXPENSE = 'expense',
+}
+
+export enum BudgetFrequency {
+  WEEKLY = 'weekly',
+  BI_WEEKLY = 'bi_weekly',
+  MONTHLY = 'monthly',
+  QUARTERLY = 'quarterly',
+  ANNUALLY = 'annually',
+}
+
+// An income source or recurring expense in the budget register
+export interface BudgetItem {
+  id: string;
+  type: BudgetItemType;
+  name: string;
+  amount: number; // Per occurrence at the given frequency
+  currency?: string;
+  frequency: BudgetFrequency;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BudgetItemDetails = Pick<
+  BudgetItem,
+  'type' | 'name' | 'amount' | 'currency' | 'frequency' | 'notes'
+>;
+
+// Where a due date falling on a weekend or holiday is moved to
+export enum WeekendRule {
+  NONE = 'none', // Keep the date as agreed
+  FORWARD = 'forward', // Next business day
+  BACKWARD = 'backward', // Previous business day
+}
+
+// A day off in the local holiday calendar
+export interface Holiday {
+  id: string;
+  date: string; // yyyy-MM-dd
+  name: string;
+}
+
+export type HolidayDetails = Pick<Holiday, 'date' | 'name'>;
+
+// Which loan a debt plan pays off first with what the budget has left over
+export enum PayoffStrategy {
+  SNOWBALL = 'snowball', // Smallest balance first
+  AVALANCHE = 'avalanche', // Highest interest rate first
+  CUSTOM = 'custom', // Order picked by the user
+}
+
+export interface DebtPlanMonth {
+  date: string; // When the month's budget is paid
+  payments: Array<{ loanId: string; amount: number }>;
+  endBalance: number; // Still owed across the plan after the payment
+}
+
+// A month-by-month payoff plan for the loans we owe
+export interface DebtPlan {
+  id: string;
+  name: string;
+  strategy: PayoffStrategy;
+  monthlyBudget: number;
+  currency?: string; // Currency of every amount in the plan
+  startDate: string; // Date of the first monthly payment
+  loanIds: string[]; // In the order the plan pays them off
+  months: DebtPlanMonth[];
+  totalPaid: number;
+  totalInterest: number;
+  totalPenalties: number;
+  remainingBalance: number; // Still owed if the budget never clears the debt
+  debtFreeDate?: string;
+  createdAt: string;
+}
+
 export interface LoanWorkflow {
   id: string;
   name: string;
@@ -0,0 +1,152 @@
+import {
+  applyLoanChanges,
+  diffLoanValues,
+  filterAuditEntries,
+  formatAuditAction,
+  formatAuditValue,
+  getLoanChanges,
+} from '../audit.utils';
+import { Loan } from '../../interfaces/loan.interface';
+import { AuditAction, LoanAuditLog } from '../../types/loan.types';
+
+describe('Audit Utils', () => {
+  const loan = (id: string, overrides: Partial<Loan> = {}): Loan => ({
+    id,
+    lenderName: 'Tunde',
+    phoneNumber: '+2348012345678',
+    amount: 10000,
+    repaymentDate: '2025-06-01',
+    isPaid: false,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  const edited = loan('loan-1', {
+    amount: 12000,
+    updatedAt: '2025-02-01T00:00:00.000Z',
+  });
+
+  describe('getLoanChanges', () => {
+    it('should find created, updated and deleted loans', () => {
+      const changes = getLoanChanges(
+        [loan('loan-1'), loan('loan-2')],
+        [edited, loan('loan-3')]
+      );
+
+      expect(changes).toEqual([
+        { loanId: 'loan-1', before: loan('loan-1'), after: edited },
+        { loanId: 'loan-2', before: loan('loan-2'), after: null },
+        { loanId: 'loan-3', before: null, after: loan('loan-3') },
+      ]);
+    });
+
+    it('should ignore untouched loans', () => {
+      expect(getLoanChanges([loan('loan-1')], [loan('loan-1')])).toEqual([]);
+    });
+  });
+
+  describe('diffLoanValues', () => {
+    it('should keep only the fields that changed', () => {
+      expect(
+        diffLoanValues({
+          loanId: 'loan-1',
+          before: loan('loan-1'),
+          after: edited,
+        })
+      ).toEqual({ oldValues: { amount: 10000 }, newValues: { amount: 12000 } });
+    });
+
+    it('should report every field of a deleted loan as old', () => {
+      const { oldValues, newValues } = diffLoanValues({
+        loanId: 'loan-1',
+        before: loan('loan-1'),
+        after: null,
+      });
+      expect(oldValues).toMatchObject({ lenderName: 'Tunde', amount: 10000 });
+      expect(oldValues).not.toHaveProperty('updatedAt');
+      expect(newValues).toBeUndefined();
+    });
+  });
+
+  describe('applyLoanChanges', () => {
+    const changes = getLoanChanges(
+      [loan('loan-1'), loan('loan-2')],
+      [edited, loan('loan-3')]
+    );
+
+    it('should undo and redo a set of changes', () => {
+      const undone = applyLoanChanges(
+        [edited, loan('loan-3')],
+        changes,
+        'undo'
+      );
+      expect(undone).toEqual([loan('loan-1'), loan('loan-2')]);
+
+      expect(applyLoanChanges(undone, changes, 'redo')).toEqual([
+        edited,
+        loan('loan-3'),
+      ]);
+    });
+
+    it('should refuse to overwrite a loan edited since', () => {
+      const later = { ...edited, updatedAt: '2025-03-01T00:00:00.000Z' };
+      expect(() =>
+        applyLoanChanges([later, loan('loan-3')], changes, 'undo')
+      ).toThrow('The loan with Tunde has changed since');
+    });
+
+    it('should refuse to recreate a loan that exists again', () => {
+      expect(() =>
+        applyLoanChanges(
+          [loan('loan-1'), loan('loan-2'), loan('loan-3')],
+          changes,
+          'redo'
+        )
+      ).toThrow('cannot be redone safely');
+    });
+  });
+
+  describe('filterAuditEntries', () => {
+    const entry = (
+      loanId: string,
+      action: AuditAction,
+      timestamp: string
+    ): LoanAuditLog => ({
+      id: `${loanId}-${action}`,
+      loanId,
+      action,
+      timestamp,
+    });
+
+    const entries = [
+      entry('loan-1', AuditAction.CREATE, '2025-01-10T09:00:00.000Z'),
+      entry('loan-1', AuditAction.DELETE, '2025-02-10T09:00:00.000Z'),
+      entry('loan-2', AuditAction.CREATE, '2025-03-10T09:00:00.000Z'),
+    ];
+
+    it('should filter by loan and action', () => {
+      expect(
+        filterAuditEntries(entries, {
+          loanId: 'loan-1',
+          action: AuditAction.CREATE,
+        })
+      ).toEqual([entries[0]]);
+    });
+
+    it('should filter by inclusive date range', () => {
+      expect(
+        filterAuditEntries(entries, { from: '2025-02-10', to: '2025-03-10' })
+      ).toEqual([entries[1], entries[2]]);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should describe actions and values', () => {
+      expect(formatAuditAction(AuditAction.MARK_PAID)).toBe('Mark Paid');
+      expect(formatAuditValue(undefined)).toBe('-');
+      expect(formatAuditValue([1, 2])).toBe('2 items');
+      expect(formatAuditValue(500)).toBe('500');
+    });
+  });
+});
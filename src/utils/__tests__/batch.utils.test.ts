@@ -0,0 +1,138 @@
+import {
+  getBatchFileFormat,
+  parseBatchFile,
+  parseBatchRow,
+  splitCsvLine,
+  toLoanCreateInput,
+} from '../batch.utils';
+import {
+  LoanCategory,
+  LoanDirection,
+  LoanPriority,
+} from '../../types/loan.types';
+
+describe('Batch Utils', () => {
+  describe('parseBatchRow', () => {
+    it('should parse the compact row format', () => {
+      expect(
+        parseBatchRow('Ada Obi, 08012345678, 25000, 2025-08-01, 5, usd')
+      ).toEqual({
+        lenderName: 'Ada Obi',
+        phoneNumber: '08012345678',
+        amount: 25000,
+        repaymentDate: '2025-08-01',
+        interestRate: 5,
+        currency: 'USD',
+        direction: undefined,
+        notes: undefined,
+        category: undefined,
+        priority: undefined,
+        tags: undefined,
+      });
+    });
+
+    it('should leave optional columns unset', () => {
+      const row = parseBatchRow('Ada, 08012345678, 25000, 2025-08-01');
+      expect(row.interestRate).toBeUndefined();
+      expect(row.currency).toBeUndefined();
+    });
+
+    it('should keep unparseable amounts as NaN for validation', () => {
+      expect(parseBatchRow('Ada, 08012345678, lots').amount).toBeNaN();
+      expect(parseBatchRow('Ada').repaymentDate).toBe('');
+    });
+  });
+
+  describe('toLoanCreateInput', () => {
+    it('should map column aliases regardless of case and spacing', () => {
+      const input = toLoanCreateInput({
+        Lender: 'Kemi',
+        'Phone Number': '08012345678',
+        Amount: '1,500',
+        due_date: '2025-09-01',
+        Rate: '2.5%',
+        Direction: 'Receivable',
+        Category: 'Family',
+        Priority: 'HIGH',
+        Tags: '#home, rent',
+      });
+
+      expect(input).toMatchObject({
+        lenderName: 'Kemi',
+        phoneNumber: '08012345678',
+        amount: 1500,
+        repaymentDate: '2025-09-01',
+        interestRate: 2.5,
+        direction: LoanDirection.RECEIVABLE,
+        category: LoanCategory.FAMILY,
+        priority: LoanPriority.HIGH,
+        tags: ['home', 'rent'],
+      });
+    });
+
+    it('should accept tag arrays from JSON', () => {
+      expect(
+        toLoanCreateInput({ lenderName: 'Kemi', tags: ['Rent', 'rent'] }).tags
+      ).toEqual(['rent']);
+    });
+  });
+
+  describe('splitCsvLine', () => {
+    it('should honour quoted values', () => {
+      expect(splitCsvLine('"Obi, Ada",080,"say ""hi""",')).toEqual([
+        'Obi, Ada',
+        '080',
+        'say "hi"',
+        '',
+      ]);
+    });
+  });
+
+  describe('parseBatchFile', () => {
+    it('should read CSV rows using the header', () => {
+      const csv =
+        'name,phone,amount,due date\n' +
+        'Ada,08012345678,"10,000",2025-08-01\r\n' +
+        '\n' +
+        'Kemi,08087654321,5000,2025-08-15\n';
+
+      const rows = parseBatchFile(csv, 'csv');
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({ lenderName: 'Ada', amount: 10000 });
+      expect(rows[1]).toMatchObject({
+        lenderName: 'Kemi',
+        repaymentDate: '2025-08-15',
+      });
+    });
+
+    it('should read JSON arrays and exported loan lists', () => {
+      const loans = [
+        {
+          lenderName: 'Ada',
+          phoneNumber: '08012345678',
+          amount: 10000,
+          repaymentDate: '2025-08-01',
+        },
+      ];
+
+      expect(parseBatchFile(JSON.stringify(loans), 'json')).toHaveLength(1);
+      expect(parseBatchFile(JSON.stringify({ loans }), 'json')[0].amount).toBe(
+        10000
+      );
+    });
+
+    it('should reject JSON without a loan list', () => {
+      expect(() => parseBatchFile('{"name":"Ada"}', 'json')).toThrow(
+        'JSON batch files must contain an array of loans'
+      );
+    });
+  });
+
+  describe('getBatchFileFormat', () => {
+    it('should detect the format from the extension', () => {
+      expect(getBatchFileFormat('loans.CSV')).toBe('csv');
+      expect(getBatchFileFormat('/tmp/loans.json')).toBe('json');
+      expect(() => getBatchFileFormat('loans.xlsx')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  checkAffordability,
+  formatMonth,
+  getAmountDue,
+  getMonthlyBudget,
+  summarizeBudget,
+} from '../budget.utils';
+import { LoanModel } from '../../models/loan.model';
+import { Loan } from '../../interfaces/loan.interface';
+import {
+  BudgetFrequency,
+  BudgetItem,
+  BudgetItemType,
+  LoanDirection,
+  WeekendRule,
+} from '../../types/loan.types';
+
+describe('Budget Utils', () => {
+  const asOf = new Date(2025, 2, 10);
+
+  const item = (
+    type: BudgetItemType,
+    amount: number,
+    frequency: BudgetFrequency,
+    currency?: string
+  ): BudgetItem => ({
+    id: `${type}-${amount}`,
+    type,
+    name: 'Entry',
+    amount,
+    currency,
+    frequency,
+    createdAt: '2025-01-01T10:00:00.000Z',
+    updatedAt: '2025-01-01T10:00:00.000Z',
+  });
+
+  const loan = (id: string, overrides: Partial<Loan> = {}): LoanModel =>
+    new LoanModel({
+      id,
+      lenderName: 'Ngozi',
+      phoneNumber: '+2348012345678',
+      amount: 50000,
+      repaymentDate: '2025-03-25',
+      isPaid: false,
+      ...overrides,
+    });
+
+  const loans = [
+    loan('march'),
+    loan('overdue', { amount: 20000, repaymentDate: '2025-02-01' }),
+    loan('april', { amount: 30000, repaymentDate: '2025-04-15' }),
+    loan('owed-to-us', {
+      amount: 10000,
+      direction: LoanDirection.RECEIVABLE,
+    }),
+  ];
+
+  describe('getMonthlyBudget', () => {
+    it('should turn every frequency into a monthly amount', () => {
+      const budget = getMonthlyBudget([
+        item(BudgetItemType.INCOME, 1200, BudgetFrequency.WEEKLY),
+        item(BudgetItemType.INCOME, 120000, BudgetFrequency.ANNUALLY),
+        item(BudgetItemType.EXPENSE, 30000, BudgetFrequency.QUARTERLY),
+      ]);
+      expect(budget).toEqual({ income: 15200, expenses: 10000 });
+    });
+
+    it('should convert amounts in other currencies', () => {
+      const budget = getMonthlyBudget(
+        [item(BudgetItemType.INCOME, 100, BudgetFrequency.MONTHLY, 'USD')],
+        (amount, currency) => (currency === 'USD' ? amount * 1500 : amount)
+      );
+      expect(budget.income).toBe(150000);
+    });
+  });
+
+  describe('getAmountDue', () => {
+    it('should count what is overdue in the current month only', () => {
+      expect(getAmountDue(loans, LoanDirection.PAYABLE, '2025-03', asOf)).toBe(
+        70000
+      );
+      expect(getAmountDue(loans, LoanDirection.PAYABLE, '2025-04', asOf)).toBe(
+        30000
+      );
+      expect(getAmountDue(loans, LoanDirection.PAYABLE, '2025-02', asOf)).toBe(
+        0
+      );
+      expect(
+        getAmountDue(loans, LoanDirection.RECEIVABLE, '2025-03', asOf)
+      ).toBe(10000);
+    });
+
+    it('should count an amount in the month its grace days end', () => {
+      const graced = new LoanModel(
+        {
+          id: 'graced',
+          lenderName: 'Ngozi',
+          phoneNumber: '+2348012345678',
+          amount: 40000,
+          repaymentDate: '2025-03-28',
+          isPaid: false,
+        },
+        { graceDays: 5, weekendRule: WeekendRule.NONE, holidays: [] }
+      );
+
+      expect(
+        getAmountDue([graced], LoanDirection.PAYABLE, '2025-03', asOf)
+      ).toBe(0);
+      expect(
+        getAmountDue([graced], LoanDirection.PAYABLE, '2025-04', asOf)
+      ).toBe(40000);
+    });
+  });
+
+  describe('summarizeBudget', () => {
+    it('should work out debt-to-income and free cash', () => {
+      const summary = summarizeBudget(
+        { income: 200000, expenses: 80000 },
+        loans,
+        '2025-03',
+        asOf
+      );
+      expect(summary).toMatchObject({
+        obligations: 70000,
+        receipts: 10000,
+        debtToIncome: 35,
+        freeCash: 50000,
+      });
+    });
+
+    it('should leave debt-to-income unset without income', () => {
+      expect(
+        summarizeBudget({ income: 0, expenses: 0 }, loans, '2025-03', asOf)
+          .debtToIncome
+      ).toBeUndefined();
+    });
+  });
+
+  describe('checkAffordability', () => {
+    const budget = { income: 200000, expenses: 80000 };
+
+    it('should flag months where borrowing pushes repayments over the limit', () => {
+      const check = checkAffordability(
+        loan('new', { amount: 60000, repaymentDate: '2025-04-30' }),
+        loans,
+        budget,
+        40,
+        asOf
+      );
+      expect(check.limit).toBe(80000);
+      expect(check.breaches).toEqual([
+        { month: '2025-04', obligations: 90000, share: 45 },
+      ]);
+      expect(check.shortfall).toBe(0);
+    });
+
+    it('should pass borrowing that stays within the limit', () => {
+      const check = checkAffordability(
+        loan('new', { amount: 40000, repaymentDate: '2025-05-30' }),
+        loans,
+        budget,
+        40,
+        asOf
+      );
+      expect(check.breaches).toEqual([]);
+    });
+
+    it('should check the month a weekend due date moves into', () => {
+      const calendar = {
+        graceDays: 0,
+        weekendRule: WeekendRule.FORWARD,
+        holidays: [],
+      };
+      const existing = new LoanModel(
+        {
+          id: 'existing',
+          lenderName: 'Ngozi',
+          phoneNumber: '+2348012345678',
+          amount: 30000,
+          repaymentDate: '2026-02-10',
+          isPaid: false,
+        },
+        calendar
+      );
+      const saturday = new LoanModel(
+        {
+          id: 'new',
+          lenderName: 'Ngozi',
+          phoneNumber: '+2348012345678',
+          amount: 30000,
+          repaymentDate: '2026-01-31',
+          isPaid: false,
+        },
+        calendar
+      );
+
+      const check = checkAffordability(
+        saturday,
+        [existing],
+        { income: 100000, expenses: 0 },
+        40,
+        new Date(2026, 0, 5)
+      );
+      expect(check.breaches).toEqual([
+        { month: '2026-02', obligations: 60000, share: 60 },
+      ]);
+    });
+
+    it('should flag lending more than the free cash', () => {
+      const check = checkAffordability(
+        loan('new', { amount: 65000, direction: LoanDirection.RECEIVABLE }),
+        loans,
+        budget,
+        40,
+        asOf
+      );
+      expect(check.breaches).toEqual([]);
+      expect(check.freeCash).toBe(50000);
+      expect(check.shortfall).toBe(15000);
+    });
+  });
+
+  describe('formatMonth', () => {
+    it('should show the month and year', () => {
+      expect(formatMonth('2025-03')).toBe('Mar 2025');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  formatCategory,
+  formatTags,
+  getGroupKey,
+  groupLoans,
+  parseTags,
+} from '../category.utils';
+import { LoanModel } from '../../models/loan.model';
+import {
+  LoanCategory,
+  LoanGroupBy,
+  LoanPriority,
+} from '../../types/loan.types';
+
+describe('Category Utils', () => {
+  const loan = (
+    id: string,
+    lenderName: string,
+    repaymentDate: string,
+    category?: LoanCategory,
+    priority?: LoanPriority
+  ): LoanModel =>
+    new LoanModel({
+      id,
+      lenderName,
+      phoneNumber: '+2348012345678',
+      amount: 10000,
+      repaymentDate,
+      isPaid: false,
+      category,
+      priority,
+    });
+
+  const loans = [
+    loan('loan-1', 'Tunde', '2025-05-10', LoanCategory.BUSINESS),
+    loan('loan-2', 'Amaka', '2025-01-20', undefined, LoanPriority.URGENT),
+    loan('loan-3', 'tunde ', '2025-02-01', LoanCategory.PERSONAL),
+    loan('loan-4', 'Bayo', '2025-05-30', LoanCategory.BUSINESS),
+  ];
+
+  describe('parseTags', () => {
+    it('should normalise, split and de-duplicate tags', () => {
+      expect(parseTags('#Shop, stock  shop,,Rent')).toEqual([
+        'shop',
+        'stock',
+        'rent',
+      ]);
+      expect(parseTags('  ')).toEqual([]);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format categories and tags for display', () => {
+      expect(formatCategory(LoanCategory.MEDICAL)).toBe('Medical');
+      expect(formatTags(['shop', 'rent'])).toBe('#shop #rent');
+      expect(formatTags()).toBe('None');
+    });
+  });
+
+  describe('getGroupKey', () => {
+    it('should key due-date groups by month, quarter and year', () => {
+      expect(getGroupKey(loans[0], LoanGroupBy.MONTH)).toBe('2025-05');
+      expect(getGroupKey(loans[0], LoanGroupBy.QUARTER)).toBe('2025-Q2');
+      expect(getGroupKey(loans[0], LoanGroupBy.YEAR)).toBe('2025');
+    });
+
+    it('should match lenders regardless of case and spacing', () => {
+      expect(getGroupKey(loans[2], LoanGroupBy.LENDER)).toBe(
+        getGroupKey(loans[0], LoanGroupBy.LENDER)
+      );
+    });
+  });
+
+  describe('groupLoans', () => {
+    it('should order categories as declared and keep loan order', () => {
+      const groups = groupLoans(loans, LoanGroupBy.CATEGORY);
+      expect(groups.map(group => group.label)).toEqual([
+        'Personal',
+        'Business',
+        'Other',
+      ]);
+      expect(groups[1].loans.map(l => l.id)).toEqual(['loan-1', 'loan-4']);
+    });
+
+    it('should put the most urgent priority first', () => {
+      const groups = groupLoans(loans, LoanGroupBy.PRIORITY);
+      expect(groups.map(group => group.key)).toEqual([
+        LoanPriority.URGENT,
+        LoanPriority.MEDIUM,
+      ]);
+    });
+
+    it('should label month groups by name', () => {
+      const groups = groupLoans(loans, LoanGroupBy.MONTH);
+      expect(groups.map(group => group.label)).toEqual([
+        'January 2025',
+        'February 2025',
+        'May 2025',
+      ]);
+    });
+  });
+});
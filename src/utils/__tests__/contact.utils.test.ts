@@ -0,0 +1,123 @@
+import {
+  findDuplicateContacts,
+  hasContactName,
+  mergeContactDetails,
+  normalizeContactName,
+  summarizeContactLoans,
+} from '../contact.utils';
+import { LoanModel } from '../../models/loan.model';
+import { Contact, LoanDirection } from '../../types/loan.types';
+
+describe('Contact Utils', () => {
+  const contact = (
+    id: string,
+    name: string,
+    phoneNumbers: string[],
+    aliases: string[] = [],
+    notes?: string
+  ): Contact => ({
+    id,
+    name,
+    aliases,
+    phoneNumbers,
+    notes,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  });
+
+  describe('normalizeContactName', () => {
+    it('should ignore case, spacing and a trailing full stop', () => {
+      expect(normalizeContactName('  Tunde   A. ')).toBe('tunde a');
+    });
+  });
+
+  describe('hasContactName', () => {
+    it('should match the name or any alias', () => {
+      const tunde = contact('c1', 'Tunde', ['+2348012345678'], ['T. Bakare']);
+      expect(hasContactName(tunde, 'tunde ')).toBe(true);
+      expect(hasContactName(tunde, 't. bakare')).toBe(true);
+      expect(hasContactName(tunde, 'Bola')).toBe(false);
+    });
+  });
+
+  describe('findDuplicateContacts', () => {
+    it('should group contacts sharing a phone number or name', () => {
+      const contacts = [
+        contact('c1', 'Tunde', ['+2348012345678']),
+        contact('c2', 'Tunde A.', ['+2348012345678']),
+        contact('c3', 'Bola', ['+2348098765432']),
+        contact('c4', 'tunde a', ['+2348111111111']),
+      ];
+
+      const duplicates = findDuplicateContacts(contacts);
+
+      expect(duplicates).toHaveLength(1);
+      expect(duplicates[0].contacts.map(c => c.id)).toEqual(['c1', 'c2', 'c4']);
+      expect(duplicates[0].reasons).toEqual([
+        'Same phone +2348012345678',
+        'Same name "tunde a"',
+      ]);
+    });
+
+    it('should return nothing when everyone is distinct', () => {
+      expect(
+        findDuplicateContacts([
+          contact('c1', 'Tunde', ['+2348012345678']),
+          contact('c2', 'Bola', ['+2348098765432']),
+        ])
+      ).toEqual([]);
+    });
+  });
+
+  describe('mergeContactDetails', () => {
+    it('should keep the target name and fold in the sources', () => {
+      const target = contact('c1', 'Tunde', ['+2348012345678'], [], 'Friend');
+      const sources = [
+        contact('c2', 'Tunde A.', ['+2348012345678', '+2348111111111']),
+        contact('c3', 'tunde', ['+2348098765432'], ['TJ'], 'Pays late'),
+      ];
+
+      expect(mergeContactDetails(target, sources)).toEqual({
+        name: 'Tunde',
+        aliases: ['Tunde A.', 'TJ'],
+        phoneNumbers: ['+2348012345678', '+2348111111111', '+2348098765432'],
+        notes: 'Friend\nPays late',
+      });
+    });
+  });
+
+  describe('summarizeContactLoans', () => {
+    it('should total both directions separately', () => {
+      const loans = [
+        new LoanModel({
+          id: 'loan-1',
+          lenderName: 'Tunde',
+          phoneNumber: '+2348012345678',
+          amount: 10000,
+          repaymentDate: '2099-01-01',
+          isPaid: false,
+        }),
+        new LoanModel({
+          id: 'loan-2',
+          direction: LoanDirection.RECEIVABLE,
+          lenderName: 'Tunde',
+          phoneNumber: '+2348012345678',
+          amount: 4000,
+          repaymentDate: '2099-01-01',
+          isPaid: true,
+        }),
+      ];
+
+      expect(summarizeContactLoans(loans)).toMatchObject({
+        totalLoans: 2,
+        openLoans: 1,
+        paidLoans: 1,
+        overdueLoans: 0,
+        borrowed: 10000,
+        lent: 4000,
+        owedByMe: 10000,
+        owedToMe: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  convertLoan,
+  createCurrencyConverter,
+  findRate,
+  getCurrencySymbol,
+  parseExchangeRatesCsv,
+} from '../currency.utils';
+import { formatCurrency } from '../format.utils';
+import { Loan } from '../../interfaces/loan.interface';
+import { ExchangeRate } from '../../types/loan.types';
+
+describe('Currency Utils', () => {
+  const asOf = new Date('2025-03-20T12:00:00');
+  const rates: ExchangeRate[] = [
+    { currency: 'USD', rate: 1500, effectiveDate: '2025-01-01' },
+    { currency: 'USD', rate: 1600, effectiveDate: '2025-03-01' },
+    { currency: 'USD', rate: 1700, effectiveDate: '2025-04-01' },
+    { currency: 'GBP', rate: 2000, effectiveDate: '2025-02-01' },
+  ];
+
+  describe('findRate', () => {
+    it('should use the latest rate in effect on the date', () => {
+      expect(findRate(rates, 'USD', 'NGN', asOf)).toBe(1600);
+    });
+
+    it('should fall back to the earliest rate before any is effective', () => {
+      expect(findRate(rates, 'USD', 'NGN', new Date('2024-06-01'))).toBe(1500);
+    });
+
+    it('should return 1 for the home currency', () => {
+      expect(findRate(rates, 'NGN', 'NGN', asOf)).toBe(1);
+    });
+
+    it('should return undefined for unknown currencies', () => {
+      expect(findRate(rates, 'EUR', 'NGN', asOf)).toBeUndefined();
+    });
+  });
+
+  describe('createCurrencyConverter', () => {
+    it('should convert foreign amounts into the home currency', () => {
+      const converter = createCurrencyConverter(rates, 'NGN', 'NGN', asOf);
+      expect(converter.convert(100, 'USD')).toBe(160000);
+      expect(converter.convert(5000)).toBe(5000);
+    });
+
+    it('should convert through the home currency into another currency', () => {
+      const converter = createCurrencyConverter(rates, 'NGN', 'USD', asOf);
+      expect(converter.convert(160000, 'NGN')).toBe(100);
+      expect(converter.convert(80, 'GBP')).toBe(100);
+    });
+
+    it('should leave amounts unconverted and note missing rates', () => {
+      const converter = createCurrencyConverter(rates, 'NGN', 'NGN', asOf);
+      expect(converter.convert(250, 'EUR')).toBe(250);
+      expect(converter.missingRates.has('EUR')).toBe(true);
+    });
+  });
+
+  describe('convertLoan', () => {
+    const loan: Loan = {
+      id: 'loan-1',
+      lenderName: 'Aunt Bisi',
+      phoneNumber: '+447700900123',
+      amount: 1000,
+      currency: 'GBP',
+      repaymentDate: '2025-06-01',
+      isPaid: false,
+      paymentHistory: [
+        {
+          id: 'payment-1',
+          loanId: 'loan-1',
+          amount: 250,
+          paymentDate: '2025-03-01',
+          createdAt: '2025-03-01T10:00:00.000Z',
+        },
+      ],
+    };
+
+    it('should restate money fields in the reporting currency', () => {
+      const converter = createCurrencyConverter(rates, 'NGN', 'NGN', asOf);
+      const converted = convertLoan(loan, converter);
+
+      expect(converted.currency).toBe('NGN');
+      expect(converted.amount).toBe(2000000);
+      expect(converted.paymentHistory?.[0].amount).toBe(500000);
+      expect(loan.amount).toBe(1000);
+    });
+
+    it('should return loans already in the reporting currency as is', () => {
+      const converter = createCurrencyConverter(rates, 'NGN', 'GBP', asOf);
+      expect(convertLoan(loan, converter)).toBe(loan);
+    });
+  });
+
+  describe('parseExchangeRatesCsv', () => {
+    it('should parse rows and skip a header row', () => {
+      const csv =
+        'currency,rate,effective_date\nusd,1550.5,2025-02-15\nGBP,1980,2025-02-15\n';
+      expect(parseExchangeRatesCsv(csv)).toEqual([
+        { currency: 'USD', rate: 1550.5, effectiveDate: '2025-02-15' },
+        { currency: 'GBP', rate: 1980, effectiveDate: '2025-02-15' },
+      ]);
+    });
+
+    it('should reject invalid rows with their line number', () => {
+      const csv = 'USD,1550,2025-02-15\nGBP,-3,2025-02-15';
+      expect(() => parseExchangeRatesCsv(csv)).toThrow('line 2');
+    });
+  });
+
+  describe('currency formatting', () => {
+    it('should use the symbol of the given currency', () => {
+      expect(getCurrencySymbol('GBP')).toBe('£');
+      expect(formatCurrency(1000, 'USD')).toBe('$1,000');
+    });
+  });
+});
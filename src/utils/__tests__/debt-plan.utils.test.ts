@@ -0,0 +1,230 @@
+import {
+  buildDebtPlan,
+  compareStrategies,
+  getStrategyOrder,
+  trackDebtPlan,
+} from '../debt-plan.utils';
+import { LoanModel } from '../../models/loan.model';
+import { Loan } from '../../interfaces/loan.interface';
+import {
+  DebtPlan,
+  InterestModelType,
+  InterestRatePeriod,
+  PayoffStrategy,
+} from '../../types/loan.types';
+
+describe('Debt Plan Utils', () => {
+  const asOf = new Date(2025, 0, 1);
+
+  const loan = (id: string, overrides: Partial<Loan> = {}): LoanModel =>
+    new LoanModel({
+      id,
+      lenderName: 'Tunde',
+      phoneNumber: '+2348012345678',
+      amount: 30000,
+      repaymentDate: '2026-01-01',
+      isPaid: false,
+      ...overrides,
+    });
+
+  const small = loan('small');
+  const large = loan('large', { amount: 90000 });
+  const costly = loan('costly', {
+    amount: 100000,
+    interestRate: 2,
+    interestModel: {
+      type: InterestModelType.SIMPLE,
+      ratePeriod: InterestRatePeriod.MONTHLY,
+      startDate: '2025-01-01',
+    },
+  });
+  const cheap = loan('cheap', {
+    amount: 50000,
+    interestRate: 12,
+    interestModel: {
+      type: InterestModelType.SIMPLE,
+      ratePeriod: InterestRatePeriod.ANNUAL,
+      startDate: '2025-01-01',
+    },
+  });
+
+  describe('getStrategyOrder', () => {
+    it('should order loans by each strategy', () => {
+      const loans = [large, costly, cheap, small];
+      expect(getStrategyOrder(loans, PayoffStrategy.SNOWBALL)).toEqual([
+        'small',
+        'cheap',
+        'large',
+        'costly',
+      ]);
+      expect(getStrategyOrder(loans, PayoffStrategy.AVALANCHE)).toEqual([
+        'costly',
+        'cheap',
+        'small',
+        'large',
+      ]);
+      expect(
+        getStrategyOrder(loans, PayoffStrategy.CUSTOM, ['large', 'gone'])
+      ).toEqual(['large', 'small', 'cheap', 'costly']);
+    });
+  });
+
+  describe('buildDebtPlan', () => {
+    it('should roll the budget onto the next loan once one is paid off', () => {
+      const plan = buildDebtPlan(
+        [large, small],
+        {
+          strategy: PayoffStrategy.SNOWBALL,
+          monthlyBudget: 40000,
+          startDate: '2025-01-01',
+        },
+        { asOf }
+      );
+
+      expect(plan.loanIds).toEqual(['small', 'large']);
+      expect(plan.months).toEqual([
+        {
+          date: '2025-01-01',
+          payments: [
+            { loanId: 'small', amount: 30000 },
+            { loanId: 'large', amount: 10000 },
+          ],
+          endBalance: 80000,
+        },
+        {
+          date: '2025-02-01',
+          payments: [{ loanId: 'large', amount: 40000 }],
+          endBalance: 40000,
+        },
+        {
+          date: '2025-03-01',
+          payments: [{ loanId: 'large', amount: 40000 }],
+          endBalance: 0,
+        },
+      ]);
+      expect(plan.debtFreeDate).toBe('2025-03-01');
+      expect(plan.totalPaid).toBe(120000);
+    });
+
+    it('should pay amounts already due before following the order', () => {
+      const due = loan('due', { amount: 10000, repaymentDate: '2025-01-20' });
+      const plan = buildDebtPlan(
+        [large, due],
+        {
+          strategy: PayoffStrategy.CUSTOM,
+          monthlyBudget: 15000,
+          startDate: '2025-02-01',
+          customOrder: ['large', 'due'],
+        },
+        { asOf }
+      );
+
+      expect(plan.months[0].payments).toEqual([
+        { loanId: 'large', amount: 5000 },
+        { loanId: 'due', amount: 10000 },
+      ]);
+    });
+  });
+
+  describe('compareStrategies', () => {
+    it('should save interest with the avalanche', () => {
+      const plans = compareStrategies(
+        [costly, cheap],
+        { monthlyBudget: 20000, startDate: '2025-02-01' },
+        { asOf }
+      );
+
+      expect(plans.map(plan => plan.strategy)).toEqual([
+        PayoffStrategy.SNOWBALL,
+        PayoffStrategy.AVALANCHE,
+      ]);
+      const [snowball, avalanche] = plans;
+      expect(snowball.loanIds).toEqual(['cheap', 'costly']);
+      expect(avalanche.loanIds).toEqual(['costly', 'cheap']);
+      expect(avalanche.totalInterest).toBeLessThan(snowball.totalInterest);
+      expect(avalanche.debtFreeDate).toBeDefined();
+    });
+
+    it('should add the custom order when one is given', () => {
+      const plans = compareStrategies(
+        [costly, cheap],
+        {
+          monthlyBudget: 20000,
+          startDate: '2025-02-01',
+          customOrder: ['cheap', 'costly'],
+        },
+        { asOf }
+      );
+      expect(plans[2].strategy).toBe(PayoffStrategy.CUSTOM);
+    });
+  });
+
+  describe('trackDebtPlan', () => {
+    const plan: DebtPlan = {
+      id: 'plan-1',
+      name: 'Clear it',
+      strategy: PayoffStrategy.SNOWBALL,
+      monthlyBudget: 40000,
+      startDate: '2025-01-05',
+      loanIds: ['small', 'large'],
+      months: ['2025-01-05', '2025-02-05', '2025-03-05'].map(date => ({
+        date,
+        payments: [{ loanId: 'large', amount: 40000 }],
+        endBalance: 0,
+      })),
+      totalPaid: 120000,
+      totalInterest: 0,
+      totalPenalties: 0,
+      remainingBalance: 0,
+      debtFreeDate: '2025-03-05',
+      createdAt: '2025-01-02T09:00:00.000Z',
+    };
+    const payment = (id: string, amount: number, paymentDate: string) => ({
+      id,
+      loanId: 'large',
+      amount,
+      paymentDate,
+      createdAt: `${paymentDate}T10:00:00.000Z`,
+    });
+    const paid = loan('large', {
+      amount: 120000,
+      paymentHistory: [
+        payment('p-0', 5000, '2025-01-01'), // Before the plan was saved
+        payment('p-1', 40000, '2025-01-05'),
+        payment('p-2', 30000, '2025-02-10'),
+      ],
+    });
+
+    it('should compare actual payments with each month', () => {
+      const progress = trackDebtPlan(
+        plan,
+        [paid],
+        undefined,
+        new Date(2025, 1, 20)
+      );
+
+      expect(progress.months.map(month => month.status)).toEqual([
+        'on track',
+        'behind',
+        'upcoming',
+      ]);
+      expect(progress.months[1]).toMatchObject({
+        planned: 40000,
+        paid: 30000,
+        difference: -10000,
+      });
+      expect(progress.paidToDate).toBe(70000);
+      expect(progress.status).toBe('behind');
+    });
+
+    it('should show a month not yet paid as due', () => {
+      const progress = trackDebtPlan(
+        plan,
+        [loan('large', { amount: 120000 })],
+        undefined,
+        new Date(2025, 0, 3)
+      );
+      expect(progress.status).toBe('due');
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import {
+  formatFileSize,
+  getMimeType,
+  getStoredFileName,
+  hashContent,
+} from '../document.utils';
+
+describe('Document Utils', () => {
+  it('should detect common MIME types from the extension', () => {
+    expect(getMimeType('IOU.JPG')).toBe('image/jpeg');
+    expect(getMimeType('receipt.pdf')).toBe('application/pdf');
+    expect(getMimeType('notes')).toBe('application/octet-stream');
+  });
+
+  it('should hash content with SHA-256', () => {
+    expect(hashContent(Buffer.from('abc'))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  it('should name stored files after their checksum', () => {
+    expect(getStoredFileName('abc123', 'Transfer Receipt.PNG')).toBe(
+      'abc123.png'
+    );
+  });
+
+  it('should format file sizes', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(2048)).toBe('2.0 KB');
+    expect(formatFileSize(3 * 1024 * 1024)).toBe('3.0 MB');
+  });
+});
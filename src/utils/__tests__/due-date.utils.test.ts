@@ -0,0 +1,106 @@
+import {
+  DueDateCalendar,
+  getBusinessDueDate,
+  getDaysUntilDue,
+  getEffectiveDueDate,
+  isBusinessDay,
+  isPastDue,
+} from '../due-date.utils';
+import { WeekendRule } from '../../types/loan.types';
+
+describe('Due Date Utils', () => {
+  // 8 March 2025 is a Saturday
+  const calendar = (
+    weekendRule: WeekendRule,
+    graceDays: number = 0,
+    holidays: string[] = []
+  ): DueDateCalendar => ({ graceDays, weekendRule, holidays });
+
+  describe('isBusinessDay', () => {
+    it('should skip weekends and holidays', () => {
+      expect(isBusinessDay('2025-03-07')).toBe(true);
+      expect(isBusinessDay('2025-03-08')).toBe(false);
+      expect(isBusinessDay('2025-03-09')).toBe(false);
+      expect(isBusinessDay('2025-06-12', ['2025-06-12'])).toBe(false);
+    });
+  });
+
+  describe('getBusinessDueDate', () => {
+    it('should roll a weekend date by the rule', () => {
+      expect(
+        getBusinessDueDate('2025-03-08', calendar(WeekendRule.FORWARD))
+      ).toBe('2025-03-10');
+      expect(
+        getBusinessDueDate('2025-03-08', calendar(WeekendRule.BACKWARD))
+      ).toBe('2025-03-07');
+      expect(getBusinessDueDate('2025-03-08', calendar(WeekendRule.NONE))).toBe(
+        '2025-03-08'
+      );
+    });
+
+    it('should roll past holidays next to a weekend', () => {
+      // Eid-el-Kabir on Friday 6 June 2025 and the holiday on Monday 9 June
+      const holidays = ['2025-06-06', '2025-06-09'];
+      expect(
+        getBusinessDueDate(
+          '2025-06-06',
+          calendar(WeekendRule.FORWARD, 0, holidays)
+        )
+      ).toBe('2025-06-10');
+      expect(
+        getBusinessDueDate(
+          '2025-06-09',
+          calendar(WeekendRule.BACKWARD, 0, holidays)
+        )
+      ).toBe('2025-06-05');
+    });
+  });
+
+  describe('getEffectiveDueDate', () => {
+    it('should add grace days after rolling', () => {
+      expect(
+        getEffectiveDueDate('2025-03-08', calendar(WeekendRule.FORWARD, 2))
+      ).toBe('2025-03-12');
+      expect(
+        getEffectiveDueDate('2025-03-08', calendar(WeekendRule.NONE, 2))
+      ).toBe('2025-03-10');
+      expect(getEffectiveDueDate('2025-03-08')).toBe('2025-03-08');
+    });
+  });
+
+  describe('isPastDue', () => {
+    it('should not be late on the due date itself', () => {
+      expect(
+        isPastDue('2025-03-10', undefined, new Date(2025, 2, 10, 23))
+      ).toBe(false);
+      expect(isPastDue('2025-03-10', undefined, new Date(2025, 2, 11, 1))).toBe(
+        true
+      );
+    });
+
+    it('should not be late over a weekend rolled forward', () => {
+      const forward = calendar(WeekendRule.FORWARD);
+      expect(isPastDue('2025-03-08', forward, new Date(2025, 2, 9))).toBe(
+        false
+      );
+      expect(isPastDue('2025-03-08', forward, new Date(2025, 2, 10))).toBe(
+        false
+      );
+      expect(isPastDue('2025-03-08', forward, new Date(2025, 2, 11))).toBe(
+        true
+      );
+    });
+  });
+
+  describe('getDaysUntilDue', () => {
+    it('should count to the effective due date', () => {
+      const forward = calendar(WeekendRule.FORWARD, 1);
+      expect(getDaysUntilDue('2025-03-08', forward, new Date(2025, 2, 7))).toBe(
+        4
+      );
+      expect(
+        getDaysUntilDue('2025-03-08', forward, new Date(2025, 2, 13))
+      ).toBe(-2);
+    });
+  });
+});
@@ -1,6 +1,13 @@
-import { formatCurrency, formatDate, formatLoanTable } from '../format.utils';
+import {
+  formatCurrency,
+  formatDate,
+  formatDirection,
+  formatLoanTable,
+  getCounterpartyLabel,
+} from '../format.utils';
 import { LoanModel } from '../../models/loan.model';
 import { Loan } from '../../interfaces/loan.interface';
+import { LoanDirection } from '../../types/loan.types';
 
 describe('Format Utils', () => {
   describe('formatCurrency', () => {
@@ -74,6 +81,18 @@ describe('Format Utils', () => {
     });
   });
 
+  describe('formatDirection', () => {
+    it('should describe which way the money is owed', () => {
+      expect(formatDirection(LoanDirection.PAYABLE)).toBe('I owe');
+      expect(formatDirection(LoanDirection.RECEIVABLE)).toBe('Owed to me');
+    });
+
+    it('should name the other party by direction', () => {
+      expect(getCounterpartyLabel(LoanDirection.PAYABLE)).toBe('Lender');
+      expect(getCounterpartyLabel(LoanDirection.RECEIVABLE)).toBe('Borrower');
+    });
+  });
+
   describe('formatLoanTable', () => {
     const mockLoanData: Loan[] = [
       {
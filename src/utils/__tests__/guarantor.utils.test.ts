@@ -0,0 +1,77 @@
+import { getGuarantorExposures, getGuarantorKey } from '../guarantor.utils';
+import { LoanModel } from '../../models/loan.model';
+import { LoanDirection, LoanGuarantor } from '../../types/loan.types';
+
+describe('Guarantor Utils', () => {
+  const guarantor = (
+    id: string,
+    loanId: string,
+    phoneNumber: string,
+    guaranteeAmount: number,
+    isActive = true
+  ): LoanGuarantor => ({
+    id,
+    loanId,
+    name: 'Mama Ngozi',
+    phoneNumber,
+    relationship: 'Aunt',
+    guaranteeAmount,
+    isActive,
+    createdAt: '2025-01-01T10:00:00.000Z',
+    updatedAt: '2025-01-01T10:00:00.000Z',
+  });
+
+  const loans = [
+    new LoanModel({
+      id: 'loan-1',
+      direction: LoanDirection.RECEIVABLE,
+      lenderName: 'Chidi',
+      phoneNumber: '+2348011111111',
+      amount: 20000,
+      repaymentDate: '2020-01-01',
+      isPaid: false,
+      guarantors: [guarantor('g-1', 'loan-1', '+234 803 000 0000', 30000)],
+    }),
+    new LoanModel({
+      id: 'loan-2',
+      direction: LoanDirection.RECEIVABLE,
+      lenderName: 'Emeka',
+      phoneNumber: '+2348022222222',
+      amount: 50000,
+      repaymentDate: '2099-01-01',
+      isPaid: false,
+      guarantors: [
+        guarantor('g-2', 'loan-2', '+2348030000000', 10000),
+        guarantor('g-3', 'loan-2', '+2348099999999', 5000, false),
+      ],
+    }),
+  ];
+
+  it('should match guarantors by phone number regardless of spacing', () => {
+    expect(getGuarantorKey('+234 803-000 0000')).toBe('+2348030000000');
+  });
+
+  it('should total active guarantees across loans', () => {
+    const [exposure] = getGuarantorExposures(loans);
+
+    expect(exposure.activeGuarantees).toBe(2);
+    expect(exposure.totalGuaranteed).toBe(40000);
+    expect(exposure.loans.map(entry => entry.borrower)).toEqual([
+      'Chidi',
+      'Emeka',
+    ]);
+  });
+
+  it('should cap exposure at what each borrower still owes', () => {
+    const [exposure] = getGuarantorExposures(loans);
+    expect(exposure.totalExposure).toBe(30000);
+    expect(exposure.overdueLoans).toBe(1);
+  });
+
+  it('should not count released guarantees as exposure', () => {
+    const released = getGuarantorExposures(loans)[1];
+    expect(released.activeGuarantees).toBe(0);
+    expect(released.totalExposure).toBe(0);
+    expect(released.loans[0].isActive).toBe(false);
+  });
+});
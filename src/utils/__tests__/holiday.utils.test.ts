@@ -0,0 +1,110 @@
+import {
+  getEasterSunday,
+  getHolidayFileFormat,
+  getNigerianHolidays,
+  hasLunarHolidays,
+  parseHolidaysCsv,
+  parseHolidaysIcs,
+} from '../holiday.utils';
+
+describe('Holiday Utils', () => {
+  describe('getEasterSunday', () => {
+    it('should find Easter Sunday', () => {
+      expect(getEasterSunday(2024)).toBe('2024-03-31');
+      expect(getEasterSunday(2025)).toBe('2025-04-20');
+      expect(getEasterSunday(2026)).toBe('2026-04-05');
+    });
+  });
+
+  describe('getNigerianHolidays', () => {
+    it('should list the public holidays for a year in date order', () => {
+      const holidays = getNigerianHolidays(2026);
+
+      expect(holidays).toHaveLength(13);
+      expect(holidays[0]).toEqual({
+        date: '2026-01-01',
+        name: "New Year's Day",
+      });
+      expect(holidays).toContainEqual({
+        date: '2026-04-03',
+        name: 'Good Friday',
+      });
+      expect(holidays).toContainEqual({
+        date: '2026-04-06',
+        name: 'Easter Monday',
+      });
+      expect(holidays).toContainEqual({
+        date: '2026-06-12',
+        name: 'Democracy Day',
+      });
+      expect(holidays.map(holiday => holiday.date)).toEqual(
+        holidays.map(holiday => holiday.date).sort()
+      );
+    });
+
+    it('should leave out Islamic holidays for years without known dates', () => {
+      expect(hasLunarHolidays(2030)).toBe(false);
+      expect(getNigerianHolidays(2030)).toHaveLength(8);
+    });
+  });
+
+  describe('parseHolidaysCsv', () => {
+    it('should read date and name rows after an optional header', () => {
+      expect(
+        parseHolidaysCsv(
+          'date,name\n2025-10-01,Independence Day\n"2025-12-25","Christmas Day"\n'
+        )
+      ).toEqual([
+        { date: '2025-10-01', name: 'Independence Day' },
+        { date: '2025-12-25', name: 'Christmas Day' },
+      ]);
+    });
+
+    it('should reject rows without a valid date', () => {
+      expect(() =>
+        parseHolidaysCsv('2025-10-01,Independence Day\n01/10/2025,Oops')
+      ).toThrow('Invalid holiday on line 2');
+    });
+  });
+
+  describe('parseHolidaysIcs', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20251225',
+      'DTEND;VALUE=DATE:20251227',
+      'SUMMARY:Christmas\\, Boxing',
+      '  Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20251001T090000Z',
+      'DTEND:20251001T170000Z',
+      'SUMMARY:Independence Day',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    it('should add a holiday for each day of an event', () => {
+      expect(parseHolidaysIcs(ics)).toEqual([
+        { date: '2025-12-25', name: 'Christmas, Boxing Day' },
+        { date: '2025-12-26', name: 'Christmas, Boxing Day' },
+        { date: '2025-10-01', name: 'Independence Day' },
+      ]);
+    });
+
+    it('should reject a calendar without events', () => {
+      expect(() => parseHolidaysIcs('BEGIN:VCALENDAR\nEND:VCALENDAR')).toThrow(
+        'No events'
+      );
+    });
+  });
+
+  describe('getHolidayFileFormat', () => {
+    it('should accept .ics and .csv files only', () => {
+      expect(getHolidayFileFormat('holidays.ICS')).toBe('ics');
+      expect(getHolidayFileFormat('data/holidays.csv')).toBe('csv');
+      expect(() => getHolidayFileFormat('holidays.txt')).toThrow();
+    });
+  });
+});
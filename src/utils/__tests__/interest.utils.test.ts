@@ -0,0 +1,106 @@
+import {
+  calculateInterest,
+  formatInterestModel,
+  monthsBetween,
+} from '../interest.utils';
+import {
+  CompoundingFrequency,
+  InterestModelType,
+  InterestRatePeriod,
+} from '../../types/loan.types';
+
+describe('Interest Utils', () => {
+  describe('monthsBetween', () => {
+    it('should count whole calendar months exactly', () => {
+      expect(monthsBetween('2025-01-15', '2025-02-15')).toBe(1);
+      expect(monthsBetween('2025-01-15', '2026-01-15')).toBe(12);
+    });
+
+    it('should add the fraction of a partial month', () => {
+      expect(monthsBetween('2025-04-01', '2025-04-16')).toBe(0.5);
+    });
+
+    it('should return zero when the end is not after the start', () => {
+      expect(monthsBetween('2025-02-15', '2025-01-15')).toBe(0);
+    });
+  });
+
+  describe('calculateInterest', () => {
+    it('should apply a one-off percentage for flat interest', () => {
+      expect(
+        calculateInterest(50000, 10, undefined, '2025-01-01', '2026-01-01')
+      ).toBe(5000);
+    });
+
+    it('should charge simple interest per month', () => {
+      const interest = calculateInterest(
+        100000,
+        5,
+        {
+          type: InterestModelType.SIMPLE,
+          ratePeriod: InterestRatePeriod.MONTHLY,
+        },
+        '2025-01-15',
+        '2025-04-15'
+      );
+
+      expect(interest).toBeCloseTo(15000, 2);
+    });
+
+    it('should compound interest at the chosen frequency', () => {
+      const interest = calculateInterest(
+        100000,
+        12,
+        {
+          type: InterestModelType.COMPOUND,
+          ratePeriod: InterestRatePeriod.ANNUAL,
+          compounding: CompoundingFrequency.MONTHLY,
+        },
+        '2025-01-01',
+        '2026-01-01'
+      );
+
+      expect(interest).toBeCloseTo(12682.5, 1);
+    });
+
+    it('should accrue daily interest for each elapsed day', () => {
+      const interest = calculateInterest(
+        36500,
+        10,
+        {
+          type: InterestModelType.DAILY_ACCRUAL,
+          ratePeriod: InterestRatePeriod.ANNUAL,
+        },
+        '2025-01-01',
+        '2025-01-11'
+      );
+
+      expect(interest).toBeCloseTo(100, 2);
+    });
+
+    it('should return zero without a rate', () => {
+      expect(
+        calculateInterest(
+          50000,
+          0,
+          { type: InterestModelType.SIMPLE },
+          '2025-01-01',
+          '2026-01-01'
+        )
+      ).toBe(0);
+    });
+  });
+
+  describe('formatInterestModel', () => {
+    it('should describe each model', () => {
+      expect(formatInterestModel(10)).toBe('10% (flat)');
+      expect(
+        formatInterestModel(5, {
+          type: InterestModelType.SIMPLE,
+          ratePeriod: InterestRatePeriod.MONTHLY,
+        })
+      ).toBe('5% per month (simple)');
+      expect(formatInterestModel(undefined)).toBe('No Interest');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  formatLineage,
+  getPredecessors,
+  getSuccessors,
+  hasLineage,
+} from '../lineage.utils';
+import { Loan } from '../../interfaces/loan.interface';
+
+describe('Lineage Utils', () => {
+  const link = (
+    primaryLoanId: string,
+    relatedLoanId: string,
+    relationshipType: 'consolidation' | 'renewal'
+  ) => ({
+    id: `${primaryLoanId}-${relatedLoanId}`,
+    primaryLoanId,
+    relatedLoanId,
+    relationshipType,
+    createdAt: '2025-03-01T10:00:00.000Z',
+  });
+
+  const base = {
+    lenderName: 'Tunde',
+    phoneNumber: '+2348012345678',
+    repaymentDate: '2025-06-01',
+    isPaid: false,
+  };
+
+  // a and b were consolidated into c, which was later renewed as d
+  const loans: Loan[] = [
+    { ...base, id: 'a', amount: 1000, supersededBy: 'c' },
+    { ...base, id: 'b', amount: 2000, supersededBy: 'c' },
+    {
+      ...base,
+      id: 'c',
+      amount: 3000,
+      supersededBy: 'd',
+      relationships: [
+        link('c', 'a', 'consolidation'),
+        link('c', 'b', 'consolidation'),
+      ],
+    },
+    {
+      ...base,
+      id: 'd',
+      amount: 3000,
+      relationships: [link('d', 'c', 'renewal')],
+    },
+    { ...base, id: 'e', amount: 500 },
+  ];
+
+  it('should walk back through the loans that were replaced', () => {
+    const predecessors = getPredecessors('d', loans);
+    expect(predecessors).toHaveLength(1);
+    expect(predecessors[0].loan.id).toBe('c');
+    expect(predecessors[0].relationshipType).toBe('renewal');
+    expect(predecessors[0].children.map(node => node.loan.id)).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('should walk forward to the loans that replaced it', () => {
+    const successors = getSuccessors('a', loans);
+    expect(successors).toHaveLength(1);
+    expect(successors[0].loan.id).toBe('c');
+    expect(successors[0].children[0].loan.id).toBe('d');
+  });
+
+  it('should report loans without relationships as having no lineage', () => {
+    expect(hasLineage('e', loans)).toBe(false);
+    expect(formatLineage('e', loans)).toEqual([]);
+  });
+
+  it('should render a tree around the selected loan', () => {
+    const lines = formatLineage('c', loans);
+    expect(lines[0]).toBe('Replaced:');
+    expect(lines[1]).toContain('├─ [consolidation]');
+    expect(lines[2]).toContain('└─ [consolidation]');
+    expect(lines[3]).toContain('▶ This loan');
+    expect(lines[4]).toBe('Replaced by:');
+    expect(lines[5]).toContain('└─ [renewal]');
+  });
+});
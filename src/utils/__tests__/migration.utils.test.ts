@@ -0,0 +1,127 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  detectSchemaVersion,
+  migrateData,
+} from '../migration.utils';
+import { Loan } from '../../interfaces/loan.interface';
+import {
+  LoanCategory,
+  LoanDirection,
+  LoanPriority,
+} from '../../types/loan.types';
+
+describe('Migration Utils', () => {
+  const now = '2025-06-01T09:00:00.000Z';
+  const legacyLoans = [
+    {
+      id: 'loan-1',
+      lenderName: 'Kemi',
+      phoneNumber: '+2348012345678',
+      amount: 5000,
+      repaymentDate: '2025-03-01',
+      isPaid: false,
+      paymentHistory: [
+        {
+          id: 'payment-2',
+          loanId: 'loan-1',
+          amount: 1000,
+          paymentDate: '2025-02-20',
+          createdAt: '2025-02-20T08:00:00.000Z',
+        },
+        {
+          id: 'payment-1',
+          loanId: 'loan-1',
+          amount: 1000,
+          paymentDate: '2025-02-01',
+          createdAt: '2025-02-01T08:00:00.000Z',
+        },
+      ],
+    },
+    {
+      id: 'loan-2',
+      lenderName: 'Segun',
+      phoneNumber: '+2348087654321',
+      amount: 2000,
+      repaymentDate: '2025-04-01',
+      isPaid: true,
+    },
+  ] as Loan[];
+
+  describe('detectSchemaVersion', () => {
+    it('should treat a bare array as version 0', () => {
+      expect(detectSchemaVersion(legacyLoans)).toBe(0);
+    });
+
+    it('should read the version from an envelope', () => {
+      expect(
+        detectSchemaVersion({ schemaVersion: 2, updatedAt: now, loans: [] })
+      ).toBe(2);
+    });
+
+    it('should reject unrecognised data', () => {
+      expect(() => detectSchemaVersion({ loans: 'nope' })).toThrow(
+        'Unrecognised loan data format'
+      );
+    });
+  });
+
+  describe('migrateData', () => {
+    it('should upgrade a legacy file through every step', () => {
+      const outcome = migrateData(legacyLoans, now);
+
+      expect(outcome.fromVersion).toBe(0);
+      expect(outcome.data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(outcome.steps.map(step => step.version)).toEqual([1, 2, 3]);
+      expect(outcome.steps[1].loansChanged).toBe(2);
+    });
+
+    it('should backfill timestamps from the loan history when it has one', () => {
+      const [first, second] = migrateData(legacyLoans, now).data.loans;
+
+      expect(first.createdAt).toBe('2025-02-01T08:00:00.000Z');
+      expect(first.updatedAt).toBe('2025-02-20T08:00:00.000Z');
+      expect(second.createdAt).toBe(now);
+      expect(second.updatedAt).toBe(now);
+    });
+
+    it('should backfill defaults for fields added later', () => {
+      const [loan] = migrateData(legacyLoans, now).data.loans;
+
+      expect(loan.direction).toBe(LoanDirection.PAYABLE);
+      expect(loan.category).toBe(LoanCategory.OTHER);
+      expect(loan.priority).toBe(LoanPriority.MEDIUM);
+    });
+
+    it('should only run the steps newer than the stored version', () => {
+      const outcome = migrateData(
+        {
+          schemaVersion: 2,
+          updatedAt: now,
+          loans: [{ ...legacyLoans[1], createdAt: now, updatedAt: now }],
+        },
+        '2025-07-01T00:00:00.000Z'
+      );
+
+      expect(outcome.steps.map(step => step.version)).toEqual([3]);
+      expect(outcome.data.loans[0].createdAt).toBe(now);
+    });
+
+    it('should leave current data untouched', () => {
+      const current = migrateData(legacyLoans, now).data;
+      const outcome = migrateData(current, '2025-07-01T00:00:00.000Z');
+
+      expect(outcome.steps).toHaveLength(0);
+      expect(outcome.data).toEqual(current);
+    });
+
+    it('should refuse data written by a newer version', () => {
+      expect(() =>
+        migrateData({
+          schemaVersion: CURRENT_SCHEMA_VERSION + 1,
+          updatedAt: now,
+          loans: [],
+        })
+      ).toThrow('only supports up to');
+    });
+  });
+});
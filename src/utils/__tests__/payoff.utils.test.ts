@@ -0,0 +1,232 @@
+import {
+  comparePayoff,
+  getCurrentPlanPayments,
+  getScenarioPayments,
+  parseLumpSums,
+  projectPayoff,
+} from '../payoff.utils';
+import { LoanModel } from '../../models/loan.model';
+import { Loan } from '../../interfaces/loan.interface';
+import {
+  InterestModelType,
+  InterestRatePeriod,
+  PenaltyPeriod,
+  WeekendRule,
+} from '../../types/loan.types';
+
+describe('Payoff Utils', () => {
+  const asOf = new Date(2025, 0, 1);
+
+  const loan = (id: string, overrides: Partial<Loan> = {}): LoanModel =>
+    new LoanModel({
+      id,
+      lenderName: 'Kemi',
+      phoneNumber: '+2348012345678',
+      amount: 120000,
+      repaymentDate: '2026-01-01',
+      isPaid: false,
+      ...overrides,
+    });
+
+  const simple = loan('simple', {
+    interestRate: 12,
+    interestModel: {
+      type: InterestModelType.SIMPLE,
+      ratePeriod: InterestRatePeriod.ANNUAL,
+      startDate: '2025-01-01',
+    },
+  });
+
+  describe('current plan', () => {
+    it('should match the interest the loan reports', () => {
+      const projection = projectPayoff(
+        [simple],
+        getCurrentPlanPayments([simple], asOf),
+        { asOf }
+      );
+
+      expect(projection.payoffDate).toBe('2026-01-01');
+      expect(projection.totalInterest).toBeCloseTo(
+        simple.calculateInterest(),
+        0
+      );
+      expect(projection.totalPaid).toBeCloseTo(
+        simple.calculateTotalWithInterest(),
+        0
+      );
+      expect(projection.curve[0]).toEqual({
+        date: '2025-01-01',
+        balance: 120000,
+      });
+    });
+  });
+
+  describe('comparePayoff', () => {
+    it('should show interest saved by paying monthly', () => {
+      const comparison = comparePayoff(
+        [simple],
+        { monthlyPayment: 20000, firstPaymentDate: '2025-02-01' },
+        { asOf }
+      );
+
+      expect(comparison.scenario.payoffDate).toBe('2025-08-01');
+      expect(comparison.scenario.totalInterest).toBeLessThan(
+        comparison.current.totalInterest
+      );
+      expect(comparison.savings).toBeGreaterThan(9000);
+      expect(comparison.daysSooner).toBe(153);
+    });
+
+    it('should save nothing on flat interest by settling early', () => {
+      const flat = loan('flat', { interestRate: 10 });
+      const comparison = comparePayoff(
+        [flat],
+        { settleOn: '2025-03-01' },
+        { asOf }
+      );
+
+      expect(comparison.scenario.totalPaid).toBe(132000);
+      expect(comparison.savings).toBe(0);
+    });
+
+    it('should charge penalties when paying after the due date', () => {
+      const late = loan('late', {
+        amount: 10000,
+        repaymentDate: '2025-01-10',
+        penaltyRule: {
+          fixedFee: 500,
+          rate: 1,
+          ratePeriod: PenaltyPeriod.DAY,
+          graceDays: 0,
+        },
+      });
+      const comparison = comparePayoff(
+        [late],
+        { settleOn: '2025-01-20' },
+        { asOf }
+      );
+
+      expect(comparison.current.totalPenalties).toBe(0);
+      expect(comparison.scenario.totalPenalties).toBe(1500);
+      expect(comparison.savings).toBe(-1500);
+    });
+
+    it('should charge no penalty within the grace days', () => {
+      const graced = new LoanModel(
+        {
+          id: 'graced',
+          lenderName: 'Kemi',
+          phoneNumber: '+2348012345678',
+          amount: 10000,
+          repaymentDate: '2026-10-16',
+          isPaid: false,
+          penaltyRule: {
+            fixedFee: 300,
+            rate: 0,
+            ratePeriod: PenaltyPeriod.DAY,
+            graceDays: 0,
+          },
+        },
+        { graceDays: 5, weekendRule: WeekendRule.NONE, holidays: [] }
+      );
+      const comparison = comparePayoff(
+        [graced],
+        { settleOn: '2026-10-19' },
+        { asOf: new Date(2026, 9, 19) }
+      );
+
+      expect(getCurrentPlanPayments([graced], new Date(2026, 9, 19))).toEqual([
+        { date: '2026-10-21', amount: 'settle', loanId: 'graced' },
+      ]);
+      expect(comparison.current.totalPenalties).toBe(0);
+      expect(comparison.scenario.totalPenalties).toBe(0);
+    });
+
+    it('should report when a payment never clears the loan', () => {
+      const daily = loan('daily', {
+        interestRate: 10,
+        interestModel: {
+          type: InterestModelType.DAILY_ACCRUAL,
+          ratePeriod: InterestRatePeriod.MONTHLY,
+          startDate: '2025-01-01',
+        },
+      });
+      const comparison = comparePayoff(
+        [daily],
+        { monthlyPayment: 5000 },
+        { asOf }
+      );
+
+      expect(comparison.scenario.payoffDate).toBeUndefined();
+      expect(comparison.scenario.remainingBalance).toBeGreaterThan(0);
+      expect(comparison.daysSooner).toBeUndefined();
+    });
+  });
+
+  describe('several loans', () => {
+    it('should share payments by what each loan owes', () => {
+      const small = loan('small', { amount: 30000 });
+      const large = loan('large', { amount: 90000 });
+      const projection = projectPayoff(
+        [small, large],
+        [{ date: '2025-01-01', amount: 60000 }],
+        { asOf }
+      );
+
+      expect(projection.loans).toEqual([
+        expect.objectContaining({ loanId: 'small', remainingBalance: 15000 }),
+        expect.objectContaining({ loanId: 'large', remainingBalance: 45000 }),
+      ]);
+    });
+
+    it('should never pay more than is owed', () => {
+      const small = loan('small', { amount: 1000 });
+      const large = loan('large', { amount: 9000 });
+      const projection = projectPayoff(
+        [small, large],
+        [{ date: '2025-01-01', amount: 12000 }],
+        { asOf }
+      );
+
+      expect(projection.payoffDate).toBe('2025-01-01');
+      expect(projection.totalPaid).toBe(10000);
+      expect(projection.curve).toEqual([{ date: '2025-01-01', balance: 0 }]);
+    });
+  });
+
+  describe('getScenarioPayments', () => {
+    it('should expand monthly payments and keep lump sums', () => {
+      const payments = getScenarioPayments(
+        {
+          monthlyPayment: 1000,
+          firstPaymentDate: '2025-01-31',
+          lumpSums: [{ date: '2025-03-15', amount: 5000 }],
+          settleOn: '2025-06-01',
+        },
+        asOf
+      );
+
+      expect(payments.slice(0, 3)).toEqual([
+        { date: '2025-03-15', amount: 5000 },
+        { date: '2025-01-31', amount: 1000 },
+        { date: '2025-02-28', amount: 1000 },
+      ]);
+      expect(payments[payments.length - 1]).toEqual({
+        date: '2025-06-01',
+        amount: 'settle',
+      });
+    });
+  });
+
+  describe('parseLumpSums', () => {
+    it('should read dated amounts in date order', () => {
+      expect(parseLumpSums('2025-06-01 20000, 2025-03-01 50000,')).toEqual([
+        { date: '2025-03-01', amount: 50000 },
+        { date: '2025-06-01', amount: 20000 },
+      ]);
+      expect(() => parseLumpSums('March 50000')).toThrow(
+        '"March 50000" should be a date and amount'
+      );
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  calculatePenalty,
+  formatPenaltyRule,
+  getDaysOverdue,
+} from '../penalty.utils';
+import { PenaltyPeriod, PenaltyRule } from '../../types/loan.types';
+
+describe('Penalty Utils', () => {
+  const asOf = new Date('2025-03-20T12:00:00');
+  const dailyRule: PenaltyRule = {
+    fixedFee: 0,
+    rate: 1,
+    ratePeriod: PenaltyPeriod.DAY,
+    graceDays: 0,
+  };
+
+  describe('getDaysOverdue', () => {
+    it('should count calendar days past the due date', () => {
+      expect(getDaysOverdue('2025-03-10', asOf)).toBe(10);
+    });
+
+    it('should return zero for dates not yet due', () => {
+      expect(getDaysOverdue('2025-03-25', asOf)).toBe(0);
+    });
+  });
+
+  describe('calculatePenalty', () => {
+    it('should charge a percentage per day overdue', () => {
+      const entries = [{ dueDate: '2025-03-10', amount: 10000 }];
+      expect(calculatePenalty(entries, dailyRule, 10000, asOf)).toBe(1000);
+    });
+
+    it('should not charge within the grace period', () => {
+      const entries = [{ dueDate: '2025-03-17', amount: 10000 }];
+      const rule = { ...dailyRule, graceDays: 3 };
+      expect(calculatePenalty(entries, rule, 10000, asOf)).toBe(0);
+    });
+
+    it('should only charge days after the grace period', () => {
+      const entries = [{ dueDate: '2025-03-10', amount: 10000 }];
+      const rule = { ...dailyRule, graceDays: 3 };
+      expect(calculatePenalty(entries, rule, 10000, asOf)).toBe(700);
+    });
+
+    it('should charge started weeks for a weekly rate plus the fixed fee', () => {
+      const entries = [{ dueDate: '2025-03-10', amount: 10000 }];
+      const rule: PenaltyRule = {
+        fixedFee: 500,
+        rate: 2,
+        ratePeriod: PenaltyPeriod.WEEK,
+        graceDays: 0,
+      };
+      // 10 days overdue is two started weeks
+      expect(calculatePenalty(entries, rule, 10000, asOf)).toBe(900);
+    });
+
+    it('should charge each overdue entry separately', () => {
+      const entries = [
+        { dueDate: '2025-03-10', amount: 5000 },
+        { dueDate: '2025-03-15', amount: 5000 },
+      ];
+      const rule = { ...dailyRule, fixedFee: 100 };
+      expect(calculatePenalty(entries, rule, 10000, asOf)).toBe(950);
+    });
+
+    it('should apply the fixed and percentage caps', () => {
+      const entries = [{ dueDate: '2025-01-01', amount: 10000 }];
+      expect(
+        calculatePenalty(
+          entries,
+          { ...dailyRule, maxAmount: 1500 },
+          10000,
+          asOf
+        )
+      ).toBe(1500);
+      expect(
+        calculatePenalty(entries, { ...dailyRule, maxPercent: 20 }, 10000, asOf)
+      ).toBe(2000);
+    });
+  });
+
+  describe('formatPenaltyRule', () => {
+    it('should describe a missing rule', () => {
+      expect(formatPenaltyRule(undefined)).toBe('No penalty');
+    });
+
+    it('should describe the rate, grace days and caps', () => {
+      const description = formatPenaltyRule({
+        ...dailyRule,
+        graceDays: 3,
+        maxPercent: 20,
+      });
+      expect(description).toContain('1% per day');
+      expect(description).toContain('3 grace days');
+      expect(description).toContain('20% of principal');
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  buildRecurringLoanData,
+  formatFrequency,
+  getDueOccurrences,
+  getOccurrenceDate,
+  getUpcomingOccurrences,
+  isPastSeriesEnd,
+} from '../recurring.utils';
+import {
+  InstallmentFrequency,
+  InterestModelType,
+  InterestRatePeriod,
+  LoanDirection,
+  RecurringLoan,
+  RecurringStatus,
+} from '../../types/loan.types';
+
+describe('Recurring Utils', () => {
+  const series: RecurringLoan = {
+    id: 'series-1',
+    name: 'Salary advance',
+    frequency: InstallmentFrequency.MONTHLY,
+    startDate: '2025-01-31',
+    termDays: 25,
+    lenderName: 'Employer',
+    phoneNumber: '+2348012345678',
+    amount: 50000,
+    currency: 'NGN',
+    status: RecurringStatus.ACTIVE,
+    nextOccurrence: 0,
+    skippedDates: [],
+    generatedLoanIds: [],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  };
+
+  describe('getOccurrenceDate', () => {
+    it('should count from the start date without drifting', () => {
+      expect(getOccurrenceDate(series, 0)).toBe('2025-01-31');
+      expect(getOccurrenceDate(series, 1)).toBe('2025-02-28');
+      expect(getOccurrenceDate(series, 2)).toBe('2025-03-31');
+    });
+
+    it('should step weekly series by weeks', () => {
+      const weekly = { ...series, frequency: InstallmentFrequency.WEEKLY };
+      expect(getOccurrenceDate(weekly, 2)).toBe('2025-02-14');
+    });
+  });
+
+  describe('isPastSeriesEnd', () => {
+    it('should never end an open series', () => {
+      expect(isPastSeriesEnd(series, 500)).toBe(false);
+    });
+
+    it('should end after the occurrence count', () => {
+      const counted = { ...series, occurrenceCount: 3 };
+      expect(isPastSeriesEnd(counted, 2)).toBe(false);
+      expect(isPastSeriesEnd(counted, 3)).toBe(true);
+    });
+
+    it('should end after the end date', () => {
+      const dated = { ...series, endDate: '2025-03-31' };
+      expect(isPastSeriesEnd(dated, 2)).toBe(false);
+      expect(isPastSeriesEnd(dated, 3)).toBe(true);
+    });
+  });
+
+  describe('getDueOccurrences', () => {
+    it('should return every unhandled occurrence up to the date', () => {
+      const due = getDueOccurrences(series, '2025-03-15');
+      expect(due.map(occurrence => occurrence.date)).toEqual([
+        '2025-01-31',
+        '2025-02-28',
+      ]);
+      expect(due[1]).toMatchObject({
+        index: 1,
+        repaymentDate: '2025-03-25',
+        skipped: false,
+      });
+    });
+
+    it('should start from the next unhandled occurrence', () => {
+      expect(
+        getDueOccurrences({ ...series, nextOccurrence: 2 }, '2025-03-15')
+      ).toEqual([]);
+    });
+
+    it('should flag skipped dates', () => {
+      const due = getDueOccurrences(
+        { ...series, skippedDates: ['2025-02-28'] },
+        '2025-02-28'
+      );
+      expect(due.map(occurrence => occurrence.skipped)).toEqual([false, true]);
+    });
+
+    it('should stop at the occurrence count', () => {
+      expect(
+        getDueOccurrences({ ...series, occurrenceCount: 1 }, '2025-12-31')
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('getUpcomingOccurrences', () => {
+    it('should list the requested number of occurrences', () => {
+      const upcoming = getUpcomingOccurrences(
+        { ...series, nextOccurrence: 1 },
+        2
+      );
+      expect(upcoming.map(occurrence => occurrence.date)).toEqual([
+        '2025-02-28',
+        '2025-03-31',
+      ]);
+    });
+
+    it('should not go past the end of the series', () => {
+      expect(
+        getUpcomingOccurrences({ ...series, occurrenceCount: 2 }, 5)
+      ).toHaveLength(2);
+    });
+  });
+
+  describe('buildRecurringLoanData', () => {
+    it('should build a loan for the occurrence', () => {
+      const [occurrence] = getDueOccurrences(series, '2025-01-31');
+      expect(buildRecurringLoanData(series, occurrence)).toMatchObject({
+        direction: LoanDirection.PAYABLE,
+        lenderName: 'Employer',
+        amount: 50000,
+        repaymentDate: '2025-02-25',
+        recurringId: 'series-1',
+        notes: 'Salary advance #1 (2025-01-31)',
+      });
+    });
+
+    it('should run the interest model from the occurrence date', () => {
+      const withInterest: RecurringLoan = {
+        ...series,
+        interestRate: 5,
+        interestModel: {
+          type: InterestModelType.SIMPLE,
+          ratePeriod: InterestRatePeriod.MONTHLY,
+        },
+      };
+      const [, occurrence] = getDueOccurrences(withInterest, '2025-02-28');
+      expect(buildRecurringLoanData(withInterest, occurrence)).toMatchObject({
+        interestRate: 5,
+        interestModel: {
+          type: InterestModelType.SIMPLE,
+          ratePeriod: InterestRatePeriod.MONTHLY,
+          startDate: '2025-02-28',
+        },
+      });
+    });
+  });
+
+  describe('formatFrequency', () => {
+    it('should describe each frequency', () => {
+      expect(formatFrequency(InstallmentFrequency.BI_WEEKLY)).toBe('Bi-weekly');
+      expect(formatFrequency(InstallmentFrequency.MONTHLY)).toBe('Monthly');
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  DEFAULT_RISK_THRESHOLDS,
+  LoanRisk,
+  assessLoanRisks,
+  compareLoanRisk,
+  getRiskLevel,
+  validateRiskThresholds,
+} from '../risk.utils';
+import { LoanModel } from '../../models/loan.model';
+import { Loan } from '../../interfaces/loan.interface';
+import { RiskLevel, WeekendRule } from '../../types/loan.types';
+
+describe('Risk Utils', () => {
+  const asOf = new Date('2025-03-02T12:00:00.000Z');
+
+  const loan = (id: string, overrides: Partial<Loan> = {}): LoanModel =>
+    new LoanModel({
+      id,
+      lenderName: 'Bisi',
+      phoneNumber: '+2348012345678',
+      amount: 10000,
+      repaymentDate: '2099-01-01',
+      isPaid: false,
+      ...overrides,
+    });
+
+  describe('getRiskLevel', () => {
+    it('should map scores onto the thresholds', () => {
+      expect(getRiskLevel(0, DEFAULT_RISK_THRESHOLDS)).toBe(RiskLevel.LOW);
+      expect(getRiskLevel(25, DEFAULT_RISK_THRESHOLDS)).toBe(RiskLevel.LOW);
+      expect(getRiskLevel(26, DEFAULT_RISK_THRESHOLDS)).toBe(RiskLevel.MEDIUM);
+      expect(getRiskLevel(75, DEFAULT_RISK_THRESHOLDS)).toBe(RiskLevel.HIGH);
+      expect(getRiskLevel(76, DEFAULT_RISK_THRESHOLDS)).toBe(
+        RiskLevel.CRITICAL
+      );
+    });
+  });
+
+  describe('assessLoanRisks', () => {
+    it('should score a small, current loan as low risk', () => {
+      const risks = assessLoanRisks(
+        [loan('a'), loan('b', { phoneNumber: '+2348099999999' })],
+        DEFAULT_RISK_THRESHOLDS,
+        undefined,
+        asOf
+      );
+      expect(risks.get('a')).toMatchObject({ score: 0, level: RiskLevel.LOW });
+    });
+
+    it('should add up every factor', () => {
+      const risky = loan('risky', {
+        amount: 40000,
+        interestRate: 25,
+        repaymentDate: '2024-12-02', // 90 days overdue
+        rescheduleHistory: [
+          {
+            id: 'r-1',
+            previousDate: '2024-11-01',
+            newDate: '2024-12-02',
+            reason: 'Salary late',
+            rescheduledAt: '2024-10-30T10:00:00.000Z',
+          },
+        ],
+      });
+      const writtenOff = loan('old', {
+        repaymentDate: '2024-01-01',
+        writeOff: {
+          amount: 10000,
+          date: '2024-06-01',
+          reason: 'Moved away',
+          recordedAt: '2024-06-01T10:00:00.000Z',
+        },
+      });
+      const others = [
+        loan('x', { phoneNumber: '+2348011111111' }),
+        loan('y', { phoneNumber: '+2348022222222' }),
+      ];
+
+      const risk = assessLoanRisks(
+        [risky, writtenOff, ...others],
+        DEFAULT_RISK_THRESHOLDS,
+        undefined,
+        asOf
+      ).get('risky')!;
+
+      expect(risk.factors.daysOverdue).toBe(40);
+      expect(risk.factors.counterpartyHistory).toBe(20);
+      expect(risk.factors.interestBurden).toBe(7.5);
+      expect(risk.factors.reschedules).toBeCloseTo(3.3);
+      expect(risk.factors.relativeAmount).toBeGreaterThan(0);
+      expect(risk.level).toBe(RiskLevel.CRITICAL);
+    });
+
+    it('should match counterparties by phone number written differently', () => {
+      const risks = assessLoanRisks(
+        [
+          loan('a'),
+          loan('b', {
+            phoneNumber: '0801 234 5678',
+            isPaid: true,
+            repaymentDate: '2024-01-01',
+            paymentHistory: [
+              {
+                id: 'p-1',
+                loanId: 'b',
+                amount: 10000,
+                paymentDate: '2024-02-15',
+                createdAt: '2024-02-15T10:00:00.000Z',
+              },
+            ],
+          }),
+        ],
+        DEFAULT_RISK_THRESHOLDS,
+        undefined,
+        asOf
+      );
+      expect(risks.get('a')!.factors.counterpartyHistory).toBe(20);
+      expect(risks.get('b')!.score).toBe(0); // Settled loans carry no risk
+    });
+
+    it('should not count a payment made within the grace days as late', () => {
+      const paidInGrace = new LoanModel(
+        {
+          id: 'b',
+          lenderName: 'Bisi',
+          phoneNumber: '+2348012345678',
+          amount: 10000,
+          repaymentDate: '2024-01-01',
+          isPaid: true,
+          paymentHistory: [
+            {
+              id: 'p-1',
+              loanId: 'b',
+              amount: 10000,
+              paymentDate: '2024-01-04',
+              createdAt: '2024-01-04T10:00:00.000Z',
+            },
+          ],
+        },
+        { graceDays: 5, weekendRule: WeekendRule.NONE, holidays: [] }
+      );
+      const risks = assessLoanRisks(
+        [loan('a'), paidInGrace],
+        DEFAULT_RISK_THRESHOLDS,
+        undefined,
+        asOf
+      );
+      expect(risks.get('a')!.factors.counterpartyHistory).toBe(0);
+    });
+
+    it('should not group different people who have no phone number', () => {
+      const risks = assessLoanRisks(
+        [
+          loan('a', { phoneNumber: '' }),
+          loan('b', {
+            lenderName: 'Tunde',
+            phoneNumber: '',
+            repaymentDate: '2024-01-01',
+          }),
+        ],
+        DEFAULT_RISK_THRESHOLDS,
+        undefined,
+        asOf
+      );
+      expect(risks.get('a')!.factors.counterpartyHistory).toBe(0);
+    });
+  });
+
+  describe('compareLoanRisk', () => {
+    it('should put the highest risk first', () => {
+      const low = { score: 10, level: RiskLevel.LOW } as LoanRisk;
+      const high = { score: 60, level: RiskLevel.HIGH } as LoanRisk;
+      expect([low, high].sort(compareLoanRisk)).toEqual([high, low]);
+      expect(compareLoanRisk(undefined, low)).toBeGreaterThan(0);
+    });
+  });
+
+  describe('validateRiskThresholds', () => {
+    it('should require increasing thresholds within 0-100', () => {
+      expect(validateRiskThresholds(DEFAULT_RISK_THRESHOLDS)).toBeUndefined();
+      expect(
+        validateRiskThresholds({ lowRisk: 50, mediumRisk: 40, highRisk: 80 })
+      ).toBe('Risk thresholds must increase from low to high');
+      expect(
+        validateRiskThresholds({ lowRisk: 10, mediumRisk: 40, highRisk: 120 })
+      ).toBe('Risk thresholds must be between 0 and 100');
+    });
+  });
+});
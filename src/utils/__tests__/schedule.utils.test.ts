@@ -0,0 +1,105 @@
+import {
+  addPeriods,
+  allocatePayments,
+  generateSchedule,
+  shiftDate,
+} from '../schedule.utils';
+import {
+  InstallmentFrequency,
+  InstallmentPlan,
+  PaymentRecord,
+  ScheduleMethod,
+} from '../../types/loan.types';
+
+describe('Schedule Utils', () => {
+  const monthlyPlan: InstallmentPlan = {
+    frequency: InstallmentFrequency.MONTHLY,
+    method: ScheduleMethod.EQUAL_INSTALLMENT,
+    termCount: 3,
+    startDate: '2025-01-15',
+  };
+
+  const payment = (amount: number, paymentDate: string): PaymentRecord => ({
+    id: `payment-${paymentDate}`,
+    loanId: 'loan-1',
+    amount,
+    paymentDate,
+    createdAt: '2025-01-01T00:00:00.000Z',
+  });
+
+  describe('addPeriods', () => {
+    it('should step by the installment frequency', () => {
+      expect(addPeriods('2025-01-15', InstallmentFrequency.WEEKLY, 1)).toBe(
+        '2025-01-22'
+      );
+      expect(addPeriods('2025-01-15', InstallmentFrequency.BI_WEEKLY, 1)).toBe(
+        '2025-01-29'
+      );
+      expect(addPeriods('2025-01-15', InstallmentFrequency.MONTHLY, 2)).toBe(
+        '2025-03-15'
+      );
+    });
+  });
+
+  describe('shiftDate', () => {
+    it('should move a date by whole days in either direction', () => {
+      expect(shiftDate('2025-01-30', 3)).toBe('2025-02-02');
+      expect(shiftDate('2025-03-01', -1)).toBe('2025-02-28');
+    });
+  });
+
+  describe('generateSchedule', () => {
+    it('should split an interest-free loan into equal installments', () => {
+      const schedule = generateSchedule('loan-1', 90000, 0, monthlyPlan);
+
+      expect(schedule).toHaveLength(3);
+      expect(schedule.map(row => row.totalAmount)).toEqual([
+        30000, 30000, 30000,
+      ]);
+      expect(schedule.map(row => row.dueDate)).toEqual([
+        '2025-02-15',
+        '2025-03-15',
+        '2025-04-15',
+      ]);
+    });
+
+    it('should charge interest on the reducing balance for equal installments', () => {
+      const schedule = generateSchedule('loan-1', 100000, 5, monthlyPlan);
+      const principal = schedule.reduce(
+        (sum, row) => sum + row.principalAmount,
+        0
+      );
+
+      expect(schedule[0].interestAmount).toBe(5000);
+      expect(schedule[1].interestAmount).toBeLessThan(5000);
+      expect(principal).toBeCloseTo(100000, 2);
+      expect(schedule[0].totalAmount).toBeCloseTo(schedule[1].totalAmount, 0);
+    });
+
+    it('should charge interest on the original amount for flat interest', () => {
+      const schedule = generateSchedule('loan-1', 100000, 5, {
+        ...monthlyPlan,
+        method: ScheduleMethod.FLAT_INTEREST,
+      });
+
+      schedule.forEach(row => expect(row.interestAmount).toBe(5000));
+      expect(schedule[2].principalAmount).toBeCloseTo(33333.34, 2);
+    });
+  });
+
+  describe('allocatePayments', () => {
+    it('should settle installments oldest first', () => {
+      const schedule = generateSchedule('loan-1', 90000, 0, monthlyPlan);
+      const allocated = allocatePayments(schedule, [
+        payment(20000, '2025-02-20'),
+        payment(20000, '2025-02-10'),
+      ]);
+
+      expect(allocated[0].status).toBe('paid');
+      expect(allocated[0].paidDate).toBe('2025-02-20');
+      expect(allocated[1].status).toBe('partial');
+      expect(allocated[1].remainingAmount).toBe(20000);
+      expect(allocated[2].status).toBe('pending');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  buildTemplateFromLoan,
+  formatTemplateTerms,
+  getLoanTermDays,
+  getTemplateDueDate,
+} from '../template.utils';
+import { Loan } from '../../interfaces/loan.interface';
+import {
+  LoanCategory,
+  LoanDirection,
+  LoanPriority,
+  LoanTemplate,
+} from '../../types/loan.types';
+
+describe('Template Utils', () => {
+  const loan: Loan = {
+    id: 'loan-1',
+    lenderName: 'Ada',
+    phoneNumber: '+2348012345678',
+    amount: 30000,
+    currency: 'NGN',
+    repaymentDate: '2025-02-15',
+    originalRepaymentDate: '2025-01-31',
+    interestRate: 5,
+    isPaid: false,
+    direction: LoanDirection.RECEIVABLE,
+    category: LoanCategory.FAMILY,
+    priority: LoanPriority.HIGH,
+    tags: ['family'],
+    createdAt: '2025-01-01T10:00:00.000Z',
+  };
+
+  const template: LoanTemplate = {
+    id: 'template-1',
+    name: 'Monthly float',
+    amount: 30000,
+    currency: 'NGN',
+    interestRate: 5,
+    defaultDays: 30,
+    isActive: true,
+    usageCount: 0,
+    createdAt: '2025-01-01T10:00:00.000Z',
+    updatedAt: '2025-01-01T10:00:00.000Z',
+  };
+
+  describe('getTemplateDueDate', () => {
+    it('should offset the due date from the given day', () => {
+      expect(getTemplateDueDate(30, new Date(2025, 0, 15))).toBe('2025-02-14');
+    });
+  });
+
+  describe('getLoanTermDays', () => {
+    it('should measure the term against the original due date', () => {
+      expect(getLoanTermDays(loan)).toBe(30);
+    });
+
+    it('should return undefined without a creation date', () => {
+      expect(
+        getLoanTermDays({ ...loan, createdAt: undefined })
+      ).toBeUndefined();
+    });
+
+    it('should return undefined when the loan was due on creation', () => {
+      expect(
+        getLoanTermDays({
+          ...loan,
+          originalRepaymentDate: undefined,
+          repaymentDate: '2025-01-01',
+        })
+      ).toBeUndefined();
+    });
+  });
+
+  describe('buildTemplateFromLoan', () => {
+    it('should copy the reusable terms of a loan', () => {
+      expect(buildTemplateFromLoan(loan, 'Ada float')).toEqual({
+        name: 'Ada float',
+        direction: LoanDirection.RECEIVABLE,
+        lenderName: 'Ada',
+        phoneNumber: '+2348012345678',
+        amount: 30000,
+        currency: 'NGN',
+        interestRate: 5,
+        defaultDays: 30,
+        category: LoanCategory.FAMILY,
+        priority: LoanPriority.HIGH,
+        tags: ['family'],
+      });
+    });
+  });
+
+  describe('formatTemplateTerms', () => {
+    it('should describe amount, interest and term', () => {
+      expect(formatTemplateTerms(template)).toBe('₦30,000 at 5% for 30 days');
+    });
+
+    it('should describe open-ended templates', () => {
+      expect(
+        formatTemplateTerms({
+          ...template,
+          amount: undefined,
+          interestRate: undefined,
+          defaultDays: 1,
+        })
+      ).toBe('Any amount interest-free for 1 day');
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { Loan } from '../interfaces/loan.interface';
+import { AuditAction, LoanAuditLog } from '../types/loan.types';
+
+export interface LoanChange {
+  loanId: string;
+  before: Loan | null; // Null when the operation created the loan
+  after: Loan | null; // Null when the operation deleted the loan
+}
+
+export interface AuditFilter {
+  loanId?: string;
+  action?: AuditAction;
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string; // yyyy-MM-dd, inclusive
+}
+
+// updatedAt moves on every write, so it is not reported as a change
+const IGNORED_FIELDS = ['updatedAt'];
+
+export function getLoanChanges(before: Loan[], after: Loan[]): LoanChange[] {
+  const previous = new Map(before.map(loan => [loan.id, loan]));
+  const current = new Map(after.map(loan => [loan.id, loan]));
+  const changes: LoanChange[] = [];
+
+  before.forEach(loan => {
+    const next = current.get(loan.id);
+    if (!next || JSON.stringify(next) !== JSON.stringify(loan)) {
+      changes.push({ loanId: loan.id, before: loan, after: next || null });
+    }
+  });
+  after.forEach(loan => {
+    if (!previous.has(loan.id)) {
+      changes.push({ loanId: loan.id, before: null, after: loan });
+    }
+  });
+
+  return changes;
+}
+
+export function diffLoanValues(change: LoanChange): {
+  oldValues?: Record<string, unknown>;
+  newValues?: Record<string, unknown>;
+} {
+  const before = (change.before || {}) as Record<string, unknown>;
+  const after = (change.after || {}) as Record<string, unknown>;
+  const fields = Array.from(
+    new Set([...Object.keys(before), ...Object.keys(after)])
+  ).filter(field => !IGNORED_FIELDS.includes(field));
+
+  const oldValues: Record<string, unknown> = {};
+  const newValues: Record<string, unknown> = {};
+  fields.forEach(field => {
+    if (JSON.stringify(before[field]) === JSON.stringify(after[field])) return;
+    if (before[field] !== undefined) oldValues[field] = before[field];
+    if (after[field] !== undefined) newValues[field] = after[field];
+  });
+
+  return {
+    oldValues: Object.keys(oldValues).length > 0 ? oldValues : undefined,
+    newValues: Object.keys(newValues).length > 0 ? newValues : undefined,
+  };
+}
+
+// Undo puts every loan back as it was before; redo replays the change.
+// Loans edited since then are never overwritten.
+export function applyLoanChanges(
+  loans: Loan[],
+  changes: LoanChange[],
+  direction: 'undo' | 'redo'
+): Loan[] {
+  const ordered = direction === 'undo' ? [...changes].reverse() : changes;
+  let updated = [...loans];
+
+  ordered.forEach(change => {
+    const expected = direction === 'undo' ? change.after : change.before;
+    const target = direction === 'undo' ? change.before : change.after;
+    const current = updated.find(loan => loan.id === change.loanId);
+    const name = (change.before || change.after)!.lenderName;
+
+    const unchanged = expected
+      ? current?.updatedAt === expected.updatedAt
+      : current === undefined;
+    if (!unchanged) {
+      throw new Error(
+        `The loan with ${name} has changed since, so this cannot be ${direction === 'undo' ? 'undone' : 'redone'} safely`
+      );
+    }
+
+    updated = target
+      ? current
+        ? updated.map(loan => (loan.id === change.loanId ? target : loan))
+        : [...updated, target]
+      : updated.filter(loan => loan.id !== change.loanId);
+  });
+
+  return updated;
+}
+
+export function filterAuditEntries(
+  entries: LoanAuditLog[],
+  filter: AuditFilter
+): LoanAuditLog[] {
+  return entries.filter(entry => {
+    const date = entry.timestamp.split('T')[0];
+    return (
+      (!filter.loanId || entry.loanId === filter.loanId) &&
+      (!filter.action || entry.action === filter.action) &&
+      (!filter.from || date >= filter.from) &&
+      (!filter.to || date <= filter.to)
+    );
+  });
+}
+
+export function formatAuditAction(action: AuditAction): string {
+  return action
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// Short rendering of a changed value for tables
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null) return '-';
+  if (Array.isArray(value)) {
+    return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  }
+  if (typeof value === 'object') return '{…}';
+  return String(value);
+}
@@ -0,0 +1,159 @@
+import {
+  LoanCategory,
+  LoanCreateInput,
+  LoanDirection,
+  LoanPriority,
+} from '../types/loan.types';
+import { parseTags } from './category.utils';
+
+export type BatchFileFormat = 'csv' | 'json';
+
+export const BATCH_ROW_FORMAT =
+  'name, phone, amount, due date (YYYY-MM-DD)[, interest %[, currency]]';
+
+// Column names accepted in batch files, keyed by the field they fill
+const COLUMN_ALIASES: Record<keyof LoanCreateInput, string[]> = {
+  direction: ['direction', 'type'],
+  lenderName: ['lendername', 'lender', 'name', 'counterparty'],
+  phoneNumber: ['phonenumber', 'phone'],
+  amount: ['amount', 'principal'],
+  currency: ['currency'],
+  repaymentDate: ['repaymentdate', 'duedate', 'due', 'date'],
+  interestRate: ['interestrate', 'interest', 'rate'],
+  notes: ['notes', 'note'],
+  category: ['category'],
+  priority: ['priority'],
+  tags: ['tags'],
+};
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  const text = String(value ?? '')
+    .replace(/[,\s]/g, '')
+    .replace(/%$/, '');
+  return text === '' ? NaN : Number(text);
+}
+
+function toText(value: unknown): string | undefined {
+  const text = value === undefined || value === null ? '' : String(value);
+  return text.trim() || undefined;
+}
+
+// Values are passed through as typed; ValidationService reports bad ones
+export function toLoanCreateInput(
+  record: Record<string, unknown>
+): LoanCreateInput {
+  const values: Partial<Record<keyof LoanCreateInput, unknown>> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    const column = key.replace(/[\s_-]/g, '').toLowerCase();
+    const field = (
+      Object.keys(COLUMN_ALIASES) as (keyof LoanCreateInput)[]
+    ).find(name => COLUMN_ALIASES[name].includes(column));
+    if (field && values[field] === undefined) values[field] = value;
+  });
+
+  const rate = toText(values.interestRate);
+  const tags = Array.isArray(values.tags)
+    ? parseTags(values.tags.join(','))
+    : parseTags(toText(values.tags) || '');
+
+  return {
+    direction: toText(values.direction)?.toLowerCase() as LoanDirection,
+    lenderName: toText(values.lenderName) || '',
+    phoneNumber: toText(values.phoneNumber) || '',
+    amount: toNumber(values.amount),
+    currency: toText(values.currency)?.toUpperCase(),
+    repaymentDate: toText(values.repaymentDate) || '',
+    interestRate: rate === undefined ? undefined : toNumber(rate),
+    notes: toText(values.notes),
+    category: toText(values.category)?.toLowerCase() as LoanCategory,
+    priority: toText(values.priority)?.toLowerCase() as LoanPriority,
+    tags: tags.length > 0 ? tags : undefined,
+  };
+}
+
+// One typed row in the compact BATCH_ROW_FORMAT
+export function parseBatchRow(line: string): LoanCreateInput {
+  const [
+    lenderName,
+    phoneNumber,
+    amount,
+    repaymentDate,
+    interestRate,
+    currency,
+  ] = line.split(',').map(value => value.trim());
+  return toLoanCreateInput({
+    lenderName,
+    phoneNumber,
+    amount,
+    repaymentDate,
+    interestRate,
+    currency,
+  });
+}
+
+// Splits a CSV line, honouring double-quoted values and "" escapes
+export function splitCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+  return values;
+}
+
+export function getBatchFileFormat(filePath: string): BatchFileFormat {
+  const extension = filePath.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'json') return extension;
+  throw new Error('Batch files must be .csv or .json');
+}
+
+// CSV files need a header row; JSON files hold an array of loans
+export function parseBatchFile(
+  content: string,
+  format: BatchFileFormat
+): LoanCreateInput[] {
+  if (format === 'json') {
+    const parsed = JSON.parse(content);
+    const records = Array.isArray(parsed) ? parsed : parsed?.loans;
+    if (!Array.isArray(records)) {
+      throw new Error('JSON batch files must contain an array of loans');
+    }
+    return records.map(record => toLoanCreateInput(record));
+  }
+
+  const [header, ...rows] = content
+    .split(/\r?\n/)
+    .filter(line => line.trim().length > 0);
+  if (!header) return [];
+
+  const columns = splitCsvLine(header);
+  return rows.map(row => {
+    const values = splitCsvLine(row);
+    return toLoanCreateInput(
+      Object.fromEntries(
+        columns.map((column, index) => [column, values[index]])
+      )
+    );
+  });
+}
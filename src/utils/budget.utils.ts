@@ -0,0 +1,199 @@
+import { format, parseISO } from 'date-fns';
+import { LoanModel } from '../models/loan.model';
+import {
+  BudgetFrequency,
+  BudgetItem,
+  BudgetItemType,
+  LoanDirection,
+} from '../types/loan.types';
+import { roundAmount } from './schedule.utils';
+
+// Occurrences of each frequency in an average month
+const PER_MONTH: Record<BudgetFrequency, number> = {
+  [BudgetFrequency.WEEKLY]: 52 / 12,
+  [BudgetFrequency.BI_WEEKLY]: 26 / 12,
+  [BudgetFrequency.MONTHLY]: 1,
+  [BudgetFrequency.QUARTERLY]: 1 / 3,
+  [BudgetFrequency.ANNUALLY]: 1 / 12,
+};
+
+export const DEFAULT_MAX_OBLIGATION_SHARE = 40;
+
+export interface MonthlyBudget {
+  income: number;
+  expenses: number;
+}
+
+export interface BudgetSummary extends MonthlyBudget {
+  month: string; // yyyy-MM
+  obligations: number; // Due on loans we owe that month
+  receipts: number; // Due on loans owed to us that month
+  debtToIncome?: number; // Percent; unset without any income
+  freeCash: number; // Income less expenses and obligations
+}
+
+export interface AffordabilityBreach {
+  month: string; // yyyy-MM
+  obligations: number; // Due that month including the new loan
+  share?: number; // Percent of monthly income; unset without any income
+}
+
+export interface AffordabilityCheck {
+  income: number;
+  limit: number; // Most that can fall due in a month
+  breaches: AffordabilityBreach[];
+  freeCash: number; // This month, before the new loan
+  shortfall: number; // Money lent beyond this month's free cash
+}
+
+// Amounts in the register's own currencies are converted by the caller
+export type BudgetConverter = (amount: number, currency?: string) => number;
+
+export function getMonthlyAmount(item: BudgetItem): number {
+  return item.amount * PER_MONTH[item.frequency];
+}
+
+export function getMonthlyBudget(
+  items: BudgetItem[],
+  convert: BudgetConverter = amount => amount
+): MonthlyBudget {
+  const total = (type: BudgetItemType) =>
+    roundAmount(
+      items
+        .filter(item => item.type === type)
+        .reduce(
+          (sum, item) => sum + convert(getMonthlyAmount(item), item.currency),
+          0
+        )
+    );
+  return {
+    income: total(BudgetItemType.INCOME),
+    expenses: total(BudgetItemType.EXPENSE),
+  };
+}
+
+// Percent to one decimal place
+export function getShareOfIncome(
+  amount: number,
+  income: number
+): number | undefined {
+  return income > 0 ? Math.round((amount / income) * 1000) / 10 : undefined;
+}
+
+// Amounts falling due in the month, after grace days and holidays, on open
+// loans in one direction. In the current month anything already overdue is
+// counted too, as it is still owed.
+export function getAmountDue(
+  loans: LoanModel[],
+  direction: LoanDirection,
+  month: string,
+  asOf: Date = new Date()
+): number {
+  const current = format(asOf, 'yyyy-MM');
+  if (month < current) return 0;
+
+  return roundAmount(
+    loans
+      .filter(loan => loan.isOpen() && loan.getDirection() === direction)
+      .flatMap(loan =>
+        loan.getDueEntries().map(entry => ({
+          ...entry,
+          dueDate: loan.getEffectiveDueDate(entry.dueDate),
+        }))
+      )
+      .filter(
+        entry =>
+          entry.dueDate.slice(0, 7) === month ||
+          (month === current && entry.dueDate.slice(0, 7) < current)
+      )
+      .reduce((sum, entry) => sum + entry.amount, 0)
+  );
+}
+
+// Loans are expected in the same currency as the budget
+export function summarizeBudget(
+  budget: MonthlyBudget,
+  loans: LoanModel[],
+  month: string,
+  asOf: Date = new Date()
+): BudgetSummary {
+  const obligations = getAmountDue(loans, LoanDirection.PAYABLE, month, asOf);
+  return {
+    ...budget,
+    month,
+    obligations,
+    receipts: getAmountDue(loans, LoanDirection.RECEIVABLE, month, asOf),
+    debtToIncome: getShareOfIncome(obligations, budget.income),
+    freeCash: roundAmount(budget.income - budget.expenses - obligations),
+  };
+}
+
+// Borrowing is checked against the share of income that may fall due in any
+// month it is repaid; lending against the cash left free this month
+export function checkAffordability(
+  newLoan: LoanModel,
+  loans: LoanModel[],
+  budget: MonthlyBudget,
+  maxShare: number,
+  asOf: Date = new Date()
+): AffordabilityCheck {
+  const current = format(asOf, 'yyyy-MM');
+  const limit = roundAmount((budget.income * maxShare) / 100);
+  const { freeCash } = summarizeBudget(budget, loans, current, asOf);
+
+  const breaches: AffordabilityBreach[] = [];
+  if (!newLoan.isReceivable()) {
+    const months = Array.from(
+      new Set(
+        newLoan
+          .getDueEntries()
+          .map(entry => newLoan.getEffectiveDueDate(entry.dueDate).slice(0, 7))
+      )
+    ).sort();
+    months.forEach(month => {
+      const obligations = getAmountDue(
+        [...loans, newLoan],
+        LoanDirection.PAYABLE,
+        month,
+        asOf
+      );
+      if (obligations > limit) {
+        breaches.push({
+          month,
+          obligations,
+          share: getShareOfIncome(obligations, budget.income),
+        });
+      }
+    });
+  }
+
+  return {
+    income: budget.income,
+    limit,
+    breaches,
+    freeCash,
+    shortfall: newLoan.isReceivable()
+      ? roundAmount(Math.max(0, newLoan.amount - Math.max(0, freeCash)))
+      : 0,
+  };
+}
+
+// "2025-03" as "Mar 2025"
+export function formatMonth(month: string): string {
+  return format(parseISO(`${month}-01`), 'MMM yyyy');
+}
+
+export function formatBudgetFrequency(frequency: BudgetFrequency): string {
+  switch (frequency) {
+    case BudgetFrequency.WEEKLY:
+      return 'Weekly';
+    case BudgetFrequency.BI_WEEKLY:
+      return 'Every 2 weeks';
+    case BudgetFrequency.MONTHLY:
+      return 'Monthly';
+    case BudgetFrequency.QUARTERLY:
+      return 'Quarterly';
+    case BudgetFrequency.ANNUALLY:
+      return 'Yearly';
+  }
+}
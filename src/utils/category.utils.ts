@@ -0,0 +1,131 @@
+import { format, getQuarter, parseISO } from 'date-fns';
+import { LoanModel } from '../models/loan.model';
+import { LoanCategory, LoanGroupBy, LoanPriority } from '../types/loan.types';
+
+export interface LoanGroup {
+  key: string;
+  label: string;
+  loans: LoanModel[];
+}
+
+const CATEGORY_ORDER = Object.values(LoanCategory);
+const PRIORITY_ORDER = [
+  LoanPriority.URGENT,
+  LoanPriority.HIGH,
+  LoanPriority.MEDIUM,
+  LoanPriority.LOW,
+];
+
+function capitalize(value: string): string {
+  const words = value.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function formatCategory(category: LoanCategory): string {
+  return capitalize(category);
+}
+
+export function formatPriority(priority: LoanPriority): string {
+  return capitalize(priority);
+}
+
+// Tags are stored lowercase without a leading '#'
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[,\s]+/)
+    .map(normalizeTag)
+    .filter(tag => tag.length > 0);
+  return Array.from(new Set(tags));
+}
+
+export function formatTags(tags?: string[]): string {
+  return tags?.length ? tags.map(tag => `#${tag}`).join(' ') : 'None';
+}
+
+export function getGroupKey(loan: LoanModel, groupBy: LoanGroupBy): string {
+  const dueDate = parseISO(loan.repaymentDate);
+
+  switch (groupBy) {
+    case LoanGroupBy.STATUS:
+      return loan.getStatus();
+    case LoanGroupBy.CATEGORY:
+      return loan.getCategory();
+    case LoanGroupBy.PRIORITY:
+      return loan.getPriority();
+    case LoanGroupBy.LENDER:
+      return loan.lenderName.trim().toLowerCase();
+    case LoanGroupBy.MONTH:
+      return format(dueDate, 'yyyy-MM');
+    case LoanGroupBy.QUARTER:
+      return `${format(dueDate, 'yyyy')}-Q${getQuarter(dueDate)}`;
+    case LoanGroupBy.YEAR:
+      return format(dueDate, 'yyyy');
+    default:
+      return 'all';
+  }
+}
+
+function getGroupLabel(
+  key: string,
+  groupBy: LoanGroupBy,
+  first: LoanModel
+): string {
+  switch (groupBy) {
+    case LoanGroupBy.STATUS:
+    case LoanGroupBy.CATEGORY:
+    case LoanGroupBy.PRIORITY:
+      return capitalize(key);
+    case LoanGroupBy.LENDER:
+      return first.lenderName.trim();
+    case LoanGroupBy.MONTH:
+      return format(parseISO(`${key}-01`), 'MMMM yyyy');
+    case LoanGroupBy.QUARTER: {
+      const [year, quarter] = key.split('-');
+      return `${quarter} ${year}`;
+    }
+    case LoanGroupBy.YEAR:
+      return key;
+    default:
+      return 'All loans';
+  }
+}
+
+function compareKeys(a: string, b: string, groupBy: LoanGroupBy): number {
+  if (groupBy === LoanGroupBy.CATEGORY) {
+    return (
+      CATEGORY_ORDER.indexOf(a as LoanCategory) -
+      CATEGORY_ORDER.indexOf(b as LoanCategory)
+    );
+  }
+  if (groupBy === LoanGroupBy.PRIORITY) {
+    return (
+      PRIORITY_ORDER.indexOf(a as LoanPriority) -
+      PRIORITY_ORDER.indexOf(b as LoanPriority)
+    );
+  }
+  return a.localeCompare(b);
+}
+
+// Loans keep their incoming order within each group
+export function groupLoans(
+  loans: LoanModel[],
+  groupBy: LoanGroupBy
+): LoanGroup[] {
+  const groups = new Map<string, LoanModel[]>();
+  loans.forEach(loan => {
+    const key = getGroupKey(loan, groupBy);
+    groups.set(key, [...(groups.get(key) || []), loan]);
+  });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => compareKeys(a, b, groupBy))
+    .map(([key, grouped]) => ({
+      key,
+      label: getGroupLabel(key, groupBy, grouped[0]),
+      loans: grouped,
+    }));
+}
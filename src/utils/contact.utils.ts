@@ -0,0 +1,138 @@
+import { LoanModel } from '../models/loan.model';
+import { Contact, ContactDetails } from '../types/loan.types';
+
+export interface ContactSummary {
+  totalLoans: number;
+  openLoans: number;
+  paidLoans: number;
+  overdueLoans: number;
+  borrowed: number; // Principal of loans taken from the person
+  lent: number; // Principal of loans given to the person
+  owedByMe: number; // Outstanding on payable loans
+  owedToMe: number; // Outstanding on receivable loans
+}
+
+export interface ContactDuplicate {
+  contacts: Contact[];
+  reasons: string[]; // Shared phone numbers and names
+}
+
+// Names match ignoring case, extra spaces and a trailing full stop
+export function normalizeContactName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').replace(/\.$/, '').toLowerCase();
+}
+
+export function getContactNames(contact: Contact): string[] {
+  return [contact.name, ...contact.aliases];
+}
+
+export function hasContactName(contact: Contact, name: string): boolean {
+  const normalized = normalizeContactName(name);
+  return getContactNames(contact).some(
+    known => normalizeContactName(known) === normalized
+  );
+}
+
+// Contacts that share a normalised phone number or name, in linked groups
+export function findDuplicateContacts(contacts: Contact[]): ContactDuplicate[] {
+  const groupOf = contacts.map((_, index) => index);
+  const find = (index: number): number =>
+    groupOf[index] === index ? index : find(groupOf[index]);
+  const reasons = new Map<number, Set<string>>();
+
+  const owners = new Map<string, number>();
+  contacts.forEach((contact, index) => {
+    const keys = [
+      ...contact.phoneNumbers.map(phone => `phone:${phone}`),
+      ...getContactNames(contact).map(
+        name => `name:${normalizeContactName(name)}`
+      ),
+    ];
+    new Set(keys).forEach(key => {
+      const owner = owners.get(key);
+      if (owner === undefined) {
+        owners.set(key, index);
+        return;
+      }
+      const root = find(owner);
+      groupOf[find(index)] = root;
+      const label = key.startsWith('phone:')
+        ? `Same phone ${key.slice(6)}`
+        : `Same name "${key.slice(5)}"`;
+      reasons.set(root, (reasons.get(root) || new Set()).add(label));
+    });
+  });
+
+  const groups = new Map<number, ContactDuplicate>();
+  contacts.forEach((contact, index) => {
+    const root = find(index);
+    const group = groups.get(root) || { contacts: [], reasons: [] };
+    group.contacts.push(contact);
+    groups.set(root, group);
+  });
+  reasons.forEach((labels, root) => {
+    const group = groups.get(find(root))!;
+    group.reasons = Array.from(new Set([...group.reasons, ...labels]));
+  });
+
+  return Array.from(groups.values()).filter(group => group.contacts.length > 1);
+}
+
+// The target keeps its name; everything the sources knew is folded in
+export function mergeContactDetails(
+  target: Contact,
+  sources: Contact[]
+): ContactDetails {
+  const aliases: string[] = [];
+  [...target.aliases, ...sources.flatMap(getContactNames)].forEach(name => {
+    const normalized = normalizeContactName(name);
+    if (
+      normalized !== normalizeContactName(target.name) &&
+      !aliases.some(alias => normalizeContactName(alias) === normalized)
+    ) {
+      aliases.push(name.trim());
+    }
+  });
+
+  const notes = [target, ...sources]
+    .map(contact => contact.notes?.trim())
+    .filter((note): note is string => !!note);
+
+  return {
+    name: target.name,
+    aliases,
+    phoneNumbers: Array.from(
+      new Set([target, ...sources].flatMap(contact => contact.phoneNumbers))
+    ),
+    notes: notes.length > 0 ? notes.join('\n') : undefined,
+  };
+}
+
+export function summarizeContactLoans(loans: LoanModel[]): ContactSummary {
+  const summary: ContactSummary = {
+    totalLoans: loans.length,
+    openLoans: 0,
+    paidLoans: 0,
+    overdueLoans: 0,
+    borrowed: 0,
+    lent: 0,
+    owedByMe: 0,
+    owedToMe: 0,
+  };
+
+  loans.forEach(loan => {
+    if (loan.isPaid) summary.paidLoans++;
+    if (loan.isOpen()) summary.openLoans++;
+    if (loan.isOverdue()) summary.overdueLoans++;
+
+    if (loan.isReceivable()) {
+      summary.lent += loan.getCountedPrincipal();
+      summary.owedToMe += loan.getOutstandingBalance();
+    } else {
+      summary.borrowed += loan.getCountedPrincipal();
+      summary.owedByMe += loan.getOutstandingBalance();
+    }
+  });
+
+  return summary;
+}
@@ -0,0 +1,171 @@
+import { parseISO } from 'date-fns';
+import { Loan } from '../interfaces/loan.interface';
+import { ExchangeRate } from '../types/loan.types';
+import { roundAmount } from './schedule.utils';
+
+export const SUPPORTED_CURRENCIES: Record<string, string> = {
+  NGN: '₦',
+  USD: '$',
+  GBP: '£',
+  EUR: '€',
+  JPY: '¥',
+  CAD: 'C$',
+  AUD: 'A$',
+  CHF: 'CHF ',
+  CNY: 'CN¥',
+  INR: '₹',
+  GHS: 'GH₵',
+  KES: 'KSh ',
+  ZAR: 'R',
+};
+
+export interface CurrencyConverter {
+  homeCurrency: string;
+  reportingCurrency: string;
+  convert(amount: number, currency?: string): number;
+  missingRates: Set<string>; // Currencies counted unconverted for lack of a rate
+}
+
+export function getCurrencySymbol(currency: string): string {
+  return SUPPORTED_CURRENCIES[currency.toUpperCase()] ?? `${currency} `;
+}
+
+export function isValidCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code.trim().toUpperCase());
+}
+
+// Latest rate in effect on asOf; falls back to the earliest known rate
+export function findRate(
+  rates: ExchangeRate[],
+  currency: string,
+  homeCurrency: string,
+  asOf: Date = new Date()
+): number | undefined {
+  if (currency === homeCurrency) return 1;
+
+  const history = rates
+    .filter(rate => rate.currency === currency && rate.rate > 0)
+    .sort(
+      (a, b) =>
+        parseISO(a.effectiveDate).getTime() -
+        parseISO(b.effectiveDate).getTime()
+    );
+  if (history.length === 0) return undefined;
+
+  const effective = history.filter(
+    rate => parseISO(rate.effectiveDate) <= asOf
+  );
+  return effective.length > 0
+    ? effective[effective.length - 1].rate
+    : history[0].rate;
+}
+
+export function createCurrencyConverter(
+  rates: ExchangeRate[],
+  homeCurrency: string,
+  reportingCurrency: string,
+  asOf: Date = new Date()
+): CurrencyConverter {
+  const missingRates = new Set<string>();
+  const reportingRate = findRate(rates, reportingCurrency, homeCurrency, asOf);
+  if (reportingRate === undefined) missingRates.add(reportingCurrency);
+
+  return {
+    homeCurrency,
+    reportingCurrency,
+    missingRates,
+    convert(amount: number, currency: string = homeCurrency): number {
+      if (currency === reportingCurrency) return amount;
+
+      const rate = findRate(rates, currency, homeCurrency, asOf);
+      if (rate === undefined || reportingRate === undefined) {
+        if (rate === undefined) missingRates.add(currency);
+        return amount;
+      }
+      return roundAmount((amount * rate) / reportingRate);
+    },
+  };
+}
+
+// Copy of a loan with every money field restated in the reporting currency
+export function convertLoan(loan: Loan, converter: CurrencyConverter): Loan {
+  const currency = loan.currency || converter.homeCurrency;
+  if (currency === converter.reportingCurrency) return loan;
+
+  const convert = (amount: number) => converter.convert(amount, currency);
+  return {
+    ...loan,
+    currency: converter.reportingCurrency,
+    amount: convert(loan.amount),
+    paymentHistory: loan.paymentHistory?.map(payment => ({
+      ...payment,
+      amount: convert(payment.amount),
+    })),
+    schedule: loan.schedule?.map(row => ({
+      ...row,
+      principalAmount: convert(row.principalAmount),
+      interestAmount: convert(row.interestAmount),
+      totalAmount: convert(row.totalAmount),
+      paidAmount: convert(row.paidAmount),
+      remainingAmount: convert(row.remainingAmount),
+    })),
+    penaltyRule: loan.penaltyRule && {
+      ...loan.penaltyRule,
+      fixedFee: convert(loan.penaltyRule.fixedFee),
+      maxAmount:
+        loan.penaltyRule.maxAmount !== undefined
+          ? convert(loan.penaltyRule.maxAmount)
+          : undefined,
+    },
+    penaltyWaivers: loan.penaltyWaivers?.map(waiver => ({
+      ...waiver,
+      amount: convert(waiver.amount),
+    })),
+    writeOff: loan.writeOff && {
+      ...loan.writeOff,
+      amount: convert(loan.writeOff.amount),
+    },
+    collateral: loan.collateral?.map(item => ({
+      ...item,
+      estimatedValue: convert(item.estimatedValue),
+    })),
+    guarantors: loan.guarantors?.map(guarantor => ({
+      ...guarantor,
+      guaranteeAmount: convert(guarantor.guaranteeAmount),
+    })),
+  };
+}
+
+// Expects "currency,rate,effective_date" rows; a header row is optional
+export function parseExchangeRatesCsv(content: string): ExchangeRate[] {
+  const rows = content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  return rows.reduce<ExchangeRate[]>((rates, line, index) => {
+    const [currency, rate, effectiveDate] = line
+      .split(/[,;\t]/)
+      .map(cell => cell.trim().replace(/^"|"$/g, ''));
+
+    if (index === 0 && isNaN(parseFloat(rate))) return rates;
+
+    const value = parseFloat(rate);
+    if (
+      !currency ||
+      !isValidCurrencyCode(currency) ||
+      !(value > 0) ||
+      !effectiveDate ||
+      isNaN(parseISO(effectiveDate).getTime())
+    ) {
+      throw new Error(`Invalid exchange rate on line ${index + 1}: ${line}`);
+    }
+
+    rates.push({
+      currency: currency.toUpperCase(),
+      rate: value,
+      effectiveDate,
+    });
+    return rates;
+  }, []);
+}
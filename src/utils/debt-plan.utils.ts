@@ -0,0 +1,232 @@
+import { format } from 'date-fns';
+import { LoanModel } from '../models/loan.model';
+import {
+  DebtPlan,
+  DebtPlanMonth,
+  InterestRatePeriod,
+  PayoffStrategy,
+} from '../types/loan.types';
+import {
+  PayoffOptions,
+  PlannedPayment,
+  getScenarioPayments,
+  projectPayoff,
+} from './payoff.utils';
+import { roundAmount } from './schedule.utils';
+
+export interface DebtPlanSettings {
+  strategy: PayoffStrategy;
+  monthlyBudget: number;
+  startDate: string; // Date of the first monthly payment
+  customOrder?: string[]; // Loan IDs, for the custom strategy
+}
+
+// The parts of a plan worked out from the loans
+export type DebtPlanProjection = Omit<
+  DebtPlan,
+  'id' | 'name' | 'currency' | 'createdAt'
+>;
+
+export type DebtPlanStatus =
+  | 'upcoming'
+  | 'due'
+  | 'on track'
+  | 'ahead'
+  | 'behind';
+
+export interface DebtPlanMonthProgress {
+  date: string;
+  planned: number;
+  paid: number;
+  difference: number; // Paid less planned across the plan up to this month
+  status: DebtPlanStatus;
+}
+
+export interface DebtPlanProgress {
+  months: DebtPlanMonthProgress[];
+  plannedToDate: number;
+  paidToDate: number;
+  status: DebtPlanStatus; // As of the latest month that has started
+}
+
+// Monthly rates are counted twelve times over so loans compare fairly
+export function getAnnualRate(loan: LoanModel): number {
+  const rate = loan.interestRate || 0;
+  return loan.interestModel?.ratePeriod === InterestRatePeriod.MONTHLY
+    ? rate * 12
+    : rate;
+}
+
+// Loan IDs in the order the strategy pays them off. Ties go to the smaller
+// balance, and loans left out of a custom order come last.
+export function getStrategyOrder(
+  loans: LoanModel[],
+  strategy: PayoffStrategy,
+  customOrder: string[] = []
+): string[] {
+  const byBalance = [...loans].sort(
+    (a, b) => a.getOutstandingBalance() - b.getOutstandingBalance()
+  );
+
+  switch (strategy) {
+    case PayoffStrategy.SNOWBALL:
+      return byBalance.map(loan => loan.id);
+    case PayoffStrategy.AVALANCHE:
+      return byBalance
+        .sort((a, b) => getAnnualRate(b) - getAnnualRate(a))
+        .map(loan => loan.id);
+    case PayoffStrategy.CUSTOM: {
+      const ids = loans.map(loan => loan.id);
+      return [
+        ...customOrder.filter(id => ids.includes(id)),
+        ...byBalance
+          .map(loan => loan.id)
+          .filter(id => !customOrder.includes(id)),
+      ];
+    }
+  }
+}
+
+// The budget is paid once a month: amounts already due are covered first,
+// then whatever is left goes to the first loan in the order still owing
+export function buildDebtPlan(
+  loans: LoanModel[],
+  settings: DebtPlanSettings,
+  options: PayoffOptions = {}
+): DebtPlanProjection {
+  const open = loans.filter(loan => loan.isOpen());
+  const order = getStrategyOrder(open, settings.strategy, settings.customOrder);
+  const payments = getScenarioPayments(
+    {
+      monthlyPayment: settings.monthlyBudget,
+      firstPaymentDate: settings.startDate,
+    },
+    options.asOf
+  ).map((payment): PlannedPayment => ({ ...payment, order }));
+  const projection = projectPayoff(open, payments, options);
+
+  const dates = Array.from(
+    new Set(
+      projection.loans.flatMap(loan =>
+        loan.payments.map(payment => payment.date)
+      )
+    )
+  ).sort();
+  const months = dates.map((date): DebtPlanMonth => {
+    const records = order.map(loanId => ({
+      loanId,
+      record: projection.loans
+        .find(loan => loan.loanId === loanId)
+        ?.payments.find(payment => payment.date === date),
+    }));
+    return {
+      date,
+      payments: records
+        .filter(({ record }) => record && record.amount > 0)
+        .map(({ loanId, record }) => ({ loanId, amount: record!.amount })),
+      // Loans without a record that day were already paid off
+      endBalance: roundAmount(
+        records.reduce((sum, { record }) => sum + (record?.balance || 0), 0)
+      ),
+    };
+  });
+
+  return {
+    strategy: settings.strategy,
+    monthlyBudget: settings.monthlyBudget,
+    startDate: settings.startDate,
+    loanIds: order,
+    months,
+    totalPaid: projection.totalPaid,
+    totalInterest: projection.totalInterest,
+    totalPenalties: projection.totalPenalties,
+    remainingBalance: projection.remainingBalance,
+    debtFreeDate: projection.payoffDate,
+  };
+}
+
+// Snowball and avalanche plans for the same budget, plus the custom order
+// when one is given
+export function compareStrategies(
+  loans: LoanModel[],
+  settings: Omit<DebtPlanSettings, 'strategy'>,
+  options: PayoffOptions = {}
+): DebtPlanProjection[] {
+  const strategies = [PayoffStrategy.SNOWBALL, PayoffStrategy.AVALANCHE];
+  if (settings.customOrder?.length) strategies.push(PayoffStrategy.CUSTOM);
+  return strategies.map(strategy =>
+    buildDebtPlan(loans, { ...settings, strategy }, options)
+  );
+}
+
+// Compares each planned month with the payments recorded on the plan's loans
+// in that calendar month. Payments made before the plan was saved are ignored.
+export function trackDebtPlan(
+  plan: DebtPlan,
+  loans: LoanModel[],
+  convert: (loan: LoanModel, amount: number) => number = (_loan, amount) =>
+    amount,
+  asOf: Date = new Date()
+): DebtPlanProgress {
+  const today = format(asOf, 'yyyy-MM-dd');
+  const savedOn = plan.createdAt.split('T')[0];
+  const planLoans = loans.filter(loan => plan.loanIds.includes(loan.id));
+  const paidIn = (month: string) =>
+    planLoans.reduce(
+      (sum, loan) =>
+        sum +
+        (loan.paymentHistory || [])
+          .filter(payment => {
+            const date = payment.paymentDate.split('T')[0];
+            return date.startsWith(month) && date >= savedOn;
+          })
+          .reduce((total, payment) => total + convert(loan, payment.amount), 0),
+      0
+    );
+
+  let plannedToDate = 0;
+  let paidToDate = 0;
+  const months = plan.months.map((month): DebtPlanMonthProgress => {
+    const key = month.date.slice(0, 7);
+    const planned = roundAmount(
+      month.payments.reduce((sum, payment) => sum + payment.amount, 0)
+    );
+    if (key > today.slice(0, 7)) {
+      return {
+        date: month.date,
+        planned,
+        paid: 0,
+        difference: 0,
+        status: 'upcoming',
+      };
+    }
+
+    const paid = roundAmount(paidIn(key));
+    plannedToDate += planned;
+    paidToDate += paid;
+    const difference = roundAmount(paidToDate - plannedToDate);
+    let status: DebtPlanStatus = 'on track';
+    if (difference > 0.005) status = 'ahead';
+    if (difference < -0.005) status = month.date >= today ? 'due' : 'behind';
+    return { date: month.date, planned, paid, difference, status };
+  });
+
+  const started = months.filter(month => month.status !== 'upcoming');
+  return {
+    months,
+    plannedToDate: roundAmount(plannedToDate),
+    paidToDate: roundAmount(paidToDate),
+    status: started.length ? started[started.length - 1].status : 'upcoming',
+  };
+}
+
+export function formatStrategy(strategy: PayoffStrategy): string {
+  switch (strategy) {
+    case PayoffStrategy.SNOWBALL:
+      return 'Snowball (smallest balance first)';
+    case PayoffStrategy.AVALANCHE:
+      return 'Avalanche (highest rate first)';
+    case PayoffStrategy.CUSTOM:
+      return 'Custom order';
+  }
+}
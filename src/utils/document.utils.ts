@@ -0,0 +1,39 @@
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.doc': 'application/msword',
+  '.docx':
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+export function getMimeType(fileName: string): string {
+  return (
+    MIME_TYPES[path.extname(fileName).toLowerCase()] ||
+    'application/octet-stream'
+  );
+}
+
+export function hashContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Identical content always maps to the same stored file
+export function getStoredFileName(checksum: string, fileName: string): string {
+  return `${checksum}${path.extname(fileName).toLowerCase()}`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
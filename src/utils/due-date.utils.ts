@@ -0,0 +1,78 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { WeekendRule } from '../types/loan.types';
+
+// What turns an agreed due date into the last day a payment is still on time
+export interface DueDateCalendar {
+  graceDays: number;
+  weekendRule: WeekendRule;
+  holidays: string[]; // yyyy-MM-dd
+}
+
+export function isBusinessDay(date: string, holidays: string[] = []): boolean {
+  const day = parseISO(date).getDay();
+  return day !== 0 && day !== 6 && !holidays.includes(date.slice(0, 10));
+}
+
+// The agreed date moved off weekends and holidays by the weekend rule
+export function getBusinessDueDate(
+  dueDate: string,
+  calendar: DueDateCalendar
+): string {
+  if (calendar.weekendRule === WeekendRule.NONE) return dueDate;
+
+  const step = calendar.weekendRule === WeekendRule.FORWARD ? 1 : -1;
+  let date = dueDate.slice(0, 10);
+  while (!isBusinessDay(date, calendar.holidays)) {
+    date = format(addDays(parseISO(date), step), 'yyyy-MM-dd');
+  }
+  return date;
+}
+
+// Grace days run from the business day, so a loan due on a Saturday with two
+// grace days and the forward rule is on time until the Wednesday
+export function getEffectiveDueDate(
+  dueDate: string,
+  calendar?: DueDateCalendar
+): string {
+  if (!calendar) return dueDate;
+
+  const businessDate = getBusinessDueDate(dueDate, calendar);
+  return calendar.graceDays > 0
+    ? format(addDays(parseISO(businessDate), calendar.graceDays), 'yyyy-MM-dd')
+    : businessDate;
+}
+
+// Late only once the whole effective due day has gone by
+export function isPastDue(
+  dueDate: string,
+  calendar?: DueDateCalendar,
+  asOf: Date = new Date()
+): boolean {
+  return (
+    format(asOf, 'yyyy-MM-dd') >
+    getEffectiveDueDate(dueDate, calendar).slice(0, 10)
+  );
+}
+
+// Negative once the effective due date has passed
+export function getDaysUntilDue(
+  dueDate: string,
+  calendar?: DueDateCalendar,
+  asOf: Date = new Date()
+): number {
+  return differenceInCalendarDays(
+    parseISO(getEffectiveDueDate(dueDate, calendar)),
+    asOf
+  );
+}
+
+export function formatWeekendRule(rule: WeekendRule): string {
+  switch (rule) {
+    case WeekendRule.NONE:
+      return 'Keep the agreed date';
+    case WeekendRule.FORWARD:
+      return 'Roll forward to the next business day';
+    case WeekendRule.BACKWARD:
+      return 'Roll back to the previous business day';
+  }
+}
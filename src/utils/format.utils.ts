@@ -1,14 +1,26 @@
 import { LoanModel } from '../models/loan.model';
+import { LoanDirection } from '../types/loan.types';
+import { getCurrencySymbol } from './currency.utils';
 import { formatDate as formatDateUtil } from './date.utils';
 
-export function formatCurrency(amount: number): string {
-  return `₦${amount.toLocaleString('en-NG')}`;
+export function formatCurrency(amount: number, currency?: string): string {
+  const symbol = currency ? getCurrencySymbol(currency) : '₦';
+  return `${symbol}${amount.toLocaleString('en-NG')}`;
 }
 
 export function formatDate(date: string): string {
   return formatDateUtil(date);
 }
 
+export function formatDirection(direction: LoanDirection): string {
+  return direction === LoanDirection.RECEIVABLE ? 'Owed to me' : 'I owe';
+}
+
+// Who the name on a loan refers to, depending on which way the money went
+export function getCounterpartyLabel(direction: LoanDirection): string {
+  return direction === LoanDirection.RECEIVABLE ? 'Borrower' : 'Lender';
+}
+
 export function formatLoanTable(loans: LoanModel[]): string {
   let table = 'ID | Lender | Phone | Amount | Due Date | Interest | Status\n';
   table += '-'.repeat(60) + '\n';
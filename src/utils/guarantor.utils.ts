@@ -0,0 +1,71 @@
+import { LoanModel } from '../models/loan.model';
+
+export interface GuarantorExposure {
+  name: string;
+  phoneNumber: string;
+  activeGuarantees: number;
+  totalGuaranteed: number; // Face value of active guarantees
+  totalExposure: number; // Active guarantees capped at each loan's balance
+  overdueLoans: number;
+  loans: Array<{
+    loanId: string;
+    borrower: string;
+    currency?: string;
+    guaranteeAmount: number;
+    outstanding: number;
+    exposure: number;
+    isActive: boolean;
+    isOverdue: boolean;
+  }>;
+}
+
+// Guarantors are matched across loans by phone number, ignoring formatting
+export function getGuarantorKey(phoneNumber: string): string {
+  return phoneNumber.replace(/[^\d+]/g, '');
+}
+
+export function getGuarantorExposures(loans: LoanModel[]): GuarantorExposure[] {
+  const exposures = new Map<string, GuarantorExposure>();
+
+  loans.forEach(loan => {
+    (loan.guarantors || []).forEach(guarantor => {
+      const key = getGuarantorKey(guarantor.phoneNumber);
+      const entry = exposures.get(key) || {
+        name: guarantor.name,
+        phoneNumber: guarantor.phoneNumber,
+        activeGuarantees: 0,
+        totalGuaranteed: 0,
+        totalExposure: 0,
+        overdueLoans: 0,
+        loans: [],
+      };
+
+      const outstanding = loan.getOutstandingBalance();
+      const exposure = guarantor.isActive
+        ? Math.min(guarantor.guaranteeAmount, outstanding)
+        : 0;
+      entry.loans.push({
+        loanId: loan.id,
+        borrower: loan.lenderName,
+        currency: loan.currency,
+        guaranteeAmount: guarantor.guaranteeAmount,
+        outstanding,
+        exposure,
+        isActive: guarantor.isActive,
+        isOverdue: loan.isOverdue(),
+      });
+
+      if (guarantor.isActive) {
+        entry.activeGuarantees++;
+        entry.totalGuaranteed += guarantor.guaranteeAmount;
+        entry.totalExposure += exposure;
+        if (loan.isOverdue()) entry.overdueLoans++;
+      }
+      exposures.set(key, entry);
+    });
+  });
+
+  return Array.from(exposures.values()).sort(
+    (a, b) => b.totalExposure - a.totalExposure
+  );
+}
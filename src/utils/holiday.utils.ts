@@ -0,0 +1,175 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { HolidayDetails } from '../types/loan.types';
+
+export type HolidayFileFormat = 'ics' | 'csv';
+
+// Nigerian public holidays that fall on the same day every year
+const NIGERIAN_FIXED_HOLIDAYS: Array<[string, string]> = [
+  ['01-01', "New Year's Day"],
+  ['05-01', "Workers' Day"],
+  ['06-12', 'Democracy Day'],
+  ['10-01', 'Independence Day'],
+  ['12-25', 'Christmas Day'],
+  ['12-26', 'Boxing Day'],
+];
+
+// Islamic holidays depend on the sighting of the moon and are confirmed by the
+// Federal Government shortly before; later years are the expected dates
+const NIGERIAN_LUNAR_HOLIDAYS: Record<number, Array<[string, string]>> = {
+  2025: [
+    ['03-31', 'Eid-el-Fitr'],
+    ['04-01', 'Eid-el-Fitr Holiday'],
+    ['06-06', 'Eid-el-Kabir'],
+    ['06-09', 'Eid-el-Kabir Holiday'],
+    ['09-05', 'Eid-el-Maulud'],
+  ],
+  2026: [
+    ['03-20', 'Eid-el-Fitr'],
+    ['03-23', 'Eid-el-Fitr Holiday'],
+    ['05-27', 'Eid-el-Kabir'],
+    ['05-28', 'Eid-el-Kabir Holiday'],
+    ['08-26', 'Eid-el-Maulud'],
+  ],
+  2027: [
+    ['03-10', 'Eid-el-Fitr'],
+    ['03-11', 'Eid-el-Fitr Holiday'],
+    ['05-17', 'Eid-el-Kabir'],
+    ['05-18', 'Eid-el-Kabir Holiday'],
+    ['08-16', 'Eid-el-Maulud'],
+  ],
+};
+
+// Longest event an imported calendar may spread over, in days
+const MAX_EVENT_DAYS = 31;
+
+// Western Easter Sunday by the anonymous Gregorian algorithm
+export function getEasterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return format(new Date(year, month - 1, day), 'yyyy-MM-dd');
+}
+
+// Islamic holidays are only included for years with known dates
+export function getNigerianHolidays(year: number): HolidayDetails[] {
+  const easter = parseISO(getEasterSunday(year));
+  const holidays: HolidayDetails[] = [
+    ...[
+      ...NIGERIAN_FIXED_HOLIDAYS,
+      ...(NIGERIAN_LUNAR_HOLIDAYS[year] || []),
+    ].map(([day, name]) => ({ date: `${year}-${day}`, name })),
+    { date: format(addDays(easter, -2), 'yyyy-MM-dd'), name: 'Good Friday' },
+    { date: format(addDays(easter, 1), 'yyyy-MM-dd'), name: 'Easter Monday' },
+  ];
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function hasLunarHolidays(year: number): boolean {
+  return year in NIGERIAN_LUNAR_HOLIDAYS;
+}
+
+export function getHolidayFileFormat(filePath: string): HolidayFileFormat {
+  const extension = filePath.split('.').pop()?.toLowerCase();
+  if (extension === 'ics' || extension === 'csv') return extension;
+  throw new Error('Holiday files must be .ics or .csv');
+}
+
+// Expects "date,name" rows with dates as YYYY-MM-DD; a header row is optional
+export function parseHolidaysCsv(content: string): HolidayDetails[] {
+  const rows = content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  return rows.reduce<HolidayDetails[]>((holidays, line, index) => {
+    const [date, ...rest] = line
+      .split(/[,;\t]/)
+      .map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const name = rest.join(', ').trim();
+
+    const valid =
+      /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(parseISO(date).getTime());
+    if (index === 0 && !valid) return holidays;
+    if (!valid || !name) {
+      throw new Error(`Invalid holiday on line ${index + 1}: ${line}`);
+    }
+
+    holidays.push({ date, name });
+    return holidays;
+  }, []);
+}
+
+// Reads the events of an iCalendar file; an all-day event over several days
+// adds one holiday per day
+export function parseHolidaysIcs(content: string): HolidayDetails[] {
+  const lines = content
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .map(line => line.trim());
+  const holidays: HolidayDetails[] = [];
+  let event: Record<string, string> | undefined;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+    } else if (line === 'END:VEVENT' && event) {
+      holidays.push(...getEventDays(event));
+      event = undefined;
+    } else if (event) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        const property = line.slice(0, separator).split(';')[0].toUpperCase();
+        event[property] = line.slice(separator + 1);
+      }
+    }
+  }
+
+  if (holidays.length === 0) {
+    throw new Error('No events with a start date found in the calendar');
+  }
+  return holidays;
+}
+
+function getEventDays(event: Record<string, string>): HolidayDetails[] {
+  const start = parseIcsDate(event.DTSTART);
+  if (!start) return [];
+
+  const name =
+    (event.SUMMARY || '')
+      .replace(/\\n/gi, ' ')
+      .replace(/\\([,;\\])/g, '$1')
+      .trim() || 'Holiday';
+
+  // DTEND is exclusive, and only all-day events run over several days
+  const end = event.DTSTART.includes('T')
+    ? undefined
+    : parseIcsDate(event.DTEND);
+  const days: HolidayDetails[] = [{ date: start, name }];
+  let date = addDays(parseISO(start), 1);
+  while (
+    end &&
+    format(date, 'yyyy-MM-dd') < end &&
+    days.length < MAX_EVENT_DAYS
+  ) {
+    days.push({ date: format(date, 'yyyy-MM-dd'), name });
+    date = addDays(date, 1);
+  }
+  return days;
+}
+
+// "20250101" or "20250101T090000Z" as "2025-01-01"
+function parseIcsDate(value?: string): string | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
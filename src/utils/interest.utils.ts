@@ -0,0 +1,96 @@
+import {
+  addMonths,
+  differenceInCalendarDays,
+  differenceInMonths,
+  getDaysInMonth,
+  parseISO,
+} from 'date-fns';
+import {
+  CompoundingFrequency,
+  InterestModel,
+  InterestModelType,
+  InterestRatePeriod,
+} from '../types/loan.types';
+
+const COMPOUNDING_PER_YEAR: Record<CompoundingFrequency, number> = {
+  [CompoundingFrequency.DAILY]: 365,
+  [CompoundingFrequency.MONTHLY]: 12,
+  [CompoundingFrequency.QUARTERLY]: 4,
+  [CompoundingFrequency.ANNUALLY]: 1,
+};
+
+// Whole calendar months plus the fraction of the month that follows
+export function monthsBetween(from: string, to: string): number {
+  const start = parseISO(from);
+  const end = parseISO(to);
+  if (end <= start) return 0;
+
+  const wholeMonths = differenceInMonths(end, start);
+  const anchor = addMonths(start, wholeMonths);
+  const remainingDays = differenceInCalendarDays(end, anchor);
+  return wholeMonths + remainingDays / getDaysInMonth(anchor);
+}
+
+export function calculateInterest(
+  principal: number,
+  ratePercent: number,
+  model: InterestModel | undefined,
+  from: string,
+  to: string
+): number {
+  const rate = ratePercent / 100;
+  if (rate === 0) return 0;
+
+  const type = model?.type || InterestModelType.FLAT;
+  if (type === InterestModelType.FLAT) {
+    return (principal * ratePercent) / 100;
+  }
+
+  // Non-flat rates are normalised to an annual rate
+  const annualRate =
+    model?.ratePeriod === InterestRatePeriod.MONTHLY ? rate * 12 : rate;
+
+  switch (type) {
+    case InterestModelType.SIMPLE:
+      return (principal * annualRate * monthsBetween(from, to)) / 12;
+    case InterestModelType.COMPOUND: {
+      const perYear =
+        COMPOUNDING_PER_YEAR[
+          model?.compounding || CompoundingFrequency.MONTHLY
+        ];
+      const years = monthsBetween(from, to) / 12;
+      return principal * ((1 + annualRate / perYear) ** (perYear * years) - 1);
+    }
+    case InterestModelType.DAILY_ACCRUAL: {
+      const days = Math.max(
+        0,
+        differenceInCalendarDays(parseISO(to), parseISO(from))
+      );
+      return (principal * annualRate * days) / 365;
+    }
+    default:
+      return (principal * ratePercent) / 100;
+  }
+}
+
+export function formatInterestModel(
+  ratePercent: number | undefined,
+  model?: InterestModel
+): string {
+  if (!ratePercent) return 'No Interest';
+
+  const type = model?.type || InterestModelType.FLAT;
+  const per =
+    model?.ratePeriod === InterestRatePeriod.MONTHLY ? 'per month' : 'p.a.';
+
+  switch (type) {
+    case InterestModelType.SIMPLE:
+      return `${ratePercent}% ${per} (simple)`;
+    case InterestModelType.COMPOUND:
+      return `${ratePercent}% ${per} (compounded ${model?.compounding || CompoundingFrequency.MONTHLY})`;
+    case InterestModelType.DAILY_ACCRUAL:
+      return `${ratePercent}% ${per} (accrued daily)`;
+    default:
+      return `${ratePercent}% (flat)`;
+  }
+}
@@ -0,0 +1,98 @@
+import { Loan } from '../interfaces/loan.interface';
+import { LoanRelationship } from '../types/loan.types';
+import { formatCurrency, formatDate } from './format.utils';
+
+export interface LineageNode {
+  loan: Loan;
+  relationshipType: LoanRelationship['relationshipType'];
+  children: LineageNode[];
+}
+
+// Loans this one replaced, each with the loans they replaced in turn
+export function getPredecessors(
+  loanId: string,
+  loans: Loan[],
+  visited: Set<string> = new Set([loanId])
+): LineageNode[] {
+  const loan = loans.find(l => l.id === loanId);
+  return (loan?.relationships || [])
+    .filter(link => !visited.has(link.relatedLoanId))
+    .map(link => {
+      visited.add(link.relatedLoanId);
+      const related = loans.find(l => l.id === link.relatedLoanId);
+      return related
+        ? {
+            loan: related,
+            relationshipType: link.relationshipType,
+            children: getPredecessors(related.id, loans, visited),
+          }
+        : undefined;
+    })
+    .filter((node): node is LineageNode => node !== undefined);
+}
+
+// Loans that replaced this one, each with the loans that replaced them
+export function getSuccessors(
+  loanId: string,
+  loans: Loan[],
+  visited: Set<string> = new Set([loanId])
+): LineageNode[] {
+  return loans
+    .filter(loan => !visited.has(loan.id))
+    .flatMap(loan =>
+      (loan.relationships || [])
+        .filter(link => link.relatedLoanId === loanId)
+        .map(link => ({ loan, link }))
+    )
+    .map(({ loan, link }) => {
+      visited.add(loan.id);
+      return {
+        loan,
+        relationshipType: link.relationshipType,
+        children: getSuccessors(loan.id, loans, visited),
+      };
+    });
+}
+
+export function hasLineage(loanId: string, loans: Loan[]): boolean {
+  return (
+    getPredecessors(loanId, loans).length > 0 ||
+    getSuccessors(loanId, loans).length > 0
+  );
+}
+
+// Text tree of where a loan came from and what it was rolled into
+export function formatLineage(loanId: string, loans: Loan[]): string[] {
+  const loan = loans.find(l => l.id === loanId);
+  if (!loan) return [];
+
+  const predecessors = getPredecessors(loanId, loans);
+  const successors = getSuccessors(loanId, loans);
+  if (predecessors.length === 0 && successors.length === 0) return [];
+
+  const lines: string[] = [];
+  if (predecessors.length > 0) {
+    lines.push('Replaced:');
+    lines.push(...renderNodes(predecessors, ''));
+  }
+  lines.push(`▶ This loan: ${describeLoan(loan)}`);
+  if (successors.length > 0) {
+    lines.push('Replaced by:');
+    lines.push(...renderNodes(successors, ''));
+  }
+  return lines;
+}
+
+function renderNodes(nodes: LineageNode[], indent: string): string[] {
+  return nodes.flatMap((node, index) => {
+    const last = index === nodes.length - 1;
+    return [
+      `${indent}${last ? '└─' : '├─'} [${node.relationshipType}] ${describeLoan(node.loan)}`,
+      ...renderNodes(node.children, `${indent}${last ? '   ' : '│  '}`),
+    ];
+  });
+}
+
+function describeLoan(loan: Loan): string {
+  return `${loan.lenderName} - ${formatCurrency(loan.amount, loan.currency)} due ${formatDate(loan.repaymentDate)}${loan.supersededBy ? ' (closed)' : ''}`;
+}
@@ -0,0 +1,130 @@
+import { Loan, LoanDataFile } from '../interfaces/loan.interface';
+import { LoanCategory, LoanDirection, LoanPriority } from '../types/loan.types';
+
+export interface DataMigration {
+  version: number; // Schema version the data is at once this step has run
+  description: string;
+  migrate(loan: Loan, now: string): Loan;
+}
+
+export interface MigrationStep {
+  version: number;
+  description: string;
+  loansChanged: number;
+}
+
+export interface MigrationOutcome {
+  data: LoanDataFile;
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStep[];
+}
+
+// Timestamps already recorded on a loan's own history, oldest first
+function getKnownTimestamps(loan: Loan): string[] {
+  return [
+    ...(loan.paymentHistory || []).map(payment => payment.createdAt),
+    ...(loan.rescheduleHistory || []).map(record => record.rescheduledAt),
+    ...(loan.relationships || []).map(link => link.createdAt),
+    ...(loan.collateral || []).map(item => item.createdAt),
+    ...(loan.guarantors || []).map(guarantor => guarantor.createdAt),
+    ...(loan.documents || []).map(document => document.uploadedAt),
+    loan.writeOff?.recordedAt,
+  ]
+    .filter((value): value is string => !!value && !isNaN(Date.parse(value)))
+    .sort((a, b) => Date.parse(a) - Date.parse(b));
+}
+
+// Each step upgrades one version; add new steps at the end
+export const MIGRATIONS: DataMigration[] = [
+  {
+    version: 1,
+    description: 'Wrap the loan list in a versioned envelope',
+    migrate: loan => loan,
+  },
+  {
+    version: 2,
+    description: 'Backfill createdAt and updatedAt',
+    migrate: (loan, now) => {
+      if (loan.createdAt && loan.updatedAt) return loan;
+      const known = getKnownTimestamps(loan);
+      const createdAt = loan.createdAt || known[0] || now;
+      return {
+        ...loan,
+        createdAt,
+        updatedAt: loan.updatedAt || known[known.length - 1] || createdAt,
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Backfill direction, category, priority and collateral status',
+    migrate: loan => ({
+      ...loan,
+      direction: loan.direction || LoanDirection.PAYABLE,
+      category: loan.category || LoanCategory.OTHER,
+      priority: loan.priority || LoanPriority.MEDIUM,
+      collateral: loan.collateral?.map(item => ({
+        ...item,
+        status: item.status || 'held',
+      })),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Files written before versioning are a bare array of loans
+export function detectSchemaVersion(raw: unknown): number {
+  if (Array.isArray(raw)) return 0;
+  const version = (raw as LoanDataFile | null)?.schemaVersion;
+  if (
+    typeof version === 'number' &&
+    Array.isArray((raw as LoanDataFile).loans)
+  ) {
+    return version;
+  }
+  throw new Error('Unrecognised loan data format');
+}
+
+export function migrateData(
+  raw: unknown,
+  now: string = new Date().toISOString()
+): MigrationOutcome {
+  const fromVersion = detectSchemaVersion(raw);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Loan data is at schema version ${fromVersion}, but this version of the app only supports up to ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  let loans: Loan[] = Array.isArray(raw)
+    ? (raw as Loan[])
+    : (raw as LoanDataFile).loans;
+  const steps: MigrationStep[] = [];
+
+  MIGRATIONS.filter(step => step.version > fromVersion).forEach(step => {
+    let loansChanged = 0;
+    loans = loans.map(loan => {
+      const migrated = step.migrate(loan, now);
+      if (JSON.stringify(migrated) !== JSON.stringify(loan)) loansChanged++;
+      return migrated;
+    });
+    steps.push({
+      version: step.version,
+      description: step.description,
+      loansChanged,
+    });
+  });
+
+  return {
+    data: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      updatedAt: steps.length > 0 ? now : (raw as LoanDataFile).updatedAt,
+      loans,
+    },
+    fromVersion,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    steps,
+  };
+}
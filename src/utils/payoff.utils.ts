@@ -0,0 +1,487 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  format,
+  parseISO,
+} from 'date-fns';
+import { LoanModel } from '../models/loan.model';
+import { InterestModelType, PenaltyRule } from '../types/loan.types';
+import { calculateInterest } from './interest.utils';
+import { calculatePenalty } from './penalty.utils';
+import { roundAmount } from './schedule.utils';
+
+// Projections stop after this long even if something is still owed
+export const MAX_PROJECTION_DAYS = 3653;
+
+// A payment without a loanId is shared across every loan still owing, in
+// proportion to what each owes unless an order is given
+export interface PlannedPayment {
+  date: string;
+  amount: number | 'settle'; // 'settle' pays whatever is owed that day
+  loanId?: string;
+  order?: string[]; // Loan IDs to pay off one after another
+}
+
+export interface PayoffScenario {
+  monthlyPayment?: number;
+  firstPaymentDate?: string; // Monthly payments start here, default today
+  lumpSums?: Array<{ date: string; amount: number }>;
+  settleOn?: string; // Pay off everything left on this date
+}
+
+export interface BalancePoint {
+  date: string;
+  balance: number;
+}
+
+// What a loan received on a payment day and still owed afterwards
+export interface PaymentRecord {
+  date: string;
+  amount: number;
+  balance: number;
+}
+
+export interface LoanPayoff {
+  loanId: string;
+  payoffDate?: string; // Unset when still owing at the end of the projection
+  totalPaid: number;
+  totalInterest: number;
+  totalPenalties: number;
+  remainingBalance: number;
+  payments: PaymentRecord[]; // Every payment day while the loan was owing
+}
+
+export interface PayoffProjection
+  extends Omit<LoanPayoff, 'loanId' | 'payments'> {
+  curve: BalancePoint[]; // Start, the first of each month and the payoff date
+  loans: LoanPayoff[];
+}
+
+export interface PayoffComparison {
+  current: PayoffProjection;
+  scenario: PayoffProjection;
+  savings: number; // Lower total cost of the scenario; negative if it costs more
+  daysSooner?: number; // Set when both are paid off
+}
+
+export interface PayoffOptions {
+  asOf?: Date;
+  defaultPenaltyRule?: PenaltyRule;
+}
+
+interface InterestEvent {
+  date: string;
+  amount: number;
+  scheduledPrincipal: number; // Principal the schedule expected to be owing
+}
+
+interface LoanState {
+  loan: LoanModel;
+  principal: number;
+  interest: number; // Charged and not yet paid
+  interestCharged: number;
+  entries: Array<{ dueDate: string; amount: number }>; // For penalties
+  events: InterestEvent[]; // Installment interest, scheduled loans only
+  penaltyPaid: number;
+  penaltyOwed: number;
+  totalPaid: number;
+  payments: PaymentRecord[];
+  payoffDate?: string;
+}
+
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+function createState(loan: LoanModel, asOf: Date): LoanState {
+  const today = toDay(asOf);
+  const state: LoanState = {
+    loan,
+    principal: 0,
+    interest: 0,
+    interestCharged: 0,
+    entries: loan.getDueEntries().map(entry => ({
+      ...entry,
+      dueDate: loan.getEffectiveDueDate(entry.dueDate),
+    })),
+    events: [],
+    penaltyPaid: 0,
+    penaltyOwed: 0,
+    totalPaid: 0,
+    payments: [],
+  };
+
+  if (loan.hasSchedule()) {
+    // Each open installment still owes its share of principal and interest;
+    // interest on installments not yet due is charged on the due date
+    const rows = loan
+      .getSchedule()
+      .filter(row => row.remainingAmount > 0 && row.totalAmount > 0);
+    let scheduledPrincipal = rows.reduce(
+      (sum, row) =>
+        sum + (row.principalAmount * row.remainingAmount) / row.totalAmount,
+      0
+    );
+    state.principal = scheduledPrincipal;
+    rows.forEach(row => {
+      const share = row.remainingAmount / row.totalAmount;
+      if (row.dueDate <= today) {
+        state.interest += row.interestAmount * share;
+      } else {
+        state.events.push({
+          date: row.dueDate,
+          amount: row.interestAmount * share,
+          scheduledPrincipal,
+        });
+      }
+      scheduledPrincipal -= row.principalAmount * share;
+    });
+  } else {
+    // Payments so far are taken as covering interest before principal
+    const accrued = loan.getAccruedInterest(asOf);
+    const paid = loan.getTotalPaid();
+    state.interest = Math.max(0, accrued - paid);
+    state.principal = Math.max(0, loan.amount - Math.max(0, paid - accrued));
+  }
+
+  state.interestCharged = state.interest;
+  return state;
+}
+
+// Interest for one day under the loan's model. Simple and compound interest
+// stop at the repayment date; daily accrual runs until the loan is settled.
+function accrueInterest(state: LoanState, from: string, to: string): void {
+  const { loan } = state;
+  const model = loan.interestModel;
+  if (loan.hasSchedule() || !loan.interestRate || !model?.startDate) return;
+  if (model.type === InterestModelType.FLAT) return;
+  if (to <= model.startDate) return;
+  if (model.type !== InterestModelType.DAILY_ACCRUAL) {
+    if (from >= loan.repaymentDate) return;
+  }
+
+  const start = from < model.startDate ? model.startDate : from;
+  const end =
+    model.type !== InterestModelType.DAILY_ACCRUAL && to > loan.repaymentDate
+      ? loan.repaymentDate
+      : to;
+  const base =
+    model.type === InterestModelType.COMPOUND
+      ? state.principal + state.interest
+      : state.principal;
+  const interest = calculateInterest(
+    base,
+    loan.interestRate,
+    model,
+    start,
+    end
+  );
+  state.interest += interest;
+  state.interestCharged += interest;
+}
+
+function chargeInstallmentInterest(state: LoanState, day: string): void {
+  state.events
+    .filter(event => event.date === day)
+    .forEach(event => {
+      const interest =
+        event.scheduledPrincipal > 0
+          ? event.amount *
+            Math.min(1, state.principal / event.scheduledPrincipal)
+          : 0;
+      state.interest += interest;
+      state.interestCharged += interest;
+    });
+}
+
+// Penalties follow the loan's rule on what is still overdue, as the loan
+// itself reports them, less anything waived or already paid
+function updatePenalty(
+  state: LoanState,
+  day: string,
+  defaultRule?: PenaltyRule
+): void {
+  const rule = state.loan.penaltyRule || defaultRule;
+  if (!rule) return;
+
+  const accrued = calculatePenalty(
+    state.entries,
+    rule,
+    state.loan.amount,
+    parseISO(day)
+  );
+  state.penaltyOwed = Math.max(
+    0,
+    accrued - state.loan.getWaivedPenalty() - state.penaltyPaid
+  );
+}
+
+function getOwed(state: LoanState): number {
+  return state.principal + state.interest + state.penaltyOwed;
+}
+
+// Interest first, then principal, then penalties. Returns what was used.
+function applyPayment(state: LoanState, amount: number): number {
+  let left = Math.min(amount, getOwed(state));
+  const used = left;
+
+  const toInterest = Math.min(left, state.interest);
+  state.interest -= toInterest;
+  left -= toInterest;
+  const toPrincipal = Math.min(left, state.principal);
+  state.principal -= toPrincipal;
+  left -= toPrincipal;
+  const toPenalty = Math.min(left, state.penaltyOwed);
+  state.penaltyOwed -= toPenalty;
+  state.penaltyPaid += toPenalty;
+
+  // Settle the oldest amounts due first so penalties stop on them
+  let settled = toInterest + toPrincipal;
+  state.entries.forEach(entry => {
+    const applied = Math.min(settled, entry.amount);
+    entry.amount -= applied;
+    settled -= applied;
+  });
+
+  state.totalPaid += used;
+  return used;
+}
+
+// Shared payments are split in proportion to what each loan owes
+function applySharedPayment(states: LoanState[], amount: number): void {
+  const totalOwed = states.reduce((sum, state) => sum + getOwed(state), 0);
+  if (totalOwed <= 0.005) return;
+
+  const share = Math.min(1, amount / totalOwed);
+  states.forEach(state => applyPayment(state, getOwed(state) * share));
+}
+
+// Amounts already due are covered first so no loan falls behind; the rest
+// goes to each loan in turn until it is paid off
+function applyOrderedPayment(
+  states: LoanState[],
+  amount: number,
+  order: string[],
+  day: string
+): void {
+  let left = amount;
+  states.forEach(state => {
+    const due = state.entries
+      .filter(entry => entry.dueDate <= day)
+      .reduce((sum, entry) => sum + entry.amount, state.penaltyOwed);
+    left -= applyPayment(state, Math.min(left, due));
+  });
+
+  const rank = (state: LoanState) => {
+    const index = order.indexOf(state.loan.id);
+    return index === -1 ? order.length : index;
+  };
+  [...states]
+    .sort((a, b) => rank(a) - rank(b))
+    .forEach(state => (left -= applyPayment(state, left)));
+}
+
+export function projectPayoff(
+  loans: LoanModel[],
+  payments: PlannedPayment[],
+  options: PayoffOptions = {}
+): PayoffProjection {
+  const asOf = options.asOf || new Date();
+  const states = loans
+    .filter(loan => loan.isOpen())
+    .map(loan => createState(loan, asOf));
+  const byDate = new Map<string, PlannedPayment[]>();
+  payments.forEach(payment => {
+    byDate.set(payment.date, [...(byDate.get(payment.date) || []), payment]);
+  });
+
+  const totalOwed = () =>
+    states.reduce((sum, state) => sum + getOwed(state), 0);
+  const curve: BalancePoint[] = [];
+  let previous = toDay(asOf);
+  let day = previous;
+
+  for (let offset = 0; offset <= MAX_PROJECTION_DAYS; offset++) {
+    day = toDay(addDays(asOf, offset));
+    const owing = states.filter(state => !state.payoffDate);
+
+    owing.forEach(state => {
+      if (offset > 0) accrueInterest(state, previous, day);
+      chargeInstallmentInterest(state, day);
+      updatePenalty(state, day, options.defaultPenaltyRule);
+    });
+
+    // Payments dated before today are made today
+    const due =
+      offset === 0
+        ? payments.filter(payment => payment.date <= day)
+        : byDate.get(day) || [];
+    const paidBefore = owing.map(state => state.totalPaid);
+    due.forEach(payment => {
+      const targets = payment.loanId
+        ? owing.filter(state => state.loan.id === payment.loanId)
+        : owing;
+      if (payment.amount === 'settle') {
+        targets.forEach(state => applyPayment(state, getOwed(state)));
+      } else if (payment.order) {
+        applyOrderedPayment(targets, payment.amount, payment.order, day);
+      } else {
+        applySharedPayment(targets, payment.amount);
+      }
+    });
+    owing.forEach((state, index) => {
+      updatePenalty(state, day, options.defaultPenaltyRule);
+      if (due.length === 0) return;
+      state.payments.push({
+        date: day,
+        amount: roundAmount(state.totalPaid - paidBefore[index]),
+        balance: roundAmount(getOwed(state)),
+      });
+    });
+
+    owing
+      .filter(state => getOwed(state) <= 0.005)
+      .forEach(state => (state.payoffDate = day));
+
+    if (offset === 0 || day.endsWith('-01')) {
+      curve.push({ date: day, balance: roundAmount(totalOwed()) });
+    }
+    if (states.every(state => state.payoffDate)) break;
+    previous = day;
+  }
+
+  if (curve[curve.length - 1].date !== day) {
+    curve.push({ date: day, balance: roundAmount(totalOwed()) });
+  }
+
+  const loanPayoffs = states.map(
+    (state): LoanPayoff => ({
+      loanId: state.loan.id,
+      payoffDate: state.payoffDate,
+      totalPaid: roundAmount(state.totalPaid),
+      totalInterest: roundAmount(state.interestCharged),
+      totalPenalties: roundAmount(state.penaltyPaid + state.penaltyOwed),
+      remainingBalance: roundAmount(getOwed(state)),
+      payments: state.payments,
+    })
+  );
+  const sum = (
+    field: keyof Omit<LoanPayoff, 'loanId' | 'payoffDate' | 'payments'>
+  ) => roundAmount(loanPayoffs.reduce((total, loan) => total + loan[field], 0));
+  const payoffDates = loanPayoffs.map(loan => loan.payoffDate);
+
+  return {
+    payoffDate: payoffDates.every(Boolean)
+      ? (payoffDates as string[]).sort().pop()
+      : undefined,
+    totalPaid: sum('totalPaid'),
+    totalInterest: sum('totalInterest'),
+    totalPenalties: sum('totalPenalties'),
+    remainingBalance: sum('remainingBalance'),
+    curve,
+    loans: loanPayoffs,
+  };
+}
+
+// Each amount still due is paid on its due date after grace days and
+// holidays, or today if already late; the last one clears whatever the
+// loan still owes
+export function getCurrentPlanPayments(
+  loans: LoanModel[],
+  asOf: Date = new Date()
+): PlannedPayment[] {
+  const today = toDay(asOf);
+  return loans
+    .filter(loan => loan.isOpen())
+    .flatMap(loan => {
+      const entries = loan.getDueEntries().map(entry => ({
+        ...entry,
+        dueDate: loan.getEffectiveDueDate(entry.dueDate),
+      }));
+      return entries.map(
+        (entry, index): PlannedPayment => ({
+          date: entry.dueDate < today ? today : entry.dueDate,
+          amount: index === entries.length - 1 ? 'settle' : entry.amount,
+          loanId: loan.id,
+        })
+      );
+    });
+}
+
+export function getScenarioPayments(
+  scenario: PayoffScenario,
+  asOf: Date = new Date()
+): PlannedPayment[] {
+  const payments: PlannedPayment[] = (scenario.lumpSums || []).map(lump => ({
+    ...lump,
+  }));
+
+  if (scenario.monthlyPayment && scenario.monthlyPayment > 0) {
+    const first = parseISO(scenario.firstPaymentDate || toDay(asOf));
+    const last = addDays(asOf, MAX_PROJECTION_DAYS);
+    for (let month = 0; addMonths(first, month) <= last; month++) {
+      payments.push({
+        date: toDay(addMonths(first, month)),
+        amount: scenario.monthlyPayment,
+      });
+    }
+  }
+
+  if (scenario.settleOn) {
+    payments.push({ date: scenario.settleOn, amount: 'settle' });
+  }
+  return payments;
+}
+
+export function comparePayoff(
+  loans: LoanModel[],
+  scenario: PayoffScenario,
+  options: PayoffOptions = {}
+): PayoffComparison {
+  const asOf = options.asOf || new Date();
+  const current = projectPayoff(
+    loans,
+    getCurrentPlanPayments(loans, asOf),
+    options
+  );
+  const projected = projectPayoff(
+    loans,
+    getScenarioPayments(scenario, asOf),
+    options
+  );
+  const cost = (projection: PayoffProjection) =>
+    projection.totalPaid + projection.remainingBalance;
+
+  return {
+    current,
+    scenario: projected,
+    savings: roundAmount(cost(current) - cost(projected)),
+    daysSooner:
+      current.payoffDate && projected.payoffDate
+        ? differenceInCalendarDays(
+            parseISO(current.payoffDate),
+            parseISO(projected.payoffDate)
+          )
+        : undefined,
+  };
+}
+
+// Lump sums typed as "2025-03-01 50000, 2025-06-01 20000"
+export function parseLumpSums(
+  input: string
+): Array<{ date: string; amount: number }> {
+  return input
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .map(part => {
+      const match = part.match(/^(\d{4}-\d{2}-\d{2})\s+([\d.]+)$/);
+      const amount = match ? Number(match[2]) : NaN;
+      if (!match || isNaN(parseISO(match[1]).getTime()) || !(amount > 0)) {
+        throw new Error(
+          `"${part}" should be a date and amount, e.g. 2025-03-01 50000`
+        );
+      }
+      return { date: match[1], amount };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
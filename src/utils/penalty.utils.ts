@@ -0,0 +1,56 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { PenaltyPeriod, PenaltyRule } from '../types/loan.types';
+import { formatCurrency } from './format.utils';
+
+export function getDaysOverdue(
+  dueDate: string,
+  asOf: Date = new Date()
+): number {
+  return Math.max(0, differenceInCalendarDays(asOf, parseISO(dueDate)));
+}
+
+// Penalty on amounts that are still overdue; each entry is charged separately
+export function calculatePenalty(
+  overdueEntries: Array<{ dueDate: string; amount: number }>,
+  rule: PenaltyRule,
+  principal: number,
+  asOf: Date = new Date()
+): number {
+  let penalty = overdueEntries.reduce((total, entry) => {
+    const chargeableDays = getDaysOverdue(entry.dueDate, asOf) - rule.graceDays;
+    if (chargeableDays <= 0 || entry.amount <= 0) return total;
+
+    const periods =
+      rule.ratePeriod === PenaltyPeriod.WEEK
+        ? Math.ceil(chargeableDays / 7)
+        : chargeableDays;
+    return total + rule.fixedFee + (entry.amount * rule.rate * periods) / 100;
+  }, 0);
+
+  if (rule.maxAmount !== undefined) {
+    penalty = Math.min(penalty, rule.maxAmount);
+  }
+  if (rule.maxPercent !== undefined) {
+    penalty = Math.min(penalty, (principal * rule.maxPercent) / 100);
+  }
+
+  return Math.round(penalty * 100) / 100;
+}
+
+export function formatPenaltyRule(rule?: PenaltyRule): string {
+  if (!rule) return 'No penalty';
+
+  const parts: string[] = [];
+  if (rule.fixedFee > 0) parts.push(`${formatCurrency(rule.fixedFee)} fee`);
+  if (rule.rate > 0) parts.push(`${rule.rate}% per ${rule.ratePeriod}`);
+  if (parts.length === 0) return 'No penalty';
+
+  let description = `${parts.join(' + ')} after ${rule.graceDays} grace day${rule.graceDays === 1 ? '' : 's'}`;
+  if (rule.maxAmount !== undefined) {
+    description += `, capped at ${formatCurrency(rule.maxAmount)}`;
+  }
+  if (rule.maxPercent !== undefined) {
+    description += `, capped at ${rule.maxPercent}% of principal`;
+  }
+  return description;
+}
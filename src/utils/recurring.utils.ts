@@ -0,0 +1,106 @@
+import { Loan } from '../interfaces/loan.interface';
+import {
+  InstallmentFrequency,
+  LoanDirection,
+  RecurringLoan,
+  RecurringOccurrence,
+} from '../types/loan.types';
+import { addPeriods, shiftDate } from './schedule.utils';
+
+// Dates are counted from the start so month-end series do not drift
+export function getOccurrenceDate(
+  series: RecurringLoan,
+  index: number
+): string {
+  return addPeriods(series.startDate, series.frequency, index);
+}
+
+export function isPastSeriesEnd(series: RecurringLoan, index: number): boolean {
+  if (series.occurrenceCount !== undefined && index >= series.occurrenceCount) {
+    return true;
+  }
+  return !!series.endDate && getOccurrenceDate(series, index) > series.endDate;
+}
+
+function toOccurrence(
+  series: RecurringLoan,
+  index: number
+): RecurringOccurrence {
+  const date = getOccurrenceDate(series, index);
+  return {
+    recurringId: series.id,
+    name: series.name,
+    index,
+    date,
+    repaymentDate: shiftDate(date, series.termDays),
+    amount: series.amount,
+    currency: series.currency,
+    skipped: series.skippedDates.includes(date),
+  };
+}
+
+// Occurrences not yet handled whose date has arrived by asOf (yyyy-MM-dd)
+export function getDueOccurrences(
+  series: RecurringLoan,
+  asOf: string
+): RecurringOccurrence[] {
+  const due: RecurringOccurrence[] = [];
+  for (
+    let index = series.nextOccurrence;
+    !isPastSeriesEnd(series, index) && getOccurrenceDate(series, index) <= asOf;
+    index++
+  ) {
+    due.push(toOccurrence(series, index));
+  }
+  return due;
+}
+
+// The next `count` occurrences still to come, skipped ones included
+export function getUpcomingOccurrences(
+  series: RecurringLoan,
+  count: number
+): RecurringOccurrence[] {
+  const upcoming: RecurringOccurrence[] = [];
+  for (
+    let index = series.nextOccurrence;
+    upcoming.length < count && !isPastSeriesEnd(series, index);
+    index++
+  ) {
+    upcoming.push(toOccurrence(series, index));
+  }
+  return upcoming;
+}
+
+export function buildRecurringLoanData(
+  series: RecurringLoan,
+  occurrence: RecurringOccurrence
+): Omit<Loan, 'id' | 'isPaid'> {
+  return {
+    direction: series.direction || LoanDirection.PAYABLE,
+    lenderName: series.lenderName,
+    phoneNumber: series.phoneNumber,
+    amount: series.amount,
+    currency: series.currency,
+    repaymentDate: occurrence.repaymentDate,
+    interestRate: series.interestRate,
+    interestModel: series.interestModel
+      ? { ...series.interestModel, startDate: occurrence.date }
+      : undefined,
+    category: series.category,
+    priority: series.priority,
+    tags: series.tags,
+    notes: `${series.name} #${occurrence.index + 1} (${occurrence.date})`,
+    recurringId: series.id,
+  };
+}
+
+export function formatFrequency(frequency: InstallmentFrequency): string {
+  switch (frequency) {
+    case InstallmentFrequency.WEEKLY:
+      return 'Weekly';
+    case InstallmentFrequency.BI_WEEKLY:
+      return 'Bi-weekly';
+    default:
+      return 'Monthly';
+  }
+}
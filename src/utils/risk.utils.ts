@@ -0,0 +1,210 @@
+import { LoanModel } from '../models/loan.model';
+import { RiskLevel, RiskThresholds } from '../types/loan.types';
+import { normalizeContactName } from './contact.utils';
+import { CurrencyConverter } from './currency.utils';
+
+// Points each factor adds to a score out of 100
+export const RISK_WEIGHTS = {
+  daysOverdue: 40,
+  relativeAmount: 15,
+  counterpartyHistory: 20,
+  interestBurden: 15,
+  reschedules: 10,
+};
+
+export type RiskFactor = keyof typeof RISK_WEIGHTS;
+
+export const DEFAULT_RISK_THRESHOLDS: RiskThresholds = {
+  lowRisk: 25,
+  mediumRisk: 50,
+  highRisk: 75,
+};
+
+export const RISK_LEVEL_ORDER: RiskLevel[] = [
+  RiskLevel.LOW,
+  RiskLevel.MEDIUM,
+  RiskLevel.HIGH,
+  RiskLevel.CRITICAL,
+];
+
+export interface LoanRisk {
+  score: number; // 0-100
+  level: RiskLevel;
+  factors: Record<RiskFactor, number>; // Points contributed by each factor
+}
+
+export interface RiskContext {
+  asOf: Date;
+  averageOutstanding: number; // Across open loans, in the reporting currency
+  // Settled or overdue loans of each counterparty, and whether they went badly
+  outcomes: Map<string, Array<{ loanId: string; bad: boolean }>>;
+  convert: (loan: LoanModel) => number; // Outstanding in the reporting currency
+}
+
+// Contact when linked, otherwise the last ten digits of the phone number,
+// or the name for loans without one
+export function getCounterpartyKey(loan: LoanModel): string {
+  if (loan.contactId) return loan.contactId;
+  const digits = (loan.phoneNumber || '').replace(/\D/g, '').slice(-10);
+  return digits || `name:${normalizeContactName(loan.lenderName)}`;
+}
+
+// Written off, still overdue or settled after the due date count against the
+// counterparty; loans that are not yet due say nothing either way
+function getOutcome(loan: LoanModel): boolean | undefined {
+  if (loan.isSuperseded()) return undefined;
+  if (loan.isWrittenOff() || loan.isOverdue()) return true;
+  if (!loan.isPaid) return undefined;
+
+  const payments = loan.paymentHistory || [];
+  const paidOn = payments.length
+    ? payments[payments.length - 1].paymentDate
+    : undefined;
+  return (
+    !!paidOn &&
+    paidOn.split('T')[0] > loan.getEffectiveDueDate(loan.repaymentDate)
+  );
+}
+
+export function buildRiskContext(
+  loans: LoanModel[],
+  converter?: CurrencyConverter,
+  asOf: Date = new Date()
+): RiskContext {
+  const convert = (loan: LoanModel) =>
+    converter
+      ? converter.convert(loan.getOutstandingBalance(), loan.currency)
+      : loan.getOutstandingBalance();
+
+  const open = loans.filter(loan => loan.isOpen());
+  const outcomes = new Map<string, Array<{ loanId: string; bad: boolean }>>();
+  loans.forEach(loan => {
+    const bad = getOutcome(loan);
+    if (bad === undefined) return;
+    const key = getCounterpartyKey(loan);
+    outcomes.set(key, [...(outcomes.get(key) || []), { loanId: loan.id, bad }]);
+  });
+
+  return {
+    asOf,
+    averageOutstanding: open.length
+      ? open.reduce((sum, loan) => sum + convert(loan), 0) / open.length
+      : 0,
+    outcomes,
+    convert,
+  };
+}
+
+export function getRiskLevel(
+  score: number,
+  thresholds: RiskThresholds
+): RiskLevel {
+  if (score <= thresholds.lowRisk) return RiskLevel.LOW;
+  if (score <= thresholds.mediumRisk) return RiskLevel.MEDIUM;
+  if (score <= thresholds.highRisk) return RiskLevel.HIGH;
+  return RiskLevel.CRITICAL;
+}
+
+// Each factor is scaled to 0-1 before weighting; closed loans carry no risk
+export function scoreLoanRisk(
+  loan: LoanModel,
+  context: RiskContext,
+  thresholds: RiskThresholds
+): LoanRisk {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const scaled: Record<RiskFactor, number> = {
+    daysOverdue: 0,
+    relativeAmount: 0,
+    counterpartyHistory: 0,
+    interestBurden: 0,
+    reschedules: 0,
+  };
+
+  if (loan.isOpen()) {
+    // Full weight at 90 days
+    scaled.daysOverdue = clamp(loan.getDaysOverdue(context.asOf) / 90);
+    // Nothing at or below the average open balance, full weight at 3x
+    scaled.relativeAmount =
+      context.averageOutstanding > 0
+        ? clamp((context.convert(loan) / context.averageOutstanding - 1) / 2)
+        : 0;
+    // Share of the counterparty's other settled or overdue loans that went badly
+    const history = (
+      context.outcomes.get(getCounterpartyKey(loan)) || []
+    ).filter(outcome => outcome.loanId !== loan.id);
+    scaled.counterpartyHistory = history.length
+      ? history.filter(outcome => outcome.bad).length / history.length
+      : 0;
+    // Full weight once interest reaches half the principal
+    scaled.interestBurden =
+      loan.amount > 0 ? clamp(loan.calculateInterest() / loan.amount / 0.5) : 0;
+    // Full weight at three reschedules
+    scaled.reschedules = clamp(loan.getRescheduleCount() / 3);
+  }
+
+  const factors = Object.fromEntries(
+    (Object.keys(RISK_WEIGHTS) as RiskFactor[]).map(factor => [
+      factor,
+      Math.round(scaled[factor] * RISK_WEIGHTS[factor] * 10) / 10,
+    ])
+  ) as Record<RiskFactor, number>;
+  const score = Math.round(
+    Object.values(factors).reduce((sum, points) => sum + points, 0)
+  );
+
+  return { score, level: getRiskLevel(score, thresholds), factors };
+}
+
+// Risk of every loan, keyed by loan ID
+export function assessLoanRisks(
+  loans: LoanModel[],
+  thresholds: RiskThresholds,
+  converter?: CurrencyConverter,
+  asOf: Date = new Date()
+): Map<string, LoanRisk> {
+  const context = buildRiskContext(loans, converter, asOf);
+  return new Map(
+    loans.map(loan => [loan.id, scoreLoanRisk(loan, context, thresholds)])
+  );
+}
+
+// Highest risk first, then highest score
+export function compareLoanRisk(a?: LoanRisk, b?: LoanRisk): number {
+  return (
+    RISK_LEVEL_ORDER.indexOf(b?.level || RiskLevel.LOW) -
+      RISK_LEVEL_ORDER.indexOf(a?.level || RiskLevel.LOW) ||
+    (b?.score || 0) - (a?.score || 0)
+  );
+}
+
+export function validateRiskThresholds(
+  thresholds: RiskThresholds
+): string | undefined {
+  const { lowRisk, mediumRisk, highRisk } = thresholds;
+  if ([lowRisk, mediumRisk, highRisk].some(value => value < 0 || value > 100)) {
+    return 'Risk thresholds must be between 0 and 100';
+  }
+  if (!(lowRisk < mediumRisk && mediumRisk < highRisk)) {
+    return 'Risk thresholds must increase from low to high';
+  }
+  return undefined;
+}
+
+export function formatRiskLevel(level: RiskLevel): string {
+  return level.charAt(0).toUpperCase() + level.slice(1);
+}
+
+export function formatRiskFactor(factor: RiskFactor): string {
+  switch (factor) {
+    case 'daysOverdue':
+      return 'Days overdue';
+    case 'relativeAmount':
+      return 'Size vs portfolio';
+    case 'counterpartyHistory':
+      return 'Repayment history';
+    case 'interestBurden':
+      return 'Interest burden';
+    case 'reschedules':
+      return 'Reschedules';
+  }
+}
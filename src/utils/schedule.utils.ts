@@ -0,0 +1,119 @@
+import { addDays, addMonths, addWeeks, format, parseISO } from 'date-fns';
+import {
+  InstallmentFrequency,
+  InstallmentPlan,
+  LoanSchedule,
+  PaymentRecord,
+  ScheduleMethod,
+} from '../types/loan.types';
+
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function addPeriods(
+  date: string,
+  frequency: InstallmentFrequency,
+  periods: number
+): string {
+  const start = parseISO(date);
+  const due =
+    frequency === InstallmentFrequency.MONTHLY
+      ? addMonths(start, periods)
+      : addWeeks(
+          start,
+          periods * (frequency === InstallmentFrequency.BI_WEEKLY ? 2 : 1)
+        );
+  return format(due, 'yyyy-MM-dd');
+}
+
+export function shiftDate(date: string, days: number): string {
+  return format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+}
+
+// ratePerPeriod is the interest percentage charged for each installment period
+export function generateSchedule(
+  loanId: string,
+  amount: number,
+  ratePerPeriod: number,
+  plan: InstallmentPlan
+): LoanSchedule[] {
+  const count = Math.max(1, Math.floor(plan.termCount));
+  const rate = ratePerPeriod / 100;
+  const rows: LoanSchedule[] = [];
+
+  const equalPayment =
+    rate === 0 ? amount / count : (amount * rate) / (1 - (1 + rate) ** -count);
+  let balance = amount;
+
+  for (let n = 1; n <= count; n++) {
+    let interest: number;
+    let principal: number;
+
+    if (plan.method === ScheduleMethod.FLAT_INTEREST) {
+      interest = roundAmount(amount * rate);
+      principal = roundAmount(amount / count);
+    } else {
+      interest = roundAmount(balance * rate);
+      principal = roundAmount(equalPayment - interest);
+    }
+
+    // The final installment absorbs rounding differences
+    if (n === count) {
+      principal = roundAmount(balance);
+    }
+    balance = roundAmount(balance - principal);
+
+    const total = roundAmount(principal + interest);
+    rows.push({
+      id: `${loanId}-${n}`,
+      loanId,
+      installmentNumber: n,
+      dueDate: addPeriods(plan.startDate, plan.frequency, n),
+      principalAmount: principal,
+      interestAmount: interest,
+      totalAmount: total,
+      paidAmount: 0,
+      remainingAmount: total,
+      status: 'pending',
+    });
+  }
+
+  return rows;
+}
+
+// Spread recorded payments over installments, oldest installment first
+export function allocatePayments(
+  schedule: LoanSchedule[],
+  payments: PaymentRecord[]
+): LoanSchedule[] {
+  const queue = [...payments]
+    .sort(
+      (a, b) =>
+        new Date(a.paymentDate).getTime() - new Date(b.paymentDate).getTime()
+    )
+    .map(payment => ({ ...payment }));
+
+  return schedule.map((row): LoanSchedule => {
+    let paid = 0;
+    let paidDate: string | undefined;
+
+    while (paid < row.totalAmount && queue.length > 0) {
+      const payment = queue[0];
+      const applied = Math.min(payment.amount, row.totalAmount - paid);
+      paid = roundAmount(paid + applied);
+      payment.amount = roundAmount(payment.amount - applied);
+      paidDate = payment.paymentDate;
+      if (payment.amount <= 0) queue.shift();
+    }
+
+    const remaining = roundAmount(row.totalAmount - paid);
+    return {
+      ...row,
+      paidAmount: paid,
+      remainingAmount: remaining,
+      status: remaining === 0 ? 'paid' : paid > 0 ? 'partial' : 'pending',
+      paidDate: remaining === 0 ? paidDate : undefined,
+    };
+  });
+}
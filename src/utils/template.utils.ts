@@ -0,0 +1,55 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Loan } from '../interfaces/loan.interface';
+import { LoanTemplate, TemplateDetails } from '../types/loan.types';
+import { formatCurrency } from './format.utils';
+
+export function getTemplateDueDate(
+  defaultDays: number,
+  from: Date = new Date()
+): string {
+  return format(addDays(from, defaultDays), 'yyyy-MM-dd');
+}
+
+// Days between when the loan was recorded and when it was first due
+export function getLoanTermDays(loan: Loan): number | undefined {
+  if (!loan.createdAt) return undefined;
+  const days = differenceInCalendarDays(
+    parseISO(loan.originalRepaymentDate || loan.repaymentDate),
+    parseISO(loan.createdAt)
+  );
+  return days > 0 ? days : undefined;
+}
+
+export function buildTemplateFromLoan(
+  loan: Loan,
+  name: string
+): TemplateDetails {
+  return {
+    name,
+    direction: loan.direction,
+    lenderName: loan.lenderName,
+    phoneNumber: loan.phoneNumber,
+    amount: loan.amount,
+    currency: loan.currency,
+    interestRate: loan.interestRate,
+    defaultDays: getLoanTermDays(loan),
+    category: loan.category,
+    priority: loan.priority,
+    tags: loan.tags,
+  };
+}
+
+export function formatTemplateTerms(template: LoanTemplate): string {
+  const parts = [
+    template.amount !== undefined
+      ? formatCurrency(template.amount, template.currency)
+      : 'Any amount',
+    template.interestRate ? `at ${template.interestRate}%` : 'interest-free',
+  ];
+  if (template.defaultDays) {
+    parts.push(
+      `for ${template.defaultDays} day${template.defaultDays === 1 ? '' : 's'}`
+    );
+  }
+  return parts.join(' ');
+}